@@ -1,4 +1,4 @@
-import Arc, { Address, DAO, IProposalCreateOptions, IProposalOutcome, ITransactionState, ITransactionUpdate, ReputationFromTokenScheme, Scheme, CL4RScheme, Token } from "@daostack/arc.js";
+import Arc, { Address, Auction4ReputationScheme, DAO, IBatchFailurePolicy, IndexingTimeoutError, IBatchUpdate, IProposalCreateOptions, IProposalOutcome, ITransactionState, ITransactionUpdate, ReputationFromTokenScheme, Scheme, CL4RScheme, Locking4ReputationScheme, Token } from "@daostack/arc.js";
 import { IAsyncAction } from "@store/async";
 import { toWei, getArcByDAOAddress } from "lib/util";
 import { IRedemptionState } from "lib/proposalHelpers";
@@ -7,6 +7,7 @@ import { NotificationStatus, showNotification } from "@store/notifications/notif
 import * as Redux from "redux";
 import { ThunkAction } from "redux-thunk";
 import BN from "bn.js";
+import { first } from "rxjs/operators";
 
 export type CreateProposalAction = IAsyncAction<"ARC_CREATE_PROPOSAL", { avatarAddress: string }, any>;
 
@@ -14,13 +15,33 @@ export type CreateProposalAction = IAsyncAction<"ARC_CREATE_PROPOSAL", { avatarA
  * // @ts-ignore
  * transaction.send().observer(...operationNotifierObserver(dispatch, "Whatever"))
  */
-export const operationNotifierObserver = (dispatch: Redux.Dispatch<any, any>, txDescription = "", onSuccess?: any, onError?: any): [(update: ITransactionUpdate<any>) => void, (err: Error) => void] => {
+export const operationNotifierObserver = (dispatch: Redux.Dispatch<any, any>, txDescription = "", onSuccess?: any, onError?: any, onIndexed?: () => void): [(update: ITransactionUpdate<any>) => void, (err: Error) => void] => {
   return [
     (update: ITransactionUpdate<any>) => {
       let msg: string;
       if (update.state === ITransactionState.Sent) {
         msg = `${txDescription} transaction sent! Please wait for it to be processed`;
         dispatch(showNotification(NotificationStatus.Success, msg));
+      } else if (update.state === ITransactionState.Replaced) {
+        msg = `${txDescription} transaction sped up! Please wait for it to be processed`;
+        dispatch(showNotification(NotificationStatus.Success, msg));
+      } else if (update.state === ITransactionState.Cancelled) {
+        msg = `${txDescription} transaction is being cancelled`;
+        dispatch(showNotification(NotificationStatus.Success, msg));
+      } else if (update.state === ITransactionState.Dropped) {
+        msg = `${txDescription} transaction was dropped by the network and will not be processed`;
+        dispatch(showNotification(NotificationStatus.Failure, msg));
+        if (onError) {
+          onError();
+        }
+      } else if (update.state === ITransactionState.Reorged) {
+        msg = `${txDescription} transaction was removed from the chain by a reorganisation, waiting for it to be processed again`;
+        dispatch(showNotification(NotificationStatus.Failure, msg));
+      } else if (update.state === ITransactionState.Indexed) {
+        // only operations created with `withIndexing()` send this update
+        if (onIndexed) {
+          onIndexed();
+        }
       } else if (update.confirmations === 0) {
         msg = `${txDescription} transaction processed successfully`;
         dispatch(showNotification(NotificationStatus.Success, msg));
@@ -33,6 +54,14 @@ export const operationNotifierObserver = (dispatch: Redux.Dispatch<any, any>, tx
       }
     },
     (err: Error) => {
+      if (err instanceof IndexingTimeoutError) {
+        // the transaction was mined, only the subgraph lags behind
+        const msg = `${txDescription} transaction processed successfully, but the data shown may be out of date until the subgraph catches up`;
+        // eslint-disable-next-line no-console
+        console.warn(`${txDescription}: ${err.message}`);
+        dispatch(showNotification(NotificationStatus.Success, msg));
+        return;
+      }
       const msg = `${txDescription}: transaction failed :-( - ${err.message}`;
       // eslint-disable-next-line no-console
       console.warn(msg);
@@ -44,6 +73,20 @@ export const operationNotifierObserver = (dispatch: Redux.Dispatch<any, any>, tx
   ];
 };
 
+/**
+ * Refetch the proposal and its DAO from the subgraph, so that the components that show them are updated.
+ * Pass it as `onIndexed` of an operation created with `withIndexing()`, to refresh the data as soon as the
+ * subgraph has processed the transaction (instead of on the next poll)
+ */
+const refreshProposal = (arc: Arc, daoAvatarAddress: string, proposalId: string) => (): void => {
+  const refetch = (observable: any) => observable.pipe(first()).toPromise().catch((err: Error) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Could not refresh proposal ${proposalId}: ${err.message}`);
+  });
+  refetch(arc.proposal(proposalId).state({ fetchPolicy: "network-only", subscribe: false }));
+  refetch(arc.dao(daoAvatarAddress).state({ fetchPolicy: "network-only", subscribe: false }));
+};
+
 export function createProposal(proposalOptions: IProposalCreateOptions, daoAvatarAddress: string): ThunkAction<any, IRootState, null> {
   return async (dispatch: Redux.Dispatch<any, any>, _getState: () => IRootState) => {
     try {
@@ -108,8 +151,8 @@ export function voteOnProposal(daoAvatarAddress: string, proposalId: string, vot
   return async (dispatch: Redux.Dispatch<any, any>, _getState: () => IRootState) => {
     const arc = getArcByDAOAddress(daoAvatarAddress);
     const proposalObj = await arc.dao(daoAvatarAddress).proposal(proposalId);
-    const observer = operationNotifierObserver(dispatch, "Vote");
-    await proposalObj.vote(voteOption).subscribe(...observer);
+    const observer = operationNotifierObserver(dispatch, "Vote", undefined, undefined, refreshProposal(arc, daoAvatarAddress, proposalId));
+    await proposalObj.vote(voteOption).withIndexing().subscribe(...observer);
   };
 }
 
@@ -128,8 +171,8 @@ export function stakeProposal(daoAvatarAddress: string, proposalId: string, pred
   return async (dispatch: Redux.Dispatch<any, any>, ) => {
     const arc = getArcByDAOAddress(daoAvatarAddress);
     const proposalObj = await arc.dao(daoAvatarAddress).proposal(proposalId);
-    const observer = operationNotifierObserver(dispatch, "Stake");
-    await proposalObj.stake(prediction, toWei(stakeAmount)).subscribe(...observer);
+    const observer = operationNotifierObserver(dispatch, "Stake", undefined, undefined, refreshProposal(arc, daoAvatarAddress, proposalId));
+    await proposalObj.stake(prediction, toWei(stakeAmount)).withIndexing().subscribe(...observer);
   };
 }
 
@@ -159,8 +202,34 @@ export function redeemProposal(daoAvatarAddress: string, proposalId: string, acc
   return async (dispatch: Redux.Dispatch<any, any>) => {
     const arc = getArcByDAOAddress(daoAvatarAddress);
     const proposalObj = await arc.dao(daoAvatarAddress).proposal(proposalId);
-    const observer = operationNotifierObserver(dispatch, "Reward");
-    await proposalObj.claimRewards(accountAddress).subscribe(...observer);
+    const observer = operationNotifierObserver(dispatch, "Reward", undefined, undefined, refreshProposal(arc, daoAvatarAddress, proposalId));
+    await proposalObj.claimRewards(accountAddress).withIndexing().subscribe(...observer);
+  };
+}
+
+/**
+ * redeem the rewards of several proposals, sending the transactions one after the other.
+ * Each proposal is refreshed once the subgraph has indexed its redemption.
+ * All proposals must be on the same network
+ */
+export function redeemProposals(proposals: Array<{ daoAvatarAddress: string; proposalId: string }>, accountAddress: string) {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    if (proposals.length === 0) {
+      return;
+    }
+    const arc = getArcByDAOAddress(proposals[0].daoAvatarAddress);
+    const observers = proposals.map(({ daoAvatarAddress, proposalId }, index) => operationNotifierObserver(
+      dispatch, `Reward ${index + 1} of ${proposals.length}`, undefined, undefined, refreshProposal(arc, daoAvatarAddress, proposalId)));
+    const operations = proposals.map(({ daoAvatarAddress, proposalId }) =>
+      arc.dao(daoAvatarAddress).proposal(proposalId).claimRewards(accountAddress).withIndexing());
+    arc.batch(operations, { onFailure: IBatchFailurePolicy.Continue }).subscribe((batchUpdate: IBatchUpdate) => {
+      const [next, error] = observers[batchUpdate.index];
+      if (batchUpdate.error) {
+        error(batchUpdate.error);
+      } else if (batchUpdate.update) {
+        next(batchUpdate.update);
+      }
+    });
   };
 }
 
@@ -283,6 +352,88 @@ export const redeemLocking = (cl4rScheme: CL4RScheme, beneficiary: string, locki
   };
 };
 
+/**
+ * Bids tokens in the running auction of an Auction4Reputation scheme
+ * @param {Auction4ReputationScheme} auction4Reputation
+ * @param {BN} amount
+ * @param {number} auctionId
+ * @param {string} agreementHash
+ * @param {function} setIsBidding
+ */
+export const bidInAuction = (auction4Reputation: Auction4ReputationScheme, amount: BN, auctionId: number, agreementHash: string, setIsBidding: any) => {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    setIsBidding(true);
+    const observer = operationNotifierObserver(dispatch, "Bid", () => setIsBidding(false), () => setIsBidding(false));
+    auction4Reputation.bid(amount, auctionId, agreementHash).subscribe(...observer);
+  };
+};
+
+/**
+ * Redeems the reputation of an auction in an Auction4Reputation scheme
+ * @param {Auction4ReputationScheme} auction4Reputation
+ * @param {string} beneficiary
+ * @param {number} auctionId
+ * @param {function} setIsRedeeming
+ */
+export const redeemAuction = (auction4Reputation: Auction4ReputationScheme, beneficiary: string, auctionId: number, setIsRedeeming: any) => {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    setIsRedeeming(true);
+    const observer = operationNotifierObserver(dispatch, "Redeem Auction", () => setIsRedeeming(false), () => setIsRedeeming(false));
+    auction4Reputation.redeem(beneficiary, auctionId).subscribe(...observer);
+  };
+};
+
+/**
+ * Locks ETH or tokens in a Locking4Reputation scheme, or claims the external locks of an ExternalLocking4Reputation
+ * @param {Locking4ReputationScheme} locking4Reputation
+ * @param {string} schemeName
+ * @param {BN} amount
+ * @param {number} period in seconds
+ * @param {string} agreementHash
+ * @param {string} beneficiaryOrToken the token to lock, or the beneficiary of the claim
+ * @param {function} setIsLocking
+ */
+export const lockForReputation = (locking4Reputation: Locking4ReputationScheme, schemeName: string, amount: BN, period: number, agreementHash: string, beneficiaryOrToken: string, setIsLocking: any) => {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    setIsLocking(true);
+    const isClaim = schemeName === "ExternalLocking4Reputation";
+    const observer = operationNotifierObserver(dispatch, isClaim ? "Claim" : "Lock", () => setIsLocking(false), () => setIsLocking(false));
+    (isClaim ?
+      locking4Reputation.claim(beneficiaryOrToken, agreementHash) :
+      locking4Reputation.lock(amount, period, agreementHash, beneficiaryOrToken)
+    ).subscribe(...observer);
+  };
+};
+
+/**
+ * Releases a lock in a Locking4Reputation scheme
+ * @param {Locking4ReputationScheme} locking4Reputation
+ * @param {string} beneficiary
+ * @param {string} lockingId
+ * @param {function} setIsReleasing
+ */
+export const releaseLockForReputation = (locking4Reputation: Locking4ReputationScheme, beneficiary: string, lockingId: string, setIsReleasing: any) => {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    setIsReleasing(true);
+    const observer = operationNotifierObserver(dispatch, "Release Locking", () => setIsReleasing(false), () => setIsReleasing(false));
+    locking4Reputation.release(beneficiary, lockingId).subscribe(...observer);
+  };
+};
+
+/**
+ * Redeems the reputation of all the locks of a beneficiary in a Locking4Reputation scheme
+ * @param {Locking4ReputationScheme} locking4Reputation
+ * @param {string} beneficiary
+ * @param {function} setIsRedeeming
+ */
+export const redeemLockingReputation = (locking4Reputation: Locking4ReputationScheme, beneficiary: string, setIsRedeeming: any) => {
+  return async (dispatch: Redux.Dispatch<any, any>) => {
+    setIsRedeeming(true);
+    const observer = operationNotifierObserver(dispatch, "Redeem Locking", () => setIsRedeeming(false), () => setIsRedeeming(false));
+    locking4Reputation.redeem(beneficiary).subscribe(...observer);
+  };
+};
+
 /**
  * A generic function to approve spending of a token in a scheme.
  * The default allowance is 100,000 tokens.
@@ -3,7 +3,8 @@ import { getNetworkId, getNetworkName, targetedNetwork, targetNetworks, Networks
 import { settings } from "./settings";
 import { Address, Arc } from "@daostack/arc.js";
 import Web3Modal, { getProviderInfo, IProviderInfo } from "web3modal";
-import { Observable } from "rxjs";
+import { BehaviorSubject, from, Observable, of } from "rxjs";
+import { concatMap, filter, map, switchMap } from "rxjs/operators";
 import gql from "graphql-tag";
 
 const Web3 = require("web3");
@@ -14,11 +15,20 @@ const MAX_BATCH_QUERY = 1000;
  * It is like window.ethereum, but has not necessarily been injected as such.
  */
 let selectedProvider: any;
+/**
+ * emits the selected provider each time it changes
+ */
+const selectedProviderChanges = new BehaviorSubject<any>(undefined);
 // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
 // @ts-ignore
 let web3Modal: Web3Modal;
 let initializedAccount: Address;
 
+function selectProvider(provider: any): void {
+  selectedProvider = provider;
+  selectedProviderChanges.next(provider);
+}
+
 interface IDAO {
   id: string;
   name: string;
@@ -169,7 +179,13 @@ export async function initializeArc(network: Networks, provider?: any): Promise<
       arc.web3 = new Web3(provider);
     }
     else {
+      // the call cache only learns of new blocks (after which it drops its results) over a websocket
+      arcSettings.callCache = arcSettings.callCache && /^wss?:\/\//.test(arcSettings.web3ProviderRead);
       arc = new Arc(arcSettings);
+      if (arc.cachePersistor) {
+        // show what we fetched in an earlier session while the subgraph is queried again
+        await arc.cachePersistor.restore();
+      }
     }
 
     let contractInfos;
@@ -181,6 +197,17 @@ export async function initializeArc(network: Networks, provider?: any): Promise<
       console.error(`Error fetching contractinfos: ${err.message}`);
     }
 
+    if (contractInfos) {
+      try {
+        // the providers, the subgraph and the contracts must all be on the chain of the network
+        await arc.verifyChain();
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error(`Arc is not connected to ${network}: ${err.message}`);
+        contractInfos = undefined;
+      }
+    }
+
     const daos = await getAllDaos(arc);
 
     if (daos !== undefined) {
@@ -232,12 +259,11 @@ export async function initializeArc(network: Networks, provider?: any): Promise<
 
 
 /**
- * Checks if the web3 provider is set to the required network.
+ * Checks if the web3 provider is connected to the chain of the required network.
  * Does not ensure we have access to the user's account.
  * throws an Error if no provider or wrong provider
  * @param provider web3Provider
- * @return the expected network nameif not correct
-*/
+ */
 async function ensureCorrectNetwork(provider: any, network?: Networks): Promise<void> {
 
   /**
@@ -245,19 +271,11 @@ async function ensureCorrectNetwork(provider: any, network?: Networks): Promise<
    */
   const expectedNetworkNames = network?[network]: targetNetworks();
 
-  // TODO: we should not use the network NAME but the network ID to identify the network...
-  const networkName = await getProviderNetworkName(provider);
+  const chainId = Number(await new Web3(provider).eth.getChainId());
 
-  if (!expectedNetworkNames.includes(networkName as Networks)) {
-    if (expectedNetworkNames.includes("xdai")) {
-      // TODO: xdai is reporting network 'unknown (100)` , it seems
-      if (networkName === "unknown (100)") {
-        // we are fine, mayby
-        return;
-      }
-    }
+  if (!expectedNetworkNames.some((expectedNetwork: Networks) => getArcSettings(expectedNetwork).chainId === chainId)) {
     // eslint-disable-next-line no-console
-    console.error(`connected to the wrong network, should be ${expectedNetworkNames} (instead of "${networkName}")`);
+    console.error(`connected to the wrong network (chain ${chainId}), should be ${expectedNetworkNames}`);
     throw new Error(`Please connect your wallet provider to ${(expectedNetworkNames as Array<any>).join(" or ")}`);
   }
 }
@@ -304,7 +322,7 @@ function inTesting(): boolean {
     // in test mode, we have an unlocked ganache and we are not using any wallet
     // eslint-disable-next-line no-console
     console.log("not using any wallet, because we are in automated test");
-    selectedProvider = new Web3(settings.ganache.web3Provider);
+    selectProvider(new Web3(settings.ganache.web3Provider));
     return true;
   }
   return false;
@@ -411,24 +429,7 @@ async function enableWeb3Provider(network?: Networks): Promise<void> {
     throw new Error("Unable to initialize Arc");
   }
 
-  // eslint-disable-next-line require-atomic-updates
-  selectedProvider = provider;
-}
-
-/**
- * @return the current account address from Arc. Ignores any injected
- * account unless Arc knows about the provider.
- */
-async function getCurrentAccountFromProvider(): Promise<Address | null> {
-  if (!selectedProvider) {
-    /**
-     * though an account may actually be available via injection, we're not going
-     * to return it. The flow needs to start from a selected provider first,
-     * only then the current account.
-     */
-    return null;
-  }
-  return _getCurrentAccountFromProvider(await getNetworkName(selectedProvider.chainId));
+  selectProvider(provider);
 }
 
 /**
@@ -444,8 +445,7 @@ export async function logout(showNotification?: any): Promise<boolean> {
   if (selectedProvider) {
     // clearing this, initializeArc will be made to use the default readonly web3Provider
     const networkName = await getNetworkName(selectedProvider.chainId);
-    // eslint-disable-next-line require-atomic-updates
-    selectedProvider = undefined;
+    selectProvider(undefined);
 
     success = await initializeArc(networkName);
 
@@ -494,7 +494,7 @@ export async function enableWalletProvider(options: IEnableWalletProviderParams,
      * Note we're going to ignore any injected web3 in favor of using our own preferred version of Web3.
      */
     if (!selectedProvider && (targetedNetwork() === "ganache" && !(window as any).ethereum)) {
-      selectedProvider = new Web3(settings.ganache.web3Provider);
+      selectProvider(new Web3(settings.ganache.web3Provider));
     }
 
     if (!selectedProvider) {
@@ -541,52 +541,48 @@ export async function enableWalletProvider(options: IEnableWalletProviderParams,
   return true;
 }
 
-// Polling is Evil!
-// TO DO: See https://github.com/daostack/alchemy/issues/2295.
-export function pollForAccountChanges(currentAccountAddress: Address | null, interval = 2000): Observable<Address> {
+/**
+ * Observe the account of the selected provider. This uses the account observable of Arc, which
+ * listens to the `accountsChanged` events of the provider (or polls providers that do not send them)
+ * @param currentAccountAddress the account we know about, which is not reported as a change
+ */
+export function watchAccountChanges(currentAccountAddress: Address | null): Observable<Address | null> {
   // eslint-disable-next-line no-console
-  console.log(`start polling for account changes from: ${currentAccountAddress}`);
-  return new Observable((observer: any): () => void => {
-    let prevAccount = currentAccountAddress;
-    let running = false;
-
-    async function poll(): Promise<void> {
-
-      if (!running) {
-        running = true;
-        try {
-          await getCurrentAccountFromProvider()
-            .then(async (account: Address | null): Promise<void> => {
-              if (prevAccount !== account) {
-                if (account && initializedAccount && (account !== initializedAccount)) {
-                  /**
-                   * Handle when user changes account in MetaMask while already connected to Alchemy.
-                   * Also handles how the Burner provider switches from a Fortmatic address to the
-                   * burner address at the time of connecting.
-                   */
-                  await initializeArc(await getNetworkName(selectedProvider.chainId), selectedProvider);
-                }
-                observer.next(account);
-                // eslint-disable-next-line require-atomic-updates
-                prevAccount = account;
-              }
-            })
-            // eslint-disable-next-line no-console
-            .catch((err): void => {console.error(err ? err.message : "unknown error"); });
-        } catch (ex) {
-          // eslint-disable-next-line no-console
-          console.error(ex ? ex.message : "unknown error");
-        }
-        finally {
-          running = false;
-        }
+  console.log(`start watching for account changes from: ${currentAccountAddress}`);
+  let prevAccount = currentAccountAddress;
+
+  return selectedProviderChanges.pipe(
+    switchMap((provider: any): Observable<Address | null> => {
+      if (!provider) {
+        /**
+         * though an account may actually be available via injection, we're not going
+         * to return it. The flow needs to start from a selected provider first,
+         * only then the current account.
+         */
+        return of(null);
       }
-    }
-
-    poll();
-    const timeout = setInterval(poll, interval);
-    return (): void => { clearTimeout(timeout); };
-  });
+      return from(getNetworkName(provider.chainId)).pipe(
+        switchMap((network: Networks): Observable<Address | null> => {
+          const arc: Arc = window.arcs[network];
+          return arc ? arc.accountChanges() : of(null);
+        })
+      );
+    }),
+    map((account: Address | null): Address | null => account ? account.toLowerCase() : null),
+    filter((account: Address | null): boolean => account !== prevAccount),
+    concatMap(async (account: Address | null): Promise<Address | null> => {
+      prevAccount = account;
+      if (account && initializedAccount && (account !== initializedAccount)) {
+        /**
+         * Handle when user changes account in MetaMask while already connected to Alchemy.
+         * Also handles how the Burner provider switches from a Fortmatic address to the
+         * burner address at the time of connecting.
+         */
+        await initializeArc(await getNetworkName(selectedProvider.chainId), selectedProvider);
+      }
+      return account;
+    })
+  );
 }
 
 /**
@@ -18,6 +18,7 @@ import DetailsPageRouter from "components/Scheme/ContributionRewardExtRewarders/
 import { combineLatest, Subscription } from "rxjs";
 import DaoSchemesPage from "./DaoSchemesPage";
 import DaoMembersPage from "./DaoMembersPage";
+import DaoGlobalConstraintsPage from "./DaoGlobalConstraintsPage";
 import * as css from "./Dao.scss";
 import DaoProposalsPage from "components/Dao/DaoProposalsPage";
 import { standardPolling, getArcByDAOAddress, getDAONameByID, getNetworkByDAOAddress } from "lib/util";
@@ -152,6 +153,7 @@ class DaoContainer extends React.Component<IProps, IState> {
   }
 
   private daoMembersRoute = (routeProps: any) => <DaoMembersPage {...routeProps} daoState={this.props.data[0]} />;
+  private daoGlobalConstraintsRoute = (routeProps: any) => <DaoGlobalConstraintsPage {...routeProps} daoState={this.props.data[0]} />;
   private daoProposalRoute = (routeProps: any) =>
     <ProposalDetailsPage {...routeProps}
       currentAccountAddress={this.props.currentAccountAddress}
@@ -239,6 +241,9 @@ class DaoContainer extends React.Component<IProps, IState> {
             <Route exact path="/dao/:daoAvatarAddress/members"
               render={this.daoMembersRoute} />
 
+            <Route exact path="/dao/:daoAvatarAddress/constraints"
+              render={this.daoGlobalConstraintsRoute} />
+
             <Route exact path="/dao/:daoAvatarAddress/proposal/:proposalId"
               render={this.daoProposalRoute} />
 
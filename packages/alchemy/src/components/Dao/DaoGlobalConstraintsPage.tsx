@@ -0,0 +1,110 @@
+import { IDAOState, IGlobalConstraint } from "@daostack/arc.js";
+import CopyToClipboard from "components/Shared/CopyToClipboard";
+import Loading from "components/Shared/Loading";
+import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
+import Analytics from "lib/analytics";
+import { formatTokens, getNetworkByDAOAddress, linkToEtherScan, standardPolling, tokenSymbol } from "lib/util";
+import { Page } from "pages";
+import * as React from "react";
+import { RouteComponentProps } from "react-router-dom";
+import * as Sticky from "react-stickynode";
+
+import * as css from "./Dao.scss";
+
+interface IExternalProps extends RouteComponentProps<any> {
+  daoState: IDAOState;
+}
+
+type IProps = IExternalProps & ISubscriptionProps<IGlobalConstraint[]>;
+
+const GLOBAL_CONSTRAINT_TYPES: { [type: string]: string } = {
+  Pre: "Before each action",
+  Post: "After each action",
+  Both: "Before and after each action",
+};
+
+class DaoGlobalConstraintsPage extends React.Component<IProps, null> {
+
+  public componentDidMount() {
+    Analytics.track("Page View", {
+      "Page Name": Page.DAOGlobalConstraints,
+      "DAO Address": this.props.daoState.address,
+      "DAO Name": this.props.daoState.name,
+    });
+  }
+
+  private renderParams(globalConstraint: IGlobalConstraint): RenderOutput {
+    const network = getNetworkByDAOAddress(this.props.daoState.address);
+    const tokenCapGCParams = globalConstraint.tokenCapGCParams;
+
+    if (tokenCapGCParams) {
+      const isNativeToken = tokenCapGCParams.token === this.props.daoState.token.address;
+      const symbol = isNativeToken ? this.props.daoState.tokenSymbol : tokenSymbol(tokenCapGCParams.token, network);
+      return <div>
+        The total supply of&nbsp;
+        <a href={linkToEtherScan(tokenCapGCParams.token, network)} target="_blank" rel="noopener noreferrer">
+          {isNativeToken ? "the DAO token" : tokenCapGCParams.token}
+        </a>
+        &nbsp;is capped at {formatTokens(tokenCapGCParams.cap, symbol)}
+      </div>;
+    }
+    return <div>
+      <span>{globalConstraint.paramsHash.slice(0, 43)}</span>
+      <CopyToClipboard value={globalConstraint.paramsHash} />
+    </div>;
+  }
+
+  public render(): RenderOutput {
+    const { data } = this.props;
+    const network = getNetworkByDAOAddress(this.props.daoState.address);
+
+    return (
+      <div className={css.membersContainer}>
+        <Sticky enabled top={50} innerZ={10000}>
+          <h2>Global Constraints</h2>
+        </Sticky>
+        <div className={css.globalConstraintsDescription}>
+          Global constraints are checked by the controller before and/or after every action of the DAO, and revert
+          the actions that break them. They are added and removed by the proposals of the Global Constraint Registrar plugin.
+        </div>
+        {data.length === 0 ?
+          <div className={css.globalConstraintsDescription}>This DAO has no global constraints.</div> :
+          <table className={css.globalConstraintsTable}>
+            <thead>
+              <tr>
+                <th>Constraint</th>
+                <th>Checked</th>
+                <th>Parameters</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.map((globalConstraint) =>
+                <tr key={globalConstraint.id} data-test-id={"globalConstraint-" + globalConstraint.address}>
+                  <td>
+                    <div>{globalConstraint.name || "Unknown constraint"}</div>
+                    <a href={linkToEtherScan(globalConstraint.address, network)} target="_blank" rel="noopener noreferrer">
+                      {globalConstraint.address}
+                    </a>
+                    <CopyToClipboard value={globalConstraint.address} />
+                  </td>
+                  <td>{GLOBAL_CONSTRAINT_TYPES[globalConstraint.type] || globalConstraint.type}</td>
+                  <td>{this.renderParams(globalConstraint)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        }
+      </div>
+    );
+  }
+}
+
+export default withSubscription({
+  wrappedComponent: DaoGlobalConstraintsPage,
+  loadingComponent: <Loading/>,
+  errorComponent: (props) => <div>{ props.error.message }</div>,
+  checkForUpdate: [],
+  createObservable: (props: IExternalProps) => {
+    return props.daoState.dao.globalConstraints(standardPolling());
+  },
+});
@@ -14,6 +14,10 @@ import CreateSchemeRegistrarProposal from "./SchemeForms/CreateSchemeRegistrarPr
 import CreateUnknownGenericSchemeProposal from "./SchemeForms/CreateUnknownGenericSchemeProposal";
 import CreateGenericMultiCallProposal from "./SchemeForms/CreateGenericMultiCallProposal";
 import CreateContributionRewardProposal from "./SchemeForms/CreateContributionRewardProposal";
+import CreateSignalProposal from "./SchemeForms/CreateSignalProposal";
+import CreateUpgradeSchemeProposal from "./SchemeForms/CreateUpgradeSchemeProposal";
+import CreateGlobalConstraintRegistrarProposal from "./SchemeForms/CreateGlobalConstraintRegistrarProposal";
+import CreateVoteInOrganizationProposal from "./SchemeForms/CreateVoteInOrganizationProposal";
 import SelectProposal from "./SelectProposal";
 import * as css from "./CreateProposal.scss";
 import { getNetworkByDAOAddress } from "lib/util";
@@ -139,6 +143,14 @@ export class CreateProposalPage extends React.Component<IProps, IStateProps> {
       }
     } else if (scheme.name === "GenericSchemeMultiCall") {
       createSchemeComponent = <CreateGenericMultiCallProposal {...props} whitelistedContracts={scheme.genericSchemeMultiCallParams.contractsWhiteList} />;
+    } else if (scheme.name === "SignalScheme") {
+      createSchemeComponent = <CreateSignalProposal {...props} />;
+    } else if (scheme.name === "UpgradeScheme") {
+      createSchemeComponent = <CreateUpgradeSchemeProposal {...props} />;
+    } else if (scheme.name === "GlobalConstraintRegistrar") {
+      createSchemeComponent = <CreateGlobalConstraintRegistrarProposal {...props} />;
+    } else if (scheme.name === "VoteInOrganizationScheme") {
+      createSchemeComponent = <CreateVoteInOrganizationProposal {...props} />;
     }
 
     return [createSchemeComponent, schemeTitle];
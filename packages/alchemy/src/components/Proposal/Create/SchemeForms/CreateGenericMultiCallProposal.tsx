@@ -1,4 +1,4 @@
-import { ISchemeState } from "@daostack/arc.js";
+import { IProposalCreateOptions, IProposalSimulation, ISchemeState } from "@daostack/arc.js";
 import { createProposal } from "@store/arc/arcActions";
 import { enableWalletProvider } from "arc";
 import { ErrorMessage, Field, Form, Formik, FormikProps, FieldArray } from "formik";
@@ -15,6 +15,7 @@ import HelpButton from "components/Shared/HelpButton";
 import { getABIByContract, extractABIMethods, encodeABI } from "./ABIService";
 import * as Validators from "./Validators";
 import CopyToClipboard from "components/Shared/CopyToClipboard";
+import ProposalSimulation from "./ProposalSimulation";
 
 interface IExternalProps {
   daoAvatarAddress: string;
@@ -41,6 +42,9 @@ interface IStateProps {
   addContractStatus: IAddContractStatus;
   whitelistedContracts: Array<string>;
   userContracts: Array<string>;
+  simulation?: IProposalSimulation;
+  // the calls that were simulated last, to know whether the form has changed since
+  simulatedCalls?: string;
 }
 
 type IProps = IExternalProps & IDispatchProps;
@@ -136,8 +140,6 @@ class CreateGenericMultiCallScheme extends React.Component<IProps, IStateProps>
   }
 
   public async handleSubmit(formValues: IFormValues, { setSubmitting }: any): Promise<void> {
-    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
-
     const contractsToCall = [];
     const callsData = [];
     const values = [];
@@ -160,6 +162,19 @@ class CreateGenericMultiCallScheme extends React.Component<IProps, IStateProps>
       tags: this.state.tags,
     };
 
+    // the calls are simulated first, and the proposal is created when they are submitted again unchanged
+    const calls = JSON.stringify([contractsToCall, callsData, values]);
+    if (calls !== this.state.simulatedCalls) {
+      await this.simulate(calls, proposalValues);
+      setSubmitting(false);
+      return;
+    }
+
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) {
+      setSubmitting(false);
+      return;
+    }
+
     setSubmitting(false);
     await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
 
@@ -173,9 +188,22 @@ class CreateGenericMultiCallScheme extends React.Component<IProps, IStateProps>
     this.props.handleClose();
   }
 
+  private async simulate(calls: string, options: IProposalCreateOptions): Promise<void> {
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+    try {
+      const simulation = await arc.scheme(this.props.scheme.id).simulateProposal(options);
+      this.setState({ simulation, simulatedCalls: calls });
+    } catch (err) {
+      // the proposal can still be submitted if the calls cannot be simulated
+      this.props.showNotification(NotificationStatus.Failure, `The proposal could not be simulated: ${err.message}`);
+      this.setState({ simulation: undefined, simulatedCalls: calls });
+    }
+  }
+
   // Exports data from form to a shareable url.
   public exportFormValues(values: IFormValues) {
-    exportUrl({ ...values, ...this.state });
+    const { simulation, simulatedCalls, ...state } = this.state; // eslint-disable-line @typescript-eslint/no-unused-vars
+    exportUrl({ ...values, ...state });
     this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
   }
 
@@ -484,12 +512,17 @@ class CreateGenericMultiCallScheme extends React.Component<IProps, IStateProps>
                 }
               </FieldArray>
 
+              {this.state.simulation && this.state.simulatedCalls &&
+                <ProposalSimulation daoAvatarAddress={this.props.daoAvatarAddress} simulation={this.state.simulation} />}
+
               <div className={css.createProposalActions}>
                 <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
                   <img src="/assets/images/Icon/share-blue.svg" />
                 </button>
                 <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
-                <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+                <button className={css.submitProposal} type="submit" disabled={isSubmitting}>
+                  {this.state.simulatedCalls ? "Submit proposal" : "Simulate proposal"}
+                </button>
               </div>
             </Form>
           }
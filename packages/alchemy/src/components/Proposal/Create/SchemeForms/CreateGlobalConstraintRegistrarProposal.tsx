@@ -0,0 +1,378 @@
+import { IGlobalConstraint, IGlobalConstraintRegistrarProposalType, ISchemeState } from "@daostack/arc.js";
+import { enableWalletProvider, getArc } from "arc";
+import classNames from "classnames";
+import { createProposal } from "@store/arc/arcActions";
+import { showNotification, NotificationStatus } from "@store/notifications/notifications.reducer";
+import Loading from "components/Shared/Loading";
+import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
+import Analytics from "lib/analytics";
+import { isValidUrl, getArcByDAOAddress, getContractName, getNetworkByDAOAddress } from "lib/util";
+import { exportUrl, importUrlValues } from "lib/proposalUtils";
+import { ErrorMessage, Field, Form, Formik, FormikProps } from "formik";
+import { connect } from "react-redux";
+import * as React from "react";
+import TagsSelector from "components/Proposal/Create/SchemeForms/TagsSelector";
+import * as css from "components/Proposal/Create/CreateProposal.scss";
+import MarkdownField from "./MarkdownField";
+import HelpButton from "components/Shared/HelpButton";
+
+interface IExternalProps {
+  daoAvatarAddress: string;
+  handleClose: () => any;
+  scheme: ISchemeState;
+}
+
+interface IDispatchProps {
+  createProposal: typeof createProposal;
+  showNotification: typeof showNotification;
+}
+
+const mapDispatchToProps = {
+  createProposal,
+  showNotification,
+};
+
+type IProps = IExternalProps & IDispatchProps & ISubscriptionProps<IGlobalConstraint[]>;
+
+interface IFormValues {
+  description: string;
+  globalConstraintToAdd: string;
+  globalConstraintParamsHash: string;
+  globalConstraintToRemove: string;
+  voteToRemoveParams: string;
+  title: string;
+  url: string;
+
+  [key: string]: any;
+}
+
+type TabId = "addGlobalConstraint" | "removeGlobalConstraint";
+
+interface IState {
+  currentTab: TabId;
+  tags: Array<string>;
+}
+
+const parametersHashPattern = /^0x([\da-f]){64}$/i;
+
+class CreateGlobalConstraintRegistrarProposal extends React.Component<IProps, IState> {
+
+  initialFormValues: IFormValues;
+
+  constructor(props: IProps) {
+    super(props);
+
+    this.handleSubmit = this.handleSubmit.bind(this);
+    this.initialFormValues = importUrlValues<IFormValues>({
+      description: "",
+      globalConstraintToAdd: "",
+      globalConstraintParamsHash: "",
+      globalConstraintToRemove: "",
+      voteToRemoveParams: "",
+      title: "",
+      url: "",
+      currentTab: "addGlobalConstraint",
+      tags: [],
+    });
+    this.state = {
+      currentTab: this.initialFormValues.currentTab,
+      tags: this.initialFormValues.tags,
+    };
+  }
+
+  public async handleSubmit(values: IFormValues, { setSubmitting }: any): Promise<void> {
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
+
+    const isAdd = this.state.currentTab === "addGlobalConstraint";
+    const proposalValues = {
+      title: values.title,
+      description: values.description,
+      url: values.url,
+      dao: this.props.daoAvatarAddress,
+      scheme: this.props.scheme.address,
+      tags: this.state.tags,
+      type: isAdd ? IGlobalConstraintRegistrarProposalType.AddGlobalConstraint : IGlobalConstraintRegistrarProposalType.RemoveGlobalConstraint,
+      globalConstraint: isAdd ? values.globalConstraintToAdd : values.globalConstraintToRemove,
+      globalConstraintParamsHash: isAdd ? values.globalConstraintParamsHash : undefined,
+      voteToRemoveParams: isAdd ? values.voteToRemoveParams : undefined,
+    };
+
+    setSubmitting(false);
+    await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
+
+    Analytics.track("Submit Proposal", {
+      "DAO Address": this.props.daoAvatarAddress,
+      "Proposal Title": values.title,
+      "Scheme Address": this.props.scheme.address,
+      "Scheme Name": this.props.scheme.name,
+    });
+
+    this.props.handleClose();
+  }
+
+  public handleTabClick = (tab: TabId) => (_e: any) => {
+    this.setState({ currentTab: tab });
+  }
+
+  private onTagsChange = (tags: any[]): void => {
+    this.setState({ tags });
+  }
+
+  // Exports data from form to a shareable url.
+  public exportFormValues(values: IFormValues) {
+    exportUrl({ ...values, ...this.state });
+    this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
+  }
+
+  /**
+   * The parameters of a TokenCapGC are checked in the contract, as a constraint with parameters that are not set
+   * would block every action of the DAO
+   */
+  private async verifyGlobalConstraintParams(globalConstraint: string, paramsHash: string): Promise<string | undefined> {
+    if (!parametersHashPattern.test(paramsHash)) {
+      return "Invalid parameters hash";
+    }
+    if (getContractName(globalConstraint, this.props.daoAvatarAddress) === "TokenCapGC") {
+      const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+      const tokenCapGC = arc.getContract(globalConstraint);
+      const parameters = await tokenCapGC.methods.parameters(paramsHash).call();
+      if (Number(parameters.token) === 0) {
+        return "TokenCapGC parameters not set";
+      }
+    }
+  }
+
+  public render(): RenderOutput {
+    const { data: globalConstraints, handleClose } = this.props;
+    const { currentTab } = this.state;
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+
+    const addButtonClass = classNames({
+      [css.selected]: currentTab === "addGlobalConstraint",
+    });
+    const removeButtonClass = classNames({
+      [css.selected]: currentTab === "removeGlobalConstraint",
+    });
+
+    return (
+      <div className={css.containerWithSidebar}>
+        <div className={css.sidebar}>
+          <button className={addButtonClass} onClick={this.handleTabClick("addGlobalConstraint")} data-test-id="tab-AddGlobalConstraint">
+            <span></span>
+            Add Constraint
+          </button>
+          <button className={removeButtonClass} onClick={this.handleTabClick("removeGlobalConstraint")} data-test-id="tab-RemoveGlobalConstraint">
+            <span></span>
+            Remove Constraint
+          </button>
+        </div>
+
+        <div className={css.contentWrapper}>
+          <Formik
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            initialValues={this.initialFormValues}
+            // eslint-disable-next-line react/jsx-no-bind
+            validate={(values: IFormValues) => {
+              const errors: any = {};
+
+              const require = (name: string) => {
+                if (!(values as any)[name]) {
+                  errors[name] = "Required";
+                }
+              };
+
+              require("description");
+              require("title");
+
+              if (values.title.length > 120) {
+                errors.title = "Title is too long (max 120 characters)";
+              }
+
+              if (currentTab === "addGlobalConstraint") {
+                require("globalConstraintToAdd");
+                require("globalConstraintParamsHash");
+                require("voteToRemoveParams");
+                if (values.globalConstraintToAdd && !arc.web3.utils.isAddress(values.globalConstraintToAdd)) {
+                  errors.globalConstraintToAdd = "Invalid address";
+                }
+                if (values.voteToRemoveParams && !parametersHashPattern.test(values.voteToRemoveParams)) {
+                  errors.voteToRemoveParams = "Invalid parameters hash";
+                }
+              } else {
+                require("globalConstraintToRemove");
+              }
+
+              if (!isValidUrl(values.url)) {
+                errors.url = "Invalid URL";
+              }
+
+              return errors;
+            }}
+            onSubmit={this.handleSubmit}
+            // eslint-disable-next-line react/jsx-no-bind
+            render={({
+              errors,
+              touched,
+              isSubmitting,
+              setFieldValue,
+              values,
+            }: FormikProps<IFormValues>) => {
+              return (
+                <Form noValidate>
+                  <br />
+                  {currentTab === "addGlobalConstraint" ?
+                    <div className={css.description}>
+                      Create a proposal to add a global constraint to the DAO. The controller checks the constraint before
+                      and/or after every action of the DAO, and reverts the actions that break it.
+                    </div> :
+                    <div className={css.description}>
+                      Create a proposal to remove a global constraint from the DAO. The proposal is voted on with the
+                      parameters that were given when the constraint was added.
+                    </div>
+                  }
+
+                  <label htmlFor="titleInput">
+                    <div className={css.requiredMarker}>*</div>
+                    Title
+                    <ErrorMessage name="title">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    autoFocus
+                    id="titleInput"
+                    maxLength={120}
+                    placeholder="Summarize your proposal"
+                    name="title"
+                    type="text"
+                    className={touched.title && errors.title ? css.error : null}
+                  />
+
+                  <label htmlFor="descriptionInput">
+                    <div className={css.proposalDescriptionLabelText}>
+                      <div className={css.requiredMarker}>*</div>
+                      <div className={css.body}>Description</div><HelpButton text={HelpButton.helpTextProposalDescription} />
+                    </div>
+                    <ErrorMessage name="description">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    component={MarkdownField}
+                    onChange={(value: any) => { setFieldValue("description", value); }}
+                    id="descriptionInput"
+                    placeholder="Describe your proposal in greater detail"
+                    name="description"
+                    className={touched.description && errors.description ? css.error : null}
+                  />
+
+                  <label className={css.tagSelectorLabel}>
+                    Tags
+                  </label>
+
+                  <div className={css.tagSelectorContainer}>
+                    <TagsSelector onChange={this.onTagsChange} tags={this.state.tags} arc={arc}></TagsSelector>
+                  </div>
+
+                  <label htmlFor="urlInput">
+                    URL
+                    <ErrorMessage name="url">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    id="urlInput"
+                    maxLength={120}
+                    placeholder="Description URL"
+                    name="url"
+                    type="text"
+                    className={touched.url && errors.url ? css.error : null}
+                  />
+
+                  {currentTab === "addGlobalConstraint" ?
+                    <div>
+                      <label htmlFor="globalConstraintToAddInput">
+                        <div className={css.requiredMarker}>*</div>
+                        Global constraint
+                        <ErrorMessage name="globalConstraintToAdd">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="globalConstraintToAddInput"
+                        placeholder="Enter the address of the global constraint, e.g. a TokenCapGC"
+                        name="globalConstraintToAdd"
+                        className={touched.globalConstraintToAdd && errors.globalConstraintToAdd ? css.error : null}
+                      />
+
+                      <label htmlFor="globalConstraintParamsHashInput">
+                        <div className={css.requiredMarker}>*</div>
+                        Parameters Hash
+                        <ErrorMessage name="globalConstraintParamsHash">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="globalConstraintParamsHashInput"
+                        placeholder="e.g. 0x0000000000000000000000000000000000000000000000000000000000001234"
+                        name="globalConstraintParamsHash"
+                        className={touched.globalConstraintParamsHash && errors.globalConstraintParamsHash ? css.error : null}
+                        validate={async () => { return await this.verifyGlobalConstraintParams(values.globalConstraintToAdd, values.globalConstraintParamsHash); }}
+                      />
+
+                      <label htmlFor="voteToRemoveParamsInput">
+                        <div className={css.requiredMarker}>*</div>
+                        Voting parameters to remove the constraint
+                        <ErrorMessage name="voteToRemoveParams">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="voteToRemoveParamsInput"
+                        placeholder="The hash of the Genesis Protocol parameters of a proposal to remove the constraint"
+                        name="voteToRemoveParams"
+                        className={touched.voteToRemoveParams && errors.voteToRemoveParams ? css.error : null}
+                      />
+                    </div> :
+                    <div className={css.removeSchemeSelectContainer}>
+                      <label htmlFor="globalConstraintToRemoveInput">
+                        <div className={css.requiredMarker}>*</div>
+                        Global constraint
+                        <ErrorMessage name="globalConstraintToRemove">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="globalConstraintToRemoveInput"
+                        name="globalConstraintToRemove"
+                        component="select"
+                        className={css.schemeSelect}
+                      >
+                        <option value="">Select a global constraint...</option>
+                        {globalConstraints.map((globalConstraint) => {
+                          return <option key={`remove_constraint_${globalConstraint.address}`} value={globalConstraint.address}>
+                            {(globalConstraint.name || "Unknown constraint") + " " + globalConstraint.address}
+                          </option>;
+                        })}
+                      </Field>
+                    </div>
+                  }
+
+                  <div className={css.createProposalActions}>
+                    <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
+                      <img src="/assets/images/Icon/share-blue.svg" />
+                    </button>
+                    <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
+                    <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+                  </div>
+                </Form>
+              );
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+}
+
+const SubscribedCreateGlobalConstraintRegistrarProposal = withSubscription({
+  wrappedComponent: CreateGlobalConstraintRegistrarProposal,
+  loadingComponent: <Loading />,
+  errorComponent: null,
+  checkForUpdate: ["daoAvatarAddress"],
+  createObservable: (props: IExternalProps) => {
+    const arc = getArc(getNetworkByDAOAddress(props.daoAvatarAddress));
+    return arc.dao(props.daoAvatarAddress).globalConstraints({ fetchAllData: true });
+  },
+});
+
+export default connect(null, mapDispatchToProps)(SubscribedCreateGlobalConstraintRegistrarProposal);
@@ -1,7 +1,7 @@
 
 import * as React from "react";
 import { connect } from "react-redux";
-import { IProposalType, ISchemeState } from "@daostack/arc.js";
+import { IProposalCreateOptions, IProposalSimulation, IProposalType, ISchemeState } from "@daostack/arc.js";
 import { enableWalletProvider } from "arc";
 import { ErrorMessage, Field, FieldArray, Form, Formik, FormikErrors, FormikProps, FormikTouched } from "formik";
 import * as classNames from "classnames";
@@ -17,6 +17,7 @@ import TagsSelector from "components/Proposal/Create/SchemeForms/TagsSelector";
 import * as css from "components/Proposal/Create/CreateProposal.scss";
 import MarkdownField from "./MarkdownField";
 import HelpButton from "components/Shared/HelpButton";
+import ProposalSimulation from "./ProposalSimulation";
 
 const BN = require("bn.js");
 
@@ -54,6 +55,9 @@ interface IState {
   actions: Action[];
   currentAction: Action;
   tags: Array<string>;
+  simulation?: IProposalSimulation;
+  // the call that was simulated last, to know whether the form has changed since
+  simulatedCall?: string;
 }
 
 class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
@@ -90,15 +94,13 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
   }
 
 
-  private handleSubmit = async (values: IFormValues, { setSubmitting }: any ): Promise<void> => {
-
-    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
-
+  private handleSubmit = async (formValues: IFormValues, { setSubmitting }: any ): Promise<void> => {
     const currentAction = this.state.currentAction;
+    const values = { ...formValues };
     const callValues = [];
 
     for (const field of currentAction.getFields()) {
-      const callValue = field.callValue(values[field.name]);
+      const callValue = field.callValue(formValues[field.name]);
       values[field.name] = callValue;
       callValues.push(callValue);
     }
@@ -107,11 +109,10 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
     try {
       callData = this.props.genericSchemeInfo.encodeABI(currentAction, callValues);
     } catch (err) {
-      showNotification(NotificationStatus.Failure, err.message);
+      this.props.showNotification(NotificationStatus.Failure, err.message);
       setSubmitting(false);
       return;
     }
-    setSubmitting(false);
 
     let ethValue = new BN(0);
 
@@ -130,6 +131,20 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
       value: ethValue.toString(), // amount of eth to send with the call
     };
 
+    // the calls are simulated first, and the proposal is created when they are submitted again unchanged
+    const call = JSON.stringify([callData, ethValue.toString()]);
+    if (call !== this.state.simulatedCall) {
+      await this.simulate(call, proposalValues);
+      setSubmitting(false);
+      return;
+    }
+
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) {
+      setSubmitting(false);
+      return;
+    }
+    setSubmitting(false);
+
     try {
       await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
     } catch (err) {
@@ -147,6 +162,18 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
     this.props.handleClose();
   }
 
+  private async simulate(call: string, options: IProposalCreateOptions): Promise<void> {
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+    try {
+      const simulation = await arc.scheme(this.props.scheme.id).simulateProposal(options);
+      this.setState({ simulation, simulatedCall: call });
+    } catch (err) {
+      // the proposal can still be submitted if the calls cannot be simulated
+      this.props.showNotification(NotificationStatus.Failure, `The proposal could not be simulated: ${err.message}`);
+      this.setState({ simulation: undefined, simulatedCall: call });
+    }
+  }
+
   public handleTabClick = (tab: string) => (_e: any) => {
     this.setState({ currentAction: this.props.genericSchemeInfo.action(tab) });
   }
@@ -265,10 +292,11 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
     this.initialFormValues = importUrlValues<IFormValues>(this.initialFormValues);
   }
   public exportFormValues(values: IFormValues) {
+    const { simulation, simulatedCall, ...state } = this.state; // eslint-disable-line @typescript-eslint/no-unused-vars
     values = {
       ...values,
       currentActionId: this.state.currentAction.id,
-      ...this.state,
+      ...state,
     };
     exportUrl(values);
     this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
@@ -464,12 +492,17 @@ class CreateKnownSchemeProposal extends React.Component<IProps, IState> {
                     }
                   </div>
 
+                  {this.state.simulation && this.state.simulatedCall &&
+                    <ProposalSimulation daoAvatarAddress={this.props.daoAvatarAddress} simulation={this.state.simulation} />}
+
                   <div className={css.createProposalActions}>
                     <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
                       <img src="/assets/images/Icon/share-blue.svg" />
                     </button>
                     <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
-                    <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+                    <button className={css.submitProposal} type="submit" disabled={isSubmitting}>
+                      {this.state.simulatedCall ? "Submit proposal" : "Simulate proposal"}
+                    </button>
                   </div>
                 </Form>
               );
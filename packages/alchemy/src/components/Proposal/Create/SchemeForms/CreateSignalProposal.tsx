@@ -0,0 +1,213 @@
+import { ISchemeState, ISignalSchemeProposalType } from "@daostack/arc.js";
+import { createProposal } from "@store/arc/arcActions";
+import { enableWalletProvider } from "arc";
+import { ErrorMessage, Field, Form, Formik, FormikProps } from "formik";
+import Analytics from "lib/analytics";
+import * as React from "react";
+import { connect } from "react-redux";
+import { showNotification, NotificationStatus } from "@store/notifications/notifications.reducer";
+import { isValidUrl, getArcByDAOAddress, getNetworkByDAOAddress } from "lib/util";
+import { exportUrl, importUrlValues } from "lib/proposalUtils";
+import TagsSelector from "components/Proposal/Create/SchemeForms/TagsSelector";
+import * as css from "components/Proposal/Create/CreateProposal.scss";
+import MarkdownField from "./MarkdownField";
+import HelpButton from "components/Shared/HelpButton";
+
+interface IExternalProps {
+  daoAvatarAddress: string;
+  handleClose: () => any;
+  scheme: ISchemeState;
+}
+
+interface IDispatchProps {
+  createProposal: typeof createProposal;
+  showNotification: typeof showNotification;
+}
+
+interface IStateProps {
+  tags: Array<string>;
+}
+
+type IProps = IExternalProps & IDispatchProps;
+
+const mapDispatchToProps = {
+  createProposal,
+  showNotification,
+};
+
+interface IFormValues {
+  description: string;
+  title: string;
+  url: string;
+  [key: string]: any;
+}
+
+/**
+ * A proposal of a SignalScheme is only a title and a description: the DAO signals it when it passes
+ */
+class CreateSignalProposal extends React.Component<IProps, IStateProps> {
+
+  initialFormValues: IFormValues;
+
+  constructor(props: IProps) {
+    super(props);
+
+    this.handleSubmit = this.handleSubmit.bind(this);
+    this.initialFormValues = importUrlValues<IFormValues>({
+      description: "",
+      title: "",
+      url: "",
+      tags: [],
+    });
+    this.state = {
+      tags: this.initialFormValues.tags,
+    };
+  }
+
+  public async handleSubmit(values: IFormValues, { setSubmitting }: any): Promise<void> {
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
+
+    const proposalValues = {
+      title: values.title,
+      description: values.description,
+      url: values.url,
+      dao: this.props.daoAvatarAddress,
+      scheme: this.props.scheme.address,
+      tags: this.state.tags,
+      type: ISignalSchemeProposalType.Signal,
+    };
+
+    setSubmitting(false);
+    await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
+
+    Analytics.track("Submit Proposal", {
+      "DAO Address": this.props.daoAvatarAddress,
+      "Proposal Title": values.title,
+      "Scheme Address": this.props.scheme.address,
+      "Scheme Name": this.props.scheme.name,
+    });
+
+    this.props.handleClose();
+  }
+
+  // Exports data from form to a shareable url.
+  public exportFormValues(values: IFormValues) {
+    exportUrl({ ...values, ...this.state });
+    this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
+  }
+
+  private onTagsChange = (tags: any[]): void => {
+    this.setState({ tags });
+  }
+
+  public render(): RenderOutput {
+    const { handleClose, scheme } = this.props;
+
+    return (
+      <div className={css.containerNoSidebar}>
+        <Formik
+          // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+          initialValues={this.initialFormValues}
+          // eslint-disable-next-line react/jsx-no-bind
+          validate={(values: IFormValues): void => {
+            const errors: any = {};
+
+            const require = (name: string) => {
+              if (!(values as any)[name]) {
+                errors[name] = "Required";
+              }
+            };
+
+            if (values.title.length > 120) {
+              errors.title = "Title is too long (max 120 characters)";
+            }
+
+            if (!isValidUrl(values.url)) {
+              errors.url = "Invalid URL";
+            }
+
+            require("title");
+            require("description");
+
+            return errors;
+          }}
+          onSubmit={this.handleSubmit}
+          // eslint-disable-next-line react/jsx-no-bind
+          render={({
+            errors,
+            touched,
+            isSubmitting,
+            setFieldValue,
+            values,
+          }: FormikProps<IFormValues>) =>
+            <Form noValidate>
+              <label htmlFor="titleInput">
+                <div className={css.requiredMarker}>*</div>
+                Title
+                <ErrorMessage name="title">{(msg: string) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+              </label>
+
+              <Field
+                autoFocus
+                id="titleInput"
+                maxLength={120}
+                placeholder="What should the DAO signal?"
+                name="title"
+                type="text"
+                className={touched.title && errors.title ? css.error : null}
+              />
+
+              <label htmlFor="descriptionInput">
+                <div className={css.proposalDescriptionLabelText}>
+                  <div className={css.requiredMarker}>*</div>
+                  <div className={css.body}>Description</div><HelpButton text={HelpButton.helpTextProposalDescription} />
+                </div>
+                <ErrorMessage name="description">{(msg: string) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+              </label>
+
+              <Field
+                component={MarkdownField}
+                onChange={(value: any) => { setFieldValue("description", value); }}
+                id="descriptionInput"
+                placeholder="Describe the signal in greater detail"
+                name="description"
+                className={touched.description && errors.description ? css.error : null}
+              />
+
+              <label className={css.tagSelectorLabel}>Tags</label>
+              <div className={css.tagSelectorContainer}>
+                <TagsSelector onChange={this.onTagsChange} arc={getArcByDAOAddress(this.props.daoAvatarAddress)}></TagsSelector>
+              </div>
+
+              <label htmlFor="urlInput">
+                URL
+                <ErrorMessage name="url">{(msg: string) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+              </label>
+              <Field
+                id="urlInput"
+                maxLength={120}
+                placeholder="Description URL"
+                name="url"
+                type="text"
+                className={touched.url && errors.url ? css.error : null}
+              />
+
+              {scheme.signalSchemeParams &&
+                <div>Signal type: {scheme.signalSchemeParams.signalType}</div>}
+
+              <div className={css.createProposalActions}>
+                <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
+                  <img src="/assets/images/Icon/share-blue.svg" />
+                </button>
+                <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
+                <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+              </div>
+            </Form>
+          }
+        />
+      </div>
+    );
+  }
+}
+
+export default connect(null, mapDispatchToProps)(CreateSignalProposal);
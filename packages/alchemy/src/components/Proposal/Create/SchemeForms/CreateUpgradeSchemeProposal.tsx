@@ -0,0 +1,344 @@
+import { ISchemeState, IUpgradeSchemeProposalType } from "@daostack/arc.js";
+import { enableWalletProvider } from "arc";
+import classNames from "classnames";
+import { createProposal } from "@store/arc/arcActions";
+import { showNotification, NotificationStatus } from "@store/notifications/notifications.reducer";
+import Analytics from "lib/analytics";
+import { isValidUrl, getArcByDAOAddress, getNetworkByDAOAddress } from "lib/util";
+import { exportUrl, importUrlValues } from "lib/proposalUtils";
+import { ErrorMessage, Field, Form, Formik, FormikProps } from "formik";
+import { connect } from "react-redux";
+import * as React from "react";
+import TagsSelector from "components/Proposal/Create/SchemeForms/TagsSelector";
+import * as css from "components/Proposal/Create/CreateProposal.scss";
+import MarkdownField from "./MarkdownField";
+import HelpButton from "components/Shared/HelpButton";
+
+interface IExternalProps {
+  daoAvatarAddress: string;
+  handleClose: () => any;
+  scheme: ISchemeState;
+}
+
+interface IDispatchProps {
+  createProposal: typeof createProposal;
+  showNotification: typeof showNotification;
+}
+
+const mapDispatchToProps = {
+  createProposal,
+  showNotification,
+};
+
+type IProps = IExternalProps & IDispatchProps;
+
+interface IFormValues {
+  description: string;
+  newController: string;
+  newUpgradeScheme: string;
+  newUpgradeSchemeParamsHash: string;
+  title: string;
+  url: string;
+
+  [key: string]: any;
+}
+
+type TabId = "upgradeController" | "changeUpgradeScheme";
+
+interface IState {
+  currentTab: TabId;
+  tags: Array<string>;
+}
+
+/**
+ * Upgrading the controller hands the whole DAO to another contract, so the form spells out what changes hands
+ */
+class CreateUpgradeSchemeProposal extends React.Component<IProps, IState> {
+
+  initialFormValues: IFormValues;
+
+  constructor(props: IProps) {
+    super(props);
+
+    this.handleSubmit = this.handleSubmit.bind(this);
+    this.initialFormValues = importUrlValues<IFormValues>({
+      description: "",
+      newController: "",
+      newUpgradeScheme: "",
+      newUpgradeSchemeParamsHash: "",
+      title: "",
+      url: "",
+      currentTab: "upgradeController",
+      tags: [],
+    });
+    this.state = {
+      currentTab: this.initialFormValues.currentTab,
+      tags: this.initialFormValues.tags,
+    };
+  }
+
+  public async handleSubmit(values: IFormValues, { setSubmitting }: any): Promise<void> {
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
+
+    const isUpgradeController = this.state.currentTab === "upgradeController";
+    const proposalValues = {
+      title: values.title,
+      description: values.description,
+      url: values.url,
+      dao: this.props.daoAvatarAddress,
+      scheme: this.props.scheme.address,
+      tags: this.state.tags,
+      type: isUpgradeController ? IUpgradeSchemeProposalType.UpgradeController : IUpgradeSchemeProposalType.ChangeUpgradeScheme,
+      newController: isUpgradeController ? values.newController : undefined,
+      newUpgradeScheme: isUpgradeController ? undefined : values.newUpgradeScheme,
+      newUpgradeSchemeParamsHash: isUpgradeController ? undefined : values.newUpgradeSchemeParamsHash,
+    };
+
+    setSubmitting(false);
+    await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
+
+    Analytics.track("Submit Proposal", {
+      "DAO Address": this.props.daoAvatarAddress,
+      "Proposal Title": values.title,
+      "Scheme Address": this.props.scheme.address,
+      "Scheme Name": this.props.scheme.name,
+    });
+
+    this.props.handleClose();
+  }
+
+  public handleTabClick = (tab: TabId) => (_e: any) => {
+    this.setState({ currentTab: tab });
+  }
+
+  private onTagsChange = (tags: any[]): void => {
+    this.setState({ tags });
+  }
+
+  // Exports data from form to a shareable url.
+  public exportFormValues(values: IFormValues) {
+    exportUrl({ ...values, ...this.state });
+    this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
+  }
+
+  private async verifyParametersHash(schemeAddress: string, parametersHash: string): Promise<string | undefined> {
+    const parametersHashPattern = /0x([\da-f]){64}/i;
+    if (!parametersHashPattern.test(parametersHash)) {
+      return "Invalid parameters hash";
+    }
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+    if (!(await arc.verifyParametersHash(schemeAddress, parametersHash, "UpgradeScheme"))) {
+      return "Scheme parameters not set";
+    }
+  }
+
+  public render(): RenderOutput {
+    const { handleClose, scheme } = this.props;
+    const { currentTab } = this.state;
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+
+    const upgradeControllerButtonClass = classNames({
+      [css.selected]: currentTab === "upgradeController",
+    });
+    const changeUpgradeSchemeButtonClass = classNames({
+      [css.selected]: currentTab === "changeUpgradeScheme",
+    });
+    const transferredPermissions = [
+      scheme.canRegisterSchemes && "register other plugins",
+      scheme.canManageGlobalConstraints && "add/remove global constraints",
+      scheme.canUpgradeController && "upgrade the controller",
+      scheme.canDelegateCall && "call genericCall on behalf of the DAO",
+    ].filter(Boolean).join(", ");
+
+    return (
+      <div className={css.containerWithSidebar}>
+        <div className={css.sidebar}>
+          <button className={upgradeControllerButtonClass} onClick={this.handleTabClick("upgradeController")} data-test-id="tab-UpgradeController">
+            <span></span>
+            Upgrade Controller
+          </button>
+          <button className={changeUpgradeSchemeButtonClass} onClick={this.handleTabClick("changeUpgradeScheme")} data-test-id="tab-ChangeUpgradeScheme">
+            <span></span>
+            Replace Upgrade Plugin
+          </button>
+        </div>
+
+        <div className={css.contentWrapper}>
+          <Formik
+            // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+            initialValues={this.initialFormValues}
+            // eslint-disable-next-line react/jsx-no-bind
+            validate={(values: IFormValues) => {
+              const errors: any = {};
+
+              const require = (name: string) => {
+                if (!(values as any)[name]) {
+                  errors[name] = "Required";
+                }
+              };
+
+              require("description");
+              require("title");
+
+              if (values.title.length > 120) {
+                errors.title = "Title is too long (max 120 characters)";
+              }
+
+              if (currentTab === "upgradeController") {
+                require("newController");
+                if (values.newController && !arc.web3.utils.isAddress(values.newController)) {
+                  errors.newController = "Invalid address";
+                }
+              } else {
+                require("newUpgradeScheme");
+                require("newUpgradeSchemeParamsHash");
+                if (values.newUpgradeScheme && !arc.web3.utils.isAddress(values.newUpgradeScheme)) {
+                  errors.newUpgradeScheme = "Invalid address";
+                }
+              }
+
+              if (!isValidUrl(values.url)) {
+                errors.url = "Invalid URL";
+              }
+
+              return errors;
+            }}
+            onSubmit={this.handleSubmit}
+            // eslint-disable-next-line react/jsx-no-bind
+            render={({
+              errors,
+              touched,
+              isSubmitting,
+              setFieldValue,
+              values,
+            }: FormikProps<IFormValues>) => {
+              return (
+                <Form noValidate>
+                  <br />
+                  {currentTab === "upgradeController" ?
+                    <div className={css.description}>
+                      Create a proposal to upgrade the controller of the DAO. If it passes, the new controller becomes the owner of
+                      the DAO&apos;s avatar, token and reputation, and only the plugins that are registered in the new controller
+                      can act for the DAO. Make sure that the new controller is set up before proposing.
+                    </div> :
+                    <div className={css.description}>
+                      Create a proposal to replace this Upgrade plugin. If it passes, the new plugin is registered with the
+                      permissions of this plugin ({transferredPermissions || "none"}), and this plugin is removed from the DAO.
+                    </div>
+                  }
+
+                  <label htmlFor="titleInput">
+                    <div className={css.requiredMarker}>*</div>
+                    Title
+                    <ErrorMessage name="title">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    autoFocus
+                    id="titleInput"
+                    maxLength={120}
+                    placeholder="Summarize your proposal"
+                    name="title"
+                    type="text"
+                    className={touched.title && errors.title ? css.error : null}
+                  />
+
+                  <label htmlFor="descriptionInput">
+                    <div className={css.proposalDescriptionLabelText}>
+                      <div className={css.requiredMarker}>*</div>
+                      <div className={css.body}>Description</div><HelpButton text={HelpButton.helpTextProposalDescription} />
+                    </div>
+                    <ErrorMessage name="description">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    component={MarkdownField}
+                    onChange={(value: any) => { setFieldValue("description", value); }}
+                    id="descriptionInput"
+                    placeholder="Describe your proposal in greater detail"
+                    name="description"
+                    className={touched.description && errors.description ? css.error : null}
+                  />
+
+                  <label className={css.tagSelectorLabel}>
+                    Tags
+                  </label>
+
+                  <div className={css.tagSelectorContainer}>
+                    <TagsSelector onChange={this.onTagsChange} tags={this.state.tags} arc={arc}></TagsSelector>
+                  </div>
+
+                  <label htmlFor="urlInput">
+                    URL
+                    <ErrorMessage name="url">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                  </label>
+
+                  <Field
+                    id="urlInput"
+                    maxLength={120}
+                    placeholder="Description URL"
+                    name="url"
+                    type="text"
+                    className={touched.url && errors.url ? css.error : null}
+                  />
+
+                  {currentTab === "upgradeController" ?
+                    <div>
+                      <label htmlFor="newControllerInput">
+                        <div className={css.requiredMarker}>*</div>
+                        New controller
+                        <ErrorMessage name="newController">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="newControllerInput"
+                        placeholder="Enter the address of the new controller"
+                        name="newController"
+                        className={touched.newController && errors.newController ? css.error : null}
+                      />
+                    </div> :
+                    <div>
+                      <label htmlFor="newUpgradeSchemeInput">
+                        <div className={css.requiredMarker}>*</div>
+                        New upgrade plugin
+                        <ErrorMessage name="newUpgradeScheme">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="newUpgradeSchemeInput"
+                        placeholder="Enter the address of the new plugin"
+                        name="newUpgradeScheme"
+                        className={touched.newUpgradeScheme && errors.newUpgradeScheme ? css.error : null}
+                      />
+
+                      <label htmlFor="newUpgradeSchemeParamsHashInput">
+                        <div className={css.requiredMarker}>*</div>
+                        Parameters Hash
+                        <ErrorMessage name="newUpgradeSchemeParamsHash">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                      </label>
+                      <Field
+                        id="newUpgradeSchemeParamsHashInput"
+                        placeholder="e.g. 0x0000000000000000000000000000000000000000000000000000000000001234"
+                        name="newUpgradeSchemeParamsHash"
+                        className={touched.newUpgradeSchemeParamsHash && errors.newUpgradeSchemeParamsHash ? css.error : null}
+                        validate={async () => { return await this.verifyParametersHash(values.newUpgradeScheme, values.newUpgradeSchemeParamsHash); }}
+                      />
+                    </div>
+                  }
+
+                  <div className={css.createProposalActions}>
+                    <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
+                      <img src="/assets/images/Icon/share-blue.svg" />
+                    </button>
+                    <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
+                    <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+                  </div>
+                </Form>
+              );
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+}
+
+export default connect(null, mapDispatchToProps)(CreateUpgradeSchemeProposal);
@@ -0,0 +1,363 @@
+import { IProposalOutcome, IProposalStage, IProposalState, ISchemeState, IVoteInOrganizationProposalType } from "@daostack/arc.js";
+import { enableWalletProvider } from "arc";
+import { createProposal } from "@store/arc/arcActions";
+import { showNotification, NotificationStatus } from "@store/notifications/notifications.reducer";
+import Analytics from "lib/analytics";
+import { isValidUrl, getArcByDAOAddress, getNetworkByDAOAddress, humanProposalTitle } from "lib/util";
+import { exportUrl, importUrlValues } from "lib/proposalUtils";
+import { ErrorMessage, Field, Form, Formik, FormikProps } from "formik";
+import { connect } from "react-redux";
+import * as React from "react";
+import { first } from "rxjs/operators";
+import TagsSelector from "components/Proposal/Create/SchemeForms/TagsSelector";
+import * as css from "components/Proposal/Create/CreateProposal.scss";
+import MarkdownField from "./MarkdownField";
+import HelpButton from "components/Shared/HelpButton";
+
+interface IExternalProps {
+  daoAvatarAddress: string;
+  handleClose: () => any;
+  scheme: ISchemeState;
+}
+
+interface IDispatchProps {
+  createProposal: typeof createProposal;
+  showNotification: typeof showNotification;
+}
+
+const mapDispatchToProps = {
+  createProposal,
+  showNotification,
+};
+
+type IProps = IExternalProps & IDispatchProps;
+
+interface IFormValues {
+  description: string;
+  originalDAO: string;
+  originalProposalId: string;
+  title: string;
+  url: string;
+  vote: string;
+
+  [key: string]: any;
+}
+
+interface IState {
+  loadingProposals: boolean;
+  originalProposals: IProposalState[] | null;
+  tags: Array<string>;
+}
+
+/**
+ * The proposals of the other DAO that can still be voted on
+ */
+const OPEN_PROPOSAL_STAGES = [
+  IProposalStage.Queued,
+  IProposalStage.PreBoosted,
+  IProposalStage.Boosted,
+  IProposalStage.QuietEndingPeriod,
+];
+
+class CreateVoteInOrganizationProposal extends React.Component<IProps, IState> {
+
+  initialFormValues: IFormValues;
+
+  constructor(props: IProps) {
+    super(props);
+
+    this.handleSubmit = this.handleSubmit.bind(this);
+    this.initialFormValues = importUrlValues<IFormValues>({
+      description: "",
+      originalDAO: "",
+      originalProposalId: "",
+      title: "",
+      url: "",
+      vote: String(IProposalOutcome.Pass),
+      tags: [],
+    });
+    this.state = {
+      loadingProposals: false,
+      originalProposals: null,
+      tags: this.initialFormValues.tags,
+    };
+  }
+
+  public async componentDidMount(): Promise<void> {
+    if (this.initialFormValues.originalDAO) {
+      await this.searchProposals(this.initialFormValues.originalDAO);
+    }
+  }
+
+  public async handleSubmit(values: IFormValues, { setSubmitting }: any): Promise<void> {
+    if (!await enableWalletProvider({ showNotification: this.props.showNotification }, getNetworkByDAOAddress(this.props.daoAvatarAddress))) { return; }
+
+    const originalProposal = this.state.originalProposals.find((proposal) => proposal.id === values.originalProposalId);
+    const proposalValues = {
+      title: values.title,
+      description: values.description,
+      url: values.url,
+      dao: this.props.daoAvatarAddress,
+      scheme: this.props.scheme.address,
+      tags: this.state.tags,
+      type: IVoteInOrganizationProposalType.VoteInOrganization,
+      originalProposalId: values.originalProposalId,
+      originalIntVote: originalProposal ? originalProposal.votingMachine : undefined,
+      vote: Number(values.vote),
+    };
+
+    setSubmitting(false);
+    await this.props.createProposal(proposalValues, this.props.daoAvatarAddress);
+
+    Analytics.track("Submit Proposal", {
+      "DAO Address": this.props.daoAvatarAddress,
+      "Proposal Title": values.title,
+      "Scheme Address": this.props.scheme.address,
+      "Scheme Name": this.props.scheme.name,
+    });
+
+    this.props.handleClose();
+  }
+
+  private onTagsChange = (tags: any[]): void => {
+    this.setState({ tags });
+  }
+
+  // Exports data from form to a shareable url.
+  public exportFormValues(values: IFormValues) {
+    exportUrl({ ...values, tags: this.state.tags });
+    this.props.showNotification(NotificationStatus.Success, "Exportable url is now in clipboard :)");
+  }
+
+  /**
+   * Find the open proposals of the other DAO, which must be on the same network as this DAO
+   */
+  private async searchProposals(originalDAO: string): Promise<void> {
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+    if (!arc.web3.utils.isAddress(originalDAO)) {
+      this.setState({ originalProposals: null });
+      return;
+    }
+    this.setState({ loadingProposals: true });
+    try {
+      const proposals = await arc.dao(originalDAO.toLowerCase()).proposals({
+        // eslint-disable-next-line @typescript-eslint/camelcase
+        where: { stage_in: OPEN_PROPOSAL_STAGES },
+        orderBy: "createdAt",
+        orderDirection: "desc",
+      }, { fetchAllData: true, subscribe: false }).pipe(first()).toPromise();
+      const originalProposals = await Promise.all(proposals.map((proposal) =>
+        proposal.state({ subscribe: false }).pipe(first()).toPromise()));
+      this.setState({ originalProposals });
+    } catch (err) {
+      this.setState({ originalProposals: [] });
+    } finally {
+      this.setState({ loadingProposals: false });
+    }
+  }
+
+  private handleChangeOriginalDAO = (setFieldValue: (field: string, value: any) => void) => async (e: any) => {
+    setFieldValue("originalDAO", e.target.value);
+    setFieldValue("originalProposalId", "");
+    await this.searchProposals(e.target.value);
+  }
+
+  public render(): RenderOutput {
+    const { handleClose } = this.props;
+    const { loadingProposals, originalProposals } = this.state;
+    const arc = getArcByDAOAddress(this.props.daoAvatarAddress);
+
+    return (
+      <div className={css.containerNoSidebar}>
+        <Formik
+          // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+          initialValues={this.initialFormValues}
+          // eslint-disable-next-line react/jsx-no-bind
+          validate={(values: IFormValues) => {
+            const errors: any = {};
+
+            const require = (name: string) => {
+              if (!(values as any)[name]) {
+                errors[name] = "Required";
+              }
+            };
+
+            require("description");
+            require("title");
+            require("originalDAO");
+            require("originalProposalId");
+
+            if (values.title.length > 120) {
+              errors.title = "Title is too long (max 120 characters)";
+            }
+
+            if (values.originalDAO && !arc.web3.utils.isAddress(values.originalDAO)) {
+              errors.originalDAO = "Invalid address";
+            } else if (values.originalDAO.toLowerCase() === this.props.daoAvatarAddress.toLowerCase()) {
+              errors.originalDAO = "Choose another DAO than this one";
+            }
+
+            if (!isValidUrl(values.url)) {
+              errors.url = "Invalid URL";
+            }
+
+            return errors;
+          }}
+          onSubmit={this.handleSubmit}
+          // eslint-disable-next-line react/jsx-no-bind
+          render={({
+            errors,
+            touched,
+            isSubmitting,
+            setFieldValue,
+            values,
+          }: FormikProps<IFormValues>) => {
+            const originalProposal = originalProposals && originalProposals.find((proposal) => proposal.id === values.originalProposalId);
+            return (
+              <Form noValidate>
+                <div className={css.description}>
+                  Create a proposal for this DAO to vote in a proposal of another DAO in which it has reputation.
+                  If the proposal passes, the vote is cast in the other DAO with the reputation of this DAO.
+                </div>
+
+                <label htmlFor="titleInput">
+                  <div className={css.requiredMarker}>*</div>
+                  Title
+                  <ErrorMessage name="title">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                </label>
+
+                <Field
+                  autoFocus
+                  id="titleInput"
+                  maxLength={120}
+                  placeholder="Summarize your proposal"
+                  name="title"
+                  type="text"
+                  className={touched.title && errors.title ? css.error : null}
+                />
+
+                <label htmlFor="descriptionInput">
+                  <div className={css.proposalDescriptionLabelText}>
+                    <div className={css.requiredMarker}>*</div>
+                    <div className={css.body}>Description</div><HelpButton text={HelpButton.helpTextProposalDescription} />
+                  </div>
+                  <ErrorMessage name="description">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                </label>
+
+                <Field
+                  component={MarkdownField}
+                  onChange={(value: any) => { setFieldValue("description", value); }}
+                  id="descriptionInput"
+                  placeholder="Describe your proposal in greater detail"
+                  name="description"
+                  className={touched.description && errors.description ? css.error : null}
+                />
+
+                <label className={css.tagSelectorLabel}>
+                  Tags
+                </label>
+
+                <div className={css.tagSelectorContainer}>
+                  <TagsSelector onChange={this.onTagsChange} tags={this.state.tags} arc={arc}></TagsSelector>
+                </div>
+
+                <label htmlFor="urlInput">
+                  URL
+                  <ErrorMessage name="url">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                </label>
+
+                <Field
+                  id="urlInput"
+                  maxLength={120}
+                  placeholder="Description URL"
+                  name="url"
+                  type="text"
+                  className={touched.url && errors.url ? css.error : null}
+                />
+
+                <label htmlFor="originalDAOInput">
+                  <div className={css.requiredMarker}>*</div>
+                  DAO to vote in
+                  <ErrorMessage name="originalDAO">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                </label>
+                <Field
+                  id="originalDAOInput"
+                  placeholder="Enter the address of the other DAO"
+                  name="originalDAO"
+                  onChange={this.handleChangeOriginalDAO(setFieldValue)}
+                  className={touched.originalDAO && errors.originalDAO ? css.error : null}
+                />
+
+                <label htmlFor="originalProposalIdInput">
+                  <div className={css.requiredMarker}>*</div>
+                  Proposal
+                  <ErrorMessage name="originalProposalId">{(msg) => <span className={css.errorMessage}>{msg}</span>}</ErrorMessage>
+                </label>
+                <Field
+                  id="originalProposalIdInput"
+                  name="originalProposalId"
+                  component="select"
+                  disabled={loadingProposals || !originalProposals || originalProposals.length === 0}
+                  className={css.schemeSelect}
+                >
+                  <option value="">
+                    {loadingProposals ? "Searching the proposals..." :
+                      !originalProposals ? "Enter the DAO first" :
+                        originalProposals.length === 0 ? "The DAO has no open proposals" : "Select a proposal..."}
+                  </option>
+                  {(originalProposals || []).map((proposal) => {
+                    return <option key={`original_proposal_${proposal.id}`} value={proposal.id}>
+                      {humanProposalTitle(proposal, 80)} ({IProposalStage[proposal.stage]})
+                    </option>;
+                  })}
+                </Field>
+
+                <label>
+                  <div className={css.requiredMarker}>*</div>
+                  Vote
+                </label>
+                <div className={css.radioButtons}>
+                  <Field
+                    id="vote_pass"
+                    name="vote"
+                    checked={Number(values.vote) === IProposalOutcome.Pass}
+                    type="radio"
+                    value={String(IProposalOutcome.Pass)}
+                  />
+                  <label htmlFor="vote_pass">For</label>
+
+                  <Field
+                    id="vote_fail"
+                    name="vote"
+                    checked={Number(values.vote) === IProposalOutcome.Fail}
+                    type="radio"
+                    value={String(IProposalOutcome.Fail)}
+                  />
+                  <label htmlFor="vote_fail">Against</label>
+                </div>
+
+                {originalProposal ?
+                  <div className={css.description}>
+                    If this proposal passes, this DAO votes <strong>{Number(values.vote) === IProposalOutcome.Pass ? "for" : "against"}</strong>
+                    &nbsp;&quot;{humanProposalTitle(originalProposal)}&quot; with all of its reputation in the other DAO.
+                  </div>
+                  : ""
+                }
+
+                <div className={css.createProposalActions}>
+                  <button id="export-proposal" className={css.exportProposal} type="button" onClick={() => this.exportFormValues(values)}>
+                    <img src="/assets/images/Icon/share-blue.svg" />
+                  </button>
+                  <button className={css.exitProposalCreation} type="button" onClick={handleClose}>Cancel</button>
+                  <button className={css.submitProposal} type="submit" disabled={isSubmitting}>Submit proposal</button>
+                </div>
+              </Form>
+            );
+          }}
+        />
+      </div>
+    );
+  }
+}
+
+export default connect(null, mapDispatchToProps)(CreateVoteInOrganizationProposal);
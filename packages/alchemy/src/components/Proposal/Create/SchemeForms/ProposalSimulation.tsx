@@ -0,0 +1,46 @@
+import { ICallSimulation, IProposalSimulation } from "@daostack/arc.js";
+import * as React from "react";
+import { baseTokenName, formatTokens, getContractName, getNetworkByDAOAddress, truncateWithEllipses } from "lib/util";
+import * as css from "components/Proposal/Create/CreateProposal.scss";
+
+interface IProps {
+  daoAvatarAddress: string;
+  simulation: IProposalSimulation;
+}
+
+/**
+ * Shows the result of each call of a proposal, as if the proposal had been executed by the avatar now
+ */
+export default class ProposalSimulation extends React.Component<IProps, null> {
+
+  public render(): RenderOutput {
+    const { daoAvatarAddress, simulation } = this.props;
+    const network = getNetworkByDAOAddress(daoAvatarAddress);
+
+    return (
+      <div className={css.proposalSimulation}>
+        <label>Simulation</label>
+        <div className={simulation.success ? css.simulationSuccess : css.simulationFailure}>
+          {simulation.success ?
+            "All calls succeed when they are executed by the DAO now." :
+            "Some calls fail when they are executed by the DAO now. You can still submit the proposal."}
+        </div>
+        {simulation.calls.map((call: ICallSimulation, index: number) =>
+          <div key={index} className={css.simulatedCall}>
+            <div>
+              {index + 1}. {getContractName(call.contractToCall, daoAvatarAddress)} ({call.contractToCall})
+              {!call.value.isZero() && `, sending ${formatTokens(call.value, baseTokenName(network))}`}
+            </div>
+            {call.success ?
+              <div className={css.simulationSuccess}>
+                Succeeds, using {call.gasUsed} gas
+                {call.returnValue && call.returnValue !== "0x" && <span>, returns {truncateWithEllipses(call.returnValue, 66)}</span>}
+              </div> :
+              <div className={css.simulationFailure}>Fails: {call.revertReason}</div>
+            }
+          </div>
+        )}
+      </div>
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { IDAOState, IProposalState, IProposalType } from "@daostack/arc.js";
+import { IDAOState, IProposalState, IProposalType, ISignalSchemeProposalType } from "@daostack/arc.js";
 import classNames from "classnames";
 import { GenericSchemeRegistry } from "genericSchemeRegistry";
 import * as React from "react";
@@ -9,6 +9,10 @@ import ProposalSummaryKnownGenericScheme from "./ProposalSummaryKnownGenericSche
 import ProposalSummarySchemeRegistrar from "./ProposalSummarySchemeRegistrar";
 import ProposalSummaryUnknownGenericScheme from "./ProposalSummaryUnknownGenericScheme";
 import ProposalSummaryMultiCallGenericScheme from "./ProposalSummaryMultiCallGenericScheme";
+import ProposalSummarySignal from "./ProposalSummarySignal";
+import ProposalSummaryUpgradeScheme from "./ProposalSummaryUpgradeScheme";
+import ProposalSummaryGlobalConstraintRegistrar from "./ProposalSummaryGlobalConstraintRegistrar";
+import ProposalSummaryVoteInOrganization from "./ProposalSummaryVoteInOrganization";
 import { getNetworkByDAOAddress } from "lib/util";
 
 interface IProps {
@@ -45,6 +49,14 @@ export default class ProposalSummary extends React.Component<IProps> {
       }
     } else if (proposal.type === IProposalType.GenericSchemeMultiCall) {
       return <ProposalSummaryMultiCallGenericScheme {...this.props} />;
+    } else if (proposal.type === ISignalSchemeProposalType.Signal) {
+      return <ProposalSummarySignal {...this.props} />;
+    } else if (proposal.upgradeScheme) {
+      return <ProposalSummaryUpgradeScheme {...this.props} />;
+    } else if (proposal.globalConstraintRegistrar) {
+      return <ProposalSummaryGlobalConstraintRegistrar {...this.props} />;
+    } else if (proposal.voteInOrganization) {
+      return <ProposalSummaryVoteInOrganization {...this.props} />;
     } else {
       return <div className={proposalSummaryClass}>Unknown proposal type</div>;
     }
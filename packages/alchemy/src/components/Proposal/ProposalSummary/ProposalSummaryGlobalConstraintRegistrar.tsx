@@ -0,0 +1,91 @@
+import { IDAOState, IGlobalConstraintRegistrarProposalType, IProposalState } from "@daostack/arc.js";
+import classNames from "classnames";
+import { formatTokens, getNetworkByDAOAddress, linkToEtherScan, tokenSymbol } from "lib/util";
+import CopyToClipboard from "components/Shared/CopyToClipboard";
+import * as React from "react";
+import { IProfileState } from "@store/profiles/profilesReducer";
+import * as css from "./ProposalSummary.scss";
+
+interface IProps {
+  beneficiaryProfile?: IProfileState;
+  detailView?: boolean;
+  dao: IDAOState;
+  proposal: IProposalState;
+  transactionModal?: boolean;
+}
+
+export default class ProposalSummaryGlobalConstraintRegistrar extends React.Component<IProps> {
+
+  private renderHash(hash: string): RenderOutput {
+    return hash ?
+      <span>
+        <span>{hash.slice(0, 43)}</span>
+        <CopyToClipboard value={hash} />
+      </span>
+      : <span>Unknown</span>;
+  }
+
+  public render(): RenderOutput {
+    const { dao, proposal, detailView, transactionModal } = this.props;
+    const network = getNetworkByDAOAddress(dao.address);
+    const globalConstraintRegistrar = proposal.globalConstraintRegistrar;
+    const isAdd = proposal.type === IGlobalConstraintRegistrarProposalType.AddGlobalConstraint;
+    const constraintName = globalConstraintRegistrar.name || "Global Constraint";
+    const tokenCapGCParams = globalConstraintRegistrar.tokenCapGCParams;
+    const isNativeToken = tokenCapGCParams && tokenCapGCParams.token === dao.token.address;
+
+    const proposalSummaryClass = classNames({
+      [css.detailView]: detailView,
+      [css.transactionModal]: transactionModal,
+      [css.proposalSummary]: true,
+      [css.withDetails]: true,
+    });
+
+    return (
+      <div className={proposalSummaryClass}>
+        <span className={css.summaryTitle}>
+          {isAdd ? "Add" : "Remove"} {constraintName}&nbsp;
+          <a href={linkToEtherScan(globalConstraintRegistrar.globalConstraint, network)} target="_blank" rel="noopener noreferrer">{globalConstraintRegistrar.globalConstraint}</a>
+        </span>
+        {detailView ?
+          <div className={css.summaryDetails}>
+            <table><tbody>
+              <tr>
+                <th>Global constraint:</th>
+                <td>
+                  <a href={linkToEtherScan(globalConstraintRegistrar.globalConstraint, network)} target="_blank" rel="noopener noreferrer">{globalConstraintRegistrar.globalConstraint}</a>
+                  <CopyToClipboard value={globalConstraintRegistrar.globalConstraint} />
+                </td>
+              </tr>
+              {tokenCapGCParams ?
+                <tr>
+                  <th>Token cap:</th>
+                  <td>
+                    The total supply of&nbsp;
+                    <a href={linkToEtherScan(tokenCapGCParams.token, network)} target="_blank" rel="noopener noreferrer">
+                      {isNativeToken ? "the DAO token" : tokenCapGCParams.token}
+                    </a>
+                    &nbsp;is capped at {formatTokens(tokenCapGCParams.cap, isNativeToken ? dao.tokenSymbol : tokenSymbol(tokenCapGCParams.token, network))}
+                  </td>
+                </tr>
+                :
+                <tr>
+                  <th>Param Hash:</th>
+                  <td>{this.renderHash(globalConstraintRegistrar.paramsHash)}</td>
+                </tr>
+              }
+              {isAdd ?
+                <tr>
+                  <th>Voting params to remove:</th>
+                  <td>{this.renderHash(globalConstraintRegistrar.voteToRemoveParams)}</td>
+                </tr>
+                : undefined
+              }
+            </tbody></table>
+          </div>
+          : ""
+        }
+      </div>
+    );
+  }
+}
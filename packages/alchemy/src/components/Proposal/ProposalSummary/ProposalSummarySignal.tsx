@@ -0,0 +1,53 @@
+import { IDAOState, IProposalState } from "@daostack/arc.js";
+import classNames from "classnames";
+import { formatFriendlyDateForLocalTimezone, getNetworkByDAOAddress, linkToEtherScan } from "lib/util";
+import * as React from "react";
+import { IProfileState } from "@store/profiles/profilesReducer";
+import * as moment from "moment-timezone";
+import * as css from "./ProposalSummary.scss";
+
+interface IProps {
+  beneficiaryProfile?: IProfileState;
+  detailView?: boolean;
+  dao: IDAOState;
+  proposal: IProposalState;
+  transactionModal?: boolean;
+}
+
+export default class ProposalSummarySignal extends React.Component<IProps> {
+
+  public render(): RenderOutput {
+    const { proposal, detailView, transactionModal } = this.props;
+    const network = getNetworkByDAOAddress(this.props.dao.address);
+    const signalScheme = proposal.signalScheme;
+    const signal = signalScheme.signal;
+
+    const proposalSummaryClass = classNames({
+      [css.detailView]: detailView,
+      [css.transactionModal]: transactionModal,
+      [css.proposalSummary]: true,
+      [css.withDetails]: true,
+    });
+
+    return (
+      <div className={proposalSummaryClass}>
+        <span className={css.summaryTitle}>
+          Signal (type {signalScheme.signalType})
+        </span>
+        {detailView &&
+          <div className={css.summaryDetails}>
+            {signal ?
+              <div>
+                Signalled on {formatFriendlyDateForLocalTimezone(moment.unix(signal.createdAt))}&nbsp;
+                <a href={linkToEtherScan(signal.txHash, network)} target="_blank" rel="noopener noreferrer">
+                  <img src="/assets/images/Icon/Link-blue.svg" />
+                </a>
+              </div> :
+              <div>The DAO signals this proposal when it passes. The signal has no other effect.</div>
+            }
+          </div>
+        }
+      </div>
+    );
+  }
+}
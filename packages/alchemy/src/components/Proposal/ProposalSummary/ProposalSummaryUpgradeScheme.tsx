@@ -0,0 +1,122 @@
+/* eslint-disable no-bitwise */
+import { IDAOState, IProposalState, IUpgradeSchemeProposalType } from "@daostack/arc.js";
+import classNames from "classnames";
+import { getNetworkByDAOAddress, linkToEtherScan } from "lib/util";
+import CopyToClipboard from "components/Shared/CopyToClipboard";
+import { schemeNameAndAddress, SchemePermissions } from "lib/schemeUtils";
+import * as React from "react";
+import { IProfileState } from "@store/profiles/profilesReducer";
+import * as css from "./ProposalSummary.scss";
+
+interface IProps {
+  beneficiaryProfile?: IProfileState;
+  detailView?: boolean;
+  dao: IDAOState;
+  proposal: IProposalState;
+  transactionModal?: boolean;
+}
+
+export default class ProposalSummaryUpgradeScheme extends React.Component<IProps> {
+
+  private renderAddress(address: string): RenderOutput {
+    const network = getNetworkByDAOAddress(this.props.dao.address);
+    return address ?
+      <span>
+        <a href={linkToEtherScan(address, network)} target="_blank" rel="noopener noreferrer">{address}</a>
+        <CopyToClipboard value={address} />
+      </span>
+      : <span>Unknown</span>;
+  }
+
+  public render(): RenderOutput {
+    const { proposal, detailView, transactionModal } = this.props;
+    const network = getNetworkByDAOAddress(this.props.dao.address);
+    const upgradeScheme = proposal.upgradeScheme;
+    const isUpgradeController = proposal.type === IUpgradeSchemeProposalType.UpgradeController;
+    const permissions = upgradeScheme.permissions ? parseInt(upgradeScheme.permissions, 16) : null;
+
+    const proposalSummaryClass = classNames({
+      [css.detailView]: detailView,
+      [css.transactionModal]: transactionModal,
+      [css.proposalSummary]: true,
+      [css.withDetails]: true,
+    });
+
+    return (
+      <div className={proposalSummaryClass}>
+        {isUpgradeController ?
+          <span className={css.summaryTitle}>
+            Upgrade Controller to&nbsp;
+            <a href={linkToEtherScan(upgradeScheme.newController, network)} target="_blank" rel="noopener noreferrer">{upgradeScheme.newController}</a>
+          </span>
+          :
+          <span className={css.summaryTitle}>
+            Replace Upgrade Plugin with&nbsp;
+            <a href={linkToEtherScan(upgradeScheme.newUpgradeScheme, network)} target="_blank" rel="noopener noreferrer">{schemeNameAndAddress(upgradeScheme.newUpgradeScheme)}</a>
+          </span>
+        }
+        {detailView ?
+          <div className={css.summaryDetails}>
+            {isUpgradeController ?
+              <div>
+                <div className={css.upgradeWarning}>
+                  If this proposal passes, the new controller becomes the owner of the DAO&apos;s avatar, token and reputation.
+                  Only the plugins that are registered in the new controller will be able to act for the DAO.
+                </div>
+                <table><tbody>
+                  <tr>
+                    <th>Old controller:</th>
+                    <td>{this.renderAddress(upgradeScheme.oldController)}</td>
+                  </tr>
+                  <tr>
+                    <th>New controller:</th>
+                    <td>{this.renderAddress(upgradeScheme.newController)}</td>
+                  </tr>
+                </tbody></table>
+              </div>
+              :
+              <div>
+                <div className={css.upgradeWarning}>
+                  If this proposal passes, the new plugin is registered with the permissions of this Upgrade plugin,
+                  which is then removed from the DAO.
+                </div>
+                <table><tbody>
+                  <tr>
+                    <th>Old upgrade plugin:</th>
+                    <td>{this.renderAddress(proposal.scheme.address)}</td>
+                  </tr>
+                  <tr>
+                    <th>New upgrade plugin:</th>
+                    <td>{this.renderAddress(upgradeScheme.newUpgradeScheme)}</td>
+                  </tr>
+                  <tr>
+                    <th>Param Hash:</th>
+                    <td>
+                      <span>{upgradeScheme.newUpgradeSchemeParamsHash.slice(0, 43)}</span>
+                      <CopyToClipboard value={upgradeScheme.newUpgradeSchemeParamsHash} />
+                    </td>
+                  </tr>
+                  <tr>
+                    <th>Permissions transferred:</th>
+                    <td>
+                      {permissions === null ? "Unknown" :
+                        <div>
+                          {permissions & SchemePermissions.CanRegisterSchemes ? <div>Register other plugins</div> : ""}
+                          {permissions & SchemePermissions.CanAddRemoveGlobalConstraints ? <div>Add/remove global constraints</div> : ""}
+                          {permissions & SchemePermissions.CanUpgradeController ? <div>Upgrade the controller</div> : ""}
+                          {permissions & SchemePermissions.CanCallDelegateCall ? <div>Call genericCall on behalf of</div> : ""}
+                          <div>Mint or burn reputation</div>
+                        </div>
+                      }
+                    </td>
+                  </tr>
+                </tbody></table>
+              </div>
+            }
+          </div>
+          : ""
+        }
+      </div>
+    );
+  }
+}
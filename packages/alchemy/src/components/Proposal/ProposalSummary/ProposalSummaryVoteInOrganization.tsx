@@ -0,0 +1,94 @@
+import { IDAOState, IProposalOutcome, IProposalState } from "@daostack/arc.js";
+import classNames from "classnames";
+import { getNetworkByDAOAddress, linkToEtherScan } from "lib/util";
+import CopyToClipboard from "components/Shared/CopyToClipboard";
+import * as React from "react";
+import { Link } from "react-router-dom";
+import { IProfileState } from "@store/profiles/profilesReducer";
+import * as css from "./ProposalSummary.scss";
+
+interface IProps {
+  beneficiaryProfile?: IProfileState;
+  detailView?: boolean;
+  dao: IDAOState;
+  proposal: IProposalState;
+  transactionModal?: boolean;
+}
+
+export default class ProposalSummaryVoteInOrganization extends React.Component<IProps> {
+
+  public render(): RenderOutput {
+    const { proposal, detailView, transactionModal } = this.props;
+    const network = getNetworkByDAOAddress(this.props.dao.address);
+    const voteInOrganization = proposal.voteInOrganization;
+    const vote = voteInOrganization.vote === IProposalOutcome.Pass ? "For" : "Against";
+
+    const proposalSummaryClass = classNames({
+      [css.detailView]: detailView,
+      [css.transactionModal]: transactionModal,
+      [css.proposalSummary]: true,
+      [css.withDetails]: true,
+    });
+
+    // the other DAO is only known when the subgraph indexes its proposals
+    const originalProposal = voteInOrganization.originalDAO ?
+      <Link to={`/dao/${voteInOrganization.originalDAO}/proposal/${voteInOrganization.originalProposalId}`}>
+        {voteInOrganization.originalProposalId.slice(0, 10)}...
+      </Link>
+      : <span>{voteInOrganization.originalProposalId.slice(0, 10)}...</span>;
+
+    return (
+      <div className={proposalSummaryClass}>
+        <span className={css.summaryTitle}>
+          Vote <strong>{vote}</strong> on proposal {originalProposal}
+        </span>
+        {detailView ?
+          <div className={css.summaryDetails}>
+            <table><tbody>
+              <tr>
+                <th>DAO:</th>
+                <td>
+                  {voteInOrganization.originalDAO ?
+                    <span>
+                      <a href={linkToEtherScan(voteInOrganization.originalDAO, network)} target="_blank" rel="noopener noreferrer">{voteInOrganization.originalDAO}</a>
+                      <CopyToClipboard value={voteInOrganization.originalDAO} />
+                    </span>
+                    : <span>Unknown</span>
+                  }
+                </td>
+              </tr>
+              <tr>
+                <th>Proposal:</th>
+                <td>
+                  <span>{voteInOrganization.originalProposalId.slice(0, 43)}</span>
+                  <CopyToClipboard value={voteInOrganization.originalProposalId} />
+                </td>
+              </tr>
+              <tr>
+                <th>Voting machine:</th>
+                <td>
+                  <a href={linkToEtherScan(voteInOrganization.originalIntVote, network)} target="_blank" rel="noopener noreferrer">{voteInOrganization.originalIntVote}</a>
+                </td>
+              </tr>
+              <tr>
+                <th>Vote:</th>
+                <td>{vote}</td>
+              </tr>
+              {voteInOrganization.executed ?
+                <tr>
+                  <th>Vote cast:</th>
+                  <td>
+                    {voteInOrganization.decision === IProposalOutcome.Pass ? "Yes" : "No"}
+                    {voteInOrganization.callReturnValue ? <span> (returned {voteInOrganization.callReturnValue})</span> : ""}
+                  </td>
+                </tr>
+                : null
+              }
+            </tbody></table>
+          </div>
+          : ""
+        }
+      </div>
+    );
+  }
+}
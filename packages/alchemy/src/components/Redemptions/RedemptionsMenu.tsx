@@ -1,6 +1,6 @@
 import { Address, IDAOState, IProposalState, IRewardState, Proposal, Reward } from "@daostack/arc.js";
 import { enableWalletProvider } from "arc";
-import { redeemProposal } from "@store/arc/arcActions";
+import { redeemProposals } from "@store/arc/arcActions";
 
 import * as BN from "bn.js";
 import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
@@ -38,12 +38,12 @@ const mapStateToProps = (state: IRootState, ownProps: IExternalProps) => {
 };
 
 interface IDispatchProps {
-  redeemProposal: typeof redeemProposal;
+  redeemProposals: typeof redeemProposals;
   showNotification: typeof showNotification;
 }
 
 const mapDispatchToProps = {
-  redeemProposal,
+  redeemProposals,
   showNotification,
 };
 
@@ -93,17 +93,16 @@ class RedemptionsMenu extends React.Component<IProps, null> {
     const {
       currentAccountAddress,
       data: redeemableProposals,
-      redeemProposal,
+      redeemProposals,
       showNotification,
     } = this.props;
 
     if (!await enableWalletProvider({ showNotification }, this.props.network)) { return; }
 
-    redeemableProposals.forEach(proposal => {
-      if (getNetworkByDAOAddress(proposal.dao.id) === this.props.network) {
-        redeemProposal(proposal.dao.id, proposal.id, currentAccountAddress);
-      }
-    });
+    const proposalsToRedeem = redeemableProposals
+      .filter(proposal => getNetworkByDAOAddress(proposal.dao.id) === this.props.network)
+      .map(proposal => ({ daoAvatarAddress: proposal.dao.id, proposalId: proposal.id }));
+    redeemProposals(proposalsToRedeem, currentAccountAddress);
   }
 }
 
@@ -1,6 +1,6 @@
 import { Address, DAOFieldsFragment, IContributionReward, IDAOState, IRewardState, Proposal } from "@daostack/arc.js";
 import { enableWalletProvider, getArcs } from "arc";
-import { redeemProposal } from "@store/arc/arcActions";
+import { redeemProposals } from "@store/arc/arcActions";
 import * as BN from "bn.js";
 import Loading from "components/Shared/Loading";
 import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
@@ -33,12 +33,12 @@ const mapStateToProps = (state: IRootState) => {
 };
 
 interface IDispatchProps {
-  redeemProposal: typeof redeemProposal;
+  redeemProposals: typeof redeemProposals;
   showNotification: typeof showNotification;
 }
 
 const mapDispatchToProps = {
-  redeemProposal,
+  redeemProposals,
   showNotification,
 };
 
@@ -116,17 +116,16 @@ class RedemptionsPage extends React.Component<IProps, null> {
     const {
       currentAccountAddress,
       data: proposals,
-      redeemProposal,
+      redeemProposals,
       showNotification,
     } = this.props;
 
     if (!await enableWalletProvider({ showNotification }, this.props.network)) { return; }
 
-    proposals.forEach(proposal => {
-      if (getNetworkByDAOAddress(proposal.dao.id) === this.props.network) {
-        redeemProposal(proposal.dao.id, proposal.id, currentAccountAddress);
-      }
-    });
+    const proposalsToRedeem = proposals
+      .filter(proposal => getNetworkByDAOAddress(proposal.dao.id) === this.props.network)
+      .map(proposal => ({ daoAvatarAddress: proposal.dao.id, proposalId: proposal.id }));
+    redeemProposals(proposalsToRedeem, currentAccountAddress);
   }
 
   private renderProposalsPerDAO(): RenderOutput[] {
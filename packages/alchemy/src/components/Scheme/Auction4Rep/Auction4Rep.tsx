@@ -0,0 +1,237 @@
+import * as React from "react";
+import * as css from "components/Scheme/CL4R/CL4R.scss";
+import gql from "graphql-tag";
+import Loading from "components/Shared/Loading";
+import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
+import { getArcByDAOAddress, standardPolling, getNetworkByDAOAddress, toWei, ethErrorHandler, fromWei, formatTokens } from "lib/util";
+import { Address, Auction4ReputationScheme, IDAOState, ISchemeState, Token } from "@daostack/arc.js";
+import { RouteComponentProps } from "react-router-dom";
+import * as classNames from "classnames";
+import * as moment from "moment";
+import Countdown from "components/Shared/Countdown";
+import { first } from "rxjs/operators";
+import { combineLatest, of } from "rxjs";
+import { enableWalletProvider } from "arc";
+import { bidInAuction, redeemAuction, approveTokens } from "@store/arc/arcActions";
+import { showNotification } from "@store/notifications/notifications.reducer";
+import { connect } from "react-redux";
+import Tooltip from "rc-tooltip";
+import { getAuction4RepParams, getAuctionId, IAuction4RepBid, IAuction4RepParams, IAuction4RepRedeem, sumBids } from "./Auction4RepHelper";
+import BN from "bn.js";
+
+interface IDispatchProps {
+  bidInAuction: typeof bidInAuction;
+  redeemAuction: typeof redeemAuction;
+  showNotification: typeof showNotification;
+  approveTokens: typeof approveTokens;
+}
+
+const mapDispatchToProps = {
+  bidInAuction,
+  redeemAuction,
+  showNotification,
+  approveTokens,
+};
+
+type SubscriptionData = [any, BN, BN];
+type IProps = IExternalProps & ISubscriptionProps<SubscriptionData> & IDispatchProps;
+type IExternalProps = {
+  daoState: IDAOState;
+  scheme: ISchemeState;
+  currentAccountAddress: Address;
+} & RouteComponentProps<any>;
+
+const Auction4Rep = (props: IProps) => {
+  const { data, daoState, currentAccountAddress } = props;
+  const [loading, setLoading] = React.useState(true);
+  const [schemeParams, setSchemeParams] = React.useState({} as IAuction4RepParams);
+  const [bidAmount, setBidAmount] = React.useState(0);
+  const [auction4Reputation, setAuction4Reputation] = React.useState<Auction4ReputationScheme>();
+  const [isBidding, setIsBidding] = React.useState(false);
+  const [isApprovingToken, setIsApprovingToken] = React.useState(false);
+  const [redeemingAuctionId, setRedeemingAuctionId] = React.useState<number>();
+  const [currentTime, setCurrentTime] = React.useState(moment().unix());
+  const isAllowance = data[1]?.gt(new BN(0));
+  const isEnoughBalance = fromWei(data[2]) >= bidAmount;
+  const bids: Array<IAuction4RepBid> = (data as any)[0].data?.auction4ReputationBids ?? [];
+  const redeems: Array<IAuction4RepRedeem> = (data as any)[0].data?.auction4ReputationRedeems ?? [];
+
+  React.useEffect(() => {
+    const getSchemeInfo = async () => {
+      const arc = getArcByDAOAddress(daoState.id);
+      setSchemeParams(await getAuction4RepParams(daoState.id, props.scheme.id));
+      const schemes = await arc.schemes({ where: { id: props.scheme.id.toLowerCase() } }).pipe(first()).toPromise();
+      setAuction4Reputation(schemes[0].Auction4Reputation as Auction4ReputationScheme);
+      setLoading(false);
+    };
+    getSchemeInfo();
+  }, []);
+
+  const currentAuctionId = getAuctionId(schemeParams, currentTime);
+  const isAuctionsStarted = currentAuctionId >= 0;
+  const isAuctionsEnded = currentTime >= schemeParams.auctionsEndTime;
+  const redeemable = currentTime > schemeParams.redeemEnableTime;
+  const nextAuctionStartTime = moment.unix(schemeParams.auctionsStartTime + ((currentAuctionId + 1) * schemeParams.auctionPeriod));
+
+  const handleBid = React.useCallback(async () => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.bidInAuction(auction4Reputation, toWei(Number(bidAmount)), currentAuctionId, schemeParams.agreementHash, setIsBidding);
+  }, [auction4Reputation, bidAmount, currentAuctionId]);
+
+  const handleRedeem = React.useCallback(async (auctionId: number) => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.redeemAuction(auction4Reputation, currentAccountAddress, auctionId,
+      (isRedeeming: boolean) => setRedeemingAuctionId(isRedeeming ? auctionId : undefined));
+  }, [auction4Reputation, currentAccountAddress]);
+
+  const handleTokenApproving = React.useCallback(async () => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.approveTokens(props.scheme.address, getArcByDAOAddress(daoState.address), schemeParams.token, schemeParams.tokenSymbol, setIsApprovingToken);
+  }, [schemeParams]);
+
+  const auctions = [];
+  for (let auctionId = 0; auctionId <= Math.min(currentAuctionId, schemeParams.numberOfAuctions - 1); auctionId++) {
+    const totalBid = sumBids(bids, auctionId);
+    const yourBid = currentAccountAddress ? sumBids(bids, auctionId, currentAccountAddress) : new BN(0);
+    const redeem = redeems.find((redeem: IAuction4RepRedeem) => Number(redeem.auctionId) === auctionId);
+    const isRedeeming = redeemingAuctionId === auctionId;
+    const yourReputation = totalBid.isZero() ? new BN(0) : yourBid.mul(new BN(schemeParams.auctionReputationReward)).div(totalBid);
+    const redeemButtonClass = classNames({
+      [css.actionButton]: true,
+      [css.disabled]: isRedeeming,
+    });
+    auctions.push(<tr key={auctionId}>
+      <td>{auctionId + 1}</td>
+      <td>{formatTokens(totalBid, schemeParams.tokenSymbol)}</td>
+      <td>{formatTokens(yourBid, schemeParams.tokenSymbol)}</td>
+      <td>{redeem ? `Redeemed ${formatTokens(new BN(redeem.amount), "REP")}` :
+        redeemable && !yourBid.isZero() ?
+          <button onClick={() => handleRedeem(auctionId)} className={redeemButtonClass} disabled={isRedeeming}>{`Redeem ${formatTokens(yourReputation, "REP")}`}</button> :
+          formatTokens(yourReputation, "REP")}
+      </td>
+    </tr>);
+  }
+  auctions.reverse();
+
+  const bidButtonClass = classNames({
+    [css.actionButton]: true,
+    [css.disabled]: !bidAmount || isBidding || !isEnoughBalance,
+  });
+
+  const approveTokenButtonClass = classNames({
+    [css.actionButton]: true,
+    [css.disabled]: isApprovingToken,
+  });
+
+  return (
+    !loading ? <div className={css.wrapper}>
+      <div className={css.leftWrapper}>
+        <div className={css.top}>
+          <div className={css.countersWrapper}>
+            <div className={css.currentPeriod}>Current Auction: {isAuctionsEnded ? schemeParams.numberOfAuctions : currentAuctionId + 1} of {schemeParams.numberOfAuctions}</div>
+            <div className={css.nextPeriod}>{isAuctionsEnded ? "Auctions Ended" :
+              <div>{isAuctionsStarted ? "Next in" : "Starts in"} <Countdown toDate={nextAuctionStartTime} onEnd={() => setCurrentTime(moment().unix())} /></div>}
+            </div>
+          </div>
+          <div className={css.redeemWrapper}>
+            {!redeemable && <div className={css.redeemedAmountLabel}>
+              {`Redeemable from ${moment.unix(schemeParams.redeemEnableTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}`}
+            </div>}
+          </div>
+        </div>
+        <div className={css.tableTitleWrapper}>
+          <div className={classNames({ [css.title]: true, [css.active]: true })}>All Auctions</div>
+        </div>
+        {auctions.length > 0 ?
+          <table>
+            <thead>
+              <tr>
+                <th style={{ padding: "10px" }}>Auction</th>
+                <th>Total Bids</th>
+                <th>You Bid</th>
+                <th>You Will Receive</th>
+              </tr>
+            </thead>
+            <tbody>
+              {auctions}
+            </tbody>
+          </table>
+          : <span className={css.noLockLabel}>No auctions yet.</span>
+        }
+      </div>
+      {!isAuctionsEnded && isAuctionsStarted && <div className={css.lockWrapper}>
+        <div className={css.lockTitle}>New Bid</div>
+        <span style={{ marginBottom: "5px" }}>Bid Amount ({schemeParams.tokenSymbol})</span>
+        <input type="number" onChange={(e: any) => setBidAmount(e.target.value)} disabled={!isAllowance} />
+        {!isEnoughBalance && <span className={css.lowBalanceLabel}>{`Not enough ${schemeParams.tokenSymbol}!`}</span>}
+        <span className={css.releasableLable}>{`The bids of an auction share ${formatTokens(new BN(schemeParams.auctionReputationReward), "REP")}`}</span>
+        {isAllowance && <button onClick={handleBid} className={bidButtonClass} disabled={!bidAmount || isBidding || !isEnoughBalance}>Bid</button>}
+        {!isAllowance && <Tooltip trigger={["hover"]} overlay={`Upon activation, the smart contract will be authorized to receive up to 100,000 ${schemeParams.tokenSymbol}`}>
+          <button onClick={handleTokenApproving} className={approveTokenButtonClass} disabled={isApprovingToken}>Enable Bidding</button>
+        </Tooltip>}
+      </div>}
+    </div> : <Loading />
+  );
+};
+
+const SubscribedAuction4Rep = withSubscription({
+  wrappedComponent: Auction4Rep,
+  loadingComponent: <Loading />,
+  errorComponent: (props) => <div>{props.error.message}</div>,
+  checkForUpdate: ["currentAccountAddress"],
+  createObservable: async (props: IProps) => {
+    const arc = getArcByDAOAddress(props.daoState.id);
+    const schemeId = props.scheme.id.toLowerCase();
+    const bidsQuery = gql`
+    query Bids {
+      auction4ReputationBids(first: 1000, where: {scheme: "${schemeId}"}) {
+        id
+        auctionId
+        bidder
+        amount
+        createdAt
+      }
+      auction4ReputationRedeems(where: {scheme: "${schemeId}", beneficiary: "${(props.currentAccountAddress || "").toLowerCase()}"}) {
+        id
+        auctionId
+        beneficiary
+        amount
+        redeemedAt
+      }
+    }
+    `;
+    if (props.currentAccountAddress) {
+      const schemeToken = gql`
+      query SchemeInfo {
+        controllerSchemes(where: {id: "${schemeId}"}) {
+          auction4ReputationParams {
+            id
+            token
+          }
+        }
+      }
+      `;
+      const schemeTokenData = await arc.sendQuery(schemeToken);
+      const tokenString = schemeTokenData.data.controllerSchemes[0].auction4ReputationParams.token;
+      const token = new Token(tokenString, arc);
+      const allowance = token.allowance(props.currentAccountAddress, props.scheme.address);
+      const balanceOf = token.balanceOf(props.currentAccountAddress);
+      return combineLatest(
+        arc.getObservable(bidsQuery, standardPolling()),
+        allowance.pipe(ethErrorHandler()),
+        balanceOf.pipe(ethErrorHandler())
+      );
+    } else {
+      return combineLatest(
+        arc.getObservable(bidsQuery, standardPolling()),
+        of(new BN(0)),
+        of(new BN(0))
+      );
+    }
+  },
+});
+
+export default connect(
+  null,
+  mapDispatchToProps,
+)(SubscribedAuction4Rep);
@@ -0,0 +1,106 @@
+import { formatTokens, getArcByDAOAddress } from "lib/util";
+import gql from "graphql-tag";
+import * as React from "react";
+import moment from "moment-timezone";
+import { Address } from "@daostack/arc.js";
+import BN from "bn.js";
+import humanizeDuration from "humanize-duration";
+
+export interface IAuction4RepParams {
+  id: Address;
+  auctionsStartTime: number;
+  auctionsEndTime: number;
+  auctionPeriod: number;
+  numberOfAuctions: number;
+  redeemEnableTime: number;
+  auctionReputationReward: string;
+  token: Address;
+  tokenName: string;
+  tokenSymbol: string;
+  wallet: Address;
+  agreementHash: string;
+}
+
+export interface IAuction4RepBid {
+  id: string;
+  auctionId: string;
+  bidder: Address;
+  amount: string;
+  createdAt: string;
+}
+
+export interface IAuction4RepRedeem {
+  id: string;
+  auctionId: string;
+  beneficiary: Address;
+  amount: string;
+  redeemedAt: string;
+}
+
+export const getAuction4RepParams = async (daoAddress: string, schemeId: string) => {
+  const arc = getArcByDAOAddress(daoAddress);
+  const schemeInfoQuery = gql`
+  query SchemeInfo {
+    controllerSchemes(where: {id: "${schemeId}"}) {
+      auction4ReputationParams {
+        id
+        auctionsStartTime
+        auctionsEndTime
+        auctionPeriod
+        numberOfAuctions
+        redeemEnableTime
+        auctionReputationReward
+        token
+        tokenName
+        tokenSymbol
+        wallet
+        agreementHash
+      }
+    }
+  }
+  `;
+  const schemeInfoParams = await arc.sendQuery(schemeInfoQuery);
+  const params = schemeInfoParams.data.controllerSchemes[0].auction4ReputationParams;
+  return {
+    ...params,
+    auctionsStartTime: Number(params.auctionsStartTime),
+    auctionsEndTime: Number(params.auctionsEndTime),
+    auctionPeriod: Number(params.auctionPeriod),
+    numberOfAuctions: Number(params.numberOfAuctions),
+    redeemEnableTime: Number(params.redeemEnableTime),
+  } as IAuction4RepParams;
+};
+
+export const renderAuction4RepParams = (params: IAuction4RepParams) => {
+  const redeemEnableTime = moment.unix(params.redeemEnableTime).utc();
+  return (<React.Fragment>
+    <div>ID</div><div>{params.id}</div>
+    <div>Token</div><div>{`${params.token} (${params.tokenName})`}</div>
+    <div>Token Symbol</div><div>{params.tokenSymbol}</div>
+    <div>Wallet</div><div>{params.wallet}</div>
+    <div>Start Time</div><div>{moment.unix(params.auctionsStartTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}</div>
+    <div>End Time</div><div>{moment.unix(params.auctionsEndTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}</div>
+    <div>Redeem Enable Time</div><div>{`${redeemEnableTime.format("h:mm A [UTC] on MMMM Do, YYYY")} ${redeemEnableTime.isSameOrBefore(moment()) ? "(redeemable)" : "(not redeemable)"}`}</div>
+    <div>Number of Auctions</div><div>{params.numberOfAuctions}</div>
+    <div>Auction Period</div><div>{humanizeDuration(params.auctionPeriod * 1000)}</div>
+    <div>Reputation per Auction</div><div>{params.auctionReputationReward && formatTokens(new BN(params.auctionReputationReward), "REP")}</div>
+    <div>Agreement Hash</div><div>{params.agreementHash}</div>
+  </React.Fragment>);
+};
+
+/**
+ * the auction that is running at a given time, counting from 0, or -1 before the first auction
+ */
+export const getAuctionId = (params: IAuction4RepParams, time: number) => {
+  if (time < params.auctionsStartTime) {
+    return -1;
+  }
+  return Math.min(Math.trunc((time - params.auctionsStartTime) / params.auctionPeriod), params.numberOfAuctions);
+};
+
+export const sumBids = (bids: Array<IAuction4RepBid>, auctionId: number, bidder?: Address) => {
+  return bids
+    .filter((bid: IAuction4RepBid) => Number(bid.auctionId) === auctionId && (!bidder || bid.bidder === bidder.toLowerCase()))
+    .map((bid: IAuction4RepBid) => new BN(bid.amount))
+    .reduce((a: BN, b: BN) => a.add(b), new BN(0));
+};
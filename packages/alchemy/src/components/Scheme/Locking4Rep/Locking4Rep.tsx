@@ -0,0 +1,298 @@
+import * as React from "react";
+import * as css from "components/Scheme/CL4R/CL4R.scss";
+import gql from "graphql-tag";
+import Loading from "components/Shared/Loading";
+import withSubscription, { ISubscriptionProps } from "components/Shared/withSubscription";
+import { getArcByDAOAddress, standardPolling, getNetworkByDAOAddress, toWei, formatTokens } from "lib/util";
+import { Address, IDAOState, ISchemeState, Locking4ReputationScheme, Token } from "@daostack/arc.js";
+import { RouteComponentProps } from "react-router-dom";
+import * as classNames from "classnames";
+import * as moment from "moment";
+import Countdown from "components/Shared/Countdown";
+import { first } from "rxjs/operators";
+import { of } from "rxjs";
+import { enableWalletProvider } from "arc";
+import { lockForReputation, releaseLockForReputation, redeemLockingReputation, approveTokens } from "@store/arc/arcActions";
+import { showNotification } from "@store/notifications/notifications.reducer";
+import { connect } from "react-redux";
+import Tooltip from "rc-tooltip";
+import { getLocking4RepParams, getReleaseTime, ILocking4RepLock, ILocking4RepParams } from "./Locking4RepHelper";
+import BN from "bn.js";
+import humanizeDuration from "humanize-duration";
+
+interface IDispatchProps {
+  lockForReputation: typeof lockForReputation;
+  releaseLockForReputation: typeof releaseLockForReputation;
+  redeemLockingReputation: typeof redeemLockingReputation;
+  showNotification: typeof showNotification;
+  approveTokens: typeof approveTokens;
+}
+
+const mapDispatchToProps = {
+  lockForReputation,
+  releaseLockForReputation,
+  redeemLockingReputation,
+  showNotification,
+  approveTokens,
+};
+
+type SubscriptionData = any;
+type IProps = IExternalProps & ISubscriptionProps<SubscriptionData> & IDispatchProps;
+type IExternalProps = {
+  daoState: IDAOState;
+  scheme: ISchemeState;
+  currentAccountAddress: Address;
+} & RouteComponentProps<any>;
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+
+/**
+ * The page of the schemes that extend Locking4Reputation: ETH or tokens are locked (or, for an
+ * ExternalLocking4Reputation, the balance in an external contract is claimed) for a period, and
+ * once the locking has ended the lockers redeem reputation in proportion to their amount times period.
+ */
+const Locking4Rep = (props: IProps) => {
+  const { data, daoState, currentAccountAddress, scheme } = props;
+  const [loading, setLoading] = React.useState(true);
+  const [schemeParams, setSchemeParams] = React.useState({} as ILocking4RepParams);
+  const [locking4Reputation, setLocking4Reputation] = React.useState<Locking4ReputationScheme>();
+  const [lockAmount, setLockAmount] = React.useState(0);
+  const [lockDays, setLockDays] = React.useState(0);
+  const [tokenAddress, setTokenAddress] = React.useState("");
+  const [tokenSymbol, setTokenSymbol] = React.useState("");
+  const [isAllowance, setIsAllowance] = React.useState(false);
+  const [isLocking, setIsLocking] = React.useState(false);
+  const [isApprovingToken, setIsApprovingToken] = React.useState(false);
+  const [isRedeeming, setIsRedeeming] = React.useState(false);
+  const [releasingLockId, setReleasingLockId] = React.useState<string>();
+  const [redeemableAmount, setRedeemableAmount] = React.useState(new BN(0));
+  const [currentTime, setCurrentTime] = React.useState(moment().unix());
+  const locks: Array<ILocking4RepLock> = data.data?.locking4ReputationLocks ?? [];
+  const redeemed = data.data?.locking4ReputationRedeems?.[0];
+  const isEth = scheme.name === "LockingEth4Reputation";
+  const isToken = scheme.name === "LockingToken4Reputation";
+  const isExternal = scheme.name === "ExternalLocking4Reputation";
+  const arc = getArcByDAOAddress(daoState.id);
+
+  React.useEffect(() => {
+    const getSchemeInfo = async () => {
+      setSchemeParams(await getLocking4RepParams(daoState.id, scheme.id));
+      const schemes = await arc.schemes({ where: { id: scheme.id.toLowerCase() } }).pipe(first()).toPromise();
+      setLocking4Reputation(schemes[0].Locking4Reputation as Locking4ReputationScheme);
+      setLoading(false);
+    };
+    getSchemeInfo();
+  }, []);
+
+  // the reputation of a locker is its share of the total score, where the score of a lock is its amount times its period
+  React.useEffect(() => {
+    const getRedeemableAmount = async () => {
+      if (!locking4Reputation || !currentAccountAddress) {
+        setRedeemableAmount(new BN(0));
+        return;
+      }
+      const score = await locking4Reputation.getScore(currentAccountAddress);
+      const totalScore = await locking4Reputation.getTotalScore();
+      setRedeemableAmount(totalScore.isZero() ? new BN(0) : score.mul(new BN(schemeParams.reputationReward)).div(totalScore));
+    };
+    getRedeemableAmount();
+  }, [locking4Reputation, schemeParams, currentAccountAddress, locks.length, redeemed?.id]);
+
+  // tokens can only be locked when the scheme is allowed to transfer them
+  React.useEffect(() => {
+    const getAllowance = async () => {
+      if (!isToken || !currentAccountAddress || !arc.web3.utils.isAddress(tokenAddress)) {
+        setIsAllowance(!isToken);
+        return;
+      }
+      const token = new Token(tokenAddress, arc);
+      const allowance = await token.allowance(currentAccountAddress, scheme.address).pipe(first()).toPromise();
+      setIsAllowance(allowance.gt(new BN(0)));
+      setTokenSymbol((await token.state({ subscribe: false }).pipe(first()).toPromise()).symbol);
+    };
+    getAllowance().catch(() => setIsAllowance(false));
+  }, [tokenAddress, currentAccountAddress, isApprovingToken]);
+
+  const isLockingStarted = currentTime >= schemeParams.lockingStartTime;
+  const isLockingEnded = currentTime >= schemeParams.lockingEndTime;
+  const redeemable = currentTime > schemeParams.redeemEnableTime;
+  const lockPeriod = Math.round(lockDays * SECONDS_IN_DAY);
+  const isValidPeriod = lockPeriod > 0 && lockPeriod <= schemeParams.maxLockingPeriod;
+  const amountSymbol = isEth ? "ETH" : tokenSymbol;
+
+  const handleLock = React.useCallback(async () => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.lockForReputation(locking4Reputation, scheme.name, toWei(Number(lockAmount)), lockPeriod, schemeParams.agreementHash,
+      isExternal ? currentAccountAddress : tokenAddress, setIsLocking);
+  }, [locking4Reputation, lockAmount, lockPeriod, tokenAddress, currentAccountAddress]);
+
+  const handleRelease = React.useCallback(async (lockingId: string) => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.releaseLockForReputation(locking4Reputation, currentAccountAddress, lockingId,
+      (isReleasing: boolean) => setReleasingLockId(isReleasing ? lockingId : undefined));
+  }, [locking4Reputation, currentAccountAddress]);
+
+  const handleRedeem = React.useCallback(async () => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.redeemLockingReputation(locking4Reputation, currentAccountAddress, setIsRedeeming);
+  }, [locking4Reputation, currentAccountAddress]);
+
+  const handleTokenApproving = React.useCallback(async () => {
+    if (!await enableWalletProvider({ showNotification: props.showNotification }, getNetworkByDAOAddress(daoState.address))) { return; }
+    props.approveTokens(scheme.address, arc, tokenAddress, tokenSymbol, setIsApprovingToken);
+  }, [tokenAddress, tokenSymbol]);
+
+  const lockings = locks.map((lock: ILocking4RepLock) => {
+    const releaseTime = getReleaseTime(lock);
+    const isReleasing = releasingLockId === lock.lockingId;
+    const releaseButtonClass = classNames({
+      [css.actionButton]: true,
+      [css.disabled]: isReleasing,
+    });
+    return <tr key={lock.id}>
+      <td>{moment.unix(Number(lock.lockingTime)).format("DD.MM.YYYY HH:mm")}</td>
+      <td>{formatTokens(new BN(lock.amount), isEth ? "ETH" : undefined)}</td>
+      <td>{humanizeDuration(Number(lock.period) * 1000)}</td>
+      {!isExternal && <td>{lock.released ? `Released ${moment.unix(Number(lock.releasedAt)).format("DD.MM.YYYY HH:mm")}` :
+        currentTime > releaseTime ?
+          <button onClick={() => handleRelease(lock.lockingId)} className={releaseButtonClass} disabled={isReleasing}>Release</button> :
+          moment.unix(releaseTime).format("DD.MM.YYYY HH:mm")}
+      </td>}
+    </tr>;
+  });
+
+  const lockButtonClass = classNames({
+    [css.actionButton]: true,
+    [css.disabled]: isLocking || (!isExternal && (!lockAmount || !isValidPeriod)),
+  });
+
+  const approveTokenButtonClass = classNames({
+    [css.actionButton]: true,
+    [css.disabled]: isApprovingToken || !arc.web3.utils.isAddress(tokenAddress),
+  });
+
+  const redeemButtonClass = classNames({
+    [css.actionButton]: true,
+    [css.disabled]: isRedeeming || !redeemable || redeemableAmount.isZero(),
+  });
+
+  return (
+    !loading ? <div className={css.wrapper}>
+      <div className={css.leftWrapper}>
+        <div className={css.top}>
+          <div className={css.countersWrapper}>
+            <div className={css.currentPeriod}>{`Reputation Reward: ${formatTokens(new BN(schemeParams.reputationReward), "REP")}`}</div>
+            <div className={css.nextPeriod}>{isLockingEnded ? "Locking Ended" :
+              <div>{isLockingStarted ? "Ends in" : "Starts in"} <Countdown
+                toDate={moment.unix(isLockingStarted ? schemeParams.lockingEndTime : schemeParams.lockingStartTime)}
+                onEnd={() => setCurrentTime(moment().unix())} /></div>}
+            </div>
+          </div>
+          <div className={css.redeemWrapper}>
+            <div className={css.redeemButtonWrapper}>
+              <button
+                className={redeemButtonClass}
+                onClick={handleRedeem}
+                disabled={isRedeeming || !redeemable || redeemableAmount.isZero()}>{`Redeem ${formatTokens(redeemableAmount)} REP`}
+              </button>
+              {!redeemable && <Tooltip trigger={["hover"]} overlay={`Redeem Enable Time: ${moment.unix(schemeParams.redeemEnableTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}`}>
+                <img style={{ marginLeft: "10px" }} width="15px" src="/assets/images/Icon/question-help.svg" />
+              </Tooltip>}
+            </div>
+            <div className={css.redeemedAmountLabel}>{`Total Redeemed: ${formatTokens(new BN(redeemed?.amount ?? 0), "REP")}`}</div>
+          </div>
+        </div>
+        <div className={css.tableTitleWrapper}>
+          <div className={classNames({ [css.title]: true, [css.active]: true })}>Your Locks</div>
+        </div>
+        {lockings.length > 0 ?
+          <table>
+            <thead>
+              <tr>
+                <th style={{ padding: "10px" }}>Locked At</th>
+                <th>Amount</th>
+                <th>Duration</th>
+                {!isExternal && <th>Releasable</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {lockings}
+            </tbody>
+          </table>
+          : <span className={css.noLockLabel}>No locks yet.</span>
+        }
+      </div>
+      {!isLockingEnded && isLockingStarted && currentAccountAddress && <div className={css.lockWrapper}>
+        <div className={css.lockTitle}>{isExternal ? "Claim" : "New Lock"}</div>
+        {isExternal ?
+          <span style={{ marginBottom: "5px" }}>{`Claim your balance in ${schemeParams.externalLockingContract} as a lock`}</span> :
+          <React.Fragment>
+            {isToken && <React.Fragment>
+              <span style={{ marginBottom: "5px" }}>Token Address</span>
+              <input type="text" onChange={(e: any) => setTokenAddress(e.target.value)} style={{ marginBottom: "20px" }} />
+            </React.Fragment>}
+            <div className={css.lockDurationLabel}>
+              <span style={{ marginRight: "5px" }}>Lock Duration (days)</span>
+              <Tooltip trigger={["hover"]} overlay={`Max Locking Period: ${humanizeDuration(schemeParams.maxLockingPeriod * 1000)}`}>
+                <img width="15px" src="/assets/images/Icon/question-help.svg" />
+              </Tooltip>
+            </div>
+            <input type="number" onChange={(e: any) => setLockDays(e.target.value)} disabled={!isAllowance} style={{ marginBottom: "20px" }} />
+            {lockDays > 0 && !isValidPeriod && <span className={css.lowBalanceLabel}>The duration is longer than the max locking period!</span>}
+            <span style={{ marginBottom: "5px" }}>Lock Amount {amountSymbol && `(${amountSymbol})`}</span>
+            <input type="number" onChange={(e: any) => setLockAmount(e.target.value)} disabled={!isAllowance} />
+            {isValidPeriod && <span className={css.releasableLable}>Releasable: {moment().add(lockPeriod, "seconds").format("DD.MM.YYYY HH:mm")}</span>}
+          </React.Fragment>
+        }
+        {isAllowance ?
+          <button onClick={handleLock} className={lockButtonClass} disabled={isLocking || (!isExternal && (!lockAmount || !isValidPeriod))}>{isExternal ? "Claim" : "Lock"}</button> :
+          <Tooltip trigger={["hover"]} overlay={`Upon activation, the smart contract will be authorized to receive up to 100,000 ${tokenSymbol || "tokens"}`}>
+            <button onClick={handleTokenApproving} className={approveTokenButtonClass} disabled={isApprovingToken || !arc.web3.utils.isAddress(tokenAddress)}>Enable Locking</button>
+          </Tooltip>
+        }
+      </div>}
+    </div> : <Loading />
+  );
+};
+
+const SubscribedLocking4Rep = withSubscription({
+  wrappedComponent: Locking4Rep,
+  loadingComponent: <Loading />,
+  errorComponent: (props) => <div>{props.error.message}</div>,
+  checkForUpdate: ["currentAccountAddress"],
+  createObservable: async (props: IProps) => {
+    if (props.currentAccountAddress) {
+      const arc = getArcByDAOAddress(props.daoState.id);
+      const schemeId = props.scheme.id.toLowerCase();
+      const account = props.currentAccountAddress.toLowerCase();
+      const locksQuery = gql`
+      query Locks {
+        locking4ReputationLocks(where: {scheme: "${schemeId}", locker: "${account}"}) {
+          id
+          lockingId
+          locker
+          amount
+          period
+          lockingTime
+          token
+          released
+          releasedAt
+        }
+        locking4ReputationRedeems(where: {scheme: "${schemeId}", beneficiary: "${account}"}) {
+          id
+          amount
+          redeemedAt
+        }
+      }
+      `;
+      return arc.getObservable(locksQuery, standardPolling());
+    } else {
+      return of({});
+    }
+  },
+});
+
+export default connect(
+  null,
+  mapDispatchToProps,
+)(SubscribedLocking4Rep);
@@ -0,0 +1,84 @@
+import { formatTokens, getArcByDAOAddress } from "lib/util";
+import gql from "graphql-tag";
+import * as React from "react";
+import moment from "moment-timezone";
+import { Address } from "@daostack/arc.js";
+import BN from "bn.js";
+import humanizeDuration from "humanize-duration";
+
+export interface ILocking4RepParams {
+  id: Address;
+  reputationReward: string;
+  lockingStartTime: number;
+  lockingEndTime: number;
+  redeemEnableTime: number;
+  maxLockingPeriod: number;
+  agreementHash: string;
+  priceOracleContract: Address;
+  externalLockingContract: Address;
+  getBalanceFuncSignature: string;
+}
+
+export interface ILocking4RepLock {
+  id: string;
+  lockingId: string;
+  locker: Address;
+  amount: string;
+  period: string;
+  lockingTime: string;
+  token: Address;
+  released: boolean;
+  releasedAt: string;
+}
+
+export const getLocking4RepParams = async (daoAddress: string, schemeId: string) => {
+  const arc = getArcByDAOAddress(daoAddress);
+  const schemeInfoQuery = gql`
+  query SchemeInfo {
+    controllerSchemes(where: {id: "${schemeId}"}) {
+      locking4ReputationParams {
+        id
+        reputationReward
+        lockingStartTime
+        lockingEndTime
+        redeemEnableTime
+        maxLockingPeriod
+        agreementHash
+        priceOracleContract
+        externalLockingContract
+        getBalanceFuncSignature
+      }
+    }
+  }
+  `;
+  const schemeInfoParams = await arc.sendQuery(schemeInfoQuery);
+  const params = schemeInfoParams.data.controllerSchemes[0].locking4ReputationParams;
+  return {
+    ...params,
+    lockingStartTime: Number(params.lockingStartTime),
+    lockingEndTime: Number(params.lockingEndTime),
+    redeemEnableTime: Number(params.redeemEnableTime),
+    maxLockingPeriod: Number(params.maxLockingPeriod),
+  } as ILocking4RepParams;
+};
+
+export const renderLocking4RepParams = (params: ILocking4RepParams) => {
+  const redeemEnableTime = moment.unix(params.redeemEnableTime).utc();
+  return (<React.Fragment>
+    <div>ID</div><div>{params.id}</div>
+    <div>Start Time</div><div>{moment.unix(params.lockingStartTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}</div>
+    <div>End Time</div><div>{moment.unix(params.lockingEndTime).utc().format("h:mm A [UTC] on MMMM Do, YYYY")}</div>
+    <div>Redeem Enable Time</div><div>{`${redeemEnableTime.format("h:mm A [UTC] on MMMM Do, YYYY")} ${redeemEnableTime.isSameOrBefore(moment()) ? "(redeemable)" : "(not redeemable)"}`}</div>
+    <div>Max Locking Period</div><div>{humanizeDuration(params.maxLockingPeriod * 1000)}</div>
+    <div>Reputation Reward</div><div>{params.reputationReward && formatTokens(new BN(params.reputationReward), "REP")}</div>
+    {params.priceOracleContract && <React.Fragment><div>Price Oracle</div><div>{params.priceOracleContract}</div></React.Fragment>}
+    {params.externalLockingContract && <React.Fragment><div>External Locking Contract</div><div>{params.externalLockingContract}</div></React.Fragment>}
+    {params.getBalanceFuncSignature && <React.Fragment><div>Balance Function</div><div>{params.getBalanceFuncSignature}</div></React.Fragment>}
+    <div>Agreement Hash</div><div>{params.agreementHash}</div>
+  </React.Fragment>);
+};
+
+/** the time (in seconds since the epoch) from which a lock can be released */
+export const getReleaseTime = (lock: ILocking4RepLock) => {
+  return Number(lock.lockingTime) + Number(lock.period);
+};
@@ -1,6 +1,6 @@
 import { History } from "history";
 import { first, filter, toArray, mergeMap } from "rxjs/operators";
-import { Address, CompetitionScheme, IProposalStage, IDAOState, ISchemeState, IProposalState, IProposalOutcome, Scheme } from "@daostack/arc.js";
+import { Address, CompetitionScheme, IProposalStage, LOCKING4REPUTATION_SCHEMES, IDAOState, ISchemeState, IProposalState, IProposalOutcome, Scheme } from "@daostack/arc.js";
 import { enableWalletProvider } from "arc";
 import classNames from "classnames";
 import Loading from "components/Shared/Loading";
@@ -22,6 +22,8 @@ import SchemeOpenBountyPage from "./SchemeOpenBountyPage";
 import * as css from "./Scheme.scss";
 import { standardPolling, getArcByDAOAddress, getNetworkByDAOAddress } from "lib/util";
 import CL4R from "components/Scheme/CL4R/CL4R";
+import Auction4Rep from "components/Scheme/Auction4Rep/Auction4Rep";
+import Locking4Rep from "components/Scheme/Locking4Rep/Locking4Rep";
 
 interface IDispatchProps {
   showNotification: typeof showNotification;
@@ -87,7 +89,11 @@ class SchemeContainer extends React.Component<IProps, IState> {
     return <this.state.crxListComponent {...props} daoState={this.props.daoState} scheme={this.props.data[0]} proposals={this.props.data[2]} />;
   };
 
-  private lockingRouth = (props: any) => { return <CL4R {...props} currentAccountAddress={this.props.currentAccountAddress} daoState={this.props.daoState} scheme={this.props.data[0]} />; };
+  private lockingRouth = (props: any) => {
+    const scheme = this.props.data[0];
+    const LockingComponent = scheme.name === "Auction4Reputation" ? Auction4Rep : LOCKING4REPUTATION_SCHEMES.includes(scheme.name) ? Locking4Rep : CL4R;
+    return <LockingComponent {...props} currentAccountAddress={this.props.currentAccountAddress} daoState={this.props.daoState} scheme={scheme} />;
+  };
 
   public async componentDidMount() {
 
@@ -128,7 +134,8 @@ class SchemeContainer extends React.Component<IProps, IState> {
     const isActive = getSchemeIsActive(schemeState);
     const isProposalScheme = PROPOSAL_SCHEME_NAMES.includes(schemeState.name);
     const isBountyScheme = schemeName(schemeState, schemeState.address) === "Standard Bounties";
-    const isLocking = schemeState.name === "ContinuousLocking4Reputation";
+    const isAuction = schemeState.name === "Auction4Reputation";
+    const isLocking = isAuction || schemeState.name === "ContinuousLocking4Reputation" || LOCKING4REPUTATION_SCHEMES.includes(schemeState.name);
     const pathname = this.props.location.pathname;
     // checking the special case here where the information tab is the default
     const inInfoTab = pathname.match(/info\/*$/i) || !(isLocking || isProposalScheme || isBountyScheme || this.state.crxRewarderProps);
@@ -155,7 +162,7 @@ class SchemeContainer extends React.Component<IProps, IState> {
     });
     const lockingTabClass = classNames({
       [css.locking]: true,
-      [css.active]: !inInfoTab || pathname.includes("locking"),
+      [css.active]: !inInfoTab || pathname.includes("locking") || pathname.includes("auction"),
     });
     const schemeFriendlyName = schemeName(schemeState, schemeState.address);
 
@@ -182,7 +189,7 @@ class SchemeContainer extends React.Component<IProps, IState> {
                 }
 
                 {
-                  isLocking && <Link className={lockingTabClass} to={`/dao/${daoAvatarAddress}/scheme/${schemeId}/locking/`}>Locking</Link>
+                  isLocking && <Link className={lockingTabClass} to={`/dao/${daoAvatarAddress}/scheme/${schemeId}/${isAuction ? "auction" : "locking"}/`}>{isAuction ? "Auction" : "Locking"}</Link>
                 }
 
                 <Link className={infoTabClass} to={`/dao/${daoAvatarAddress}/scheme/${schemeId}/info/`}>Information</Link>
@@ -236,6 +243,7 @@ class SchemeContainer extends React.Component<IProps, IState> {
               : ""
           }
           <Route path="/dao/:daoAvatarAddress/scheme/:schemeId/locking" render={this.lockingRouth}>Locking</Route>
+          <Route path="/dao/:daoAvatarAddress/scheme/:schemeId/auction" render={this.lockingRouth}>Auction</Route>
           <Route path="/dao/:daoAvatarAddress/scheme/:schemeId" render={isProposalScheme ? this.schemeProposalsPageHtml(isActive, this.state.crxRewarderProps) : isLocking ? this.lockingRouth : this.schemeInfoPageHtml} />
         </Switch>
       </div>
@@ -2,7 +2,7 @@
 
 import { History } from "history";
 import * as React from "react";
-import { Address, ISchemeState, IGenesisProtocolParams, IDAOState } from "@daostack/arc.js";
+import { Address, ISchemeState, IGenesisProtocolParams, IDAOState, LOCKING4REPUTATION_SCHEMES } from "@daostack/arc.js";
 import { fromWei, getNetworkByDAOAddress, linkToEtherScan, roundUp } from "lib/util";
 import CopyToClipboard from "components/Shared/CopyToClipboard";
 import { schemeName } from "lib/schemeUtils";
@@ -11,6 +11,8 @@ import Tooltip from "rc-tooltip";
 import * as css from "./SchemeInfo.scss";
 import { getCL4RParams, renderCL4RParams } from "./CL4R/CL4RHelper";
 import { ICL4RParams } from "./CL4R/CL4RHelper";
+import { getAuction4RepParams, IAuction4RepParams, renderAuction4RepParams } from "./Auction4Rep/Auction4RepHelper";
+import { getLocking4RepParams, ILocking4RepParams, renderLocking4RepParams } from "./Locking4Rep/Locking4RepHelper";
 
 interface IExternalProps {
   daoState: IDAOState;
@@ -21,6 +23,8 @@ interface IExternalProps {
 
 interface IState {
   CL4RParams: ICL4RParams;
+  auction4RepParams: IAuction4RepParams;
+  locking4RepParams: ILocking4RepParams;
 }
 
 type IProps = IExternalProps;
@@ -33,6 +37,10 @@ export default class SchemeInfo extends React.Component<IProps, IState> {
     this.state = {
       // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
       CL4RParams: {} as ICL4RParams,
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      auction4RepParams: {} as IAuction4RepParams,
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      locking4RepParams: {} as ILocking4RepParams,
     };
   }
 
@@ -40,11 +48,17 @@ export default class SchemeInfo extends React.Component<IProps, IState> {
     if (this.props.scheme.name === "ContinuousLocking4Reputation") {
       this.setState({ CL4RParams: await getCL4RParams(this.props.daoState.id, this.props.scheme.id) });
     }
+    if (this.props.scheme.name === "Auction4Reputation") {
+      this.setState({ auction4RepParams: await getAuction4RepParams(this.props.daoState.id, this.props.scheme.id) });
+    }
+    if (LOCKING4REPUTATION_SCHEMES.includes(this.props.scheme.name)) {
+      this.setState({ locking4RepParams: await getLocking4RepParams(this.props.daoState.id, this.props.scheme.id) });
+    }
   }
 
   public render(): RenderOutput {
     const { daoState, scheme } = this.props;
-    const { CL4RParams } = this.state;
+    const { CL4RParams, auction4RepParams, locking4RepParams } = this.state;
     const daoAvatarAddress = daoState.address;
     const network = getNetworkByDAOAddress(daoAvatarAddress);
 
@@ -128,7 +142,11 @@ export default class SchemeInfo extends React.Component<IProps, IState> {
       (scheme.contributionRewardParams && scheme.contributionRewardParams.votingMachine) ||
       (scheme.schemeRegistrarParams && scheme.schemeRegistrarParams.votingMachine) ||
       (scheme.contributionRewardExtParams && scheme.contributionRewardExtParams.votingMachine) ||
-      (scheme.genericSchemeMultiCallParams && scheme.genericSchemeMultiCallParams.votingMachine)
+      (scheme.genericSchemeMultiCallParams && scheme.genericSchemeMultiCallParams.votingMachine) ||
+      (scheme.signalSchemeParams && scheme.signalSchemeParams.votingMachine) ||
+      (scheme.upgradeSchemeParams && scheme.upgradeSchemeParams.votingMachine) ||
+      (scheme.globalConstraintRegistrarParams && scheme.globalConstraintRegistrarParams.votingMachine) ||
+      (scheme.voteInOrganizationParams && scheme.voteInOrganizationParams.votingMachine)
     );
     return <div>
       <div className={css.schemeInfoContainer}>
@@ -251,6 +269,59 @@ export default class SchemeInfo extends React.Component<IProps, IState> {
         : ""
       }
 
+      {scheme.signalSchemeParams ?
+        <div className={css.schemeInfoContainer}>
+          <h3>Genesis Protocol Params -- <a href="https://daostack.zendesk.com/hc/en-us/articles/360002000537" target="_blank" rel="noopener noreferrer">Learn more</a></h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              <div>Signal type:</div><div>{scheme.signalSchemeParams.signalType}</div>
+              {renderVotingMachineLink(votingMachine)}
+              {renderGpParams(scheme.signalSchemeParams.voteParams)}
+            </div>
+          </div>
+        </div>
+        : ""
+      }
+
+      {scheme.upgradeSchemeParams ?
+        <div className={css.schemeInfoContainer}>
+          <h3>Genesis Protocol Params -- <a href="https://daostack.zendesk.com/hc/en-us/articles/360002000537" target="_blank" rel="noopener noreferrer">Learn more</a></h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              {renderVotingMachineLink(votingMachine)}
+              {renderGpParams(scheme.upgradeSchemeParams.voteParams)}
+            </div>
+          </div>
+        </div>
+        : ""
+      }
+
+      {scheme.globalConstraintRegistrarParams ?
+        <div className={css.schemeInfoContainer}>
+          <h3>Genesis Protocol Params -- <a href="https://daostack.zendesk.com/hc/en-us/articles/360002000537" target="_blank" rel="noopener noreferrer">Learn more</a></h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              {renderVotingMachineLink(votingMachine)}
+              {renderGpParams(scheme.globalConstraintRegistrarParams.voteRegisterParams)}
+            </div>
+          </div>
+        </div>
+        : ""
+      }
+
+      {scheme.voteInOrganizationParams ?
+        <div className={css.schemeInfoContainer}>
+          <h3>Genesis Protocol Params -- <a href="https://daostack.zendesk.com/hc/en-us/articles/360002000537" target="_blank" rel="noopener noreferrer">Learn more</a></h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              {renderVotingMachineLink(votingMachine)}
+              {renderGpParams(scheme.voteInOrganizationParams.voteParams)}
+            </div>
+          </div>
+        </div>
+        : ""
+      }
+
       {scheme.contributionRewardExtParams ?
         <div className={css.schemeInfoContainer}>
           <h3>Genesis Protocol Params -- <a href="https://daostack.zendesk.com/hc/en-us/articles/360002000537" target="_blank" rel="noopener noreferrer">Learn more</a></h3>
@@ -273,6 +344,26 @@ export default class SchemeInfo extends React.Component<IProps, IState> {
             </div>
           </div>
         </div>}
+
+      {scheme.name === "Auction4Reputation" &&
+        <div className={css.schemeInfoContainer}>
+          <h3>Auction for Reputation Params</h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              {renderAuction4RepParams(auction4RepParams)}
+            </div>
+          </div>
+        </div>}
+
+      {LOCKING4REPUTATION_SCHEMES.includes(scheme.name) &&
+        <div className={css.schemeInfoContainer}>
+          <h3>Locking for Reputation Params</h3>
+          <div className={css.infoCardContent}>
+            <div className={css.gpRowsContainer}>
+              {renderLocking4RepParams(locking4RepParams)}
+            </div>
+          </div>
+        </div>}
     </div>;
   }
 }
@@ -1,3 +1,4 @@
+import { GraphQueryError } from "@daostack/arc.js";
 import * as React from "react";
 import { combineLatest, Observable, Subscription } from "rxjs";
 import { Subtract } from "utility-types";
@@ -119,7 +120,7 @@ const withSubscription = <Props extends ISubscriptionProps<ObservableType>, Obse
            * The below condition is a workaround to avoid crashing Alchemy when a GraphQL error or a Network error occurs.
            * This is due to the way Apollo Client works when such an error occurs - it fails and terminates the observable including the polling.
            */
-          if ((error.message.includes("GraphQL") || error.message.includes("Network")) && currentAttempt < 10) {
+          if (error instanceof GraphQueryError && (error.graphQLErrors.length > 0 || error.networkError) && currentAttempt < 10) {
             currentAttempt ++;
             this.subscription.unsubscribe();
             setTimeout(this.setupSubscription.bind(this, observable, currentAttempt), GRAPH_POLL_INTERVAL);
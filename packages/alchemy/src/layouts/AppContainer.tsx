@@ -7,7 +7,7 @@ import Header from "layouts/Header";
 import SidebarMenu from "layouts/SidebarMenu";
 import { IRootState } from "@store";
 import { dismissNotification, INotificationsState, NotificationStatus, showNotification, INotification } from "@store/notifications/notifications.reducer";
-import { getCachedAccount, cacheWeb3Info, logout, pollForAccountChanges } from "arc";
+import { getCachedAccount, cacheWeb3Info, logout, watchAccountChanges } from "arc";
 import ErrorUncaught from "components/Errors/ErrorUncaught";
 import { parse } from "query-string";
 import * as React from "react";
@@ -130,20 +130,14 @@ class AppContainer extends React.Component<IProps, IState> {
       window.ethereum.on("chainChanged", async (chainId: string) => {
         this.props.setCurrentAccount(getCachedAccount(), await getNetworkName(chainId));
       });
-      // TO DO: Listen to account changes in MetaMask instead of polling!
-      //window.ethereum.on("accountsChanged", (accounts: Array<any>) => {
-      // Handle the new accounts, or lack thereof.
-      // "accounts" will always be an array, but it can be empty.
-      // The current account is at accounts[0]
-      //});
     }
 
     /**
-     * Only supply currentAddress if it was obtained from a provider.  The poll
+     * Only supply currentAddress if it was obtained from a provider.  The watcher
      * is only comparing changes with respect to the provider state.  Passing it a cached state
      * will only cause it to get the wrong impression and misbehave.
      */
-    pollForAccountChanges(accountWasCached ? null : currentAddress).subscribe(
+    watchAccountChanges(accountWasCached ? null : currentAddress).subscribe(
       (newAddress: Address | null): void => {
         // eslint-disable-next-line no-console
         console.log(`new account: ${newAddress}`);
@@ -157,6 +157,13 @@ class SidebarMenu extends React.Component<IProps, IStateProps> {
                 Members
               </Link>
             </li>
+            <li>
+              <Link to={`/dao/${dao.address}/constraints`} onClick={this.handleCloseMenu}>
+                <span className={css.menuDot} />
+                <img src="/assets/images/Icon/menu/plugins.svg" />
+                Constraints
+              </Link>
+            </li>
           </ul>
         </div>
         <div className={css.daoNavHeading}>
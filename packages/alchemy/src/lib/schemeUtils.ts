@@ -3,6 +3,7 @@ import { // Address,
   IContractInfo,
   ISchemeState,
   Scheme,
+  UnknownContractError,
 } from "@daostack/arc.js";
 import { rewarderContractName } from "components/Scheme/ContributionRewardExtRewarders/rewardersProps";
 import { GenericSchemeRegistry } from "genericSchemeRegistry";
@@ -36,6 +37,7 @@ export const REQUIRED_SCHEME_PERMISSIONS: any = {
   "ContributionReward": SchemePermissions.IsRegistered,
   "GlobalConstraintRegistrar": SchemePermissions.IsRegistered | SchemePermissions.CanAddRemoveGlobalConstraints,
   "SchemeRegistrar": SchemePermissions.All, // TODO: is this correct?
+  "SignalScheme": SchemePermissions.IsRegistered,
   "UpgradeScheme": SchemePermissions.IsRegistered | SchemePermissions.CanRegisterSchemes | SchemePermissions.CanUpgradeController,
   "VestingScheme": SchemePermissions.IsRegistered,
   "VoteInOrganizationScheme": SchemePermissions.IsRegistered | SchemePermissions.CanCallDelegateCall,
@@ -52,6 +54,14 @@ export const KNOWN_SCHEME_NAMES = [
   "ContributionRewardExt",
   "GenericSchemeMultiCall",
   "ContinuousLocking4Reputation",
+  "Auction4Reputation",
+  "LockingEth4Reputation",
+  "LockingToken4Reputation",
+  "ExternalLocking4Reputation",
+  "SignalScheme",
+  "UpgradeScheme",
+  "GlobalConstraintRegistrar",
+  "VoteInOrganizationScheme",
 ];
 
 export const getKnownSchemes = (schemes: Scheme[]) => {
@@ -70,6 +80,10 @@ export const PROPOSAL_SCHEME_NAMES = [
   "Competition",
   "ContributionRewardExt",
   "GenericSchemeMultiCall",
+  "SignalScheme",
+  "UpgradeScheme",
+  "GlobalConstraintRegistrar",
+  "VoteInOrganizationScheme",
 ];
 
 export const getProposalSchemes = (schemes: Scheme[]) => {
@@ -125,6 +139,14 @@ export function schemeName(scheme: ISchemeState|IContractInfo, fallback?: string
     }
   } else if (scheme.name === "ContinuousLocking4Reputation") {
     name = "Locking Tokens for Reputation";
+  } else if (scheme.name === "Auction4Reputation") {
+    name = "Auction for Reputation";
+  } else if (scheme.name === "LockingEth4Reputation") {
+    name = "Locking ETH for Reputation";
+  } else if (scheme.name === "LockingToken4Reputation") {
+    name = "Locking Tokens for Reputation";
+  } else if (scheme.name === "ExternalLocking4Reputation") {
+    name = "External Locking for Reputation";
   } else if (scheme.name) {
     if (scheme.name === "ContributionRewardExt") {
       /**
@@ -152,7 +174,7 @@ export function schemeNameFromAddress(address: string) {
     const name = schemeName(contractInfo);
     return name;
   } catch (err) {
-    if (err.message.match(/No contract/)) {
+    if (err instanceof UnknownContractError) {
       return "";
     }
   }
@@ -172,7 +194,7 @@ export function schemeNameAndAddress(address: string) {
       return `${address.slice(0, 4)}...${address.slice(-4)}`;
     }
   } catch (err) {
-    if (err.message.match(/No contract/)) {
+    if (err instanceof UnknownContractError) {
       return `${address.slice(0, 4)}...${address.slice(-4)}`;
     }
   }
@@ -3,6 +3,7 @@ export enum Page {
   AllDAOs = "All Daos",
   CreateProposal = "Create Proposal",
   DAOPropoasls = "DAO Proposals",
+  DAOGlobalConstraints = "DAO Global Constraints",
   DAOMembers = "DAO Members",
   DAOSchemes = "DAO Schemes",
   ProposalDetails = "Proposal Details",
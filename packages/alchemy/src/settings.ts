@@ -164,6 +164,7 @@ function getWeb3ConnectProviderOptions(network: string) {
 
 export const settings = {
   ganache: {
+    chainId: 1337,
     graphqlHttpProvider: SubgraphEndpoints.http_ganache,
     graphqlWsProvider: SubgraphEndpoints.ws_ganache,
     graphqlSubscribeToQueries: false,
@@ -174,6 +175,9 @@ export const settings = {
     web3ConnectProviderOptions: {},
   },
   rinkeby: {
+    callCache: true,
+    persistCache: true,
+    chainId: 4,
     graphqlHttpProvider: process.env.ARC_GRAPHQLHTTPPROVIDER || SubgraphEndpoints.http_rinkeby,
     graphqlWsProvider:  process.env.ARC_GRAPHQLWSPROVIDER || SubgraphEndpoints.ws_rinkeby,
     graphqlSubscribeToQueries: false,
@@ -184,6 +188,9 @@ export const settings = {
     web3ConnectProviderOptions: getWeb3ConnectProviderOptions("rinkeby"),
   },
   kovan: {
+    callCache: true,
+    persistCache: true,
+    chainId: 42,
     graphqlHttpProvider: process.env.ARC_GRAPHQLHTTPPROVIDER || SubgraphEndpoints.http_kovan,
     graphqlWsProvider:  process.env.ARC_GRAPHQLWSPROVIDER || SubgraphEndpoints.ws_kovan,
     graphqlSubscribeToQueries: false,
@@ -194,6 +201,9 @@ export const settings = {
     web3ConnectProviderOptions: getWeb3ConnectProviderOptions("kovan"),
   },
   xdai: {
+    callCache: true,
+    persistCache: true,
+    chainId: 100,
     graphqlHttpProvider: process.env.ARC_GRAPHQLHTTPPROVIDER || SubgraphEndpoints.http_xdai,
     graphqlWsProvider:  process.env.ARC_GRAPHQLWSPROVIDER || SubgraphEndpoints.ws_xdai,
     graphqlSubscribeToQueries: false,
@@ -204,6 +214,9 @@ export const settings = {
     web3ConnectProviderOptions: getWeb3ConnectProviderOptions("xdai"),
   },
   main: {
+    callCache: true,
+    persistCache: true,
+    chainId: 1,
     graphqlHttpProvider: process.env.ARC_GRAPHQLHTTPPROVIDER || SubgraphEndpoints.http_main,
     graphqlWsProvider: process.env.ARC_GRAPHQLWSPROVIDER || SubgraphEndpoints.ws_main,
     graphqlSubscribeToQueries: false,
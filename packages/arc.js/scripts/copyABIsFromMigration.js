@@ -93,6 +93,31 @@ async function copyABIs() {
   })
 }
 
+/**
+ * Write `abis/index.ts`, which requires each ABI with a static path, so that bundlers include
+ * them without being configured for it (cf. `bundledABILoader`)
+ */
+function writeIndex() {
+  const lines = [
+    '// generated by scripts/copyABIsFromMigration.js - do not edit',
+    '// tslint:disable',
+    'export const bundledABIs: { [version: string]: { [name: string]: () => any } } = {'
+  ]
+  getDirectories(ABI_DIR).forEach(arcVersion => {
+    lines.push(`  '${arcVersion}': {`)
+    fs.readdirSync(path.join(ABI_DIR, arcVersion))
+      .filter(file => file.endsWith('.json'))
+      .forEach(file => {
+        const name = path.basename(file, '.json')
+        lines.push(`    '${name}': () => require('./${arcVersion}/${file}'),`)
+      })
+    lines.push('  },')
+  })
+  lines.push('}', '')
+  log(`writing the index of the ABIs to ${ABI_DIR}/index.ts`)
+  fs.writeFileSync(path.join(ABI_DIR, 'index.ts'), lines.join('\n'), 'utf-8')
+}
+
 // if (require.main === module) {
 //   copyABIsFromMigration().catch(err => {
 //     console.log(err)
@@ -105,6 +130,7 @@ async function copyABIs() {
 async function run () {
   await optimizeABIs()
   await copyABIs()
+  writeIndex()
 }
 
 if (require.main === module) {
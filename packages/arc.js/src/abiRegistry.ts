@@ -0,0 +1,242 @@
+/**
+ * An artefact as it is found in the `abis` directory: the ABI of a contract, or a reference to
+ * an identical ABI of an earlier version (`rootVersion`)
+ */
+export interface IABIArtefact {
+  abi?: any[]
+  rootVersion?: string
+}
+
+/**
+ * A bundle of ABIs, by version and contract name, e.g. `{ '0.0.1-rc.44': { Avatar: { abi: [...] } } }`
+ */
+export interface IABIManifest {
+  [version: string]: {
+    [name: string]: IABIArtefact | any[]
+  }
+}
+
+/**
+ * A function that returns the ABI (or the artefact) of a contract, or undefined if it does not know it
+ */
+export type ABILoader = (name: string, version: string) => IABIArtefact | any[] | undefined
+
+/**
+ * The index of the ABIs in the `abis` directory, which `npm run copy-abis` generates as `abis/index.ts`:
+ * a function for each version and contract name that requires the artefact with a static path
+ */
+interface IBundledABIs {
+  [version: string]: {
+    [name: string]: () => IABIArtefact
+  }
+}
+
+// the index of the `abis` directory, once required, or null if there is none
+let bundledABIs: IBundledABIs | null | undefined
+
+/**
+ * The default loader, which requires the ABIs that `npm run copy-abis` copied into the package.
+ * It finds them in the index that the script generates, whose requires are static, so bundlers include
+ * the ABIs without being configured for it
+ */
+export const bundledABILoader: ABILoader = (name: string, version: string) => {
+  if (bundledABIs === undefined) {
+    try {
+      bundledABIs = require('./abis').bundledABIs as IBundledABIs
+    } catch (err) {
+      // the ABIs were not copied into the package
+      bundledABIs = null
+    }
+  }
+  const load = bundledABIs && bundledABIs[version] && bundledABIs[version][name]
+  return load ? load() : undefined
+}
+
+/**
+ * A rule that says that the ABI of another contract name or version must be used
+ */
+export interface IABIResolution {
+  /** the name of the contract */
+  name: string
+  /** if given, the rule only applies to versions before this one */
+  before?: string
+  /** the name and/or version of the ABI to use instead */
+  use: {
+    name?: string
+    version?: string
+  }
+}
+
+/**
+ * The resolutions that are used by default
+ */
+export const ABI_RESOLUTIONS: IABIResolution[] = [
+  // the GEN token is an ERC20 token
+  { name: 'GEN', use: { name: 'ERC20' } },
+  // cf. https://github.com/daostack/subgraph/pull/336
+  { before: '0.0.1-rc.24', name: 'UGenericScheme', use: { name: 'GenericScheme' } }
+]
+
+export interface IABIRegistryOptions {
+  /** ABIs that are bundled with the application */
+  manifest?: IABIManifest
+  /**
+   * a directory with a subdirectory for each version, containing `${name}.json` artefacts, like
+   * the one created by `npm run copy-abis`. It is read with `fs`, so this is only available in node
+   */
+  directory?: string
+  /** called for the ABIs that are not in the manifest */
+  loader?: ABILoader
+  /** Default is ABI_RESOLUTIONS */
+  resolutions?: IABIResolution[]
+}
+
+/**
+ * The ABI registry finds the ABI of a contract by name and version. It looks in the
+ * manifest first, then asks the loader, and finally looks in the directory.
+ */
+export class ABIRegistry {
+  public resolutions: IABIResolution[]
+  private manifest: IABIManifest = {}
+  private directory?: string
+  private loader?: ABILoader
+  // the artefacts we loaded, by version and name
+  private cache: Map<string, IABIArtefact | undefined> = new Map()
+
+  constructor(options: IABIRegistryOptions = {}) {
+    this.directory = options.directory
+    this.loader = options.loader
+    this.resolutions = options.resolutions || ABI_RESOLUTIONS
+    if (options.manifest) {
+      this.addManifest(options.manifest)
+    }
+  }
+
+  /**
+   * add the ABIs of the manifest to the registry
+   */
+  public addManifest(manifest: IABIManifest) {
+    for (const version of Object.keys(manifest)) {
+      for (const name of Object.keys(manifest[version])) {
+        this.add(name, version, manifest[version][name])
+      }
+    }
+  }
+
+  /**
+   * add an ABI (or an artefact) to the registry
+   */
+  public add(name: string, version: string, abi: IABIArtefact | any[]) {
+    if (!this.manifest[version]) {
+      this.manifest[version] = {}
+    }
+    this.manifest[version][name] = abi
+    this.cache.delete(`${version}/${name}`)
+  }
+
+  /**
+   * return the name and version of the ABI to use for the contract, according to the resolutions
+   */
+  public resolve(name: string, version: string): { name: string, version: string } {
+    for (const resolution of this.resolutions) {
+      if (resolution.name === name && (!resolution.before || compareVersions(version, resolution.before) < 0)) {
+        return {
+          name: resolution.use.name || name,
+          version: resolution.use.version || version
+        }
+      }
+    }
+    return { name, version }
+  }
+
+  /**
+   * @return the ABI of the contract
+   * @throws an Error if the ABI is not known
+   */
+  public getABI(name: string, version: string): any[] {
+    const resolved = this.resolve(name, version)
+    let artefact = this.load(resolved.name, resolved.version)
+    if (artefact && artefact.rootVersion) {
+      // the ABI did not change since `rootVersion`
+      artefact = this.load(resolved.name, artefact.rootVersion)
+    }
+    if (!artefact || !artefact.abi) {
+      const knownVersions = this.knownVersions(resolved.name)
+      throw Error(`No ABI found for ${resolved.name} version ${resolved.version}; ` +
+        (knownVersions.length > 0
+          ? `known versions of ${resolved.name} are: ${knownVersions.join(', ')}`
+          : `no versions of ${resolved.name} are known`)
+      )
+    }
+    return artefact.abi
+  }
+
+  /**
+   * @param  name if given, only return the versions for which there is an ABI of this contract
+   * @return the versions in the manifest and the directory, in order
+   * (the loader cannot tell which versions it knows)
+   */
+  public knownVersions(name?: string): string[] {
+    const versions = new Set<string>()
+    for (const version of Object.keys(this.manifest)) {
+      if (!name || this.manifest[version][name]) {
+        versions.add(version)
+      }
+    }
+    if (this.directory) {
+      const fs = require('fs')
+      if (fs.existsSync(this.directory)) {
+        for (const version of fs.readdirSync(this.directory)) {
+          if (!fs.statSync(`${this.directory}/${version}`).isDirectory()) {
+            continue
+          }
+          if (!name || fs.existsSync(`${this.directory}/${version}/${name}.json`)) {
+            versions.add(version)
+          }
+        }
+      }
+    }
+    return Array.from(versions).sort(compareVersions)
+  }
+
+  private load(name: string, version: string): IABIArtefact | undefined {
+    const key = `${version}/${name}`
+    if (!this.cache.has(key)) {
+      let artefact: IABIArtefact | any[] | undefined = this.manifest[version] && this.manifest[version][name]
+      if (!artefact && this.loader) {
+        artefact = this.loader(name, version)
+      }
+      if (!artefact && this.directory) {
+        const fs = require('fs')
+        const path = `${this.directory}/${version}/${name}.json`
+        if (fs.existsSync(path)) {
+          artefact = JSON.parse(fs.readFileSync(path, 'utf-8'))
+        }
+      }
+      this.cache.set(key, Array.isArray(artefact) ? { abi: artefact } : artefact)
+    }
+    return this.cache.get(key)
+  }
+}
+
+/**
+ * compare versions like `0.0.1-rc.24`, number by number
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split(/[.-]/)
+  const partsB = b.split(/[.-]/)
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] || ''
+    const partB = partsB[i] || ''
+    if (partA === partB) {
+      continue
+    }
+    const numberA = Number(partA)
+    const numberB = Number(partB)
+    if (partA !== '' && partB !== '' && !isNaN(numberA) && !isNaN(numberB)) {
+      return numberA - numberB
+    }
+    return partA < partB ? -1 : 1
+  }
+  return 0
+}
@@ -1,25 +1,44 @@
+import { InMemoryCache } from 'apollo-cache-inmemory'
 import BN = require('bn.js')
 import gql from 'graphql-tag'
-import { Observable, Observer, of, Subscription } from 'rxjs'
-import { map } from 'rxjs/operators'
+import { BehaviorSubject, defer, EMPTY, from, Observable, Observer, of, Subject, Subscription, timer } from 'rxjs'
+import {
+  catchError, distinctUntilChanged, exhaustMap, filter, first, map, share, shareReplay, switchMap, takeUntil
+} from 'rxjs/operators'
+import { ABIRegistry, bundledABILoader } from './abiRegistry'
+import { IBatchOptions, IBatchUpdate, sendBatch } from './batch'
+import { CachePersistor, ICachePersistorOptions } from './cachePersistor'
+import { CallCache } from './callCache'
+import { ChainDataProvider, DataSource } from './chainDataProvider'
 import { DAO, IDAOQueryOptions } from './dao'
-import { GraphNodeObserver, IApolloQueryOptions } from './graphnode'
+import { ChainMismatchError, UnknownContractError } from './errors'
+import { GraphNodeObserver, IApolloQueryOptions, IObservable } from './graphnode'
 export { IApolloQueryOptions } from './graphnode'
 import { Event, IEventQueryOptions } from './event'
+import { DefaultGasStrategy, IGasStrategy } from './gasStrategy'
 import { IPFSClient } from './ipfsClient'
 import { Logger } from './logger'
 import { Operation, sendTransaction, transactionErrorHandler, web3receipt } from './operation'
+import { OptimisticUpdates } from './optimisticUpdates'
 import { IProposalQueryOptions, Proposal } from './proposal'
 import { IRewardQueryOptions, Reward } from './reward'
 import { ISchemeQueryOptions, Scheme } from './scheme'
-import { ABI_DIR } from './settings'
+import { ISchemeType, schemeTypes } from './schemeTypes'
+import { ITransactionSigner } from './signer'
 import { IStakeQueryOptions, Stake } from './stake'
 import { ITagQueryOptions, Tag } from './tag'
 import { Token } from './token'
 import { Address, IPFSProvider, Web3Provider } from './types'
-import { isAddress } from './utils'
+import { dateToSecondsSinceEpoch, isAddress } from './utils'
+
 const Web3 = require('web3')
 
+const DEFAULT_MAX_SUBGRAPH_LAG = 10
+const SUBGRAPH_LAG_CHECK_INTERVAL = 10000
+const INDEXING_STATUS_POLL_INTERVAL = 5000
+const BALANCE_POLL_INTERVAL = 15000
+const BLOCK_POLL_INTERVAL = 5000
+
 /**
  * The Arc class holds all configuration.
  * Any useage of the library typically will start with instantiating a new Arc instance
@@ -33,12 +52,66 @@ export class Arc extends GraphNodeObserver {
   public pendingOperations: Observable<Array<Operation<any>>> = of()
 
   public ipfs: any
-  public web3: typeof Web3
   public web3Read: typeof Web3 // if provided, arc will read all data from this provider
+  /**
+   * if set, transactions are signed by this signer and sent as raw transactions
+   */
+  public signer?: ITransactionSigner
+  /**
+   * decides on the gas limit and fees of the transactions that are sent
+   */
+  public gasStrategy: IGasStrategy
+  /**
+   * the number of confirmations after which operations complete (cf. `operation.withConfirmations()`).
+   * `operation.send()` does not wait for them: it resolves when the transaction is mined
+   */
+  public confirmations: number
+  /**
+   * the ABIs of the contracts, by name and version
+   */
+  public abiRegistry: ABIRegistry
+  /**
+   * the id of the chain of the subgraph and the contracts. If set, operations refuse to send transactions
+   * when the web3 provider is connected to another chain (cf. [[verifyChain]])
+   */
+  public chainId?: number
+  /**
+   * if set, the `eth_call`s of the readonly contracts (cf. [[getContract]]) are cached here
+   */
+  public callCache?: CallCache
+  /**
+   * if set, the Apollo cache is saved, and can be restored in a later session (cf. [[CachePersistor.restore]])
+   */
+  public cachePersistor?: CachePersistor
+  /**
+   * where the `state()` of DAOs, schemes, proposals and members is read from (cf. [[getObservableState]])
+   */
+  public dataSource: DataSource
+  /**
+   * with the `auto` data source, the state is read from the chain when the subgraph is more than this many
+   * blocks behind
+   */
+  public maxSubgraphLag: number
+  /**
+   * reads the state from the chain, for the `chain` and `auto` data sources
+   */
+  public chainData: ChainDataProvider
+  /**
+   * writes the effects of votes, stakes and redemptions in the cache until the subgraph has indexed them
+   */
+  public optimisticUpdates: OptimisticUpdates
   /**
    * a mapping of contrct names to contract addresses
    */
   public contractInfos: IContractInfo[]
+  /**
+   * true once [[close]] was called
+   */
+  public isClosed: boolean = false
+  /**
+   * emits (and completes) when the instance is closed, to end the subscriptions and timers that it started
+   */
+  public closing: Observable<void>
   public contracts: { [key: string]: any } = {} // a cache for the contracts
   public contractsR: { [key: string]: any } = {} // a cache for teh 'read-only' contracts
 
@@ -53,10 +126,24 @@ export class Arc extends GraphNodeObserver {
     }
   } = {}
 
+  // the web3 instance, as an observable, so we can follow the events of the current provider
+  private web3Subject: BehaviorSubject<typeof Web3> = new BehaviorSubject(undefined)
+  private accountObservable?: Observable<Address | null>
+  private chainIdObservable?: Observable<number>
+  // the last check of the lag of the subgraph, which we repeat at most every SUBGRAPH_LAG_CHECK_INTERVAL
+  private subgraphLagCheck?: { checkedAt: number, lagging: Promise<boolean> }
+  // the indexing status, by poll interval, shared by its subscribers
+  private indexingStatusObservables: { [pollInterval: number]: Observable<IIndexingStatus> } = {}
+  private blockNumberObservable?: Observable<number>
+  // removes the listeners that the callCache added to the provider of web3Read
+  private disposeCallCache?: () => void
+  private closingSubject: Subject<void> = new Subject()
+
   constructor(options: {
     /** Information about the contracts. Cf. [[setContractInfos]] and [[fetchContractInfos]] */
     contractInfos?: IContractInfo[]
     graphqlHttpProvider?: string
+    /** the websocket of the subgraph, for subscriptions. Without it (e.g. in Node), queries poll for updates instead */
     graphqlWsProvider?: string
     ipfsProvider?: IPFSProvider
     web3Provider?: string
@@ -65,19 +152,71 @@ export class Arc extends GraphNodeObserver {
     graphqlPrefetchHook?: (query: any) => void
     /** determines whether a query should subscribe to updates from the graphProvider. Default is true.  */
     graphqlSubscribeToQueries?: boolean
+    /**
+     * how often queries poll for updates when they cannot subscribe because no `graphqlWsProvider` was given,
+     * in milliseconds. Default is 15000
+     */
+    graphqlPollInterval?: number
+    /** the number of times to reconnect the websocket of the subscriptions before giving up. Default is no limit */
+    graphqlReconnectionAttempts?: number
+    /** connect to the Apollo devtools. Default is to connect in browsers, unless NODE_ENV is `production` */
+    graphqlConnectToDevTools?: boolean
     /** an apollo-retry-link instance as https://www.apollographql.com/docs/link/links/retry/#default-configuration */
     graphqlRetryLink?: any,
     graphqlErrHandler?: any
+    /** sign transactions with this signer instead of with the account of the web3Provider */
+    signer?: ITransactionSigner
+    /** the gas strategy to use for all transactions. Default is [[DefaultGasStrategy]] */
+    gasStrategy?: IGasStrategy
+    /** the number of confirmations after which operations complete - `send()` does not wait for them. Default is 24 */
+    confirmations?: number
+    /** where to find the ABIs of the contracts. Default reads the `abis` directory of this package */
+    abiRegistry?: ABIRegistry
+    /** the id of the chain that the subgraph indexes and the contracts are deployed on */
+    chainId?: number
+    /**
+     * cache the results of the calls of readonly contracts until a new block arrives.
+     * Pass a CallCache instance to configure it. Default is false
+     */
+    callCache?: boolean | CallCache
+    /**
+     * save the Apollo cache in IndexedDB (in browsers) or in files (in Node), so that it can be restored with
+     * `arc.cachePersistor.restore()`. Pass options to configure the storage, the max size or the TTL. Default is false
+     */
+    persistCache?: boolean | ICachePersistorOptions
+    /**
+     * read the state of the entities from the `subgraph`, from the `chain`, or from the chain only when the
+     * subgraph lags behind (`auto`). Default is `subgraph`, or `chain` if no subgraph is given
+     */
+    dataSource?: DataSource
+    /** with the `auto` data source, the number of blocks the subgraph may lag behind. Default is 10 */
+    maxSubgraphLag?: number
+    /** the block from which the event logs are read when reading from the chain. Default is 0 */
+    chainDataFromBlock?: number
+    /**
+     * update the state of proposals in the cache when votes, stakes and redemptions are mined, before the
+     * subgraph has indexed them. Default is true
+     */
+    optimisticUpdates?: boolean
   }) {
     super({
+      connectToDevTools: options.graphqlConnectToDevTools,
       errHandler: options.graphqlErrHandler,
       graphqlHttpProvider: options.graphqlHttpProvider,
+      graphqlPollInterval: options.graphqlPollInterval,
+      graphqlReconnectionAttempts: options.graphqlReconnectionAttempts,
       graphqlSubscribeToQueries: options.graphqlSubscribeToQueries,
       graphqlWsProvider: options.graphqlWsProvider,
       prefetchHook: options.graphqlPrefetchHook,
       retryLink: options.graphqlRetryLink
     })
+    this.closing = this.closingSubject.asObservable()
     this.ipfsProvider = options.ipfsProvider || ''
+    this.signer = options.signer
+    this.gasStrategy = options.gasStrategy || new DefaultGasStrategy()
+    this.confirmations = options.confirmations === undefined ? 24 : options.confirmations
+    this.abiRegistry = options.abiRegistry || new ABIRegistry({ loader: bundledABILoader })
+    this.chainId = options.chainId
 
     if (options.web3Provider) {
       this.web3 = new Web3(options.web3Provider)
@@ -87,6 +226,24 @@ export class Arc extends GraphNodeObserver {
     } else {
       this.web3Read = this.web3
     }
+    if (options.callCache && this.web3Read) {
+      this.callCache = options.callCache instanceof CallCache ? options.callCache : new CallCache()
+      const cachingProvider = this.callCache.wrapProvider(this.web3Read.currentProvider)
+      this.disposeCallCache = cachingProvider.dispose
+      this.web3Read = new Web3(cachingProvider.provider)
+    }
+
+    if (options.persistCache && this.apolloClient) {
+      this.cachePersistor = new CachePersistor(this.apolloClient.cache as InMemoryCache, {
+        version: this.graphqlHttpProvider,
+        ...(options.persistCache === true ? {} : options.persistCache)
+      })
+    }
+
+    this.dataSource = options.dataSource || (this.apolloClient || !this.web3Read ? 'subgraph' : 'chain')
+    this.maxSubgraphLag = options.maxSubgraphLag === undefined ? DEFAULT_MAX_SUBGRAPH_LAG : options.maxSubgraphLag
+    this.chainData = new ChainDataProvider(this, { fromBlock: options.chainDataFromBlock })
+    this.optimisticUpdates = new OptimisticUpdates(this, { enabled: options.optimisticUpdates })
 
     this.contractInfos = options.contractInfos || []
     if (!this.contractInfos) {
@@ -101,6 +258,18 @@ export class Arc extends GraphNodeObserver {
     if (options.graphqlSubscribeToQueries === undefined) {
       options.graphqlSubscribeToQueries = true
     }
+
+    if (this.chainId !== undefined && this.web3) {
+      this.verifyChain().catch((err: Error) => Logger.warn(err.message))
+    }
+  }
+
+  public get web3(): typeof Web3 {
+    return this.web3Subject.getValue()
+  }
+
+  public set web3(web3: typeof Web3) {
+    this.web3Subject.next(web3)
   }
 
   /**
@@ -170,6 +339,25 @@ export class Arc extends GraphNodeObserver {
     return Scheme.search(this, options, apolloQueryOptions)
   }
 
+  /**
+   * Support proposals of another scheme contract, or replace the way a built-in scheme is supported.
+   * The type is shared by all Arc instances, like the fragments that it adds to, so it should be registered
+   * before the first query. For example:
+   * ```
+   * arc.registerSchemeType({
+   *   createTransaction: (options, context) => async () =>
+   *     context.getContract(options.scheme).methods.proposeSignal(options.dao, options.descriptionHash),
+   *   mapReceipt: (options, context) => (receipt) =>
+   *     new Proposal(receipt.events.NewSignalProposal.returnValues._proposalId, context),
+   *   name: 'SignalScheme'
+   * })
+   * ```
+   * @param schemeType cf. [[ISchemeType]]
+   */
+  public registerSchemeType(schemeType: ISchemeType): void {
+    schemeTypes.register(schemeType)
+  }
+
   public proposal(id: string): Proposal {
     return new Proposal(id, this)
   }
@@ -225,27 +413,33 @@ export class Arc extends GraphNodeObserver {
         })
         .catch((err: Error) => observer.error(err))
 
+      const updateBalances = (err?: Error) => {
+        Object.keys(this.observedAccounts).forEach(async (addr) => {
+          const accInfo = this.observedAccounts[addr]
+          if (err) {
+            (accInfo.observer as Observer<BN>).error(err)
+          } else {
+            try {
+              const balance = await this.web3Read.eth.getBalance(addr)
+              if (balance !== accInfo.lastBalance) {
+                (accInfo.observer as Observer<BN>).next(new BN(balance))
+                accInfo.lastBalance = balance
+              }
+            } catch (err) {
+              observer.error(err)
+            }
+          }
+        })
+      }
+
       // set up the blockheadersubscription if it does not exist yet
-      if (!this.blockHeaderSubscription) {
+      if (!this.blockHeaderSubscription && !supportsSubscriptions(this.web3Read)) {
+        // HTTP providers cannot notify us of new blocks, so we check the balances regularly
+        this.blockHeaderSubscription = timer(BALANCE_POLL_INTERVAL, BALANCE_POLL_INTERVAL)
+          .subscribe(() => updateBalances())
+      } else if (!this.blockHeaderSubscription) {
         const subscribeToBlockHeaders = () => {
-          this.blockHeaderSubscription = this.web3Read.eth.subscribe('newBlockHeaders', async (err: Error) => {
-            Object.keys(this.observedAccounts).forEach(async (addr) => {
-              const accInfo = this.observedAccounts[addr]
-              if (err) {
-                (accInfo.observer as Observer<BN>).error(err)
-              } else {
-                try {
-                  const balance = await this.web3Read.eth.getBalance(addr)
-                  if (balance !== accInfo.lastBalance) {
-                    (accInfo.observer as Observer<BN>).next(new BN(balance))
-                    accInfo.lastBalance = balance
-                  }
-                } catch (err) {
-                  observer.error(err)
-                }
-              }
-            })
-          })
+          this.blockHeaderSubscription = this.web3Read.eth.subscribe('newBlockHeaders', updateBalances)
         }
         try {
           subscribeToBlockHeaders()
@@ -260,6 +454,10 @@ export class Arc extends GraphNodeObserver {
       }
       // unsubscribe
       return () => {
+        if (!this.observedAccounts[owner]) {
+          // the instance was closed
+          return
+        }
         this.observedAccounts[owner].subscriptionsCount -= 1
         if (this.observedAccounts[owner].subscriptionsCount <= 0) {
           delete this.observedAccounts[owner]
@@ -291,7 +489,7 @@ export class Arc extends GraphNodeObserver {
     if (!this.contractInfos) {
       throw Error(`no contract info was found - did you call "arc.setContractInfos()"?`)
     }
-    throw Error(`No contract with address ${address} is known`)
+    throw new UnknownContractError({ address })
   }
 
   public getContractInfoByName(name: string, version: string) {
@@ -303,32 +501,23 @@ export class Arc extends GraphNodeObserver {
     if (!this.contractInfos) {
       throw Error(`no contract info was found - did you call "arc.setContractInfos(...)"?`)
     }
-    throw Error(`No contract with name ${name}  and version ${version} is known`)
+    throw new UnknownContractError({ name, version })
   }
 
+  /**
+   * return the ABI of a contract, from the `abiRegistry`
+   * @param  address address of the contract to look up in self.contractInfos
+   * @param  [abiName] (optional) name of the ABI (i.e. 'Avatar' or 'SchemeRegistrar')
+   * @param  [version] (optional) Arc version of contract
+   * @return the ABI
+   */
   public getABI(address?: Address, abiName?: string, version?: string) {
     if (address && !abiName || !version) {
       const contractInfo = this.getContractInfo(address as Address)
       abiName = contractInfo.name
       version = contractInfo.version
-      if (abiName === 'GEN') {
-        abiName = 'ERC20'
-      }
     }
-    // TODO: workaround for https://github.com/daostack/subgraph/pull/336
-    if (abiName === 'UGenericScheme') {
-      const versionNumber = Number(version.split('rc.')[1])
-      if (versionNumber < 24) {
-        abiName = 'GenericScheme'
-      }
-    }
-    // //End of workaround
-
-    let artefact = require(`${ABI_DIR}/${version}/${abiName}.json`)
-    if (artefact.rootVersion) {
-      artefact = require(`${ABI_DIR}/${artefact.rootVersion}/${abiName}.json`)
-    }
-    return artefact.abi
+    return this.abiRegistry.getABI(abiName as string, version)
   }
 
   /**
@@ -336,6 +525,7 @@ export class Arc extends GraphNodeObserver {
    * @param  address address of the contract to look up in self.contractInfos
    * @param  [abiName] (optional) name of the ABI (i.e. 'Avatar' or 'SchemeRegistrar').
    * @param  [version] (optional) Arc version of contract (https://www.npmjs.com/package/@daostack/arc)
+   * @param  [mode] (optional) 'readonly' for a contract that reads from `web3Read` (and uses the `callCache`)
    * @return   a web3 contract instance
    */
   public getContract(address: Address, abi?: any, mode?: 'readonly') {
@@ -344,7 +534,7 @@ export class Arc extends GraphNodeObserver {
     const readonlyContract = (mode === 'readonly' && this.web3Read !== this.web3)
     if (readonlyContract && this.contractsR[address]) {
       return this.contractsR[address]
-    } else if (this.contracts[address]) {
+    } else if (!readonlyContract && this.contracts[address]) {
       return this.contracts[address]
     } else {
       if (!abi) {
@@ -385,8 +575,7 @@ export class Arc extends GraphNodeObserver {
    * @param  schemeParametersHash the scheme params hash
    * @param  schemeName optional
    * @return true if :
-   *   scheme is not one of the following:
-   *    'SchemeRegistrar','ContributionReward','GenericScheme','GenericSchemeMultiCall'
+   *   the scheme type of the scheme has no `verifyParameters` function (cf. [[ISchemeType]])
    *   or
    *    parameters are verified for this scheme,
    *  otherwise - will return false
@@ -403,62 +592,323 @@ export class Arc extends GraphNodeObserver {
     }
     let contract
     try {
-      contract = await this.getContract(address)
+      contract = await this.getContract(address, undefined, 'readonly')
     } catch (error) {
        return true
     }
 
-    if (schemeName === 'SchemeRegistrar' || schemeName === 'ContributionReward') {
-      const parameters = await contract.methods.parameters(schemeParametersHash).call()
-      switch (schemeName) {
-        case 'SchemeRegistrar':
-          return (this.validateGenesisProtocolParams(parameters[2], parameters[0]) &&
-                  this.validateGenesisProtocolParams(parameters[2], parameters[1]))
-        case 'ContributionReward':
-          return this.validateGenesisProtocolParams(parameters[1], parameters[0])
-     }
-   }
-    if (schemeName === 'GenericScheme' ||
-       schemeName === 'GenericSchemeMultiCall' ||
-       schemeName === 'ContributionRewardExt') {
-      const votingMachine = await contract.methods.votingMachine().call()
-      const voteParams = await contract.methods.voteParams().call()
-      return this.validateGenesisProtocolParams(votingMachine, voteParams)
-    }
-    return true
- }
+    const schemeType = schemeTypes.list()
+      .find((candidate: ISchemeType) => candidate.name === schemeName && !!candidate.verifyParameters)
+    if (!schemeType) {
+      return true
+    }
+    const validateVoteParams = (votingMachine: Address, voteParams: string) =>
+      this.validateGenesisProtocolParams(votingMachine, voteParams)
+    return schemeType.verifyParameters!(contract, schemeParametersHash, validateVoteParams)
+  }
 
   public getAccount(): Observable<Address> {
+    if (this.signer) {
+      // transactions are signed by the signer, so that is our account
+      return from(this.signer.getAddress())
+    }
     // this complex logic is to get the correct account both from the Web3 as well as from the Metamaask provider
-    // This polls for changes. But polling is Evil!
-    // cf. https://github.com/MetaMask/faq/blob/master/DEVELOPERS.md#ear-listening-for-selected-account-changes
-    return new Observable((observer: any) => {
-      const interval = 1000 /// poll once a second
-      let account: any
-      let prevAccount: any
+    return new Observable((observer: Observer<Address>) => {
+      let prevAccount: Address | undefined
       const web3 = this.web3
       if (web3.eth.accounts[0]) {
-        observer.next(web3.eth.accounts[0].address)
         prevAccount = web3.eth.accounts[0].address
       } else if (web3.eth.defaultAccount) {
-        observer.next(web3.eth.defaultAccount)
         prevAccount = web3.eth.defaultAccount
       }
-      const timeout = setInterval(() => {
-        web3.eth.getAccounts().then((accounts: any) => {
-          if (accounts) {
-            account = accounts[0]
-          } else if (web3.eth.accounts) {
-            account = web3.eth.accounts[0].address
-          }
-          if (prevAccount !== account && account) {
-            web3.eth.defaultAccount = account
-            observer.next(account)
-            prevAccount = account
-          }
-        })
-      }, interval)
-      return () => clearTimeout(timeout)
+      if (prevAccount) {
+        observer.next(prevAccount)
+      }
+      // if we already have an account, the first value is the account of the provider at this moment,
+      // which is not a change (and we do not want to override an account set with `setAccount`)
+      let isFirst = prevAccount !== undefined
+      const subscription = this.accountChanges().subscribe((account: Address | null) => {
+        if (isFirst) {
+          isFirst = false
+          return
+        }
+        if (account && account !== prevAccount) {
+          web3.eth.defaultAccount = account
+          observer.next(account)
+          prevAccount = account
+        }
+      }, (err: Error) => observer.error(err))
+      return () => subscription.unsubscribe()
+    })
+  }
+
+  /**
+   * The account of the web3 provider, which is `null` when the provider has no accounts (for example,
+   * when the wallet is locked). This observable listens to the `accountsChanged` event of EIP-1193 providers,
+   * and polls other providers once a second; all subscribers share the same listener or timer.
+   * @return an observable that emits the current account, and each time it changes
+   */
+  public accountChanges(): Observable<Address | null> {
+    if (!this.accountObservable) {
+      this.accountObservable = this.web3Subject.pipe(
+        filter((web3: any) => !!web3),
+        switchMap((web3: any) => watchProvider(
+          web3,
+          'accountsChanged',
+          async () => (await web3.eth.getAccounts())[0] || null,
+          (accounts: Address[]) => accounts[0] || null
+        )),
+        distinctUntilChanged(),
+        takeUntil(this.closing),
+        shareReplay({ bufferSize: 1, refCount: true })
+      )
+    }
+    return this.accountObservable
+  }
+
+  /**
+   * The chain id of the web3 provider. This observable listens to the `chainChanged` event of EIP-1193 providers,
+   * and polls other providers once a second; all subscribers share the same listener or timer.
+   * @return an observable that emits the current chain id, and each time it changes
+   */
+  public getChainId(): Observable<number> {
+    if (!this.chainIdObservable) {
+      this.chainIdObservable = this.web3Subject.pipe(
+        filter((web3: any) => !!web3),
+        switchMap((web3: any) => watchProvider(
+          web3,
+          'chainChanged',
+          async () => Number(await web3.eth.getChainId()),
+          (chainId: string | number) => Number(chainId)
+        )),
+        distinctUntilChanged(),
+        takeUntil(this.closing),
+        shareReplay({ bufferSize: 1, refCount: true })
+      )
+    }
+    return this.chainIdObservable
+  }
+
+  /**
+   * The latest block number of the web3 provider, polled every 5 seconds. All subscribers share the same timer,
+   * which the operations use to follow their transactions. Failed polls are skipped
+   * @return an observable that emits the block number at each poll
+   */
+  public blockNumbers(): Observable<number> {
+    if (!this.blockNumberObservable) {
+      this.blockNumberObservable = timer(BLOCK_POLL_INTERVAL, BLOCK_POLL_INTERVAL).pipe(
+        exhaustMap(() => from(this.web3.eth.getBlockNumber() as Promise<number>).pipe(catchError(() => EMPTY))),
+        takeUntil(this.closing),
+        share()
+      )
+    }
+    return this.blockNumberObservable
+  }
+
+  /**
+   * check that the web3 providers are connected to the expected chain, that the subgraph indexes it
+   * and that the contracts of the `contractInfos` are deployed on it. If no `chainId` was set,
+   * the chain of `web3Read` is taken to be the expected one
+   * @throws a ChainMismatchError if one of the providers, the subgraph or the contracts is on another chain
+   */
+  public async verifyChain(): Promise<void> {
+    if (this.chainId === undefined) {
+      this.chainId = Number(await this.web3Read.eth.getChainId())
+    } else if (this.web3Read && this.web3Read !== this.web3) {
+      const readChainId = Number(await this.web3Read.eth.getChainId())
+      if (readChainId !== this.chainId) {
+        throw new ChainMismatchError(this.chainId, readChainId, 'web3ProviderRead')
+      }
+    }
+    if (this.web3) {
+      const chainId = await this.getChainId().pipe(first()).toPromise()
+      if (chainId !== this.chainId) {
+        throw new ChainMismatchError(this.chainId, chainId)
+      }
+    }
+    if (this.web3Read) {
+      await Promise.all([this.verifySubgraphChain(), this.verifyContractsChain()])
+    }
+  }
+
+  /**
+   * follow the chain of the web3 provider (i.e. the `chainChanged` events of EIP-1193 providers)
+   * @return an observable that emits a ChainMismatchError while the web3 provider is connected to another chain
+   * than the expected `chainId`, and `null` when it is on the expected chain (or no `chainId` is set)
+   */
+  public chainMismatch(): Observable<ChainMismatchError | null> {
+    return this.getChainId().pipe(
+      map((chainId: number) => this.chainId === undefined || chainId === this.chainId
+        ? null
+        : new ChainMismatchError(this.chainId, chainId)
+      )
+    )
+  }
+
+  /**
+   * find the last block that was mined at or before the given time, e.g. to query the state of a DAO at that time:
+   * ```
+   * dao.state({ block: { number: await arc.getBlockNumberAtTime(new Date('2020-01-01')) } })
+   * ```
+   * @param  date a time in the past
+   * @return the number of the block
+   */
+  public async getBlockNumberAtTime(date: Date): Promise<number> {
+    const timestamp = dateToSecondsSinceEpoch(date)
+    const getTimestamp = async (blockNumber: number) =>
+      Number((await this.web3Read.eth.getBlock(blockNumber)).timestamp)
+    let high = await this.web3Read.eth.getBlockNumber()
+    if (await getTimestamp(high) <= timestamp) {
+      return high
+    }
+    let low = 0
+    if (await getTimestamp(low) > timestamp) {
+      throw Error(`No block was mined at or before ${date.toISOString()}`)
+    }
+    // the timestamps increase with the block numbers, so we can bisect
+    while (high - low > 1) {
+      const middle = Math.floor((low + high) / 2)
+      if (await getTimestamp(middle) <= timestamp) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+    return low
+  }
+
+  /**
+   * @return the number of the last block that the subgraph has indexed
+   */
+  public async getSubgraphBlockNumber(): Promise<number> {
+    const query = gql`query SubgraphBlock { _meta { block { number } } }`
+    const result = await this.sendQuery(query, { fetchPolicy: 'no-cache' })
+    return Number(result.data._meta.block.number)
+  }
+
+  /**
+   * Follow how far the subgraph is behind the chain, e.g. to show that the data may be out of date:
+   * ```
+   * arc.indexingStatus().subscribe((status) => {
+   *   if (status.blocksBehind === null || status.blocksBehind > 5) { showStaleDataWarning() }
+   * })
+   * ```
+   * @param  pollInterval how often to ask the subgraph and the chain for their latest block, in milliseconds.
+   *  Default is 5000
+   * @return an observable that emits the status whenever it changes
+   */
+  public indexingStatus(pollInterval: number = INDEXING_STATUS_POLL_INTERVAL): Observable<IIndexingStatus> {
+    if (!this.indexingStatusObservables[pollInterval]) {
+      this.indexingStatusObservables[pollInterval] = timer(0, pollInterval).pipe(
+        switchMap(() => from(this.fetchIndexingStatus())),
+        distinctUntilChanged((a: IIndexingStatus, b: IIndexingStatus) =>
+          a.subgraphBlockNumber === b.subgraphBlockNumber && a.chainBlockNumber === b.chainBlockNumber),
+        takeUntil(this.closing),
+        shareReplay({ bufferSize: 1, refCount: true })
+      )
+    }
+    return this.indexingStatusObservables[pollInterval]
+  }
+
+  /**
+   * @return true if the subgraph is more than `maxSubgraphLag` blocks behind the chain, or cannot be reached.
+   *  The result is kept for a few seconds
+   */
+  public async isSubgraphLagging(): Promise<boolean> {
+    const now = Date.now()
+    if (!this.subgraphLagCheck || now - this.subgraphLagCheck.checkedAt > SUBGRAPH_LAG_CHECK_INTERVAL) {
+      this.subgraphLagCheck = { checkedAt: now, lagging: this.checkSubgraphLag() }
+    }
+    return this.subgraphLagCheck.lagging
+  }
+
+  /**
+   * the state of an entity, from the subgraph or from the chain, depending on the `dataSource`.
+   * States at a past block are read from the subgraph, unless the data source is `chain`
+   * @param  apolloQueryOptions the options of the `state()`
+   * @param  fromSubgraph       queries the state from the subgraph
+   * @param  fromChain          reads the state from the chain at the given block (cf. [[ChainDataProvider]])
+   */
+  public getObservableState<T>(
+    apolloQueryOptions: IApolloQueryOptions,
+    fromSubgraph: () => Observable<T>,
+    fromChain: (blockNumber?: number) => Promise<T>
+  ): IObservable<T> {
+    let observable: Observable<T>
+    if (this.dataSource === 'subgraph' || (this.dataSource === 'auto' && apolloQueryOptions.block)) {
+      observable = fromSubgraph()
+    } else if (this.dataSource === 'chain') {
+      observable = this.chainData.observe(fromChain, apolloQueryOptions)
+    } else {
+      observable = from(this.isSubgraphLagging()).pipe(
+        switchMap((lagging: boolean) => lagging
+          ? this.chainData.observe(fromChain, apolloQueryOptions)
+          : defer(fromSubgraph)
+        )
+      )
+    }
+    const result = observable as IObservable<T>
+    result.first = () => observable.pipe(first()).toPromise() as any
+    return result
+  }
+
+  /**
+   * Stop everything that this instance keeps running, so that a Node process can exit: the polling queries and
+   * the websocket of the subgraph, the balances that are followed, the shared observables (which complete),
+   * the transactions that are followed (which fail), the optimistic updates that wait for the subgraph and
+   * the connections of the web3 providers. A persisted cache is saved first.
+   * The instance cannot be used after it was closed.
+   */
+  public async close(): Promise<void> {
+    if (this.isClosed) {
+      return
+    }
+    this.isClosed = true
+    // the optimistic updates stay in the cache, rather than being rolled back when the indexing status completes
+    this.optimisticUpdates.close()
+    this.closingSubject.next()
+    this.closingSubject.complete()
+
+    if (this.blockHeaderSubscription) {
+      this.blockHeaderSubscription.unsubscribe()
+      this.blockHeaderSubscription = undefined
+    }
+    for (const address of Object.keys(this.observedAccounts)) {
+      const observer = this.observedAccounts[address].observer
+      if (observer) {
+        observer.complete()
+      }
+    }
+    this.observedAccounts = {}
+    if (this.cachePersistor) {
+      this.cachePersistor.stop()
+      await this.cachePersistor.persist()
+    }
+    this.closeGraphConnections()
+    if (this.disposeCallCache) {
+      this.disposeCallCache()
+    }
+    if (this.callCache) {
+      this.callCache.clear()
+    }
+
+    const providers = new Set<any>()
+    for (const web3 of [this.web3, this.web3Read]) {
+      if (!web3) {
+        continue
+      }
+      try {
+        web3.eth.clearSubscriptions()
+      } catch (err) {
+        // there were no subscriptions, or the provider is not connected anymore
+      }
+      providers.add(web3.currentProvider)
+    }
+    providers.forEach((provider: any) => {
+      // websocket and IPC providers keep a connection open; HTTP providers have nothing to close
+      if (provider && typeof provider.disconnect === 'function') {
+        provider.disconnect()
+      }
     })
   }
 
@@ -480,6 +930,16 @@ export class Arc extends GraphNodeObserver {
     return this.GENToken().allowance(owner, spender)
   }
 
+  /**
+   * send the transactions of several operations, one after the other
+   * @param  operations the operations to send, in order
+   * @param  options    cf. IBatchOptions
+   * @return an observable of the updates of all operations. Cf. [[sendBatch]]
+   */
+  public batch(operations: Array<Operation<any>>, options: IBatchOptions = {}): Observable<IBatchUpdate> {
+    return sendBatch(this, operations, options)
+  }
+
   /**
    * send an Ethereum transaction
    * @param  transaction  [description]
@@ -489,7 +949,7 @@ export class Arc extends GraphNodeObserver {
    */
   public sendTransaction<T>(
     transaction: any,
-    mapToObject: (receipt: web3receipt) => T,
+    mapToObject: (receipt: web3receipt) => T | Promise<T>,
     errorHandler?: transactionErrorHandler
   ): Operation<T> {
     return sendTransaction(this, transaction, mapToObject, errorHandler)
@@ -527,11 +987,74 @@ export class Arc extends GraphNodeObserver {
     return descriptionHash
   }
 
+  private async fetchIndexingStatus(): Promise<IIndexingStatus> {
+    const [subgraphBlockNumber, chainBlockNumber] = await Promise.all([
+      this.apolloClient
+        ? this.getSubgraphBlockNumber().catch((err: Error) => {
+          Logger.debug(`Could not get the block number of the subgraph: ${err.message}`)
+          return null
+        })
+        : null,
+      this.web3Read.eth.getBlockNumber() as Promise<number>
+    ])
+    return {
+      blocksBehind: subgraphBlockNumber === null ? null : Math.max(chainBlockNumber - subgraphBlockNumber, 0),
+      chainBlockNumber,
+      subgraphBlockNumber
+    }
+  }
+
+  /**
+   * the last block that the subgraph indexed must be a block of our chain
+   */
+  private async verifySubgraphChain() {
+    if (!this.apolloClient) {
+      return
+    }
+    let subgraphBlock: { hash: string, number: number }
+    try {
+      const query = gql`query SubgraphBlockHash { _meta { block { hash number } } }`
+      const result = await this.sendQuery(query, { fetchPolicy: 'no-cache' })
+      subgraphBlock = result.data._meta.block
+    } catch (err) {
+      Logger.warn(`Could not check the chain of the subgraph: ${err.message}`)
+      return
+    }
+    const block = await this.web3Read.eth.getBlock(Number(subgraphBlock.number))
+    // our node may not know the block yet
+    if (block && block.hash.toLowerCase() !== subgraphBlock.hash.toLowerCase()) {
+      throw new ChainMismatchError(this.chainId as number, null, 'subgraph')
+    }
+  }
+
+  /**
+   * the contracts of the `contractInfos` must be deployed on our chain - we check the first one
+   */
+  private async verifyContractsChain() {
+    if (this.contractInfos.length === 0) {
+      return
+    }
+    const code = await this.web3Read.eth.getCode(this.contractInfos[0].address)
+    if (!code || code === '0x') {
+      throw new ChainMismatchError(this.chainId as number, null, 'first contract of the contractInfos')
+    }
+  }
+
+  private async checkSubgraphLag(): Promise<boolean> {
+    try {
+      const status = await this.fetchIndexingStatus()
+      return status.blocksBehind === null || status.blocksBehind > this.maxSubgraphLag
+    } catch (err) {
+      Logger.warn(`Could not check whether the subgraph is up to date, reading from the chain: ${err.message}`)
+      return true
+    }
+  }
+
   private async validateGenesisProtocolParams(gpAddress: Address, parametersHash: string) {
       let genesisProtocol
       try {
          isAddress(gpAddress)
-         genesisProtocol = await this.getContract(gpAddress)
+         genesisProtocol = await this.getContract(gpAddress, undefined, 'readonly')
       } catch (error) {
          return false
       }
@@ -540,6 +1063,70 @@ export class Arc extends GraphNodeObserver {
   }
 }
 
+/**
+ * observe a value of the web3 provider: EIP-1193 providers tell us when it changes, other providers are polled
+ * @param  web3     a web3 instance
+ * @param  event    the name of the EIP-1193 event
+ * @param  fetch    returns the current value
+ * @param  fromEvent returns the value from the payload of the event
+ */
+function watchProvider<T>(
+  web3: any,
+  event: string,
+  fetch: () => Promise<T>,
+  fromEvent: (payload: any) => T
+): Observable<T> {
+  return new Observable((observer: Observer<T>) => {
+    let stopped = false
+    const update = () => fetch()
+      .then((value: T) => {
+        if (!stopped) {
+          observer.next(value)
+        }
+      })
+      .catch((err: Error) => Logger.warn(`Could not get the ${event} data from the provider: ${err.message}`))
+    update()
+
+    const provider = web3.currentProvider
+    if (provider && typeof provider.on === 'function' && typeof provider.request === 'function') {
+      const listener = (payload: any) => observer.next(fromEvent(payload))
+      provider.on(event, listener)
+      return () => {
+        stopped = true
+        provider.removeListener(event, listener)
+      }
+    }
+    const interval = setInterval(update, 1000)
+    return () => {
+      stopped = true
+      clearInterval(interval)
+    }
+  })
+}
+
+/**
+ * @return true if the provider of the web3 instance can notify us of new blocks (HTTP providers cannot)
+ */
+function supportsSubscriptions(web3: any): boolean {
+  const provider = web3 && web3.currentProvider
+  if (provider && typeof provider.supportsSubscriptions === 'function') {
+    return provider.supportsSubscriptions()
+  }
+  return !!provider && typeof provider.on === 'function'
+}
+
+/**
+ * How far the subgraph is behind the chain (cf. [[Arc.indexingStatus]])
+ */
+export interface IIndexingStatus {
+  /** the last block that the subgraph has indexed, or null if the subgraph cannot be reached */
+  subgraphBlockNumber: number | null
+  /** the latest block of the chain */
+  chainBlockNumber: number
+  /** the number of blocks that the subgraph is behind the chain, or null if the subgraph cannot be reached */
+  blocksBehind: number | null
+}
+
 export interface IContractAddresses {
   [key: string]: Address
 }
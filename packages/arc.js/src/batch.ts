@@ -0,0 +1,120 @@
+import { Observable, Observer, Subscription } from 'rxjs'
+import { first } from 'rxjs/operators'
+import { Arc } from './arc'
+import { ITransactionState, ITransactionUpdate, Operation } from './operation'
+
+/**
+ * What to do with the remaining operations of a batch when one of them fails
+ */
+export enum IBatchFailurePolicy {
+  /** do not send the operations that were not sent yet */
+  Stop,
+  /** send the remaining operations anyway */
+  Continue
+}
+
+export interface IBatchOptions {
+  /** Default is IBatchFailurePolicy.Stop */
+  onFailure?: IBatchFailurePolicy
+  /** the number of confirmations after which each operation completes. Default is the `confirmations` of Arc */
+  confirmations?: number
+}
+
+/**
+ * An update about one of the operations of a batch
+ */
+export interface IBatchUpdate<T = any> {
+  /** the position of the operation in the batch */
+  index: number
+  /** the update of the operation, if there is one */
+  update?: ITransactionUpdate<T>
+  /** set if the operation failed */
+  error?: Error
+  /** set if the operation was not sent because an earlier operation failed */
+  skipped?: boolean
+}
+
+/**
+ * Send the transactions of a list of operations one after the other, with consecutive nonces,
+ * without waiting for each transaction to be mined before sending the next one.
+ * Each operation must send a single transaction: operations that send more fail when they send the second one
+ * @param  context    an Arc instance
+ * @param  operations the operations to send, in order
+ * @param  options    cf. IBatchOptions
+ * @return an observable of the updates of all operations, which completes when all operations are done
+ */
+export function sendBatch(
+  context: Arc,
+  operations: Array<Operation<any>>,
+  options: IBatchOptions = {}
+): Observable<IBatchUpdate> {
+  const onFailure = options.onFailure === undefined ? IBatchFailurePolicy.Stop : options.onFailure
+
+  return new Observable((observer: Observer<IBatchUpdate>) => {
+    const subscriptions: Subscription[] = []
+    let running = 0
+    let allStarted = false
+    let stopped = false
+
+    const checkDone = () => {
+      if (allStarted && running === 0) {
+        observer.complete()
+      }
+    }
+
+    // start the operation, and resolve with true when its transaction is sent
+    const start = (index: number, nonce: number) => new Promise<boolean>((resolve) => {
+      let operation = operations[index].withNonce(nonce)
+      if (options.confirmations !== undefined) {
+        operation = operation.withConfirmations(options.confirmations)
+      }
+      running++
+      subscriptions.push(operation.subscribe(
+        (update: ITransactionUpdate<any>) => {
+          observer.next({ index, update })
+          if (update.state === ITransactionState.Sent) {
+            resolve(true)
+          }
+        },
+        (error: Error) => {
+          observer.next({ error, index })
+          if (onFailure === IBatchFailurePolicy.Stop) {
+            stopped = true
+          }
+          resolve(false)
+          running--
+          checkDone()
+        },
+        () => {
+          resolve(false)
+          running--
+          checkDone()
+        }
+      ))
+    })
+
+    const run = async () => {
+      const from = await context.getAccount().pipe(first()).toPromise()
+      let nonce: number = await context.web3.eth.getTransactionCount(from, 'pending')
+      for (let index = 0; index < operations.length; index++) {
+        if (observer.closed) {
+          return
+        }
+        if (stopped) {
+          observer.next({ index, skipped: true })
+        } else if (await start(index, nonce)) {
+          nonce++
+        }
+      }
+      allStarted = true
+      checkDone()
+    }
+    run().catch((error: Error) => observer.error(error))
+
+    return () => {
+      for (const subscription of subscriptions) {
+        subscription.unsubscribe()
+      }
+    }
+  })
+}
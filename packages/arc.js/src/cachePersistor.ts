@@ -0,0 +1,314 @@
+import { InMemoryCache } from 'apollo-cache-inmemory'
+import { Logger } from './logger'
+
+// bump this when the way entities are stored in the cache changes, to ignore the caches of older versions
+const CACHE_FORMAT_VERSION = 2
+
+// the entries of the cache that refer to the others, and are never evicted
+const ROOT_IDS = ['ROOT_QUERY', 'ROOT_MUTATION', 'ROOT_SUBSCRIPTION']
+
+/**
+ * Where a persisted cache is stored. The interface is a subset of `localStorage`, but asynchronous
+ */
+export interface ICacheStorage {
+  getItem(key: string): Promise<string | null>
+  setItem(key: string, value: string): Promise<void>
+  removeItem(key: string): Promise<void>
+}
+
+export interface ICachePersistorOptions {
+  /**
+   * where to store the cache. Default is an [[IndexedDBCacheStorage]] in browsers, and a [[FileCacheStorage]]
+   * in the `.arc-cache` directory of the working directory in Node
+   */
+  storage?: ICacheStorage
+  /**
+   * the version of the subgraph: a cache that was saved for another version is ignored. Default is the
+   * url of the subgraph, which contains its version (e.g. `.../subgraphs/name/daostack/v41_11`)
+   */
+  version?: string
+  /**
+   * the maximum size of the saved cache, in characters: the entries that were updated longest ago are
+   * left out until the cache fits. Default is 5MB
+   */
+  maxSize?: number
+  /** how long a saved cache can be used, in milliseconds. Default is one day */
+  ttl?: number
+  /** how often the cache is saved if it has changed, in milliseconds. Default is 10000 */
+  interval?: number
+}
+
+interface IPersistedCache {
+  format: number
+  savedAt: number
+  data: any
+  /** when each entry of the data was last updated, to evict the oldest entries first */
+  updatedAt: { [id: string]: number }
+}
+
+/**
+ * Saves the Apollo cache in a storage, and restores it, so that entities that were fetched in an
+ * earlier session can be shown before they are fetched again.
+ *
+ * The cache is saved every few seconds if it has changed, when the browser is idle. It is saved under a key
+ * that contains the version of the subgraph, so that a cache of another subgraph version is never restored.
+ * Optimistic updates are not saved.
+ *
+ * For example:
+ * ```
+ * const arc = new Arc({ ..., persistCache: { ttl: 60 * 60 * 1000 } })
+ * await arc.cachePersistor.restore()
+ * ```
+ */
+export class CachePersistor {
+  public key: string
+  public maxSize: number
+  public ttl: number
+  public interval: number
+  public storage: ICacheStorage
+  private timer: any
+  private persisting?: Promise<void>
+  // the entries of the cache when it was last saved or restored. The cache replaces the object of an
+  // entry when the entry is written, so an entry has changed if its object is not the same
+  private entries: { [id: string]: any } = {}
+  private updatedAt: { [id: string]: number } = {}
+
+  constructor(private cache: InMemoryCache, options: ICachePersistorOptions = {}) {
+    this.key = `arc.js-apollo-cache:${options.version || 'default'}`
+    this.maxSize = options.maxSize === undefined ? 5 * 1024 * 1024 : options.maxSize
+    this.ttl = options.ttl === undefined ? 24 * 60 * 60 * 1000 : options.ttl
+    this.interval = options.interval === undefined ? 10000 : options.interval
+    this.storage = options.storage || defaultStorage()
+    this.start()
+  }
+
+  /**
+   * Restore the saved cache, unless it is expired or was saved for another version
+   * @return true if the cache was restored
+   */
+  public async restore(): Promise<boolean> {
+    let saved: IPersistedCache | undefined
+    try {
+      const value = await this.storage.getItem(this.key)
+      saved = value ? JSON.parse(value) : undefined
+    } catch (err) {
+      Logger.warn(`Could not read the persisted cache: ${err.message}`)
+    }
+    if (!saved) {
+      return false
+    }
+    if (saved.format !== CACHE_FORMAT_VERSION || Date.now() - saved.savedAt > this.ttl) {
+      await this.purge()
+      return false
+    }
+    this.cache.restore(saved.data)
+    this.entries = { ...this.cache.extract() }
+    this.updatedAt = saved.updatedAt
+    return true
+  }
+
+  /**
+   * Save the cache now, if it has changed since it was last saved or restored
+   */
+  public async persist(): Promise<void> {
+    if (this.persisting) {
+      await this.persisting
+    }
+    this.persisting = this.save()
+    try {
+      await this.persisting
+    } finally {
+      this.persisting = undefined
+    }
+  }
+
+  /**
+   * Remove the saved cache
+   */
+  public async purge(): Promise<void> {
+    try {
+      await this.storage.removeItem(this.key)
+    } catch (err) {
+      Logger.warn(`Could not remove the persisted cache: ${err.message}`)
+    }
+  }
+
+  /**
+   * Save the cache every `interval` milliseconds (which is the default)
+   */
+  public start() {
+    if (this.timer !== undefined) {
+      return
+    }
+    this.timer = setInterval(() => this.whenIdle(() => this.persist()), this.interval)
+    // in node, the timer should not keep the process running
+    if (this.timer.unref) {
+      this.timer.unref()
+    }
+  }
+
+  /**
+   * Stop saving the cache
+   */
+  public stop() {
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+
+  private async save(): Promise<void> {
+    const data: { [id: string]: any } = this.cache.extract()
+    const now = Date.now()
+    let changed = Object.keys(this.entries).some((id: string) => !(id in data))
+    const updatedAt: { [id: string]: number } = {}
+    for (const id of Object.keys(data)) {
+      if (this.entries[id] !== data[id] || this.updatedAt[id] === undefined) {
+        changed = true
+        updatedAt[id] = now
+      } else {
+        updatedAt[id] = this.updatedAt[id]
+      }
+    }
+    this.updatedAt = updatedAt
+    if (!changed) {
+      return
+    }
+
+    const persisted: IPersistedCache = {
+      data: { ...data },
+      format: CACHE_FORMAT_VERSION,
+      savedAt: now,
+      updatedAt: { ...updatedAt }
+    }
+    const sizes: { [id: string]: number } = {}
+    let size = 0
+    for (const id of Object.keys(data)) {
+      sizes[id] = id.length + JSON.stringify(data[id]).length
+      size += sizes[id]
+    }
+    // leave out the entries that were updated longest ago, until the cache fits in the maxSize. A query
+    // that refers to an entry that was left out is fetched again
+    const evictable = Object.keys(data)
+      .filter((id: string) => ROOT_IDS.indexOf(id) === -1)
+      .sort((a: string, b: string) => updatedAt[a] - updatedAt[b])
+    while (size > this.maxSize && evictable.length > 0) {
+      const id = evictable.shift() as string
+      delete persisted.data[id]
+      delete persisted.updatedAt[id]
+      size -= sizes[id]
+    }
+    if (size > this.maxSize) {
+      Logger.warn(`The root queries of the cache (${size} characters) are larger than the maxSize, and are not saved`)
+      this.entries = { ...data }
+      return
+    }
+    try {
+      await this.storage.setItem(this.key, JSON.stringify(persisted))
+      this.entries = { ...data }
+    } catch (err) {
+      // the cache is saved again at the next interval
+      Logger.warn(`Could not save the cache: ${err.message}`)
+    }
+  }
+
+  // run the callback when the browser is idle, or right away in node
+  private whenIdle(callback: () => void) {
+    if (typeof window !== 'undefined' && (window as any).requestIdleCallback) {
+      (window as any).requestIdleCallback(callback, { timeout: this.interval })
+    } else {
+      callback()
+    }
+  }
+}
+
+/**
+ * Stores the cache in an IndexedDB database of the browser
+ */
+export class IndexedDBCacheStorage implements ICacheStorage {
+  private db?: Promise<any>
+
+  constructor(public databaseName: string = 'arc.js', public storeName: string = 'apollo-cache') { }
+
+  public async getItem(key: string): Promise<string | null> {
+    const value = await this.request('readonly', (store: any) => store.get(key))
+    return value === undefined ? null : value
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store: any) => store.put(value, key))
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', (store: any) => store.delete(key))
+  }
+
+  private open(): Promise<any> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return this.db
+  }
+
+  private async request(mode: 'readonly' | 'readwrite', makeRequest: (store: any) => any): Promise<any> {
+    const db = await this.open()
+    return new Promise((resolve, reject) => {
+      const request = makeRequest(db.transaction(this.storeName, mode).objectStore(this.storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
+
+/**
+ * Stores the cache in files in a directory, one file per key
+ */
+export class FileCacheStorage implements ICacheStorage {
+  constructor(public directory: string) { }
+
+  public async getItem(key: string): Promise<string | null> {
+    const fs = require('fs')
+    try {
+      return await fs.promises.readFile(this.path(key), 'utf-8')
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return null
+      }
+      throw err
+    }
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    const fs = require('fs')
+    await fs.promises.mkdir(this.directory, { recursive: true })
+    // write to a temporary file first, so that a reader never sees a partial cache
+    const path = this.path(key)
+    await fs.promises.writeFile(`${path}.tmp`, value, 'utf-8')
+    await fs.promises.rename(`${path}.tmp`, path)
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    const fs = require('fs')
+    try {
+      await fs.promises.unlink(this.path(key))
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        throw err
+      }
+    }
+  }
+
+  private path(key: string): string {
+    return `${this.directory}/${encodeURIComponent(key)}.json`
+  }
+}
+
+function defaultStorage(): ICacheStorage {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBCacheStorage()
+  }
+  return new FileCacheStorage(`${process.cwd()}/.arc-cache`)
+}
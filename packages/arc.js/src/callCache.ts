@@ -0,0 +1,275 @@
+import { Logger } from './logger'
+
+export interface ICallCacheOptions {
+  /** the maximum number of results that are kept. Default is 1000 */
+  maxEntries?: number
+}
+
+export interface ICallCacheMetrics {
+  /** the number of calls that were answered from the cache */
+  hits: number
+  /** the number of calls that were sent to the node */
+  misses: number
+  /** the number of results in the cache */
+  size: number
+}
+
+/**
+ * A provider that answers `eth_call` requests from a CallCache (cf. [[CallCache.wrapProvider]])
+ */
+export interface ICachingProvider {
+  /** the provider that can be passed to `new Web3()` */
+  provider: any
+  /** remove the listeners and the `newHeads` subscription that the cache added to the wrapped provider */
+  dispose: () => void
+}
+
+interface ICallCacheEntry {
+  // the block number of the call, or undefined for calls to the latest block
+  blockNumber?: number
+  result: Promise<any>
+}
+
+/**
+ * A read-through cache for `eth_call` requests, keyed by the address, the sender, the calldata and the block.
+ *
+ * The cache sits between a web3 instance and its provider (cf. [[wrapProvider]]), so it is shared
+ * by all contracts of that web3 instance. Results of calls to the latest block are dropped as soon as the
+ * provider notifies us of a new block, so they are only cached if the provider supports subscriptions.
+ */
+export class CallCache {
+  public hits: number = 0
+  public misses: number = 0
+  public maxEntries: number
+  // the latest block we know of
+  public blockNumber?: number
+  private blockHash?: string
+  private entries: Map<string, ICallCacheEntry> = new Map()
+  // true if we get notified of new blocks
+  private following: boolean = false
+
+  constructor(options: ICallCacheOptions = {}) {
+    this.maxEntries = options.maxEntries === undefined ? 1000 : options.maxEntries
+  }
+
+  public get metrics(): ICallCacheMetrics {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size
+    }
+  }
+
+  public resetMetrics() {
+    this.hits = 0
+    this.misses = 0
+  }
+
+  /**
+   * remove all results from the cache
+   */
+  public clear() {
+    this.entries.clear()
+  }
+
+  /**
+   * Register a new block, and drop the results that may have changed with it: the results of calls to
+   * the latest block, and (when a block was replaced by a reorg) the results of calls to the replaced blocks
+   */
+  public newBlock(blockNumber: number, blockHash?: string) {
+    const isNewBlock = this.blockNumber === undefined || blockNumber > this.blockNumber
+    const isReorg = !isNewBlock && blockHash !== undefined && this.blockHash !== undefined &&
+      blockNumber <= this.blockNumber! && blockHash !== this.blockHash
+    if (!isNewBlock && !isReorg) {
+      return
+    }
+    this.blockNumber = blockNumber
+    if (blockHash !== undefined) {
+      this.blockHash = blockHash
+    }
+    this.dropResults(isReorg ? blockNumber : false)
+  }
+
+  /**
+   * return the result of the `eth_call` from the cache, or get it with `fetch` and cache it
+   * @param  params the parameters of the `eth_call`: the transaction object and the block
+   * @param  fetch  sends the call to the node
+   */
+  public call(params: any[], fetch: () => Promise<any>): Promise<any> {
+    const transaction = params[0] || {}
+    const block = params[1] === undefined ? 'latest' : params[1]
+    let blockNumber: number | undefined
+    if (block !== 'latest') {
+      blockNumber = Number(block)
+      if (isNaN(blockNumber)) {
+        // 'pending' or 'earliest'
+        return fetch()
+      }
+    } else if (!this.following) {
+      // we would not know when the result changes
+      return fetch()
+    }
+    const key = [
+      (transaction.to || '').toLowerCase(),
+      (transaction.from || '').toLowerCase(),
+      transaction.data,
+      blockNumber === undefined ? 'latest' : blockNumber
+    ].join('|')
+
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.hits += 1
+      return entry.result
+    }
+    this.misses += 1
+    const result = fetch()
+    this.entries.set(key, { blockNumber, result })
+    // failed calls are not cached
+    result.catch(() => {
+      if (this.entries.get(key) && this.entries.get(key)!.result === result) {
+        this.entries.delete(key)
+      }
+    })
+    // we rely on the insertion order of the Map to drop the oldest results
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value)
+    }
+    return result
+  }
+
+  /**
+   * Return a provider that answers `eth_call` requests from this cache, and passes all other requests
+   * on to the given provider. If the provider supports subscriptions, the cache subscribes to new block headers.
+   * @param  provider a web3 provider (e.g. `web3.currentProvider`)
+   * @return the provider that can be passed to `new Web3()`, and a function that stops following
+   *  the given provider
+   */
+  public wrapProvider(provider: any): ICachingProvider {
+    const sendPayload = (payload: any): Promise<any> => new Promise((resolve, reject) => {
+      const callback = (error: Error, response: any) => {
+        if (error) {
+          reject(error)
+        } else if (response && response.error) {
+          reject(response.error)
+        } else {
+          resolve(response)
+        }
+      }
+      if (provider.sendAsync) {
+        provider.sendAsync(payload, callback)
+      } else {
+        provider.send(payload, callback)
+      }
+    })
+    const send = (payload: any, callback: (error: Error | null, response?: any) => void) => {
+      if (Array.isArray(payload) || payload.method !== 'eth_call' || typeof callback !== 'function') {
+        return provider.sendAsync ? provider.sendAsync(payload, callback) : provider.send(payload, callback)
+      }
+      this.call(payload.params, () => sendPayload(payload).then((response: any) => response.result))
+        .then((result: any) => callback(null, { id: payload.id, jsonrpc: payload.jsonrpc || '2.0', result }))
+        .catch((error: any) => callback(error instanceof Error ? error : null, { error, id: payload.id }))
+    }
+
+    const wrapper: any = {
+      send,
+      sendAsync: send
+    }
+    if (typeof provider.request === 'function') {
+      wrapper.request = (args: { method: string, params?: any[] }) => args.method === 'eth_call'
+        ? this.call(args.params || [], () => provider.request(args))
+        : provider.request(args)
+    }
+    for (const method of ['on', 'once', 'removeListener', 'removeAllListeners', 'emit', 'reset', 'disconnect',
+                          'supportsSubscriptions']) {
+      if (typeof provider[method] === 'function') {
+        wrapper[method] = (...args: any[]) => provider[method](...args)
+      }
+    }
+    Object.defineProperty(wrapper, 'connected', { get: () => provider.connected })
+
+    if (typeof provider.on !== 'function') {
+      return { dispose: () => undefined, provider: wrapper }
+    }
+    const onNotification = (result: any) => {
+      if (result && result.parentHash && result.number !== undefined) {
+        this.newBlock(Number(result.number), result.hash)
+      } else if (result && result.blockNumber !== undefined) {
+        // a log of a block that we may not have seen the header of yet
+        this.newBlock(Number(result.blockNumber))
+      }
+    }
+    // web3 subscriptions (including ours) deliver their notifications with 'data' events, EIP-1193 providers
+    // with 'message' events. We get to see them before the subscribers, because we register our listeners first
+    const listeners: { [event: string]: (...args: any[]) => void } = {
+      // we may miss blocks while we are disconnected
+      close: () => {
+        this.following = false
+        this.blockNumber = undefined
+        this.dropResults(false)
+      },
+      connect: () => follow(),
+      data: (result: any, deprecatedResult: any) => {
+        const notification = result || deprecatedResult
+        if (notification && notification.method === 'eth_subscription' && notification.params) {
+          onNotification(notification.params.result)
+        }
+      },
+      message: (message: any) => {
+        if (message && message.type === 'eth_subscription' && message.data) {
+          onNotification(message.data.result)
+        }
+      }
+    }
+    let disposed = false
+    // the id of our `newHeads` subscription
+    let subscriptionId: string | undefined
+    const subscribe = { id: Date.now(), jsonrpc: '2.0', method: 'eth_subscribe', params: ['newHeads'] }
+    const follow = () => sendPayload(subscribe)
+      .then((response: any) => {
+        subscriptionId = response.result
+        if (disposed) {
+          unsubscribe()
+        } else {
+          this.following = true
+        }
+      })
+      .catch((err: any) => Logger.warn(`The call cache cannot follow new blocks: ${err.message || err}`))
+    const unsubscribe = () => {
+      if (subscriptionId !== undefined && provider.connected !== false) {
+        sendPayload({ id: Date.now(), jsonrpc: '2.0', method: 'eth_unsubscribe', params: [subscriptionId] })
+          .catch(() => undefined)
+      }
+      subscriptionId = undefined
+    }
+
+    for (const event of Object.keys(listeners)) {
+      provider.on(event, listeners[event])
+    }
+    if (provider.connected !== false) {
+      follow()
+    }
+    const dispose = () => {
+      if (disposed) {
+        return
+      }
+      disposed = true
+      this.following = false
+      for (const event of Object.keys(listeners)) {
+        provider.removeListener(event, listeners[event])
+      }
+      unsubscribe()
+    }
+    return { dispose, provider: wrapper }
+  }
+
+  /**
+   * drop the results of the calls to the latest block, and to the blocks from `fromBlock` on
+   */
+  private dropResults(fromBlock: number | false) {
+    this.entries.forEach((entry: ICallCacheEntry, key: string) => {
+      if (entry.blockNumber === undefined || (fromBlock !== false && entry.blockNumber >= fromBlock)) {
+        this.entries.delete(key)
+      }
+    })
+  }
+}
@@ -0,0 +1,605 @@
+import BN = require('bn.js')
+import { defer, from, Observable, timer } from 'rxjs'
+import { distinctUntilChanged, switchMap, takeUntil } from 'rxjs/operators'
+import { Arc, IContractInfo } from './arc'
+import { ArcError, UnknownContractError } from './errors'
+import { IApolloQueryOptions } from './graphnode'
+import { Logger } from './logger'
+import { fragmentField, schemeTypes } from './schemeTypes'
+import {
+  AVATAR_CONTRACT_VERSION,
+  CONTROLLER_CONTRACT_VERSION,
+  DAOTOKEN_CONTRACT_VERSION,
+  REPUTATION_CONTRACT_VERSION
+} from './settings'
+import { Address } from './types'
+import { concat, hexStringToUint8Array } from './utils'
+const Web3 = require('web3')
+
+/**
+ * Where the `state()` of DAOs, schemes, proposals and members is read from:
+ * - `subgraph`: from the subgraph
+ * - `chain`: from the contracts and their event logs (cf. [[ChainDataProvider]])
+ * - `auto`: from the subgraph, unless it lags more than `maxSubgraphLag` blocks behind the chain
+ */
+export type DataSource = 'subgraph' | 'chain' | 'auto'
+
+export interface IChainDataProviderOptions {
+  /** the block from which the event logs are read, e.g. the block of the first deployment. Default is 0 */
+  fromBlock?: number
+  /** how often to check for a new block when following a state, in milliseconds. Default is 15000 */
+  pollInterval?: number
+}
+
+/**
+ * What a scheme type gets to read one of its proposals from the chain (cf. [[ISchemeType.readProposal]])
+ */
+export interface IChainProposalReader {
+  dao: Address
+  proposalId: string
+  /** the address of the scheme, and its readonly contract */
+  schemeAddress: Address
+  scheme: any
+  /** the block in which the proposal was created, if it is known */
+  createdAtBlock?: number
+  /** the block to read at; the latest block if undefined */
+  blockNumber?: number
+  /** the events of a contract up to the block, by default those of the proposal: `{ _avatar, _proposalId }` */
+  pastEvents(contract: any, eventName: string, filter?: object): Promise<any[]>
+  /** the timestamp of a block, as the subgraph stores it */
+  timestamp(blockNumber: number): Promise<string>
+  /** the controller of the DAO at a block */
+  controller(blockNumber?: number): Promise<any>
+  /** the info of a contract, or undefined if it is not a known contract */
+  contractInfo(address: Address): IContractInfo | undefined
+  /** the readonly contract at an address, which must be a known contract */
+  contract(address: Address): any
+}
+
+// the states of a proposal in the GenesisProtocol, by their names in the subgraph
+const PROPOSAL_STAGES = ['None', 'ExpiredInQueue', 'Executed', 'Queued', 'PreBoosted', 'Boosted', 'QuietEndingPeriod']
+const EXECUTION_STATES = [
+  'None', 'QueueBarCrossed', 'QueueTimeOut', 'PreBoostedBarCrossed', 'BoostedTimeOut', 'BoostedBarCrossed'
+]
+const YES = 1
+const NO = 2
+const NULL_ADDRESS = '0x0000000000000000000000000000000000000000'
+const DEFAULT_POLL_INTERVAL = 15000
+
+/**
+ * Reads the state of DAOs, schemes, proposals and members from the contracts (Avatar, Controller, Reputation,
+ * GenesisProtocol and the schemes) and their event logs, for when there is no subgraph, or the subgraph lags
+ * behind the chain. Use it by setting the `dataSource` of the [[Arc]] instance.
+ *
+ * The methods return the entities in the shape in which the subgraph returns them, so each `state()` maps
+ * them as usual. Some data is only known to the subgraph: proposals have no `accountsWithUnclaimedRewards`,
+ * and schemes have no `schemeParams`. Reading the logs takes many requests, so this is much slower than
+ * querying the subgraph.
+ */
+export class ChainDataProvider {
+  public fromBlock: number
+  public pollInterval: number
+
+  constructor(public context: Arc, options: IChainDataProviderOptions = {}) {
+    this.fromBlock = options.fromBlock || 0
+    this.pollInterval = options.pollInterval || DEFAULT_POLL_INTERVAL
+  }
+
+  /**
+   * Follow a state that is read from the chain: it is read again for each new block, unless the options
+   * say not to subscribe (or ask for the state at a past block), in which case it is read once.
+   * @param  fetch              reads the state at the given block (or at the latest block)
+   * @param  apolloQueryOptions the options of the `state()`; `block` is supported, if given by its number
+   */
+  public observe<T>(
+    fetch: (blockNumber?: number) => Promise<T>,
+    apolloQueryOptions: IApolloQueryOptions = {}
+  ): Observable<T> {
+    const block = apolloQueryOptions.block
+    if (block) {
+      if (block.number === undefined) {
+        throw new ArcError(`The state can only be read from the chain at a block number, not at a block hash`)
+      }
+      return defer(() => from(fetch(block.number)))
+    }
+    const subscribe = apolloQueryOptions.subscribe === undefined
+      ? this.context.graphqlSubscribeToQueries
+      : apolloQueryOptions.subscribe
+    if (!subscribe && !apolloQueryOptions.polling) {
+      return defer(() => from(fetch()))
+    }
+    return timer(0, apolloQueryOptions.pollInterval || this.pollInterval).pipe(
+      switchMap(() => from(this.context.web3Read.eth.getBlockNumber() as Promise<number>)),
+      distinctUntilChanged(),
+      switchMap((blockNumber: number) => from(fetch(blockNumber))),
+      takeUntil(this.context.closing)
+    )
+  }
+
+  /**
+   * @return the DAO as the subgraph returns it (cf. `DAOFieldsFragment`), or null if there is no DAO at the address
+   */
+  public async dao(address: Address, blockNumber?: number): Promise<any> {
+    address = address.toLowerCase()
+    if (await this.context.web3Read.eth.getCode(address, blockNumber) === '0x') {
+      return null
+    }
+    const avatar = this.getContract(address, 'Avatar', AVATAR_CONTRACT_VERSION)
+    const [name, tokenAddress, reputationAddress] = await Promise.all([
+      avatar.methods.orgName().call({}, blockNumber),
+      avatar.methods.nativeToken().call({}, blockNumber),
+      avatar.methods.nativeReputation().call({}, blockNumber)
+    ])
+    const token = this.getContract(tokenAddress, 'DAOToken', DAOTOKEN_CONTRACT_VERSION)
+    const reputation = this.getContract(reputationAddress, 'Reputation', REPUTATION_CONTRACT_VERSION)
+    const [tokenName, tokenSymbol, tokenTotalSupply, reputationTotalSupply, balances, proposals, register] =
+      await Promise.all([
+        token.methods.name().call({}, blockNumber),
+        token.methods.symbol().call({}, blockNumber),
+        token.methods.totalSupply().call({}, blockNumber),
+        reputation.methods.totalSupply().call({}, blockNumber),
+        this.reputationBalances(reputation, blockNumber),
+        this.proposalsOf(address, blockNumber),
+        this.register(address, blockNumber)
+      ])
+    return {
+      id: address,
+      name,
+      nativeReputation: { id: reputationAddress.toLowerCase(), totalSupply: reputationTotalSupply },
+      nativeToken: {
+        id: tokenAddress.toLowerCase(),
+        name: tokenName,
+        symbol: tokenSymbol,
+        totalSupply: tokenTotalSupply
+      },
+      ...countStages(proposals),
+      register,
+      reputationHoldersCount: Object.keys(balances).filter((holder: string) => !balances[holder].isZero()).length
+    }
+  }
+
+  /**
+   * @return the reputation holder as the subgraph returns it (cf. `Member.fragments.ReputationHolderFields`),
+   *  or null if the account has no reputation in the DAO
+   */
+  public async reputationHolder(dao: Address, address: Address, blockNumber?: number): Promise<any> {
+    dao = dao.toLowerCase()
+    address = address.toLowerCase()
+    const avatar = this.getContract(dao, 'Avatar', AVATAR_CONTRACT_VERSION)
+    const reputationAddress = (await avatar.methods.nativeReputation().call({}, blockNumber)).toLowerCase()
+    const reputation = this.getContract(reputationAddress, 'Reputation', REPUTATION_CONTRACT_VERSION)
+    const balance = await reputation.methods.balanceOf(address).call({}, blockNumber)
+    if (new BN(balance).isZero()) {
+      return null
+    }
+    const [firstMint] = await this.pastEvents(reputation, 'Mint', { _to: address }, blockNumber)
+    return {
+      address,
+      balance,
+      contract: reputationAddress,
+      createdAt: firstMint ? await this.timestamp(firstMint.blockNumber) : '0',
+      dao: { id: dao },
+      id: idOf(reputationAddress, address)
+    }
+  }
+
+  /**
+   * @return the scheme as the subgraph returns it (cf. `Scheme.fragments.SchemeFields`), without its parameters
+   */
+  public async scheme(dao: Address, address: Address, blockNumber?: number): Promise<any> {
+    dao = dao.toLowerCase()
+    address = address.toLowerCase()
+    const controller = await this.controllerOf(dao, blockNumber)
+    const [{ paramsHash }, permissions, isRegistered, proposals] = await Promise.all([
+      controller.methods.schemes(address).call({}, blockNumber),
+      controller.methods.getSchemePermissions(address, dao).call({}, blockNumber),
+      controller.methods.isSchemeRegistered(address, dao).call({}, blockNumber),
+      this.proposalsOf(dao, blockNumber)
+    ])
+    const contractInfo = this.findContractInfo(address)
+    return {
+      address,
+      alias: contractInfo && contractInfo.alias,
+      canDelegateCall: hasPermission(permissions, 16),
+      canManageGlobalConstraints: hasPermission(permissions, 4),
+      canRegisterSchemes: hasPermission(permissions, 2),
+      canUpgradeController: hasPermission(permissions, 8),
+      dao: { id: dao },
+      id: idOf(dao, address),
+      isRegistered,
+      name: contractInfo && contractInfo.name,
+      ...countStages(proposals.filter((proposal: IChainProposal) => proposal.scheme === address)),
+      paramsHash,
+      version: contractInfo && contractInfo.version
+    }
+  }
+
+  /**
+   * Read a proposal from the GenesisProtocol and the scheme that it was made in. Only proposals of
+   * ContributionReward, GenericScheme and SchemeRegistrar, and of the scheme types with a `readProposal`
+   * function, can be read from the chain.
+   * @param  proposalId
+   * @param  votingMachine the address of the GenesisProtocol; if not given, all known GenesisProtocols are tried
+   * @return the proposal as the subgraph returns it (cf. `Proposal.fragments.ProposalFields`),
+   *  or null if no voting machine knows the proposal
+   */
+  public async proposal(proposalId: string, votingMachine?: Address, blockNumber?: number): Promise<any> {
+    const votingMachines = votingMachine ? [votingMachine] : this.genesisProtocols()
+    let gp: any
+    let proposal: any
+    for (const address of votingMachines) {
+      const contract = this.context.getContract(address, undefined, 'readonly')
+      const candidate = await contract.methods.proposals(proposalId).call({}, blockNumber)
+      if (candidate.proposer !== NULL_ADDRESS) {
+        gp = contract
+        proposal = candidate
+        break
+      }
+    }
+    if (!gp) {
+      return null
+    }
+
+    const dao = (await gp.methods.organizations(proposal.organizationId).call({}, blockNumber)).toLowerCase()
+    const schemeAddress = proposal.callbacks.toLowerCase()
+    const filter = { _proposalId: proposalId }
+    const [params, times, votesFor, votesAgainst, stakesFor, stakesAgainst, threshold] = await Promise.all([
+      gp.methods.parameters(proposal.paramsHash).call({}, blockNumber),
+      gp.methods.getProposalTimes(proposalId).call({}, blockNumber),
+      gp.methods.voteStatus(proposalId, YES).call({}, blockNumber),
+      gp.methods.voteStatus(proposalId, NO).call({}, blockNumber),
+      gp.methods.voteStake(proposalId, YES).call({}, blockNumber),
+      gp.methods.voteStake(proposalId, NO).call({}, blockNumber),
+      gp.methods.threshold(proposal.paramsHash, proposal.organizationId).call({}, blockNumber)
+    ])
+    const [[created], [executed], executions, votes, stakes] = await Promise.all([
+      this.pastEvents(gp, 'NewProposal', filter, blockNumber),
+      this.pastEvents(gp, 'ExecuteProposal', filter, blockNumber),
+      this.pastEvents(gp, 'GPExecuteProposal', filter, blockNumber),
+      this.pastEvents(gp, 'VoteProposal', filter, blockNumber),
+      this.pastEvents(gp, 'Stake', filter, blockNumber)
+    ])
+    const reputationAddress = await this.getContract(dao, 'Avatar', AVATAR_CONTRACT_VERSION)
+      .methods.nativeReputation().call({}, blockNumber)
+    const reputation = this.getContract(reputationAddress, 'Reputation', REPUTATION_CONTRACT_VERSION)
+    const [scheme, schemeProposal, totalRepWhenCreated, executedAt] = await Promise.all([
+      this.scheme(dao, schemeAddress, blockNumber),
+      this.schemeProposal(dao, schemeAddress, proposalId, created && created.blockNumber, blockNumber),
+      created ? reputation.methods.totalSupplyAt(created.blockNumber).call({}, blockNumber) : '0',
+      executed ? this.timestamp(executed.blockNumber) : '0'
+    ])
+    const ipfsData = await this.ipfsData(schemeProposal.descriptionHash)
+    // the fields of the scheme types that read their own proposals, like `signalScheme`
+    const schemeFields: { [field: string]: any } = {}
+    for (const schemeType of schemeTypes.list()) {
+      if (schemeType.readProposal && schemeType.proposalFragment) {
+        const field = fragmentField(schemeType.proposalFragment)
+        schemeFields[field] = schemeProposal[field] || null
+      }
+    }
+
+    const state = Number(proposal.state)
+    const createdAt = Number(times[0])
+    const boostedAt = state === 5 || state === 6 ? Number(times[1]) : 0
+    const preBoostedAt = Number(times[2])
+    const quietEndingPeriodBeganAt = state === 6 ? Number(times[1]) : 0
+    // the same as the subgraph computes it
+    const closingAt = [
+      Number(executedAt), 0, Number(executedAt),
+      createdAt + Number(params.queuedVotePeriodLimit),
+      preBoostedAt + Number(params.preBoostedVotePeriodLimit),
+      boostedAt + Number(proposal.currentBoostedVotePeriodLimit),
+      quietEndingPeriodBeganAt + Number(params.quietEndingPeriod)
+    ][state]
+    const execution = executions[executions.length - 1]
+
+    return {
+      ...schemeFields,
+      accountsWithUnclaimedRewards: [],
+      boostedAt: String(boostedAt),
+      closingAt: String(closingAt),
+      competition: null,
+      confidenceThreshold: proposal.confidenceThreshold,
+      contributionReward: schemeProposal.contributionReward || null,
+      createdAt: String(createdAt),
+      dao: { id: dao, schemes: schemeProposal.daoSchemes || [] },
+      description: ipfsData.description || '',
+      descriptionHash: schemeProposal.descriptionHash,
+      executedAt,
+      executionState: EXECUTION_STATES[execution ? Number(execution.returnValues._executionState) : 0],
+      expiresInQueueAt: String(createdAt + Number(params.queuedVotePeriodLimit)),
+      genericScheme: schemeProposal.genericScheme || null,
+      genericSchemeMultiCall: null,
+      genesisProtocolParams: { ...params, id: proposal.paramsHash },
+      gpQueue: { id: idOf(dao, schemeAddress), threshold, votingMachine: gp.options.address.toLowerCase() },
+      id: proposalId,
+      organizationId: proposal.organizationId,
+      paramsHash: proposal.paramsHash,
+      preBoostedAt: String(preBoostedAt),
+      proposer: proposal.proposer.toLowerCase(),
+      quietEndingPeriodBeganAt: String(quietEndingPeriodBeganAt),
+      scheme,
+      schemeRegistrar: schemeProposal.schemeRegistrar || null,
+      stage: PROPOSAL_STAGES[state],
+      stakes: stakes.map((event: any) => ({ id: event.id })),
+      stakesAgainst,
+      stakesFor,
+      tags: (ipfsData.tags || []).map((tag: string) => ({ id: tag.toLowerCase() })),
+      title: ipfsData.title || '',
+      totalRepWhenCreated,
+      totalRepWhenExecuted: executed ? executed.returnValues._totalReputation : '0',
+      url: ipfsData.url || '',
+      votes: votes.map((event: any) => ({ id: event.id })),
+      votesAgainst,
+      votesFor,
+      votingMachine: gp.options.address.toLowerCase(),
+      winningOutcome: Number(proposal.winningVote) === YES ? 'Pass' : 'Fail'
+    }
+  }
+
+  /**
+   * read the data of a proposal that only the scheme knows, from the event with which the proposal was created
+   */
+  private async schemeProposal(
+    dao: Address,
+    schemeAddress: Address,
+    proposalId: string,
+    createdAtBlock?: number,
+    blockNumber?: number
+  ): Promise<any> {
+    const contractInfo = this.findContractInfo(schemeAddress)
+    const name = contractInfo && contractInfo.name
+    const scheme = contractInfo && this.context.getContract(schemeAddress, undefined, 'readonly')
+    const filter = { _avatar: dao, _proposalId: proposalId }
+
+    const schemeType = contractInfo && schemeTypes.find(contractInfo.name, contractInfo.version)
+    if (schemeType && schemeType.readProposal) {
+      return schemeType.readProposal({
+        blockNumber,
+        contract: (address: Address) => this.context.getContract(address, undefined, 'readonly'),
+        contractInfo: (address: Address) => this.findContractInfo(address),
+        controller: (atBlock?: number) => this.controllerOf(dao, atBlock),
+        createdAtBlock,
+        dao,
+        pastEvents: (contract: any, eventName: string, eventFilter: object = filter) =>
+          this.pastEvents(contract, eventName, eventFilter, blockNumber),
+        proposalId,
+        scheme,
+        schemeAddress,
+        timestamp: (atBlock: number) => this.timestamp(atBlock)
+      })
+    }
+    if (name === 'ContributionReward') {
+      const [created] = await this.pastEvents(scheme, 'NewContributionProposal', filter, blockNumber)
+      const redeemedPeriods = await Promise.all([0, 1, 2, 3].map((redeemType: number) =>
+        scheme.methods.getRedeemedPeriods(proposalId, dao, redeemType).call({}, blockNumber)
+      ))
+      const values = created.returnValues
+      return {
+        contributionReward: {
+          alreadyRedeemedEthPeriods: redeemedPeriods[2],
+          alreadyRedeemedExternalTokenPeriods: redeemedPeriods[3],
+          alreadyRedeemedNativeTokenPeriods: redeemedPeriods[1],
+          alreadyRedeemedReputationPeriods: redeemedPeriods[0],
+          beneficiary: values._beneficiary.toLowerCase(),
+          ethReward: values._rewards[1],
+          ethRewardLeft: null,
+          externalToken: values._externalToken.toLowerCase(),
+          externalTokenReward: values._rewards[2],
+          externalTokenRewardLeft: null,
+          id: proposalId,
+          nativeTokenReward: values._rewards[0],
+          nativeTokenRewardLeft: null,
+          periodLength: values._rewards[3],
+          periods: values._rewards[4],
+          reputationChangeLeft: null,
+          reputationReward: values._reputationChange
+        },
+        descriptionHash: values._descriptionHash
+      }
+    } else if (name === 'GenericScheme') {
+      const [[created], [executed], contractToCall] = await Promise.all([
+        this.pastEvents(scheme, 'NewCallProposal', filter, blockNumber),
+        this.pastEvents(scheme, 'ProposalExecuted', filter, blockNumber),
+        scheme.methods.getContractToCall(dao).call({}, blockNumber)
+      ])
+      return {
+        descriptionHash: created.returnValues._descriptionHash,
+        genericScheme: {
+          callData: created.returnValues._callData,
+          contractToCall: contractToCall.toLowerCase(),
+          executed: !!executed,
+          id: proposalId,
+          returnValue: executed ? executed.returnValues._genericCallReturnValue : null,
+          value: created.returnValues._value
+        }
+      }
+    } else if (name === 'SchemeRegistrar') {
+      const [[added], [removed], [executed]] = await Promise.all([
+        this.pastEvents(scheme, 'NewSchemeProposal', filter, blockNumber),
+        this.pastEvents(scheme, 'RemoveSchemeProposal', filter, blockNumber),
+        this.pastEvents(scheme, 'ProposalExecuted', filter, blockNumber)
+      ])
+      const created = added || removed
+      const schemeToRegister = added ? added.returnValues._scheme.toLowerCase() : null
+      const decision = executed ? executed.returnValues._param : null
+      // a proposal to register a scheme that was already registered is a proposal to edit it
+      const registeredBefore = schemeToRegister !== null &&
+        await this.wasSchemeRegistered(dao, schemeToRegister, createdAtBlock)
+      return {
+        daoSchemes: registeredBefore ? [{ address: schemeToRegister, id: idOf(dao, schemeToRegister!) }] : [],
+        descriptionHash: created.returnValues._descriptionHash,
+        schemeRegistrar: {
+          decision,
+          id: proposalId,
+          schemeRegistered: added && Number(decision) === 1 ? true : null,
+          schemeRemoved: removed && Number(decision) === 1 ? true : null,
+          schemeToRegister,
+          schemeToRegisterParamsHash: added ? added.returnValues._parametersHash : null,
+          schemeToRegisterPermission: added ? added.returnValues._permissions : null,
+          schemeToRemove: removed ? removed.returnValues._scheme.toLowerCase() : null
+        }
+      }
+    }
+    throw new ArcError(`Proposals of the scheme at ${schemeAddress} (${name || 'unknown'}) cannot be read from the chain`)
+  }
+
+  /**
+   * @return true if the scheme was registered in the DAO at the block, going by the events of the controller
+   */
+  private async wasSchemeRegistered(dao: Address, scheme: Address, blockNumber?: number): Promise<boolean> {
+    if (blockNumber === undefined) {
+      return false
+    }
+    const controller = await this.controllerOf(dao)
+    const [registered, unregistered] = await Promise.all([
+      this.pastEvents(controller, 'RegisterScheme', { _scheme: scheme }, blockNumber - 1),
+      this.pastEvents(controller, 'UnregisterScheme', { _scheme: scheme }, blockNumber - 1)
+    ])
+    const last = lastEvent([...registered, ...unregistered])
+    return !!last && last.event === 'RegisterScheme'
+  }
+
+  /**
+   * @return the id, the scheme and the state of the proposals of the DAO, in all known GenesisProtocols
+   */
+  private async proposalsOf(dao: Address, blockNumber?: number): Promise<IChainProposal[]> {
+    const proposals: IChainProposal[] = []
+    for (const address of this.genesisProtocols()) {
+      const gp = this.context.getContract(address, undefined, 'readonly')
+      const events = await this.pastEvents(gp, 'NewProposal', { _organization: dao }, blockNumber)
+      proposals.push(...await Promise.all(events.map(async (event: any) => {
+        const proposalId = event.returnValues._proposalId
+        const proposal = await gp.methods.proposals(proposalId).call({}, blockNumber)
+        return { id: proposalId, scheme: proposal.callbacks.toLowerCase(), state: Number(proposal.state) }
+      })))
+    }
+    return proposals
+  }
+
+  /**
+   * @return the balances of all accounts that ever held reputation, by replaying the Mint and Burn events
+   */
+  private async reputationBalances(reputation: any, blockNumber?: number): Promise<{ [address: string]: BN }> {
+    const [mints, burns] = await Promise.all([
+      this.pastEvents(reputation, 'Mint', {}, blockNumber),
+      this.pastEvents(reputation, 'Burn', {}, blockNumber)
+    ])
+    const balances: { [address: string]: BN } = {}
+    for (const event of mints) {
+      const account = event.returnValues._to.toLowerCase()
+      balances[account] = (balances[account] || new BN(0)).add(new BN(event.returnValues._amount))
+    }
+    for (const event of burns) {
+      const account = event.returnValues._from.toLowerCase()
+      balances[account] = (balances[account] || new BN(0)).sub(new BN(event.returnValues._amount))
+    }
+    return balances
+  }
+
+  /**
+   * @return the status of the DAO in the DAORegistry, as the subgraph names it
+   */
+  private async register(dao: Address, blockNumber?: number): Promise<string> {
+    const registries = this.context.contractInfos.filter((contractInfo) => contractInfo.name === 'DAORegistry')
+    if (registries.length === 0) {
+      return 'na'
+    }
+    const registry = this.context.getContract(registries[registries.length - 1].address, undefined, 'readonly')
+    const events = await Promise.all(['Propose', 'Register', 'UnRegister'].map((name: string) =>
+      this.pastEvents(registry, name, { _avatar: dao }, blockNumber)
+    ))
+    const last = lastEvent([].concat(...events as any))
+    return last
+      ? { Propose: 'proposed', Register: 'registered', UnRegister: 'unRegistered' }[last.event as string] as string
+      : 'na'
+  }
+
+  private async controllerOf(dao: Address, blockNumber?: number) {
+    const avatar = this.getContract(dao, 'Avatar', AVATAR_CONTRACT_VERSION)
+    const controllerAddress = await avatar.methods.owner().call({}, blockNumber)
+    return this.getContract(controllerAddress, 'Controller', CONTROLLER_CONTRACT_VERSION)
+  }
+
+  private async ipfsData(descriptionHash?: string): Promise<any> {
+    if (!descriptionHash || !this.context.ipfs) {
+      return {}
+    }
+    try {
+      return await this.context.ipfs.cat(descriptionHash)
+    } catch (err) {
+      Logger.warn(`Could not read the description ${descriptionHash} from ipfs: ${err.message}`)
+      return {}
+    }
+  }
+
+  private async timestamp(blockNumber: number): Promise<string> {
+    return String((await this.context.web3Read.eth.getBlock(blockNumber)).timestamp)
+  }
+
+  private pastEvents(contract: any, eventName: string, filter: object, blockNumber?: number): Promise<any[]> {
+    return contract.getPastEvents(eventName, {
+      filter,
+      fromBlock: this.fromBlock,
+      toBlock: blockNumber === undefined ? 'latest' : blockNumber
+    })
+  }
+
+  private genesisProtocols(): Address[] {
+    return this.context.contractInfos
+      .filter((contractInfo) => contractInfo.name === 'GenesisProtocol')
+      .map((contractInfo) => contractInfo.address)
+  }
+
+  private getContract(address: Address, abiName: string, version: string) {
+    return this.context.getContract(address, this.context.getABI(undefined, abiName, version), 'readonly')
+  }
+
+  private findContractInfo(address: Address) {
+    try {
+      return this.context.getContractInfo(address)
+    } catch (err) {
+      if (err instanceof UnknownContractError) {
+        return undefined
+      }
+      throw err
+    }
+  }
+}
+
+interface IChainProposal {
+  id: string
+  scheme: Address
+  state: number
+}
+
+/**
+ * the number of proposals in each stage, as the subgraph counts them: proposals in the quiet ending period
+ * are counted as boosted
+ */
+function countStages(proposals: IChainProposal[]) {
+  const count = (...states: number[]) =>
+    String(proposals.filter((proposal: IChainProposal) => states.indexOf(proposal.state) > -1).length)
+  return {
+    numberOfBoostedProposals: count(5, 6),
+    numberOfPreBoostedProposals: count(4),
+    numberOfQueuedProposals: count(3)
+  }
+}
+
+/**
+ * the id that the subgraph gives to an entity of two addresses, like a scheme of a DAO
+ */
+function idOf(a: Address, b: Address): string {
+  return Web3.utils.keccak256(concat(hexStringToUint8Array(a.toLowerCase()), hexStringToUint8Array(b.toLowerCase())))
+}
+
+function hasPermission(permissions: string, flag: number): boolean {
+  // the permissions are a bytes4 of flags, of which only the last byte is used
+  // tslint:disable-next-line:no-bitwise
+  return (parseInt(permissions, 16) & flag) === flag
+}
+
+function lastEvent(events: any[]): any {
+  return events.sort((a: any, b: any) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex).pop()
+}
@@ -3,6 +3,7 @@ import gql from 'graphql-tag'
 import { Observable } from 'rxjs'
 import { concatMap, first, map } from 'rxjs/operators'
 import { Arc } from './arc'
+import { GLOBAL_CONSTRAINT_FRAGMENT, IGlobalConstraint, mapGlobalConstraint } from './globalConstraint'
 import { IApolloQueryOptions } from './graphnode'
 import { IMemberQueryOptions, Member } from './member'
 import { toIOperationObservable } from './operation'
@@ -13,8 +14,8 @@ import { ISchemeQueryOptions, Scheme } from './scheme'
 import { IStakeQueryOptions, Stake } from './stake'
 import { Token } from './token'
 import { Address, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
 import { IVoteQueryOptions, Vote } from './vote'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IDAOStaticState {
   id: Address,
@@ -37,13 +38,19 @@ export interface IDAOState extends IDAOStaticState {
   numberOfBoostedProposals: number
 }
 
+export interface IDAOWhere {
+  id?: Address,
+  id_in?: Address[],
+  address?: Address,
+  name?: string,
+  name_contains?: string,
+  name_in?: string[],
+  register?: 'na'|'proposed'|'registered'|'unRegistered',
+  register_in?: Array<'na'|'proposed'|'registered'|'unRegistered'>
+}
+
 export interface IDAOQueryOptions extends ICommonQueryOptions {
-  where?: {
-    address?: Address,
-    name?: string,
-    register?: 'na'|'proposed'|'registered'|'unRegistered',
-    [key: string]: any
-  }
+  where?: IDAOWhere
 }
 
 export const DAOFieldsFragment = gql`
@@ -60,6 +67,21 @@ export const DAOFieldsFragment = gql`
 }`
 
 export class DAO implements IStateful<IDAOState> {
+  public static schema: IEntitySchema = {
+    fields: {
+      id: 'address',
+      name: 'string',
+      nativeReputation: 'address',
+      nativeToken: 'address',
+      numberOfBoostedProposals: 'bigint',
+      numberOfExpiredInQueueProposals: 'bigint',
+      numberOfPreBoostedProposals: 'bigint',
+      numberOfQueuedProposals: 'bigint',
+      register: 'string',
+      reputationHoldersCount: 'bigint'
+    },
+    name: 'DAO'
+  }
 
   /**
    * DAO.search(context, options) searches for DAO entities
@@ -72,41 +94,24 @@ export class DAO implements IStateful<IDAOState> {
     options: IDAOQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<DAO[]> {
-    let where = ''
-    if (!options.where) {
-      options.where = {}
-    }
-    for (const key of Object.keys(options.where)) {
-      if (options.where[key] === undefined) {
-        continue
-      }
-
-      if (key === 'address') {
-        const option = options.where[key] as string
-        isAddress(option)
-        options.where[key] = option.toLowerCase()
-      }
-
-      if (Array.isArray(options.where[key])) {
-        // Support for operators like _in
-        const values = options.where[key].map((val: number) => '"' + val + '"')
-        where += `${key}: [${values.join(',')}]\n`
-      } else {
-        where += `${key}: "${options.where[key] as string}"\n`
-      }
+    // the address of a DAO is its id
+    const { address, ...where } = options.where || {} as IDAOWhere
+    if (address !== undefined) {
+      where.id = address
     }
+    const { args, declarations, variables } = createQueryArguments(DAO.schema, { ...options, where })
 
     let query
     if (apolloQueryOptions.fetchAllData === true) {
-      query = gql`query SearchDaosWithAllData {
-        daos ${createGraphQlQuery(options, where)} {
+      query = gql`query SearchDaosWithAllData ${declarations} {
+        daos ${args} {
           ...DAOFields
           }
         }
         ${DAOFieldsFragment}`
     } else {
-      query = gql`query SearchDaoIds {
-        daos ${createGraphQlQuery(options, where)} {
+      query = gql`query SearchDaoIds ${declarations} {
+        daos ${args} {
           id
         }
       }`
@@ -132,7 +137,7 @@ export class DAO implements IStateful<IDAOState> {
           return new DAO(r.id, context)
         }
       },
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     )
   }
 
@@ -219,7 +224,11 @@ export class DAO implements IStateful<IDAOState> {
         tokenTotalSupply: item.nativeToken.totalSupply
       }
     }
-    return this.context.getObservableObject(query, itemMap, apolloQueryOptions)
+    return this.context.getObservableState(
+      apolloQueryOptions,
+      () => this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<IDAOState>,
+      async (blockNumber?: number) => itemMap(await this.context.chainData.dao(this.id, blockNumber))
+    )
   }
 
   /*
@@ -247,6 +256,23 @@ export class DAO implements IStateful<IDAOState> {
       throw Error('Could not find a unique scheme satisfying these options')
     }
   }
+  /**
+   * the global constraints that govern the actions of the DAO, with their decoded parameters
+   * (for a TokenCapGC, the token and its cap)
+   * @return an Observable of IGlobalConstraint[]
+   */
+  public globalConstraints(apolloQueryOptions: IApolloQueryOptions = {}): Observable<IGlobalConstraint[]> {
+    const query = gql`query DAOGlobalConstraints {
+        controllerGlobalConstraints(where: { dao: "${this.id}" }) {
+          ...GlobalConstraintFields
+        }
+      }
+      ${GLOBAL_CONSTRAINT_FRAGMENT}
+    `
+    return this.context.getObservableList(query, mapGlobalConstraint, apolloQueryOptions) as
+      Observable<IGlobalConstraint[]>
+  }
+
   public members(
     options: IMemberQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
@@ -0,0 +1,193 @@
+import BN = require('bn.js')
+import { Address } from './types'
+
+/**
+ * The base class of the errors thrown by arc.js
+ */
+export class ArcError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArcError'
+    // we compile to es5, which breaks `instanceof` for subclasses of Error, so we set the prototype
+    // of the class that is being constructed (which may be a subclass)
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+/**
+ * Thrown when the web3 provider, the subgraph or the contracts are on another chain than the one the Arc
+ * instance expects. `chainId` is null when that other chain is not known
+ */
+export class ChainMismatchError extends ArcError {
+  constructor(public expectedChainId: number, public chainId: number | null, provider: string = 'web3 provider') {
+    super(chainId === null
+      ? `The ${provider} is not on chain ${expectedChainId}, which was expected`
+      : `The ${provider} is connected to chain ${chainId}, but chain ${expectedChainId} was expected`)
+    this.name = 'ChainMismatchError'
+  }
+}
+
+/**
+ * Thrown when there is no contract with the given address (or name and version) in the `contractInfos`
+ */
+export class UnknownContractError extends ArcError {
+  public address?: Address
+  public contractName?: string
+  public version?: string
+
+  constructor(contract: { address?: Address, name?: string, version?: string }, message?: string) {
+    super(message || (contract.address
+      ? `No contract with address ${contract.address} is known`
+      : `No contract with name ${contract.name} and version ${contract.version} is known`))
+    this.name = 'UnknownContractError'
+    this.address = contract.address
+    this.contractName = contract.name
+    this.version = contract.version
+  }
+}
+
+/**
+ * Thrown when a query to the subgraph fails
+ */
+export class GraphQueryError extends ArcError {
+  /** the errors returned by the graph node, if any */
+  public graphQLErrors: any[]
+  /** the network error, if the graph node could not be reached */
+  public networkError?: Error
+
+  constructor(public query: string, public cause?: Error | any, message?: string) {
+    super(message || (cause
+      ? `${cause.name}: ${cause.message}\n${query}`
+      : `The query to the subgraph failed\n${query}`))
+    this.name = 'GraphQueryError'
+    this.graphQLErrors = (cause && cause.graphQLErrors) || []
+    this.networkError = (cause && cause.networkError) || undefined
+  }
+}
+
+/**
+ * Thrown when the voting machine (or the competition contract) does not know the proposal
+ */
+export class UnknownProposalError extends ArcError {
+  constructor(public proposalId: string, message: string = `Unknown proposal with id ${proposalId}`) {
+    super(message)
+    this.name = 'UnknownProposalError'
+  }
+}
+
+/**
+ * Thrown when voting on or executing a proposal that was already executed
+ */
+export class ProposalAlreadyExecutedError extends ArcError {
+  constructor(public proposalId: string, message: string = `Proposal ${proposalId} was already executed`) {
+    super(message)
+    this.name = 'ProposalAlreadyExecutedError'
+  }
+}
+
+/**
+ * Thrown when staking on a boosted proposal
+ */
+export class ProposalBoostedError extends ArcError {
+  constructor(public proposalId: string, message: string = `Proposal ${proposalId} is boosted`) {
+    super(message)
+    this.name = 'ProposalBoostedError'
+  }
+}
+
+/**
+ * Thrown when an account has less tokens than it wants to spend
+ */
+export class InsufficientBalanceError extends ArcError {
+  constructor(
+    public account: Address,
+    public amount: BN,
+    public balance: BN,
+    message: string = `${account} has insufficient balance: ${amount} is needed, the balance is ${balance}`
+  ) {
+    super(message)
+    this.name = 'InsufficientBalanceError'
+  }
+}
+
+/**
+ * Thrown when an account has not approved the spender to spend the amount of tokens it wants to spend
+ */
+export class InsufficientAllowanceError extends ArcError {
+  constructor(
+    public account: Address,
+    public spender: Address,
+    public amount: BN,
+    public allowance: BN,
+    message: string = `${account} has insufficient allowance: ${amount} is needed, ` +
+      `the allowance for ${spender} is ${allowance}`
+  ) {
+    super(message)
+    this.name = 'InsufficientAllowanceError'
+  }
+}
+
+/**
+ * Thrown when an account without reputation in the DAO tries to vote
+ */
+export class NoReputationError extends ArcError {
+  constructor(
+    public account: Address,
+    public dao: Address,
+    message: string = `The account ${account} does not have any reputation in the DAO at ${dao}`
+  ) {
+    super(message)
+    this.name = 'NoReputationError'
+  }
+}
+
+/**
+ * Thrown when a competition does not have a suggestion with the given id
+ */
+export class UnknownSuggestionError extends ArcError {
+  constructor(
+    public suggestionId: number | string,
+    message: string = `A suggestion with suggestionId ${suggestionId} does not exist`
+  ) {
+    super(message)
+    this.name = 'UnknownSuggestionError'
+  }
+}
+
+/**
+ * Thrown when a competition is created with a start time that is not later than the current block time
+ */
+export class InvalidStartTimeError extends ArcError {
+  constructor(public startTime: Date, public blockTime: Date, message: string) {
+    super(message)
+    this.name = 'InvalidStartTimeError'
+  }
+}
+
+/**
+ * Thrown by operations that wait for indexing (cf. `operation.withIndexing()`) when the subgraph has not indexed
+ * the block of their transaction in time. The transaction itself was mined
+ */
+export class IndexingTimeoutError extends ArcError {
+  constructor(
+    public transactionHash: string,
+    public blockNumber: number,
+    public timeout: number,
+    message: string = `The subgraph did not index block ${blockNumber} within ${timeout / 1000} seconds - ` +
+      `it may be down, or not report its latest block (\`_meta\`)`
+  ) {
+    super(message)
+    this.name = 'IndexingTimeoutError'
+  }
+}
+
+/**
+ * Thrown when the transaction of an operation cannot be sped up or cancelled (cf. `operation.speedUp()`):
+ * it was not sent yet, it was already mined, or it was signed elsewhere
+ */
+export class TransactionNotReplaceableError extends ArcError {
+  constructor(public transactionHash: string | undefined, message: string) {
+    super(message)
+    this.name = 'TransactionNotReplaceableError'
+  }
+}
@@ -3,7 +3,7 @@ import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { Address, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IEventStaticState {
   id: string
@@ -19,14 +19,25 @@ export interface IEventState extends IEventStaticState {
   id: string
 }
 
+export interface IEventWhere {
+  id?: string,
+  id_in?: string[],
+  dao?: Address,
+  dao_in?: Address[],
+  proposal?: string,
+  proposal_not?: string | null,
+  proposal_in?: string[],
+  timestamp_gt?: Date,
+  timestamp_lt?: Date,
+  type?: string,
+  type_in?: string[],
+  user?: Address,
+  user_not?: Address | null,
+  user_in?: Address[]
+}
+
 export interface IEventQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string,
-    dao?: Address,
-    proposal?: string,
-    user?: Address
-    [key: string]: any
-  }
+  where?: IEventWhere
 }
 
 export class Event implements IStateful<IEventState> {
@@ -47,6 +58,18 @@ export class Event implements IStateful<IEventState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      dao: 'address',
+      id: 'id',
+      proposal: 'id',
+      timestamp: 'bigint',
+      type: 'string',
+      user: 'address'
+    },
+    name: 'Event'
+  }
+
   /**
    * Event.search(context, options) searches for reward entities
    * @param  context an Arc instance that provides connection information
@@ -69,10 +92,10 @@ export class Event implements IStateful<IEventState> {
       user: item.user
     }, context)
 
-    let query
-    query = gql`query EventSearch
+    const { args, declarations, variables } = createQueryArguments(Event.schema, options)
+    const query = gql`query EventSearch ${declarations}
       {
-        events ${createGraphQlQuery(options)} {
+        events ${args} {
           ...EventFields
         }
       }
@@ -82,7 +105,7 @@ export class Event implements IStateful<IEventState> {
     return context.getObservableList(
       query,
       itemMap,
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     ) as Observable<Event[]>
   }
 
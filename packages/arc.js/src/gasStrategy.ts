@@ -0,0 +1,184 @@
+import BN = require('bn.js')
+import { Arc } from './arc'
+import { Address } from './types'
+
+/**
+ * The gas limit and fee fields that will be used to send a transaction.
+ * Either `gasPrice` (legacy transactions) or `maxFeePerGas` and `maxPriorityFeePerGas` (EIP-1559) are set
+ */
+export interface IGasSettings {
+  gas: number
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+}
+
+/**
+ * A gas strategy decides on the gas limit and the fees of each transaction sent by an Arc instance
+ */
+export interface IGasStrategy {
+  getGasSettings(context: Arc, options: {
+    from: Address
+    /** the result of `transaction.estimateGas()` - may be 0 if the node did not return an estimate */
+    gasEstimate: number
+    transaction: any
+  }): Promise<IGasSettings>
+}
+
+export interface IGasLimitOptions {
+  /** the gas estimate is multiplied by this number. Default is 2 */
+  gasMultiplier?: number
+  /** the gas limit will never be higher than this. Set to `null` to not cap the gas limit. Default is 1000000 */
+  maxGas?: number | null
+  /** the gas limit to use when the node does not return an estimate. Default is 1000000 */
+  defaultGas?: number
+}
+
+const DEFAULT_GAS = 1000000
+
+/**
+ * compute the gas limit from the estimate of the node
+ * @param  gasEstimate the estimate as returned by `estimateGas`
+ * @param  options     cf. IGasLimitOptions
+ * @return the gas limit
+ */
+export function computeGasLimit(gasEstimate: number, options: IGasLimitOptions = {}): number {
+  const gasMultiplier = options.gasMultiplier === undefined ? 2 : options.gasMultiplier
+  const maxGas = options.maxGas === undefined ? DEFAULT_GAS : options.maxGas
+  const defaultGas = options.defaultGas === undefined ? DEFAULT_GAS : options.defaultGas
+  let gas: number
+  if (gasEstimate) {
+    gas = Math.ceil(gasEstimate * gasMultiplier)
+  } else {
+    gas = defaultGas
+  }
+  if (maxGas !== null) {
+    gas = Math.min(maxGas, gas)
+  }
+  return gas
+}
+
+/**
+ * The default strategy: double the gas estimate (capped at 1000000 gas),
+ * and leave the gas price to the web3 provider
+ */
+export class DefaultGasStrategy implements IGasStrategy {
+  constructor(public options: IGasLimitOptions = {}) {
+  }
+
+  public async getGasSettings(context: Arc, options: { gasEstimate: number }): Promise<IGasSettings> {
+    return {
+      gas: computeGasLimit(options.gasEstimate, this.options)
+    }
+  }
+}
+
+/**
+ * Send all transactions with the same gas price
+ */
+export class FixedGasPriceStrategy implements IGasStrategy {
+  constructor(public gasPrice: BN | string | number, public options: IGasLimitOptions = {}) {
+  }
+
+  public async getGasSettings(context: Arc, options: { gasEstimate: number }): Promise<IGasSettings> {
+    return {
+      gas: computeGasLimit(options.gasEstimate, this.options),
+      gasPrice: this.gasPrice.toString()
+    }
+  }
+}
+
+/**
+ * Use a percentile of the gas prices paid in the most recent blocks.
+ * If the recent blocks contain no transactions, the gas price of the node is used.
+ */
+export class PercentileGasPriceStrategy implements IGasStrategy {
+  public percentile: number
+  public blocks: number
+
+  constructor(public options: IGasLimitOptions & {
+    /** a number between 0 and 100. Default is 60 */
+    percentile?: number
+    /** the number of recent blocks to sample. Default is 10 */
+    blocks?: number
+  } = {}) {
+    this.percentile = options.percentile === undefined ? 60 : options.percentile
+    this.blocks = options.blocks === undefined ? 10 : options.blocks
+    if (this.percentile < 0 || this.percentile > 100) {
+      throw Error(`The percentile must be a number between 0 and 100, got ${this.percentile}`)
+    }
+  }
+
+  public async getGasSettings(context: Arc, options: { gasEstimate: number }): Promise<IGasSettings> {
+    const web3 = context.web3Read
+    const latestBlockNumber = await web3.eth.getBlockNumber()
+    const blockNumbers: number[] = []
+    for (let i = 0; i < this.blocks && latestBlockNumber - i >= 0; i++) {
+      blockNumbers.push(latestBlockNumber - i)
+    }
+    const blocks = await Promise.all(blockNumbers.map((n) => web3.eth.getBlock(n, true)))
+    const prices: BN[] = []
+    for (const block of blocks) {
+      if (block && block.transactions) {
+        for (const tx of block.transactions) {
+          prices.push(new BN(tx.gasPrice))
+        }
+      }
+    }
+    let gasPrice: string
+    if (prices.length === 0) {
+      gasPrice = await web3.eth.getGasPrice()
+    } else {
+      prices.sort((a, b) => a.cmp(b))
+      const index = Math.min(prices.length - 1, Math.floor(prices.length * this.percentile / 100))
+      gasPrice = prices[index].toString()
+    }
+    return {
+      gas: computeGasLimit(options.gasEstimate, this.options),
+      gasPrice
+    }
+  }
+}
+
+/**
+ * Send EIP-1559 transactions with `maxFeePerGas = baseFeeMultiplier * baseFee + maxPriorityFeePerGas`.
+ * On chains that do not report a base fee, the gas price of the node is used instead.
+ * Note that EIP-1559 transactions must be signed by the `signer` of the Arc instance, e.g. a `PrivateKeySigner`.
+ */
+export class EIP1559GasStrategy implements IGasStrategy {
+  public maxPriorityFeePerGas: BN
+  public baseFeeMultiplier: number
+
+  constructor(public options: IGasLimitOptions & {
+    /** the tip for the miner, in wei. Default is 2 gwei */
+    maxPriorityFeePerGas?: BN | string | number
+    /** Default is 2, which allows the base fee to double before the transaction gets stuck */
+    baseFeeMultiplier?: number
+  } = {}) {
+    this.maxPriorityFeePerGas = new BN(
+      options.maxPriorityFeePerGas === undefined ? '2000000000' : options.maxPriorityFeePerGas.toString()
+    )
+    this.baseFeeMultiplier = options.baseFeeMultiplier === undefined ? 2 : options.baseFeeMultiplier
+  }
+
+  public async getGasSettings(context: Arc, options: { gasEstimate: number }): Promise<IGasSettings> {
+    const web3 = context.web3Read
+    const gas = computeGasLimit(options.gasEstimate, this.options)
+    const block = await web3.eth.getBlock('latest')
+    if (!block || block.baseFeePerGas === undefined || block.baseFeePerGas === null) {
+      return {
+        gas,
+        gasPrice: await web3.eth.getGasPrice()
+      }
+    }
+    const baseFee = new BN(block.baseFeePerGas.toString())
+    const maxFeePerGas = baseFee
+      .muln(Math.round(this.baseFeeMultiplier * 100)).divn(100)
+      .add(this.maxPriorityFeePerGas)
+    return {
+      gas,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas.toString()
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { realMathToNumber } from './utils'
 
 export interface IGenesisProtocolParams {
@@ -16,6 +17,26 @@ export interface IGenesisProtocolParams {
   votersReputationLossRatio: number // in 1000's
 }
 
+/**
+ * the fields of the parameters of a GenesisProtocol, as they are mapped by [[mapGenesisProtocolParams]]
+ */
+export const GENESIS_PROTOCOL_PARAMS_FRAGMENT = gql`fragment GenesisProtocolParamsFields on GenesisProtocolParam {
+  id
+  queuedVoteRequiredPercentage
+  queuedVotePeriodLimit
+  boostedVotePeriodLimit
+  preBoostedVotePeriodLimit
+  thresholdConst
+  limitExponentValue
+  quietEndingPeriod
+  proposingRepReward
+  votersReputationLossRatio
+  minimumDaoBounty
+  daoBountyConst
+  activationTime
+  voteOnBehalf
+}`
+
 export function mapGenesisProtocolParams(params: IGenesisProtocolParams) {
   return {
     activationTime: Number(params.activationTime),
@@ -0,0 +1,60 @@
+import BN = require('bn.js')
+import gql from 'graphql-tag'
+import { Address } from './types'
+
+export interface ITokenCapGCParams {
+  token: Address
+  cap: BN
+}
+
+/**
+ * a global constraint of a DAO: a contract that the controller asks before (`pre`) and/or after (`post`)
+ * each of its actions, and that reverts the action if it breaks the constraint
+ */
+export interface IGlobalConstraint {
+  id: string
+  address: Address
+  /** the name of the contract, if it is a known Arc contract */
+  name: string | null
+  paramsHash: string
+  /** 'Pre', 'Post' or 'Both' */
+  type: string
+  /** the decoded parameters, if the constraint is a TokenCapGC */
+  tokenCapGCParams: ITokenCapGCParams | null
+}
+
+/**
+ * the fields of a global constraint, as they are mapped by [[mapGlobalConstraint]]
+ */
+export const GLOBAL_CONSTRAINT_FRAGMENT = gql`fragment GlobalConstraintFields on ControllerGlobalConstraint {
+  id
+  address
+  name
+  paramsHash
+  type
+  tokenCapGCParams {
+    token
+    cap
+  }
+}`
+
+export function mapTokenCapGCParams(params: any): ITokenCapGCParams | null {
+  if (!params) {
+    return null
+  }
+  return {
+    cap: new BN(params.cap),
+    token: params.token
+  }
+}
+
+export function mapGlobalConstraint(item: any): IGlobalConstraint {
+  return {
+    address: item.address,
+    id: item.id,
+    name: item.name,
+    paramsHash: item.paramsHash,
+    tokenCapGCParams: mapTokenCapGCParams(item.tokenCapGCParams),
+    type: item.type
+  }
+}
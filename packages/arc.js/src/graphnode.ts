@@ -11,15 +11,36 @@ import fetch from 'isomorphic-fetch'
 import * as WebSocket from 'isomorphic-ws'
 import { Observable, Observer } from 'rxjs'
 import { catchError, filter, first, map } from 'rxjs/operators'
+import { SubscriptionClient } from 'subscriptions-transport-ws'
+import { GraphQueryError } from './errors'
 import { Logger } from './logger'
 import { zenToRxjsObservable } from './utils'
 
 export interface IApolloQueryOptions {
   fetchPolicy?: 'cache-first' | 'network-only' | 'cache-only' | 'no-cache' | 'standby',
   subscribe?: true | false,
+  /**
+   * query all fields of the entities, so that their state can be read from the cache.
+   * (To fetch all results of a search, and not just the first page, use [[searchPages]] or [[searchAll]])
+   */
   fetchAllData?: true | false,
   polling?: true | false,
-  pollInterval?: number
+  pollInterval?: number,
+  /** the values of the variables of the query (cf. [[createQueryArguments]]) */
+  variables?: { [name: string]: any }
+  /**
+   * query the entities as they were at this block, instead of their latest state. Such queries do not subscribe
+   * to updates, do not poll and bypass the cache. (To find the block of a given time, use [[Arc.getBlockNumberAtTime]])
+   */
+  block?: IBlockHeight
+}
+
+/**
+ * A block of the chain, by number or by hash
+ */
+export interface IBlockHeight {
+  number?: number
+  hash?: string
 }
 
 export interface IObservable<T> extends Observable<T> {
@@ -27,13 +48,37 @@ export interface IObservable<T> extends Observable<T> {
 }
 
 const DEFAULT_GRAPH_POLL_INTERVAL: number = 15000
+// close the websocket when there have been no subscriptions for this long
+const WS_INACTIVITY_TIMEOUT: number = 10000
+
+/**
+ * Create the client for the subscriptions of the subgraph. It connects when the first subscription starts and
+ * disconnects when there are none left; when the connection is lost, it reconnects with an increasing delay
+ * (of up to 10 seconds) and restarts the subscriptions.
+ * @param  uri                  the websocket url of the subgraph
+ * @param  reconnectionAttempts the number of times to reconnect before giving up. Default is to keep trying
+ */
+export function createSubscriptionClient(uri: string, reconnectionAttempts: number = Infinity) {
+  // 'lazy: true' avoids unnecessary web socket calls from the graph (https://github.com/daostack/arc.js/pull/573)
+  return new SubscriptionClient(uri, {
+    inactivityTimeout: WS_INACTIVITY_TIMEOUT,
+    lazy: true,
+    reconnect: true,
+    reconnectionAttempts
+  }, WebSocket)
+}
 
 export function createApolloClient(options: {
   graphqlHttpProvider: string,
-  graphqlWsProvider: string,
+  /** if neither this nor a subscriptionClient is given, subscriptions cannot be sent */
+  graphqlWsProvider?: string,
+  /** the client for subscriptions, cf. [[createSubscriptionClient]] */
+  subscriptionClient?: SubscriptionClient,
   prefetchHook?: (query: any) => any, // a callback function that will be called for each query sent to the link
   errHandler?: (event: any) => any,
   retryLink?: any // apollo retry link instance
+  /** connect to the Apollo devtools. Default is to connect in browsers, unless NODE_ENV is `production` */
+  connectToDevTools?: boolean
 }) {
   const httpLink = new HttpLink({
     credentials: 'same-origin',
@@ -41,29 +86,26 @@ export function createApolloClient(options: {
     uri: options.graphqlHttpProvider
   })
 
-  // 'lazy: true' and 'reconnect: false' are temporary fixes to avoid unnecessary web socket calls from the graph.
-  // See https://github.com/daostack/arc.js/pull/573
-  const wsLink = new WebSocketLink({
-    options: {
-      lazy: true,
-      reconnect: false
-    },
-    uri: options.graphqlWsProvider,
-    webSocketImpl: WebSocket
+  const prefetchLink = new ApolloLink((operation, forward) => {
+    if (options.prefetchHook) {
+      options.prefetchHook(operation.query)
+    }
+    return forward(operation)
   })
 
-  const wsOrHttpLink = split(
-    // split based on operation type
-    ({ query }) => {
-      if (options.prefetchHook) {
-        options.prefetchHook(query)
-      }
-      const definition = getMainDefinition(query)
-      return definition.kind === 'OperationDefinition' && definition.operation === 'subscription'
-    },
-    wsLink,
-    httpLink
-  )
+  const subscriptionClient = options.subscriptionClient ||
+    (options.graphqlWsProvider ? createSubscriptionClient(options.graphqlWsProvider) : undefined)
+  const wsOrHttpLink = subscriptionClient
+    ? split(
+      // split based on operation type
+      ({ query }) => {
+        const definition = getMainDefinition(query)
+        return definition.kind === 'OperationDefinition' && definition.operation === 'subscription'
+      },
+      new WebSocketLink(subscriptionClient),
+      httpLink
+    )
+    : httpLink
   // we can also add error handling
   if (!options.retryLink) {
     options.retryLink = new RetryLink({
@@ -97,6 +139,7 @@ export function createApolloClient(options: {
   const errorHandlingLink = onError(options.errHandler)
 
   const link = ApolloLink.from([
+    prefetchLink,
     errorHandlingLink,
     options.retryLink,
     wsOrHttpLink
@@ -148,7 +191,7 @@ export function createApolloClient(options: {
   })
   const client = new ApolloClient({
     cache,
-    connectToDevTools: true, // TODO: this probably not in production!
+    connectToDevTools: options.connectToDevTools,
     link
   })
   return client
@@ -163,12 +206,19 @@ export class GraphNodeObserver {
   public graphqlWsProvider?: string
   public Logger = Logger
   public apolloClient?: ApolloClient<object>
+  /** the client of the websocket for subscriptions; without it, queries that subscribe poll instead */
+  public subscriptionClient?: SubscriptionClient
   public graphqlSubscribeToQueries?: boolean
+  /** how often queries poll when they cannot subscribe, in milliseconds */
+  public graphqlPollInterval: number
 
   constructor(options: {
     graphqlHttpProvider?: string
     graphqlWsProvider?: string
     graphqlSubscribeToQueries?: boolean
+    graphqlPollInterval?: number
+    graphqlReconnectionAttempts?: number
+    connectToDevTools?: boolean
     prefetchHook?: any
     errHandler?: any
     retryLink?: any
@@ -176,17 +226,33 @@ export class GraphNodeObserver {
     this.graphqlSubscribeToQueries = (
       options.graphqlSubscribeToQueries === undefined || options.graphqlSubscribeToQueries
     )
-    if (options.graphqlHttpProvider && options.graphqlWsProvider) {
+    this.graphqlPollInterval = options.graphqlPollInterval || DEFAULT_GRAPH_POLL_INTERVAL
+    if (options.graphqlHttpProvider) {
       this.graphqlHttpProvider = options.graphqlHttpProvider as string
-      this.graphqlWsProvider = options.graphqlWsProvider as string
+      if (options.graphqlWsProvider) {
+        this.graphqlWsProvider = options.graphqlWsProvider as string
+        this.subscriptionClient = createSubscriptionClient(this.graphqlWsProvider, options.graphqlReconnectionAttempts)
+      }
       this.apolloClient = createApolloClient({
         ...options,
         graphqlHttpProvider: this.graphqlHttpProvider as string,
-        graphqlWsProvider: this.graphqlWsProvider as string
+        subscriptionClient: this.subscriptionClient
       })
     }
   }
 
+  /**
+   * Stop the polling queries and close the websocket of the subscriptions
+   */
+  public closeGraphConnections() {
+    if (this.apolloClient) {
+      this.apolloClient.stop()
+    }
+    if (this.subscriptionClient) {
+      this.subscriptionClient.close()
+    }
+  }
+
   /**
    * Given a gql query, will return an observable of query results
    * @param  query              a gql query object to execute
@@ -216,6 +282,22 @@ export class GraphNodeObserver {
     const graphqlSubscribeToQueries = this.graphqlSubscribeToQueries
     const observable = Observable.create((observer: Observer<ApolloQueryResult<any>>) => {
       Logger.debug(query.loc.source.body)
+      if (apolloQueryOptions.block) {
+        // the state at a past block does not change, and must not replace the latest state in the cache
+        const blockSubscription = zenToRxjsObservable(apolloClient.watchQuery({
+            fetchPolicy: 'no-cache',
+            query: queryAtBlock(query),
+            variables: { ...apolloQueryOptions.variables, block: apolloQueryOptions.block }
+          }))
+          .pipe(
+            filter((r: ApolloQueryResult<any>) => !r.loading),
+            catchError((err: Error) => {
+              throw new GraphQueryError(query.loc.source.body, err)
+            })
+          )
+          .subscribe(observer)
+        return () => blockSubscription.unsubscribe()
+      }
       if (!apolloQueryOptions.fetchPolicy) {
         apolloQueryOptions.fetchPolicy = 'cache-first'
       }
@@ -233,6 +315,11 @@ export class GraphNodeObserver {
       } else if (graphqlSubscribeToQueries !== undefined) {
         subscribe = graphqlSubscribeToQueries
       }
+      if (subscribe && !this.subscriptionClient) {
+        // without a websocket, we poll for updates instead
+        subscribe = false
+        apolloQueryOptions.pollInterval = apolloQueryOptions.pollInterval || this.graphqlPollInterval
+      }
       if (subscribe) {
         // subscriptionQuery subscribes to get notified of updates to the query
         let subscriptionQuery
@@ -252,13 +339,15 @@ export class GraphNodeObserver {
           = apolloClient.subscribe<object[]>({
           fetchPolicy: 'cache-first',
           // fetchPolicy: 'network-only',
-          query: subscriptionQuery
+          query: subscriptionQuery,
+          variables: apolloQueryOptions.variables
          })
          // subscribe to the results
         subscriptionSubscription = subscriptionObservable.subscribe((next: any) => {
             apolloClient.writeQuery({
               data: next.data,
-              query
+              query,
+              variables: apolloQueryOptions.variables
             })
         })
       }
@@ -268,14 +357,15 @@ export class GraphNodeObserver {
           fetchPolicy: apolloQueryOptions.fetchPolicy,
           fetchResults: true,
           pollInterval: apolloQueryOptions.pollInterval,
-          query
+          query,
+          variables: apolloQueryOptions.variables
         }))
         .pipe(
           filter((r: ApolloQueryResult<any>) => {
             return !r.loading
           }), // filter empty results
           catchError((err: Error) => {
-            throw Error(`11. ${err.name}: ${err.message}\n${query.loc.source.body}`)
+            throw new GraphQueryError(query.loc.source.body, err)
           })
         )
         .subscribe(observer)
@@ -320,7 +410,11 @@ export class GraphNodeObserver {
     const observable =  this.getObservable(query, apolloQueryOptions).pipe(
       map((r: ApolloQueryResult<any>) => {
         if (!r.data[entity]) {
-          throw Error(`Could not find entity '${entity}' in ${Object.keys(r.data)}`)
+          throw new GraphQueryError(
+            query.loc.source.body,
+            undefined,
+            `Could not find entity '${entity}' in ${Object.keys(r.data)}`
+          )
         }
         return r.data[entity]
       }),
@@ -393,7 +487,46 @@ export class GraphNodeObserver {
       throw Error(`No connection to the graph - did you set graphqlHttpProvider and graphqlWsProvider?`)
     }
     const apolloClient = this.apolloClient as ApolloClient<object>
+    if (apolloQueryOptions.block) {
+      return apolloClient.query({
+        ...apolloQueryOptions,
+        fetchPolicy: 'no-cache',
+        query: queryAtBlock(query),
+        variables: { ...apolloQueryOptions.variables, block: apolloQueryOptions.block }
+      })
+    }
     return apolloClient.query({...apolloQueryOptions, ...{query}})
   }
 
 }
+
+/**
+ * add a `block: $block` argument to the top level fields of the query (the entities and lists of entities),
+ * so that the subgraph returns them as they were at that block
+ */
+function queryAtBlock(query: any) {
+  const name = (value: string) => ({ kind: 'Name', value })
+  const blockArgument = { kind: 'Argument', name: name('block'), value: { kind: 'Variable', name: name('block') } }
+  const blockVariable = {
+    kind: 'VariableDefinition',
+    type: { kind: 'NamedType', name: name('Block_height') },
+    variable: { kind: 'Variable', name: name('block') }
+  }
+  return {
+    ...query,
+    definitions: query.definitions.map((definition: any) => definition.kind !== 'OperationDefinition'
+      ? definition
+      : {
+        ...definition,
+        selectionSet: {
+          ...definition.selectionSet,
+          selections: definition.selectionSet.selections.map((selection: any) => selection.kind !== 'Field'
+            ? selection
+            : { ...selection, arguments: [...(selection.arguments || []), blockArgument] }
+          )
+        },
+        variableDefinitions: [...(definition.variableDefinitions || []), blockVariable]
+      }
+    )
+  }
+}
@@ -1,18 +1,38 @@
-export { Arc, IContractInfo } from './arc'
-export { DAO, DAOFieldsFragment, IDAOState, IDAOStaticState, IDAOQueryOptions } from './dao'
-export { IGenesisProtocolParams } from './genesisProtocol'
-export { createApolloClient } from './graphnode'
-export { Event, IEventState, IEventStaticState, IEventQueryOptions } from './event'
-export { Member, IMemberState, IMemberStaticState, IMemberQueryOptions } from './member'
-export { ITransactionUpdate, ITransactionState } from './operation'
+export { ABILoader, ABIRegistry, ABI_RESOLUTIONS, bundledABILoader, IABIArtefact, IABIManifest,
+         IABIRegistryOptions, IABIResolution } from './abiRegistry'
+export { Arc, IContractInfo, IIndexingStatus } from './arc'
+export { IBatchFailurePolicy, IBatchOptions, IBatchUpdate } from './batch'
+export { CachePersistor, FileCacheStorage, ICachePersistorOptions, ICacheStorage,
+         IndexedDBCacheStorage } from './cachePersistor'
+export { CallCache, ICachingProvider, ICallCacheMetrics, ICallCacheOptions } from './callCache'
+export { ChainDataProvider, DataSource, IChainDataProviderOptions } from './chainDataProvider'
+export { DAO, DAOFieldsFragment, IDAOState, IDAOStaticState, IDAOQueryOptions, IDAOWhere } from './dao'
+export { ArcError, ChainMismatchError, GraphQueryError, IndexingTimeoutError, InsufficientAllowanceError,
+         InsufficientBalanceError, InvalidStartTimeError, NoReputationError, ProposalAlreadyExecutedError,
+         ProposalBoostedError, TransactionNotReplaceableError, UnknownContractError, UnknownProposalError,
+         UnknownSuggestionError } from './errors'
+export { DefaultGasStrategy, EIP1559GasStrategy, FixedGasPriceStrategy, IGasLimitOptions, IGasSettings, IGasStrategy,
+         PercentileGasPriceStrategy } from './gasStrategy'
+export { GENESIS_PROTOCOL_PARAMS_FRAGMENT, IGenesisProtocolParams, mapGenesisProtocolParams } from './genesisProtocol'
+export { GLOBAL_CONSTRAINT_FRAGMENT, IGlobalConstraint, ITokenCapGCParams, mapGlobalConstraint } from './globalConstraint'
+export { createApolloClient, IBlockHeight } from './graphnode'
+export { Event, IEventState, IEventStaticState, IEventQueryOptions, IEventWhere } from './event'
+export { IPaginationOptions, SearchFunction, searchAll, searchPages } from './pagination'
+export { Member, IMemberState, IMemberStaticState, IMemberQueryOptions, IMemberWhere } from './member'
+export { IOptimisticUpdate, IOptimisticUpdatesOptions, OptimisticUpdates } from './optimisticUpdates'
+export { IOperationObservable, ITransactionUpdate, ITransactionState, IUnsignedTransaction, Operation } from './operation'
 export { IExecutionState, Proposal, IProposalCreateOptions, IProposalState, IProposalStaticState,
-         IProposalQueryOptions, IProposalOutcome, IProposalStage, IProposalType } from './proposal'
-export { Queue, IQueueState, IQueueStaticState, IQueueQueryOptions } from './queue'
-export { Reputation, IReputationState, IReputationQueryOptions } from './reputation'
-export { Reward, IRewardState, IRewardStaticState, IRewardQueryOptions } from './reward'
-export { Scheme, ISchemeState, ISchemeStaticState, ISchemeQueryOptions } from './scheme'
+         IProposalQueryOptions, IProposalOutcome, IProposalStage, IProposalType, IProposalWhere } from './proposal'
+export { Queue, IQueueState, IQueueStaticState, IQueueQueryOptions, IQueueWhere } from './queue'
+export { Reputation, IReputationState, IReputationQueryOptions, IReputationWhere } from './reputation'
+export { Reward, IRewardState, IRewardStaticState, IRewardQueryOptions, IRewardWhere } from './reward'
+export { Scheme, ISchemeState, ISchemeStaticState, ISchemeQueryOptions, ISchemeWhere } from './scheme'
 export { ReputationFromTokenScheme } from './schemes/reputationFromToken'
+export { fragmentField, ISchemeType, SchemeTypes, schemeTypes } from './schemeTypes'
+export { ICallSimulation, IProposalCall, IProposalSimulation, revertReason, simulateCalls } from './simulation'
+export { Auction4ReputationScheme } from './schemes/auction4rep'
 export { CL4RScheme } from './schemes/cl4rep'
+export { ILocking4ReputationLock, LOCKING4REPUTATION_SCHEMES, Locking4ReputationScheme } from './schemes/locking4rep'
 export { IContributionReward} from './schemes/contributionReward'
 export { hasCompetitionContract, isCompetitionScheme,
     IProposalCreateOptionsCompetition,
@@ -27,11 +47,23 @@ export { IGenericScheme } from './schemes/genericScheme'
 export { IUGenericScheme } from './schemes/uGenericScheme'
 export { IGenericSchemeMultiCall } from './schemes/genericSchemeMultiCall'
 export { ISchemeRegistrar } from './schemes/schemeRegistrar'
-export { Token, ITokenState, ITokenQueryOptions } from './token'
-export { Stake, IStakeState, IStakeStaticState, IStakeQueryOptions } from './stake'
-export { Tag } from './tag'
+export { IProposalCreateOptionsSignal, IProposalType as ISignalSchemeProposalType, ISignal, ISignalScheme,
+         ISignalSchemeParams } from './schemes/signalScheme'
+export { IProposalCreateOptionsUpgradeScheme, IProposalType as IUpgradeSchemeProposalType, IUpgradeScheme,
+         IUpgradeSchemeParams } from './schemes/upgradeScheme'
+export { IProposalCreateOptionsVoteInOrganization, IProposalType as IVoteInOrganizationProposalType,
+         IVoteInOrganization, IVoteInOrganizationParams } from './schemes/voteInOrganizationScheme'
+export { IGlobalConstraintRegistrar, IGlobalConstraintRegistrarParams,
+         IProposalCreateOptionsGlobalConstraintRegistrar,
+         IProposalType as IGlobalConstraintRegistrarProposalType } from './schemes/globalConstraintRegistrar'
+export { ITransactionRequest, ITransactionSigner, PrivateKeySigner, recoverTransactionSender } from './signer'
+export { Token, ITokenState, ITokenQueryOptions, ITokenWhere } from './token'
+export { Stake, IStakeState, IStakeStaticState, IStakeQueryOptions, IStakeWhere } from './stake'
+export { Tag, ITagQueryOptions, ITagWhere } from './tag'
 export { Logger } from './logger'
-export { Vote, IVoteState, IVoteStaticState, IVoteQueryOptions } from './vote'
+export { Vote, IVoteState, IVoteStaticState, IVoteQueryOptions, IVoteWhere } from './vote'
+export { buildWhere, createQueryArguments, IEntitySchema, IQueryArguments, IQueryVariable, WhereFieldType,
+         WHERE_OPERATORS } from './where'
 export { Address } from './types'
 import { Arc } from './arc'
 export default Arc
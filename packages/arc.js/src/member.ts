@@ -4,16 +4,18 @@ import { Observable } from 'rxjs'
 import { first, map } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { DAO } from './dao'
+import { ArcError } from './errors'
 import { toIOperationObservable } from './operation'
 import { IProposalQueryOptions, Proposal } from './proposal'
 import { Reward } from './reward'
 import { IStakeQueryOptions, Stake } from './stake'
 import { Address, Date, ICommonQueryOptions, IStateful } from './types'
-import { concat, createGraphQlQuery, hexStringToUint8Array,
+import { concat, hexStringToUint8Array,
   isAddress
   // stringToUint8Array
  } from './utils'
 import { IVoteQueryOptions, Vote } from './vote'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IMemberStaticState {
   id?: string,
@@ -28,12 +30,17 @@ export interface IMemberState extends IMemberStaticState {
   createdAt: Date
 }
 
+export interface IMemberWhere {
+  id?: string
+  id_in?: string[]
+  address?: Address,
+  address_in?: Address[],
+  dao?: Address
+  dao_in?: Address[]
+}
+
 export interface IMemberQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string
-    address?: Address,
-    dao?: Address
-  }
+  where?: IMemberWhere
 }
 
 /**
@@ -57,6 +64,18 @@ export class Member implements IStateful<IMemberState> {
     `
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      address: 'address',
+      balance: 'bigint',
+      contract: 'address',
+      createdAt: 'bigint',
+      dao: 'address',
+      id: 'id'
+    },
+    name: 'ReputationHolder'
+  }
+
   /**
    * Member.search(context, options) searches for member entities
    * @param  context an Arc instance that provides connection information
@@ -72,25 +91,11 @@ export class Member implements IStateful<IMemberState> {
     if (options.where.id) {
       return new Member(options.where.id, context).state().pipe(map((r: any) => [r]))
     } else {
-      let where = ''
-      for (const key of Object.keys(options.where)) {
-        if (options.where[key] === undefined) {
-          continue
-        }
-
-        if (key === 'address' || key === 'dao') {
-          const option = options.where[key] as string
-          isAddress(option)
-          options.where[key] = option.toLowerCase()
-        }
-
-        where += `${key}: "${options.where[key] as string}"\n`
-      }
-      where += ' dao_not: null\n'
-
+      const where = { ...options.where, dao_not: null }
+      const { args, declarations, variables } = createQueryArguments(Member.schema, { ...options, where })
       const query = gql`
-        query ReputationHolderSearch {
-          reputationHolders ${createGraphQlQuery(options, where)} {
+        query ReputationHolderSearch ${declarations} {
+          reputationHolders ${args} {
             ...ReputationHolderFields
           }
         }
@@ -100,7 +105,7 @@ export class Member implements IStateful<IMemberState> {
       return context.getObservableList(
           query,
           (r: any) => new Member({ id: r.id, address: r.address, dao: r.dao.id, contract: r.contract}, context),
-          apolloQueryOptions
+          { ...apolloQueryOptions, variables }
         )
       }
   }
@@ -158,6 +163,34 @@ export class Member implements IStateful<IMemberState> {
   }
 
   public state(apolloQueryOptions: IApolloQueryOptions = {}): Observable<IMemberState> {
+    const itemMap = (items: any) => {
+      if (items.length === 0) {
+        const staticState = this.staticState as IMemberStaticState
+        return  {
+          address: staticState.address,
+          dao: staticState.dao,
+          reputation: new BN(0)
+        }
+      } else {
+        const item = items[0]
+        return {
+            address: item.address,
+            contract: item.contract,
+            createdAt: Number(item.createdAt),
+            dao: item.dao.id,
+            id: item.id,
+            reputation: new BN(item.balance)
+          }
+        }
+      }
+    const fromChain = async (blockNumber?: number) => {
+      const staticState = this.staticState
+      if (!staticState || !staticState.dao) {
+        throw new ArcError(`The member ${this.id} can only be read from the chain if its address and dao are known`)
+      }
+      const item = await this.context.chainData.reputationHolder(staticState.dao, staticState.address, blockNumber)
+      return itemMap(item ? [item] : []) as IMemberState
+    }
     let query: any
     if (this.id) {
       query = gql`query ReputionHolderStateFromId {
@@ -171,7 +204,7 @@ export class Member implements IStateful<IMemberState> {
         }
         ${Member.fragments.ReputationHolderFields}
       `
-      return this.context.getObservableObject(
+      return this.context.getObservableState(apolloQueryOptions, () => this.context.getObservableObject(
         query,
         (r: any) => {
           if (r === null || r === undefined || r.id === undefined) {
@@ -197,7 +230,7 @@ export class Member implements IStateful<IMemberState> {
           }
         },
         apolloQueryOptions
-      )
+      ) as Observable<IMemberState>, fromChain)
     } else {
       const staticState = this.staticState as IMemberStaticState
       query = gql`query ReputationHolderStateFromDAOAndAddress {
@@ -215,27 +248,11 @@ export class Member implements IStateful<IMemberState> {
         `
     }
 
-    const itemMap = (items: any) => {
-      if (items.length === 0) {
-        const staticState = this.staticState as IMemberStaticState
-        return  {
-          address: staticState.address,
-          dao: staticState.dao,
-          reputation: new BN(0)
-        }
-      } else {
-        const item = items[0]
-        return {
-            address: item.address,
-            contract: item.contract,
-            createdAt: Number(item.createdAt),
-            dao: item.dao.id,
-            id: item.id,
-            reputation: new BN(item.balance)
-          }
-        }
-      }
-    return this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<IMemberState>
+    return this.context.getObservableState(
+      apolloQueryOptions,
+      () => this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<IMemberState>,
+      fromChain
+    )
   }
 
   public async dao(): Promise < DAO > {
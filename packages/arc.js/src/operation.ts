@@ -1,13 +1,34 @@
-import { Observable, Observer } from 'rxjs'
-import { first, take } from 'rxjs/operators'
-import { Arc } from './arc'
+import { defer, Observable, Observer, Subscription, TimeoutError } from 'rxjs'
+import { first, map, takeWhile, tap, timeout } from 'rxjs/operators'
+import { Arc, IIndexingStatus } from './arc'
+import { ArcError, ChainMismatchError, IndexingTimeoutError, TransactionNotReplaceableError } from './errors'
+import { IGasSettings } from './gasStrategy'
 import { Logger } from './logger'
-import { Web3Receipt } from './types'
+import { ITransactionSigner, recoverTransactionSender } from './signer'
+import { Address, Web3Receipt } from './types'
+const Web3 = require('web3')
 
 export enum ITransactionState {
   Sending,
   Sent,
-  Mined
+  Mined,
+  /** the transaction was replaced by a transaction with the same nonce and higher fees (cf. `operation.speedUp()`) */
+  Replaced,
+  /** a transaction that cancels the pending transaction was sent (cf. `operation.cancel()`) */
+  Cancelled,
+  /** the transaction is no longer known to the node, and was not mined */
+  Dropped,
+  /**
+   * the block that contained the transaction was removed from the chain by a reorganisation.
+   * The operation keeps watching the transaction: if it is included in another block,
+   * `Mined` updates follow (starting again from 0 confirmations), otherwise it ends with `Dropped`
+   */
+  Reorged,
+  /**
+   * the subgraph has indexed the block of the mined transaction, so its data can be queried.
+   * This is the last update of operations that wait for it (cf. `operation.withIndexing()`)
+   */
+  Indexed
 }
 
 /**
@@ -26,22 +47,132 @@ export interface ITransactionUpdate<T> {
    * or contract address in the case of contract creation tx.
    */
   result?: T
+  /**
+   * hash of the transaction that was replaced (only for Replaced and Cancelled updates)
+   */
+  replacedTransactionHash?: string
 }
 
 /**
  * An operation is a stream of transaction updates
  */
 export interface IOperationObservable<T> extends Observable<T> {
+  /**
+   * send the transaction
+   * @return a promise that resolves with the first update of the mined transaction, or, if set with
+   *   `withConfirmations`, with its first update that has that number of confirmations
+   */
   send: () => Promise<Web3Receipt>
+  /**
+   * return an operation that completes, and whose `send()` resolves, when the transaction has the given number
+   * of confirmations, instead of completing at the `confirmations` default of the Arc instance
+   */
+  withConfirmations: (confirmations: number) => IOperationObservable<T>
+  /**
+   * return an operation that sends its transaction with the given nonce.
+   * The operation fails if it sends more than one transaction
+   */
+  withNonce: (nonce: number) => IOperationObservable<T>
+  /**
+   * return an operation that, once the transaction is mined (or has the number of confirmations set with
+   * `withConfirmations`), waits until the subgraph has indexed the block of the transaction and then ends with
+   * an `Indexed` update (cf. [[Arc.indexingStatus]]). `send()` then resolves with that update.
+   * The operation fails with an `IndexingTimeoutError` if the subgraph has not indexed the block after 5 minutes
+   */
+  withIndexing: () => IOperationObservable<T>
+  /**
+   * do not send the transaction, but return it unsigned, so it can be signed elsewhere
+   * (for example by a multisig or an offline wallet) and sent with `sendSigned()`
+   * @param options.from the account that will send the transaction - used to estimate the gas.
+   *   Default is the account of the Arc instance
+   */
+  build: (options?: { from?: Address }) => Promise<IUnsignedTransaction>
+  /**
+   * return an operation that sends the given signed transaction instead of signing it with the account of the Arc
+   * instance. Its receipt is mapped to the result of the operation as usual
+   * @param rawTransaction the serialized signed transaction, as a hex string: a legacy or an EIP-1559 transaction
+   */
+  sendSigned: (rawTransaction: string) => IOperationObservable<T>
+  /**
+   * resend the pending transaction with the same nonce and higher fees.
+   * If no fees are given, the fees of the pending transaction are raised by 12.5%
+   * @return a promise that resolves with the hash of the new transaction
+   */
+  speedUp: (gasSettings?: Partial<IGasSettings>) => Promise<string>
+  /**
+   * replace the pending transaction by an empty transaction with the same nonce and higher fees.
+   * The operation completes when the cancelling transaction is mined
+   * @return a promise that resolves with the hash of the cancelling transaction
+   */
+  cancel: (gasSettings?: Partial<IGasSettings>) => Promise<string>
 }
 
 export type Operation<T> = IOperationObservable<ITransactionUpdate<T>>
 
+/**
+ * A transaction as it would be sent by an operation, with the gas settings proposed by the gas strategy
+ */
+export interface IUnsignedTransaction extends IGasSettings {
+  data: string
+  from: Address
+  to: Address
+  value: string
+}
+
+/**
+ * Options that change how the transactions of an operation are sent
+ */
+export interface IOperationOptions {
+  /** complete, and resolve `send()`, when the transaction has this number of confirmations */
+  confirmations?: number
+  /** do not send the transaction, but pass it to `onBuild` */
+  build?: {
+    from?: Address
+    onBuild: (transaction: IUnsignedTransaction) => void
+  }
+  /** send this signed transaction */
+  signedTransaction?: string
+  /** send the transaction with this nonce */
+  nonce?: number
+  /** once mined (or after the confirmations, if given), wait until the subgraph has indexed the transaction */
+  indexed?: boolean
+  /** the amount of wei to send with the transaction, for payable methods */
+  value?: string
+}
+
 export type web3receipt = object
 
 export type transactionErrorHandler =  (
   error: Error, transaction?: any, options?: { from?: string}) => Promise<Error> | Error
 
+interface IPendingTransaction {
+  speedUp: (gasSettings?: Partial<IGasSettings>) => Promise<string>
+  cancel: (gasSettings?: Partial<IGasSettings>) => Promise<string>
+}
+
+interface ITransactionAttempt {
+  cancellation: boolean
+  promiEvent: any
+  transactionHash?: string
+}
+
+/**
+ * the transactions of the operations that are still running, by transaction hash
+ */
+const pendingTransactions: Map<string, IPendingTransaction> = new Map()
+
+/**
+ * The options of an operation are passed to `sendTransaction` through its `Sending` update: operations
+ * that wrap other operations pass on their updates, so each wrapper can add its options to the update
+ * before the transaction is sent
+ */
+const operationOptions: WeakMap<ITransactionUpdate<any>, IOperationOptions> = new WeakMap()
+
+/** how long an operation waits for the subgraph to index its transaction, in milliseconds */
+const INDEXING_TIMEOUT = 300000
+/** the number of consecutive checks a transaction must be missing before we consider it dropped */
+const DROPPED_TRANSACTION_CHECKS = 3
+
 /**
  *
  *  * send a transaction to the ethereumblockchain, and return a observable of ITransactionUpdatessend
@@ -75,8 +206,7 @@ export function sendTransaction<T>(
     }
 ): Operation<T> {
 
-  const observable = Observable.create(async (observer: Observer<ITransactionUpdate<T>>) => {
-    let transactionHash: string
+  const run = async (observer: Observer<ITransactionUpdate<T>>) => {
     let result: any
     let tx: any
     if (typeof transaction === 'function') {
@@ -84,125 +214,631 @@ export function sendTransaction<T>(
         tx = await transaction()
       } catch (err) {
         observer.error(err)
+        return
       }
     } else {
       tx = transaction
     }
 
-    const from = await context.getAccount().pipe(first()).toPromise()
+    const options: IOperationOptions = {}
+    const sendingUpdate = {
+      state: ITransactionState.Sending
+    }
+    operationOptions.set(sendingUpdate, options)
+    observer.next(sendingUpdate)
+    if (observer.closed) {
+      return
+    }
 
-    let gasEstimate: number = 0
-    try {
-      gasEstimate = await tx.estimateGas({ from })
-    } catch (error) {
+    // refuse to send transactions to another chain than the one of the data we show
+    if (context.chainId !== undefined && !options.build) {
+      let chainId: number
       try {
-        error = await errorHandler(error, transaction, {from})
-      } catch (err) {
-        error = err
+        chainId = await context.getChainId().pipe(first()).toPromise()
+      } catch (error) {
+        observer.error(error)
+        return
+      }
+      if (chainId !== context.chainId) {
+        observer.error(new ChainMismatchError(context.chainId, chainId))
+        return
       }
-      observer.error(error)
-      return
     }
-    let gas: number
-    if (gasEstimate) {
-      gas = gasEstimate * 2
+
+    let from: Address
+    let gasSettings: IGasSettings = { gas: 0 }
+    if (options.signedTransaction) {
+      try {
+        from = recoverTransactionSender(options.signedTransaction)
+      } catch (error) {
+        observer.error(error)
+        return
+      }
     } else {
-      gas = 1000000
+      from = (options.build && options.build.from) || await context.getAccount().pipe(first()).toPromise()
+
+      let gasEstimate: number = 0
+      try {
+        gasEstimate = await tx.estimateGas({ from, value: options.value })
+      } catch (error) {
+        try {
+          error = await errorHandler(error, transaction, {from})
+        } catch (err) {
+          error = err
+        }
+        observer.error(error)
+        return
+      }
+      try {
+        gasSettings = await context.gasStrategy.getGasSettings(context, { from, gasEstimate, transaction: tx })
+      } catch (error) {
+        observer.error(error)
+        return
+      }
+      if (options.build) {
+        options.build.onBuild({
+          ...gasSettings,
+          data: tx.encodeABI(),
+          from,
+          to: tx._parent.options.address,
+          value: options.value || '0'
+        })
+        observer.complete()
+        return
+      }
+      if (gasSettings.maxFeePerGas !== undefined && !context.signer) {
+        observer.error(Error(`EIP-1559 gas settings can only be used with a "signer" configured on the Arc instance`))
+        return
+      }
     }
-    gas = Math.min(1000000, gas)
-    // gas = new BN(1000000)
-    const options = {
-      from,
-      gas
+
+    // the transaction we are waiting for - this changes when the transaction is sped up or cancelled
+    let current: ITransactionAttempt
+    const attempts: ITransactionAttempt[] = []
+    // the transaction that was mined, and its receipt
+    let mined: ITransactionAttempt | undefined
+    let minedReceipt: any
+    // the number of confirmations of the last update we sent
+    let confirmationCount = -1
+    // operations that wait for indexing do so as soon as the transaction is mined, unless confirmations were asked for
+    const requiredConfirmations = options.confirmations !== undefined
+      ? options.confirmations
+      : options.indexed ? 0 : context.confirmations
+    let finished = false
+    let checking = false
+    // in addition to the events of web3, we ask the node about the transaction at each poll of the block number,
+    // to count confirmations, detect reorganisations and dropped transactions
+    let blocks: Subscription | undefined
+    // set while we wait for the subgraph to index the transaction
+    let indexing: Subscription | undefined
+    // ends the operation when the Arc instance is closed
+    let closing: Subscription | undefined
+    const transactionHashes: string[] = []
+
+    const finish = (error?: Error) => {
+      if (finished) {
+        return
+      }
+      finished = true
+      if (blocks) {
+        blocks.unsubscribe()
+      }
+      if (indexing) {
+        indexing.unsubscribe()
+      }
+      if (closing) {
+        closing.unsubscribe()
+      }
+      for (const hash of transactionHashes) {
+        pendingTransactions.delete(hash)
+      }
+      if (error) {
+        observer.error(error)
+      } else {
+        observer.complete()
+      }
     }
-    observer.next({
-      state: ITransactionState.Sending
-    })
+
+    const closed = () => finish(new ArcError(`The Arc instance was closed while the transaction was followed`))
+    closing = context.closing.subscribe({ complete: closed, next: closed })
+    if (finished) {
+      return
+    }
+
+    const handleError = async (error: Error) => {
+      try {
+        error = await (errorHandler as (error: Error) => Promise<Error> | Error)(error)
+      } catch (err) {
+        error = err
+      }
+      finish(error)
+    }
+
     /**
-     * Keep our own count here because ganache and infura are not consistent in how they count the
-     * confirmatipn events.  Sometimes a confirmation event can appear before the receipt event.
-     * Infura tends to start the confirmation count at 0, whereas ganache (in the test env) likes to start it at 1.
-     * A consequence of the latter is that when we hit 24 events, there may or may not have been 24 actual minings --
-     * we may have incorrectly counted the "receipt" event as a confirmation.
+     * We count confirmations ourselves, from the block number of the receipt, because ganache and infura
+     * are not consistent in how they count the confirmation events, and web3 stops sending them after 24 blocks.
+     * We send an update for each confirmation, even if several blocks were mined since the last check
      */
-    let confirmationCount = 0
-    tx.send(options)
-      .once('transactionHash', (hash: string) => {
-        Logger.debug('Sending transaction..')
-        transactionHash = hash
+    const confirm = (confirmations: number) => {
+      for (let i = confirmationCount + 1; i <= confirmations && !finished && !indexing; i++) {
+        confirmationCount = i
         observer.next({
-          state: ITransactionState.Sent,
-          transactionHash
+          confirmations: i,
+          receipt: minedReceipt,
+          result,
+          state: ITransactionState.Mined,
+          transactionHash: (mined as ITransactionAttempt).transactionHash
         })
-      })
-      .once('receipt', async (receipt: any) => {
-        try {
-          result = await mapReceipt(receipt)
-        } catch (error) {
-          try {
-            error = await (errorHandler as (error: Error) => Promise<Error> | Error)(error)
-          } catch (err) {
-            error = err
+        if (i >= requiredConfirmations) {
+          if (options.indexed) {
+            waitForIndexing()
+          } else {
+            finish()
           }
-          observer.error(error)
-        }
-        if (confirmationCount === 0) {
-          Logger.debug(`transaction mined!`)
         }
+      }
+    }
+
+    const waitForIndexing = () => {
+      const receipt = minedReceipt
+      const transactionHash = (mined as ITransactionAttempt).transactionHash
+      const indexed = () => {
         observer.next({
-          confirmations: confirmationCount++,
+          confirmations: confirmationCount,
           receipt,
           result,
-          state: ITransactionState.Mined,
+          state: ITransactionState.Indexed,
           transactionHash
         })
+        finish()
+      }
+      if (!context.apolloClient) {
+        // there is no subgraph to wait for
+        indexed()
+        return
+      }
+      indexing = context.indexingStatus().pipe(
+        first((status: IIndexingStatus) =>
+          status.subgraphBlockNumber !== null && status.subgraphBlockNumber >= receipt.blockNumber),
+        timeout(new Date(Date.now() + INDEXING_TIMEOUT))
+      ).subscribe(indexed, (error: Error) => {
+        if (context.isClosed) {
+          closed()
+        } else if (error instanceof TimeoutError) {
+          finish(new IndexingTimeoutError(transactionHash as string, receipt.blockNumber, INDEXING_TIMEOUT))
+        } else {
+          finish(error)
+        }
       })
-      .on('confirmation', async (confNumber: number, receipt: any) => {
-        if (!result) {
-          try {
-            result = await mapReceipt(receipt)
-          } catch (error) {
-            try {
-              error = await (errorHandler as (error: Error) => Promise<Error> | Error)(error)
-            } catch (err) {
-              error = err
+    }
+
+    const handleReceipt = async (attempt: ITransactionAttempt, receipt: any) => {
+      if (finished || !receipt) {
+        return
+      }
+      if (mined) {
+        // only one of the transactions with our nonce can be mined
+        if (mined === attempt) {
+          await checkConfirmations()
+        }
+        return
+      }
+      if (receipt.status === false) {
+        // web3 reports this as an error of its own receipt, but not of the receipts that we poll
+        await handleError(new ArcError(`Transaction ${attempt.transactionHash} was reverted by the EVM`))
+        return
+      }
+      mined = attempt
+      if (attempt.cancellation) {
+        Logger.debug(`transaction cancelled`)
+        finish()
+        return
+      }
+      minedReceipt = receipt = decodeReceiptEvents(tx, receipt)
+      if (!result) {
+        try {
+          result = await mapReceipt(receipt)
+        } catch (error) {
+          await handleError(error)
+          return
+        }
+      }
+      Logger.debug(`transaction mined!`)
+      confirmationCount = -1
+      confirm(0)
+    }
+
+    const checkConfirmations = async (latestBlockNumber?: number) => {
+      if (finished || !mined || checking) {
+        return
+      }
+      checking = true
+      const attempt = mined
+      try {
+        const [receipt, blockNumber] = await Promise.all([
+          context.web3.eth.getTransactionReceipt(attempt.transactionHash),
+          latestBlockNumber === undefined ? context.web3.eth.getBlockNumber() : latestBlockNumber
+        ])
+        if (finished || attempt !== mined) {
+          return
+        }
+        if (!receipt || receipt.blockHash !== minedReceipt.blockHash) {
+          Logger.debug(`the block of transaction ${attempt.transactionHash} was removed by a reorganisation`)
+          observer.next({
+            receipt: minedReceipt,
+            result,
+            state: ITransactionState.Reorged,
+            transactionHash: attempt.transactionHash
+          })
+          mined = undefined
+          minedReceipt = undefined
+          // the transaction may already be included in another block
+          await handleReceipt(attempt, receipt)
+        } else {
+          confirm(blockNumber - receipt.blockNumber)
+        }
+      } catch (err) {
+        // we could not reach the node, we will check again later
+      } finally {
+        checking = false
+      }
+    }
+
+    let checksMissed = 0
+    const checkPending = async () => {
+      if (finished || mined || checking) {
+        return
+      }
+      checking = true
+      try {
+        // web3 tells us when a transaction gets mined, but not after a reorganisation
+        for (const attempt of attempts) {
+          if (attempt.transactionHash) {
+            const receipt = await context.web3.eth.getTransactionReceipt(attempt.transactionHash)
+            if (receipt) {
+              checking = false
+              await handleReceipt(attempt, receipt)
+              return
             }
-            observer.error(error)
           }
         }
-        if (confirmationCount === 0) {
-          Logger.debug(`transaction mined!`)
+        const hash = current.transactionHash
+        if (!hash) {
+          return
+        }
+        const pending = await context.web3.eth.getTransaction(hash)
+        checksMissed = pending ? 0 : checksMissed + 1
+        if (checksMissed >= DROPPED_TRANSACTION_CHECKS && hash === current.transactionHash && !mined && !finished) {
+          Logger.debug(`transaction ${hash} was dropped`)
+          observer.next({
+            state: ITransactionState.Dropped,
+            transactionHash: hash
+          })
+          finish()
         }
+      } catch (err) {
+        // we could not reach the node, we will check again later
+      } finally {
+        checking = false
+      }
+    }
+
+    const watch = (attempt: ITransactionAttempt, onSent: (hash: string) => void, onNotSent: (error: Error) => void) => {
+      attempts.push(attempt)
+      attempt.promiEvent
+        .once('transactionHash', (hash: string) => {
+          attempt.transactionHash = hash
+          transactionHashes.push(hash)
+          pendingTransactions.set(hash, { cancel, speedUp })
+          onSent(hash)
+        })
+        .once('receipt', (receipt: any) => handleReceipt(attempt, receipt))
+        .on('confirmation', (confNumber: number, receipt: any) => handleReceipt(attempt, receipt))
+        .on('error', async (error: Error) => {
+          if (finished) {
+            return
+          }
+          if (attempt.transactionHash === undefined) {
+            onNotSent(error)
+          } else if (attempt === mined || (!mined && attempt === current)) {
+            // errors of transactions that were replaced are expected, and are ignored
+            await handleError(error)
+          }
+        })
+    }
+
+    const submit = async (request: ITransactionRequestOptions, replacement: boolean) => {
+      if (options.signedTransaction) {
+        return context.web3.eth.sendSignedTransaction(options.signedTransaction)
+      } else if (context.signer) {
+        const rawTransaction = await signTransaction(context, request)
+        return context.web3.eth.sendSignedTransaction(rawTransaction)
+      } else if (replacement) {
+        return context.web3.eth.sendTransaction(request)
+      } else {
+        return tx.send(request)
+      }
+    }
+
+    const replace = async (cancellation: boolean, newGasSettings: Partial<IGasSettings> = {}): Promise<string> => {
+      if (finished || mined) {
+        throw new TransactionNotReplaceableError(current.transactionHash,
+          `The transaction cannot be replaced because it was already mined`)
+      }
+      if (options.signedTransaction) {
+        throw new TransactionNotReplaceableError(current.transactionHash,
+          `A transaction that was signed elsewhere cannot be replaced here: sign and send a replacement`)
+      }
+      const replacedTransactionHash = current.transactionHash as string
+      const pending = await context.web3.eth.getTransaction(replacedTransactionHash)
+      if (!pending) {
+        throw new TransactionNotReplaceableError(replacedTransactionHash,
+          `Transaction ${replacedTransactionHash} is not known to the node and cannot be replaced`)
+      }
+      const request: ITransactionRequestOptions = {
+        ...replacementFees(pending, newGasSettings),
+        data: cancellation ? '0x' : pending.input,
+        from,
+        gas: cancellation ? 21000 : (newGasSettings.gas || pending.gas),
+        nonce: pending.nonce,
+        to: cancellation ? from : pending.to,
+        value: cancellation ? '0' : pending.value
+      }
+      const attempt: ITransactionAttempt = {
+        cancellation,
+        promiEvent: await submit(request, true)
+      }
+      return new Promise((resolve, reject) => watch(attempt, (hash: string) => {
+        current = attempt
+        checksMissed = 0
+        Logger.debug(`transaction ${replacedTransactionHash} replaced by ${hash}`)
         observer.next({
-          confirmations: confirmationCount++,
-          receipt,
-          result,
-          state: ITransactionState.Mined,
-          transactionHash
+          replacedTransactionHash,
+          state: cancellation ? ITransactionState.Cancelled : ITransactionState.Replaced,
+          transactionHash: hash
         })
-        if (confirmationCount > 23) {
-          // the web3 observer will confirm up to 24 subscriptions, so we are done here
-          observer.complete()
-        }
-      })
-      .on('error', async (error: Error) => {
-        try {
-          error = await (errorHandler as (error: Error) => Promise<Error> | Error)(error)
-        } catch (err) {
-          error = err
-        }
-        observer.error(error)
+        resolve(hash)
+      }, reject))
+    }
+    const speedUp = (newGasSettings?: Partial<IGasSettings>) => replace(false, newGasSettings)
+    const cancel = (newGasSettings?: Partial<IGasSettings>) => replace(true, newGasSettings)
+
+    const transactionRequest: ITransactionRequestOptions = {
+      ...gasSettings,
+      data: tx.encodeABI(),
+      from,
+      to: tx._parent.options.address,
+      value: options.value
+    }
+    if (options.nonce !== undefined) {
+      transactionRequest.nonce = options.nonce
+    }
+    try {
+      current = {
+        cancellation: false,
+        promiEvent: await submit(transactionRequest, false)
+      }
+    } catch (error) {
+      observer.error(error)
+      return
+    }
+    watch(current, (hash: string) => {
+      Logger.debug('Sending transaction..')
+      observer.next({
+        state: ITransactionState.Sent,
+        transactionHash: hash
       })
+    }, handleError)
+
+    blocks = context.blockNumbers().subscribe((blockNumber: number) => {
+      if (observer.closed) {
+        // our subscriber has gone away
+        finish()
+      } else if (mined) {
+        checkConfirmations(blockNumber)
+      } else {
+        checkPending()
+      }
+    })
   }
-  )
+
+  const observable = Observable.create((observer: Observer<ITransactionUpdate<T>>) => {
+    // errors that are not handled in `run`, such as those of the account of the Arc instance, end the operation
+    run(observer).catch((error: Error) => observer.error(error))
+  })
   return toIOperationObservable(observable)
 }
 
-export function toIOperationObservable<T>(observable: Observable<T>): IOperationObservable<T> {
+/**
+ * add the `send`, `withConfirmations`, `withNonce`, `withIndexing`, `build`, `sendSigned`, `speedUp` and `cancel`
+ * methods to an observable of transaction updates
+ * @param  observable
+ * @param  options  cf. IOperationOptions
+ */
+export function toIOperationObservable<T>(
+  observable: Observable<T>,
+  options: IOperationOptions = {}
+): IOperationObservable<T> {
+  // the hash of the last transaction sent by this operation
+  let transactionHash: string | undefined
+  let operation: any = defer(() => {
+    let transactionCount = 0
+    return observable.pipe(tap((update: any) => {
+      const updateOptions = update && operationOptions.get(update)
+      if (updateOptions) {
+        // this is the Sending update of sendTransaction
+        transactionCount++
+        if (options.nonce !== undefined && transactionCount > 1) {
+          throw new ArcError(`This operation sends more than one transaction, so it cannot be sent with ` +
+            `a given nonce (for example in a batch)`)
+        }
+        for (const key of Object.keys(options) as Array<keyof IOperationOptions>) {
+          if (options[key] !== undefined) {
+            updateOptions[key] = options[key] as any
+          }
+        }
+      }
+      if (update && update.transactionHash) {
+        transactionHash = update.transactionHash
+      }
+    }))
+  })
+  const confirmations = options.confirmations
+  if (options.indexed) {
+    operation = operation.pipe(takeWhile((update: any) =>
+      !(update && update.state === ITransactionState.Indexed), true))
+  } else if (confirmations !== undefined) {
+    operation = operation.pipe(takeWhile((update: any) =>
+      !(update && update.state === ITransactionState.Mined && update.confirmations >= confirmations), true))
+  }
+  const getPendingTransaction = () => {
+    const pendingTransaction = transactionHash && pendingTransactions.get(transactionHash)
+    if (!pendingTransaction) {
+      throw new TransactionNotReplaceableError(transactionHash,
+        `This operation has no pending transaction - it was not sent yet, or it was already mined`)
+    }
+    return pendingTransaction
+  }
 
-  // the 3rd update we get from the observable is the confirmation that it is mined
-  // @ts-ignore
-  observable.send = () => observable.pipe(take(3)).toPromise()
-  // @ts-ignore
-  return observable
+  operation.send = () => operation.pipe(
+    first((update: any) => update.state === ITransactionState.Dropped || (options.indexed
+      ? update.state === ITransactionState.Indexed
+      : update.state === ITransactionState.Mined && update.confirmations >= (confirmations || 0))),
+    map((update: any) => {
+      if (update.state === ITransactionState.Dropped) {
+        throw Error(`Transaction ${update.transactionHash} was dropped`)
+      }
+      return update
+    })
+  ).toPromise()
+  operation.withConfirmations = (n: number) => toIOperationObservable(observable, { ...options, confirmations: n })
+  operation.withNonce = (nonce: number) => toIOperationObservable(observable, { ...options, nonce })
+  operation.withIndexing = () => toIOperationObservable(observable, { ...options, indexed: true })
+  operation.sendSigned = (rawTransaction: string) =>
+    toIOperationObservable(observable, { ...options, signedTransaction: rawTransaction })
+  operation.build = (buildOptions: { from?: Address } = {}) => new Promise((resolve, reject) => {
+    let built = false
+    const subscription = toIOperationObservable(observable, {
+      ...options,
+      build: {
+        from: buildOptions.from,
+        onBuild: (unsignedTransaction: IUnsignedTransaction) => {
+          built = true
+          resolve(unsignedTransaction)
+          // the operation may continue with other steps, which we do not need
+          setTimeout(() => subscription.unsubscribe())
+        }
+      }
+    }).subscribe(
+      () => undefined,
+      reject,
+      () => {
+        if (!built) {
+          reject(Error(`This operation did not build a transaction`))
+        }
+      }
+    )
+  })
+  operation.speedUp = async (gasSettings?: Partial<IGasSettings>) => getPendingTransaction().speedUp(gasSettings)
+  operation.cancel = async (gasSettings?: Partial<IGasSettings>) => getPendingTransaction().cancel(gasSettings)
+  return operation
+}
+
+interface ITransactionRequestOptions extends Partial<IGasSettings> {
+  data?: string
+  from: string
+  nonce?: number
+  to?: string
+  value?: string
+}
+
+/**
+ * the fees for a transaction that replaces `pending`: either the given ones, or 12.5% more than the pending ones
+ * (most nodes require at least 10% more to accept a replacement)
+ * @param pending the transaction as returned by `web3.eth.getTransaction` - web3 1.3 formats its `gasPrice` as a
+ *   decimal string, but passes the EIP-1559 fees on as the hex quantities of the node
+ */
+export function replacementFees(pending: any, gasSettings: Partial<IGasSettings>): Partial<IGasSettings> {
+  const bump = (fee: string | number) => Web3.utils.toBN(fee).muln(1125).divn(1000).toString()
+  if (gasSettings.maxFeePerGas !== undefined || gasSettings.gasPrice !== undefined) {
+    return {
+      gasPrice: gasSettings.gasPrice,
+      maxFeePerGas: gasSettings.maxFeePerGas,
+      maxPriorityFeePerGas: gasSettings.maxPriorityFeePerGas
+    }
+  } else if (pending.maxFeePerGas !== undefined && pending.maxFeePerGas !== null) {
+    return {
+      maxFeePerGas: bump(pending.maxFeePerGas),
+      maxPriorityFeePerGas: bump(pending.maxPriorityFeePerGas)
+    }
+  } else {
+    return {
+      gasPrice: bump(pending.gasPrice)
+    }
+  }
+}
+
+/**
+ * sign the transaction with the signer of the Arc instance
+ * @return the serialized signed transaction
+ */
+async function signTransaction(context: Arc, request: ITransactionRequestOptions) {
+  const signer = context.signer as ITransactionSigner
+  const web3 = context.web3
+  let nonce = request.nonce
+  if (nonce === undefined) {
+    nonce = await web3.eth.getTransactionCount(request.from, 'pending') as number
+  }
+  const chainId = await web3.eth.getChainId()
+  let gasPrice = request.gasPrice
+  if (gasPrice === undefined && request.maxFeePerGas === undefined) {
+    gasPrice = await web3.eth.getGasPrice()
+  }
+  return signer.signTransaction({
+    chainId,
+    data: request.data as string,
+    from: request.from,
+    gas: request.gas as number,
+    gasPrice,
+    maxFeePerGas: request.maxFeePerGas,
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+    nonce,
+    to: request.to as string,
+    value: request.value
+  })
+}
+
+/**
+ * `sendSignedTransaction` does not know the contract ABI, so we decode the logs of the receipt
+ * into `receipt.events` in the same way as `contract.methods.x().send()` does
+ */
+function decodeReceiptEvents(tx: any, receipt: any) {
+  if (!receipt || !Array.isArray(receipt.logs)) {
+    return receipt
+  }
+  const contract = tx._parent
+  const events = receipt.logs.map((log: any) => contract._decodeEventABI.call({
+    jsonInterface: contract.options.jsonInterface,
+    name: 'ALLEVENTS'
+  }, log))
+  receipt.events = {}
+  let count = 0
+  for (const ev of events) {
+    if (ev.event) {
+      if (receipt.events[ev.event]) {
+        if (Array.isArray(receipt.events[ev.event])) {
+          receipt.events[ev.event].push(ev)
+        } else {
+          receipt.events[ev.event] = [receipt.events[ev.event], ev]
+        }
+      } else {
+        receipt.events[ev.event] = ev
+      }
+    } else {
+      receipt.events[count] = ev
+      count++
+    }
+  }
+  delete receipt.logs
+  return receipt
 }
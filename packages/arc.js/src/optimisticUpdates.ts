@@ -0,0 +1,155 @@
+import { from, Observable, Subscription } from 'rxjs'
+import { concatMap, first, tap } from 'rxjs/operators'
+import { Arc, IIndexingStatus } from './arc'
+import { Logger } from './logger'
+import { ITransactionState, ITransactionUpdate } from './operation'
+
+/**
+ * The expected effect of a mined transaction on an entity in the Apollo cache
+ */
+export interface IOptimisticUpdate {
+  /** the id of the update: the hash of the transaction */
+  id: string
+  /** the block the transaction was mined in; the update is reconciled when the subgraph has indexed it */
+  blockNumber: number
+  /** the id of the entity in the cache, e.g. `Proposal:0x1234...` */
+  dataId: string
+  /** a fragment with the fields that change */
+  fragment: any
+  /** a query that fetches the fragment from the subgraph, to replace the optimistic data once it is indexed */
+  query: any
+  /**
+   * returns the fields of the fragment after the transaction, from the fields in the cache. This may be
+   * called again with other data when other optimistic updates are removed
+   */
+  update: (data: any) => any
+}
+
+export interface IOptimisticUpdatesOptions {
+  /** if false, nothing is written to the cache. Default is true */
+  enabled?: boolean
+}
+
+/**
+ * Writes the effects of mined transactions (votes, stakes, redemptions) in the Apollo cache, so that the state of
+ * the entities is up to date before the subgraph has indexed the transaction.
+ *
+ * Each update is recorded as an optimistic layer of the cache. When the subgraph has indexed the block of the
+ * transaction, the fields are fetched again from the subgraph and the layer is removed (the update is
+ * reconciled). If the transaction is removed from the chain by a reorganisation, the layer is removed
+ * right away (the update is rolled back).
+ */
+export class OptimisticUpdates {
+  public enabled: boolean
+  // the updates that wait for the subgraph, by id, with the subscription that waits for the indexing
+  private pending: { [id: string]: Subscription } = {}
+
+  constructor(private context: Arc, options: IOptimisticUpdatesOptions = {}) {
+    this.enabled = options.enabled !== false
+  }
+
+  /**
+   * Write an update to the cache, until the subgraph has indexed the block of the transaction
+   * @return true if the update was written, false if the entity (or one of the fields of the fragment)
+   *  is not in the cache, or if the update was already applied
+   */
+  public apply(update: IOptimisticUpdate): boolean {
+    const client = this.context.apolloClient
+    if (!client || !this.enabled || this.pending[update.id]) {
+      return false
+    }
+    let applied = false
+    client.cache.recordOptimisticTransaction((cache: any) => {
+      let data: any
+      try {
+        data = cache.readFragment({ fragment: update.fragment, id: update.dataId }, true)
+      } catch (err) {
+        // some of the fields are not in the cache: there is nothing to update
+        Logger.debug(`Not updating ${update.dataId} optimistically: ${err.message}`)
+      }
+      if (data) {
+        cache.writeFragment({ data: update.update(data), fragment: update.fragment, id: update.dataId })
+        applied = true
+      }
+    }, update.id)
+    if (!applied) {
+      client.cache.removeOptimistic(update.id)
+      return false
+    }
+    client.queryManager.broadcastQueries()
+
+    this.pending[update.id] = this.context.indexingStatus().pipe(
+      first((status: IIndexingStatus) =>
+        status.subgraphBlockNumber !== null && status.subgraphBlockNumber >= update.blockNumber),
+      concatMap(() => from(client.query({ fetchPolicy: 'network-only', query: update.query })))
+    ).subscribe(
+      () => this.remove(update.id),
+      (err: Error) => {
+        Logger.debug(`Could not refetch ${update.dataId}: ${err.message}`)
+        this.remove(update.id)
+      }
+    )
+    return true
+  }
+
+  /**
+   * Remove an update from the cache, e.g. when its transaction was reorganised away
+   */
+  public rollback(id: string): void {
+    this.remove(id)
+  }
+
+  /**
+   * @return true if the update is in the cache, waiting for the subgraph
+   */
+  public isPending(id: string): boolean {
+    return !!this.pending[id]
+  }
+
+  /**
+   * Apply an update when the transaction of an operation is mined, and roll it back when it is reorganised
+   * @param  operation    the updates of the transaction, cf. [[sendTransaction]]
+   * @param  createUpdate returns the update for the receipt of the transaction, or undefined if there is none
+   */
+  public track<T>(
+    operation: Observable<ITransactionUpdate<T>>,
+    createUpdate: (receipt: any) => IOptimisticUpdate | undefined
+  ): Observable<ITransactionUpdate<T>> {
+    return operation.pipe(
+      tap((update: ITransactionUpdate<T>) => {
+        if (update.state === ITransactionState.Mined && update.confirmations === 0 && update.receipt) {
+          const optimisticUpdate = createUpdate(update.receipt)
+          if (optimisticUpdate) {
+            this.apply(optimisticUpdate)
+          }
+        } else if (update.state === ITransactionState.Reorged && update.transactionHash) {
+          this.rollback(update.transactionHash)
+        }
+      })
+    )
+  }
+
+  /**
+   * Stop waiting for the subgraph (cf. [[Arc.close]]). The updates stay in the cache
+   */
+  public close(): void {
+    for (const id of Object.keys(this.pending)) {
+      this.pending[id].unsubscribe()
+    }
+    this.pending = {}
+  }
+
+  private remove(id: string) {
+    const subscription = this.pending[id]
+    if (!subscription) {
+      return
+    }
+    delete this.pending[id]
+    subscription.unsubscribe()
+    const client = this.context.apolloClient
+    if (client) {
+      client.cache.removeOptimistic(id)
+      client.queryManager.broadcastQueries()
+    }
+  }
+}
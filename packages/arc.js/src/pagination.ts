@@ -0,0 +1,142 @@
+import { EMPTY, Observable } from 'rxjs'
+import { expand, first, map, takeWhile } from 'rxjs/operators'
+import { Arc } from './arc'
+import { IApolloQueryOptions } from './graphnode'
+import { ICommonQueryOptions } from './types'
+
+export interface IPaginationOptions {
+  /** the number of items to fetch with each query. Default is 100 (the subgraph returns at most 1000) */
+  pageSize?: number
+  /** stop after this many items. Default is to fetch all items */
+  maxItems?: number
+}
+
+/**
+ * The signature of the static `search` methods, like `DAO.search` and `Proposal.search`
+ */
+export type SearchFunction<T, Options extends ICommonQueryOptions> = (
+  context: Arc,
+  options: Options,
+  apolloQueryOptions: IApolloQueryOptions
+) => Observable<T[]>
+
+interface IPage<T> {
+  items: T[]
+  // the number of items fetched so far, including these
+  count: number
+  // true if there are no more items to fetch
+  last: boolean
+}
+
+/**
+ * Fetch all results of a search, page by page. The pages are ordered by id, and each page is fetched
+ * with an `id_gt` filter on the last id of the previous page, so results are neither skipped nor repeated when
+ * items are added while we are paginating (as they can be with `skip`).
+ *
+ * For example:
+ * ```
+ * searchPages(Proposal.search, arc, { where: { dao } }, {}, { pageSize: 500 })
+ *   .subscribe((proposals) => console.log(`${proposals.length} more proposals`))
+ * ```
+ * @param  search             the search method, e.g. `DAO.search`
+ * @param  context            an Arc instance
+ * @param  options            the options of the search. `where` may be used, but `orderBy` must be `id` (the default)
+ *                            and `skip` cannot be used; `first` is ignored (use `maxItems` instead)
+ * @param  apolloQueryOptions passed on to the search. Each page is queried once, without subscribing to updates
+ * @param  paginationOptions  cf. IPaginationOptions
+ * @return an observable that emits the results, one page at a time, and completes after the last page
+ */
+export function searchPages<T extends { id?: string }, Options extends ICommonQueryOptions>(
+  search: SearchFunction<T, Options>,
+  context: Arc,
+  options: Options = {} as Options,
+  apolloQueryOptions: IApolloQueryOptions = {},
+  paginationOptions: IPaginationOptions = {}
+): Observable<T[]> {
+  const pageSize = paginationOptions.pageSize || 100
+  const maxItems = paginationOptions.maxItems
+  if (options.orderBy && options.orderBy !== 'id') {
+    throw Error(`Cannot paginate results that are ordered by ${options.orderBy}: results must be ordered by id`)
+  }
+  if (options.skip) {
+    throw Error(`Cannot paginate with "skip": use "where: { id_gt }" to start after a given id`)
+  }
+
+  const fetchPage = (cursor: string | undefined, count: number): Observable<IPage<T>> => {
+    const limit = maxItems === undefined ? pageSize : Math.min(pageSize, maxItems - count)
+    const where = { ...options.where }
+    delete where.id_gt
+    if (cursor !== undefined) {
+      where.id_gt = cursor
+    }
+    const pageOptions = { ...options, first: limit, orderBy: 'id', orderDirection: 'asc', where } as Options
+    return search(context, pageOptions, { ...apolloQueryOptions, polling: false, subscribe: false }).pipe(
+      first(),
+      map((items: T[]) => {
+        // a search that ignores the cursor would return the same page forever
+        if (cursor !== undefined && items.some((item: T) => item.id === cursor)) {
+          throw Error(`Cannot paginate this search: it does not support the "id_gt" filter`)
+        }
+        return items
+      }),
+      map((items: T[]) => ({
+        count: count + items.length,
+        items,
+        last: items.length < limit || (maxItems !== undefined && count + items.length >= maxItems)
+      }))
+    )
+  }
+
+  if (maxItems === 0) {
+    return EMPTY
+  }
+  const start = options.where && options.where.id_gt
+  return fetchPage(start, 0).pipe(
+    expand((page: IPage<T>) => page.last || page.items.length === 0
+      ? EMPTY
+      : fetchPage(page.items[page.items.length - 1].id, page.count)
+    ),
+    takeWhile((page: IPage<T>) => page.items.length > 0),
+    map((page: IPage<T>) => page.items)
+  )
+}
+
+/**
+ * Iterate over all results of a search; the results are fetched one page at a time (cf. [[searchPages]])
+ *
+ * For example:
+ * ```
+ * for await (const dao of searchAll(DAO.search, arc, {}, {}, { maxItems: 5000 })) {
+ *   console.log(dao.id)
+ * }
+ * ```
+ */
+export async function* searchAll<T extends { id?: string }, Options extends ICommonQueryOptions>(
+  search: SearchFunction<T, Options>,
+  context: Arc,
+  options: Options = {} as Options,
+  apolloQueryOptions: IApolloQueryOptions = {},
+  paginationOptions: IPaginationOptions = {}
+): AsyncIterableIterator<T> {
+  const pageSize = paginationOptions.pageSize || 100
+  const maxItems = paginationOptions.maxItems
+  let cursor: string | undefined = options.where && options.where.id_gt
+  let count = 0
+  while (maxItems === undefined || count < maxItems) {
+    const page: T[] = await searchPages(
+      search,
+      context,
+      { ...options, where: { ...options.where, id_gt: cursor } },
+      apolloQueryOptions,
+      { maxItems: maxItems === undefined ? pageSize : Math.min(pageSize, maxItems - count), pageSize }
+    ).pipe(first(null, [])).toPromise()
+    for (const item of page) {
+      yield item
+    }
+    count += page.length
+    if (page.length < pageSize) {
+      return
+    }
+    cursor = page[page.length - 1].id
+  }
+}
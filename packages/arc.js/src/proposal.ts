@@ -1,12 +1,21 @@
 import BN = require('bn.js')
+import { DocumentNode } from 'graphql'
 import gql from 'graphql-tag'
 import { from, Observable } from 'rxjs'
 import { concatMap, filter, first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { DAO } from './dao'
+import {
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  ProposalAlreadyExecutedError,
+  ProposalBoostedError,
+  UnknownProposalError
+} from './errors'
 import { IGenesisProtocolParams, mapGenesisProtocolParams } from './genesisProtocol'
 import { IObservable } from './graphnode'
 import { Operation, toIOperationObservable } from './operation'
+import { IOptimisticUpdate } from './optimisticUpdates'
 import { IQueueState } from './queue'
 import { IRewardQueryOptions, Reward } from './reward'
 import { ISchemeState, Scheme } from './scheme'
@@ -15,29 +24,49 @@ import * as ContributionReward from './schemes/contributionReward'
 import * as ContributionRewardExt from './schemes/contributionRewardExt'
 import * as GenericScheme from './schemes/genericScheme'
 import * as GenericSchemeMultiCall from './schemes/genericSchemeMultiCall'
+import * as GlobalConstraintRegistrar from './schemes/globalConstraintRegistrar'
 import * as SchemeRegistrar from './schemes/schemeRegistrar'
+import * as SignalScheme from './schemes/signalScheme'
+import * as UpgradeScheme from './schemes/upgradeScheme'
+import * as VoteInOrganizationScheme from './schemes/voteInOrganizationScheme'
+import { fragmentField, schemeTypes } from './schemeTypes'
 import { CONTRIBUTION_REWARD_DUMMY_VERSION, REDEEMER_CONTRACT_VERSIONS } from './settings'
 import { IStakeQueryOptions, Stake } from './stake'
 import { Address, Date, ICommonQueryOptions, IStateful } from './types'
 import {
-  createGraphQlQuery, isAddress, NULL_ADDRESS, realMathToNumber,
-  secondSinceEpochToDate
+  NULL_ADDRESS, realMathToNumber, secondSinceEpochToDate
 } from './utils'
 import { IVoteQueryOptions, Vote } from './vote'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export const IProposalType = {
   ...ContributionReward.IProposalType,
   ...GenericScheme.IProposalType,
   ...GenericSchemeMultiCall.IProposalType,
-  ...SchemeRegistrar.IProposalType
+  ...GlobalConstraintRegistrar.IProposalType,
+  ...SchemeRegistrar.IProposalType,
+  ...SignalScheme.IProposalType,
+  ...UpgradeScheme.IProposalType,
+  ...VoteInOrganizationScheme.IProposalType
 }
 
-type IProposalType = (
-  ContributionReward.IProposalType |
-  GenericScheme.IProposalType |
-  GenericSchemeMultiCall.IProposalType |
-  SchemeRegistrar.IProposalType
-)
+/**
+ * The proposal types of the scheme types, by the field of their `proposalFragment`. A type that is registered with
+ * [[Arc.registerSchemeType]] can add its own with a `declare module`, like it can add its fields to
+ * IProposalSchemeStates and IProposalCreateOptionsByScheme
+ */
+export interface IProposalTypeByScheme {
+  contributionReward: ContributionReward.IProposalType
+  genericScheme: GenericScheme.IProposalType
+  genericSchemeMultiCall: GenericSchemeMultiCall.IProposalType
+  globalConstraintRegistrar: GlobalConstraintRegistrar.IProposalType
+  schemeRegistrar: SchemeRegistrar.IProposalType
+  signalScheme: SignalScheme.IProposalType
+  upgradeScheme: UpgradeScheme.IProposalType
+  voteInOrganization: VoteInOrganizationScheme.IProposalType
+}
+
+type IProposalType = IProposalTypeByScheme[keyof IProposalTypeByScheme]
 
 export enum IProposalOutcome {
   None,
@@ -54,6 +83,12 @@ export enum IProposalStage {
   QuietEndingPeriod
 }
 
+// the stages of the deprecated `active` and `boosted` filters of Proposal.search
+const ACTIVE_STAGES = [
+  IProposalStage.Queued, IProposalStage.PreBoosted, IProposalStage.Boosted, IProposalStage.QuietEndingPeriod
+]
+const BOOSTED_STAGES = [IProposalStage.Boosted, IProposalStage.QuietEndingPeriod]
+
 export enum IExecutionState {
   None,
   QueueBarCrossed,
@@ -70,10 +105,24 @@ export interface IProposalStaticState {
   votingMachine: Address
 }
 
-export interface IProposalState extends IProposalStaticState {
+/**
+ * The data of a proposal in its scheme, by the field of the `proposalFragment` of the scheme type; the fields of
+ * the other scheme types are null
+ */
+export interface IProposalSchemeStates {
+  contributionReward: ContributionReward.IContributionReward | null
+  genericScheme: GenericScheme.IGenericScheme | null
+  genericSchemeMultiCall: GenericSchemeMultiCall.IGenericSchemeMultiCall | null
+  globalConstraintRegistrar: GlobalConstraintRegistrar.IGlobalConstraintRegistrar | null
+  schemeRegistrar: SchemeRegistrar.ISchemeRegistrar | null
+  signalScheme: SignalScheme.ISignalScheme | null
+  upgradeScheme: UpgradeScheme.IUpgradeScheme | null
+  voteInOrganization: VoteInOrganizationScheme.IVoteInOrganization | null
+}
+
+export interface IProposalState extends IProposalStaticState, IProposalSchemeStates {
   accountsWithUnclaimedRewards: Address[],
   boostedAt: Date
-  contributionReward: ContributionReward.IContributionReward | null
   competition: ICompetitionProposalState | null
   confidenceThreshold: number
   closingAt: Date
@@ -84,8 +133,6 @@ export interface IProposalState extends IProposalStaticState {
   executedAt: Date
   executionState: IExecutionState
   expiresInQueueAt: Date
-  genericScheme: GenericScheme.IGenericScheme | null
-  genericSchemeMultiCall: GenericSchemeMultiCall.IGenericSchemeMultiCall | null
   genesisProtocolParams: IGenesisProtocolParams
   organizationId: string
   paramsHash: string
@@ -94,7 +141,6 @@ export interface IProposalState extends IProposalStaticState {
   proposer: Address
   queue: IQueueState
   quietEndingPeriodBeganAt: Date
-  schemeRegistrar: SchemeRegistrar.ISchemeRegistrar | null
   resolvedAt: Date
   stage: IProposalStage
   stakesFor: BN
@@ -115,135 +161,120 @@ export interface IProposalState extends IProposalStaticState {
 
 export class Proposal implements IStateful<IProposalState> {
   public static fragments = {
-    ProposalFields: gql`fragment ProposalFields on Proposal {
-      id
-      accountsWithUnclaimedRewards
-      boostedAt
-      closingAt
-      confidenceThreshold
-      competition {
+    /** the fields of a proposal, with the fields of the proposals of all scheme types (cf. [[ISchemeType]]) */
+    get ProposalFields(): DocumentNode {
+      return schemeTypes.fragment('ProposalFields', 'Proposal', `
         id
-        admin
-        endTime
-        contract
-        suggestionsEndTime
-        createdAt
-        numberOfWinningSuggestions
-        numberOfVotesPerVoters
-        numberOfWinners
-        rewardSplit
-        snapshotBlock
-        startTime
-        totalSuggestions
-        totalVotes
-        votingStartTime
+        accountsWithUnclaimedRewards
+        boostedAt
+        closingAt
+        confidenceThreshold
+        competition {
+          id
+          admin
+          endTime
+          contract
+          suggestionsEndTime
+          createdAt
+          numberOfWinningSuggestions
+          numberOfVotesPerVoters
+          numberOfWinners
+          rewardSplit
+          snapshotBlock
+          startTime
+          totalSuggestions
+          totalVotes
+          votingStartTime
 
-      }
-      contributionReward {
-        id
-        beneficiary
-        ethReward
-        ethRewardLeft
-        externalToken
-        externalTokenReward
-        externalTokenRewardLeft
-        nativeTokenReward
-        nativeTokenRewardLeft
-        periods
-        periodLength
-        reputationReward
-        reputationChangeLeft
-        alreadyRedeemedReputationPeriods
-        alreadyRedeemedExternalTokenPeriods
-        alreadyRedeemedNativeTokenPeriods
-        alreadyRedeemedEthPeriods
-      }
-      createdAt
-      dao {
-        id
-        schemes {
+        }
+        createdAt
+        dao {
           id
-          address
+          schemes {
+            id
+            address
+          }
         }
-      }
-      description
-      descriptionHash
-      executedAt
-      executionState
-      expiresInQueueAt
-      genericScheme {
-        id
-        contractToCall
-        callData
-        executed
-        returnValue
-        value
-      }
-      genericSchemeMultiCall {
-        id
-        contractsToCall
-        callsData
-        executed
-        returnValues
-        values
-      }
-      genesisProtocolParams {
-        id
-        activationTime
-        boostedVotePeriodLimit
-        daoBountyConst
-        limitExponentValue
-        minimumDaoBounty
-        preBoostedVotePeriodLimit
-        proposingRepReward
-        queuedVotePeriodLimit
-        queuedVoteRequiredPercentage
-        quietEndingPeriod
-        thresholdConst
-        votersReputationLossRatio
-      }
-      gpRewards {
-        id
-      }
-      scheme {
-        ...SchemeFields
-      }
-      gpQueue {
-        id
-        threshold
+        description
+        descriptionHash
+        executedAt
+        executionState
+        expiresInQueueAt
+        genesisProtocolParams {
+          id
+          activationTime
+          boostedVotePeriodLimit
+          daoBountyConst
+          limitExponentValue
+          minimumDaoBounty
+          preBoostedVotePeriodLimit
+          proposingRepReward
+          queuedVotePeriodLimit
+          queuedVoteRequiredPercentage
+          quietEndingPeriod
+          thresholdConst
+          votersReputationLossRatio
+        }
+        gpRewards {
+          id
+        }
+        scheme {
+          ...SchemeFields
+        }
+        gpQueue {
+          id
+          threshold
+          votingMachine
+        }
+        organizationId
+        preBoostedAt
+        proposer
+        quietEndingPeriodBeganAt
+        stage
+        # stakes { id }
+        stakesFor
+        stakesAgainst
+        tags {
+          id
+        }
+        totalRepWhenCreated
+        totalRepWhenExecuted
+        title
+        url
+        # votes { id }
+        votesAgainst
+        votesFor
         votingMachine
-      }
-      organizationId
-      preBoostedAt
-      proposer
-      quietEndingPeriodBeganAt
-      schemeRegistrar {
-        id
-        schemeToRegister
-        schemeToRegisterParamsHash
-        schemeToRegisterPermission
-        schemeToRemove
-        decision
-        schemeRegistered
-        schemeRemoved
-      }
-      stage
-      # stakes { id }
-      stakesFor
-      stakesAgainst
-      tags {
-        id
-      }
-      totalRepWhenCreated
-      totalRepWhenExecuted
-      title
-      url
-      # votes { id }
-      votesAgainst
-      votesFor
-      votingMachine
-      winningOutcome
-    }`
+        winningOutcome
+      `, 'proposalFragment')
+    }
+  }
+
+  public static schema: IEntitySchema = {
+    fields: {
+      accountsWithUnclaimedRewards: 'addresses',
+      boostedAt: 'bigint',
+      closingAt: 'bigint',
+      competition: 'id',
+      contributionReward: 'id',
+      createdAt: 'bigint',
+      dao: 'address',
+      executedAt: 'bigint',
+      expiresInQueueAt: 'bigint',
+      genericScheme: 'id',
+      genericSchemeMultiCall: 'id',
+      id: 'id',
+      organizationId: 'bytes',
+      preBoostedAt: 'bigint',
+      proposer: 'address',
+      scheme: 'id',
+      schemeRegistrar: 'id',
+      stage: 'string',
+      tags: 'ids',
+      title: 'string',
+      votingMachine: 'address'
+    },
+    name: 'Proposal'
   }
 
   /**
@@ -261,49 +292,58 @@ export class Proposal implements IStateful<IProposalState> {
     options: IProposalQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<Proposal[]> {
-    let where = ''
-
-    if (!options.where) { options.where = {} }
-
-    for (const key of Object.keys(options.where)) {
-      const value = options.where[key]
+    const where: { [key: string]: any } = {}
+    // the fields of registered scheme types can be filtered on as well
+    const schema = { ...Proposal.schema, fields: { ...Proposal.schema.fields } }
+    for (const schemeType of schemeTypes.list()) {
+      if (schemeType.proposalFragment) {
+        schema.fields[fragmentField(schemeType.proposalFragment)] = 'id'
+      }
+    }
+    const { active, boosted, orderBy, proposalId, ...whereOptions } = options.where || {} as IProposalWhere
+    // the deprecated filters, which the subgraph does not know
+    if (active !== undefined) {
+      where[active ? 'stage_in' : 'stage_not_in'] = ACTIVE_STAGES.map((stage) => IProposalStage[stage])
+    }
+    if (boosted !== undefined) {
+      where[boosted ? 'stage_in' : 'stage_not_in'] = BOOSTED_STAGES.map((stage) => IProposalStage[stage])
+    }
+    if (proposalId !== undefined) {
+      where.id = proposalId
+    }
+    for (const key of Object.keys(whereOptions)) {
+      const value = (whereOptions as { [key: string]: any })[key]
       if (key === 'stage' && value !== undefined) {
-        where += `stage: "${IProposalStage[value as IProposalStage]}"\n`
+        where.stage = IProposalStage[value as IProposalStage]
       } else if (key === 'stage_in' && Array.isArray(value)) {
-        const stageValues = value.map((stage: number) => '"' + IProposalStage[stage as IProposalStage] + '"')
-        where += `stage_in: [${stageValues.join(',')}]\n`
-      } else if (key === 'type') {
+        where.stage_in = value.map((stage: number) => IProposalStage[stage as IProposalStage])
+      } else if (key === 'executedAfter') {
+        where.executedAt_gt = value
+      } else if (key === 'executedBefore') {
+        where.executedAt_lt = value
+      } else if (key === 'type' && value !== undefined) {
         // TODO: we are not distinguishing between the schemeregisterpropose
         // and SchemeRegistrarProposeToRemove proposals
-        if (value.toString().includes('SchemeRegistrar')) {
-          where += `schemeRegistrar_not: null\n`
-        } else {
-          if (IProposalType[value] === undefined) {
-            throw Error(`Unknown value for "type" in proposals query: ${value}`)
-          }
-          const apolloKey = IProposalType[value][0].toLowerCase() + IProposalType[value].slice(1)
-          where += `${apolloKey}_not: null\n`
+        const schemeType = schemeTypes.findByProposalType(value)
+        if (schemeType === undefined) {
+          throw Error(`Unknown value for "type" in proposals query: ${value}`)
         }
-      } else if (Array.isArray(options.where[key])) {
-        // Support for operators like _in
-        const values = options.where[key].map((val: number) => '"' + val + '"')
-        where += `${key}: [${values.join(',')}]\n`
+        const field = fragmentField(schemeType.proposalFragment as DocumentNode)
+        where[`${field}_not`] = null
       } else {
-        if (key === 'proposer' || key === 'beneficiary' || key === 'dao') {
-          const option = options.where[key] as string
-          isAddress(option)
-          where += `${key}: "${option.toLowerCase()}"\n`
-        } else {
-          where += `${key}: "${options.where[key]}"\n`
-        }
+        where[key] = value
       }
     }
+    const { args, declarations, variables } = createQueryArguments(
+      schema,
+      { ...options, orderBy: options.orderBy || orderBy, where }
+    )
     let query
 
     if (apolloQueryOptions.fetchAllData === true) {
-      query = gql`query ProposalsSearchAllData
+      query = gql`query ProposalsSearchAllData ${declarations}
         {
-          proposals ${createGraphQlQuery(options, where)} {
+          proposals ${args} {
             ...ProposalFields
             votes {
               id
@@ -319,12 +359,12 @@ export class Proposal implements IStateful<IProposalState> {
       return context.getObservableList(
         query,
         (r: any) => new Proposal(r, context),
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as IObservable<Proposal[]>
     } else {
-      query = gql`query ProposalSearchPartialData
+      query = gql`query ProposalSearchPartialData ${declarations}
         {
-          proposals ${createGraphQlQuery(options, where)} {
+          proposals ${args} {
             id
             dao {
               id
@@ -340,7 +380,7 @@ export class Proposal implements IStateful<IProposalState> {
       return context.getObservableList(
         query,
         (r: any) => new Proposal(r.id, context),
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as IObservable<Proposal[]>
     }
   }
@@ -412,123 +452,50 @@ export class Proposal implements IStateful<IProposalState> {
         return null
       }
 
-      let contributionReward: ContributionReward.IContributionReward | null = null
       let competition: ICompetitionProposalState | null = null
-      let type: IProposalType
-      let genericScheme: GenericScheme.IGenericScheme | null = null
-      let genericSchemeMultiCall: GenericSchemeMultiCall.IGenericSchemeMultiCall | null = null
-      let schemeRegistrar: SchemeRegistrar.ISchemeRegistrar | null = null
+      let type: IProposalType | undefined
       if (!!item.competition && !item.contributionReward) {
         throw Error(`Unexpected proposal state: competition is set, but contributionReward is not`)
       }
-      if (!!item.contributionReward) {
-        const ethRewardLeft = (
-          item.contributionReward.ethRewardLeft !== null &&
-          new BN(item.contributionReward.ethRewardLeft) ||
-          null
-        )
-        const externalTokenRewardLeft = (
-          item.contributionReward.externalTokenRewardLeft !== null &&
-          new BN(item.contributionReward.externalTokenRewardLeft) ||
-          null
-        )
-        const nativeTokenRewardLeft = (
-          item.contributionReward.nativeTokenRewardLeft !== null &&
-          new BN(item.contributionReward.nativeTokenRewardLeft) ||
-          null
-        )
-        const reputationChangeLeft = (
-          item.contributionReward.reputationChangeLeft !== null &&
-          new BN(item.contributionReward.reputationChangeLeft) ||
-          null
-        )
-
-        type = IProposalType.ContributionReward
-        contributionReward = {
-          alreadyRedeemedEthPeriods: Number(item.contributionReward.alreadyRedeemedEthPeriods),
-          alreadyRedeemedExternalTokenPeriods: Number(item.contributionReward.alreadyRedeemedExternalTokenPeriods),
-          alreadyRedeemedNativeTokenPeriods: Number(item.contributionReward.alreadyRedeemedNativeTokenPeriods),
-          alreadyRedeemedReputationPeriods: Number(item.contributionReward.alreadyRedeemedReputationPeriods),
-          beneficiary: item.contributionReward.beneficiary,
-          ethReward: new BN(item.contributionReward.ethReward),
-          ethRewardLeft,
-          externalToken: item.contributionReward.externalToken,
-          externalTokenReward: new BN(item.contributionReward.externalTokenReward),
-          externalTokenRewardLeft,
-          nativeTokenReward: new BN(item.contributionReward.nativeTokenReward),
-          nativeTokenRewardLeft,
-          periodLength: Number(item.contributionReward.periodLength),
-          periods: Number(item.contributionReward.periods),
-          reputationChangeLeft,
-          reputationReward: new BN(item.contributionReward.reputationReward)
+      // the data of the proposal in the scheme, by the field of the proposalFragment of its scheme type
+      const schemeProposals: { [field: string]: any } = {}
+      for (const schemeType of schemeTypes.list()) {
+        if (!schemeType.proposalFragment || !schemeType.mapProposal) {
+          continue
         }
-        if (!!item.competition) {
-          competition = {
-            admin: item.competition.admin,
-            contract: item.competition.contract,
-            createdAt: secondSinceEpochToDate(item.competition.createdAt),
-            endTime: secondSinceEpochToDate(item.competition.endTime),
-            id: item.competition.id,
-            numberOfVotesPerVoter: Number(item.competition.numberOfVotesPerVoters),
-            numberOfWinners: Number(item.competition.numberOfWinners),
-            numberOfWinningSuggestions: Number(item.competition.numberOfWinningSuggestions),
-            rewardSplit: item.competition.rewardSplit.map((perc: string) => Number(perc)),
-            snapshotBlock: item.competition.snapshotBlock,
-            startTime: secondSinceEpochToDate(item.competition.startTime),
-            suggestionsEndTime: secondSinceEpochToDate(item.competition.suggestionsEndTime),
-            totalSuggestions: Number(item.competition.totalSuggestions),
-            totalVotes: Number(item.competition.totalVotes),
-            votingStartTime: secondSinceEpochToDate(item.competition.votingStartTime)
-          }
-
-        }
-      } else if (item.genericScheme) {
-        type = IProposalType.GenericScheme
-        genericScheme = {
-          callData: item.genericScheme.callData,
-          contractToCall: item.genericScheme.contractToCall,
-          executed: item.genericScheme.executed,
-          id: item.genericScheme.id,
-          returnValue: item.genericScheme.returnValue,
-          value: new BN(item.genericScheme.value)
-        }
-      } else if (item.genericSchemeMultiCall) {
-        type = IProposalType.GenericSchemeMultiCall
-        genericSchemeMultiCall = {
-          callsData: item.genericSchemeMultiCall.callsData,
-          contractsToCall: item.genericSchemeMultiCall.contractsToCall,
-          executed: item.genericSchemeMultiCall.executed,
-          id: item.genericSchemeMultiCall.id,
-          returnValues: item.genericSchemeMultiCall.returnValues,
-          values: item.genericSchemeMultiCall.values
-        }
-      } else if (item.schemeRegistrar) {
-        if (item.schemeRegistrar.schemeToRegister) {
-          // TODO: this is failing bc of https://github.com/daostack/subgraph/issues/224
-          if (item.dao.schemes.map((s: any) => s.address.toLowerCase())
-            .includes(item.schemeRegistrar.schemeToRegister.toLowerCase())) {
-            type = IProposalType.SchemeRegistrarEdit
-          } else {
-            type = IProposalType.SchemeRegistrarAdd
-          }
-        } else if (item.schemeRegistrar.schemeToRemove) {
-          type = IProposalType.SchemeRegistrarRemove
-        } else {
-          throw Error(`Unknown proposal type: schemeRegistrar without a scheme to register or to remove`)
+        const field = fragmentField(schemeType.proposalFragment)
+        if (field in schemeProposals) {
+          continue
         }
-        schemeRegistrar = {
-          decision: item.schemeRegistrar.decision,
-          id: item.schemeRegistrar.id,
-          schemeRegistered: item.schemeRegistrar.schemeRegistered,
-          schemeRemoved: item.schemeRegistrar.schemeRemoved,
-          schemeToRegister: item.schemeRegistrar.schemeToRegister,
-          schemeToRegisterParamsHash: item.schemeRegistrar.schemeToRegisterParamsHash,
-          schemeToRegisterPermission: item.schemeRegistrar.schemeToRegisterPermission,
-          schemeToRemove: item.schemeRegistrar.schemeToRemove
+        schemeProposals[field] = null
+        if (item[field] && type === undefined) {
+          const mapped = schemeType.mapProposal(item[field], item)
+          schemeProposals[field] = mapped.state
+          type = mapped.type as IProposalType
         }
-      } else {
+      }
+      if (type === undefined) {
         throw Error(`Unknown proposal type or incomplete proposal data`)
       }
+      if (!!item.competition) {
+        competition = {
+          admin: item.competition.admin,
+          contract: item.competition.contract,
+          createdAt: secondSinceEpochToDate(item.competition.createdAt),
+          endTime: secondSinceEpochToDate(item.competition.endTime),
+          id: item.competition.id,
+          numberOfVotesPerVoter: Number(item.competition.numberOfVotesPerVoters),
+          numberOfWinners: Number(item.competition.numberOfWinners),
+          numberOfWinningSuggestions: Number(item.competition.numberOfWinningSuggestions),
+          rewardSplit: item.competition.rewardSplit.map((perc: string) => Number(perc)),
+          snapshotBlock: item.competition.snapshotBlock,
+          startTime: secondSinceEpochToDate(item.competition.startTime),
+          suggestionsEndTime: secondSinceEpochToDate(item.competition.suggestionsEndTime),
+          totalSuggestions: Number(item.competition.totalSuggestions),
+          totalVotes: Number(item.competition.totalVotes),
+          votingStartTime: secondSinceEpochToDate(item.competition.votingStartTime)
+        }
+      }
       // the  formule to enter into the preboosted state is:
       // (S+/S-) > AlphaConstant^NumberOfBoostedProposal.
       // (stakesFor/stakesAgainst) > gpQueue.threshold
@@ -597,12 +564,12 @@ export class Proposal implements IStateful<IProposalState> {
       }
 
       return {
+        ...(schemeProposals as IProposalSchemeStates),
         accountsWithUnclaimedRewards: item.accountsWithUnclaimedRewards,
         boostedAt: Number(item.boostedAt),
         closingAt: Number(item.closingAt),
         competition,
         confidenceThreshold: Number(item.confidenceThreshold),
-        contributionReward,
         createdAt: Number(item.createdAt),
         dao: new DAO(item.dao.id, this.context),
         description: item.description,
@@ -611,8 +578,6 @@ export class Proposal implements IStateful<IProposalState> {
         executedAt: Number(item.executedAt),
         executionState: IExecutionState[item.executionState] as any,
         expiresInQueueAt: Number(item.expiresInQueueAt),
-        genericScheme,
-        genericSchemeMultiCall,
         genesisProtocolParams: mapGenesisProtocolParams(item.genesisProtocolParams),
         id: item.id,
         organizationId: item.organizationId,
@@ -624,7 +589,6 @@ export class Proposal implements IStateful<IProposalState> {
         quietEndingPeriodBeganAt: Number(item.quietEndingPeriodBeganAt),
         resolvedAt: item.resolvedAt !== undefined ? Number(item.resolvedAt) : 0,
         scheme: schemeState,
-        schemeRegistrar,
         stage,
         stakesAgainst,
         stakesFor,
@@ -644,8 +608,14 @@ export class Proposal implements IStateful<IProposalState> {
       }
     }
 
-    const result = this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<IProposalState>
-    return result
+    return this.context.getObservableState(
+      apolloQueryOptions,
+      () => this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<IProposalState>,
+      async (blockNumber?: number) => {
+        const votingMachine = this.staticState ? this.staticState.votingMachine : undefined
+        return itemMap(await this.context.chainData.proposal(this.id, votingMachine, blockNumber)) as IProposalState
+      }
+    )
   }
 
   /**
@@ -658,11 +628,12 @@ export class Proposal implements IStateful<IProposalState> {
 
   /**
    * [votingMachine description]
+   * @param  [mode] 'readonly' for a contract that reads from `web3Read` (cf. [[Arc.getContract]])
    * @return a web3 Contract instance
    */
-  public async votingMachine() {
+  public async votingMachine(mode?: 'readonly') {
     const staticState = await this.fetchStaticState()
-    return this.context.getContract(staticState.votingMachine)
+    return this.context.getContract(staticState.votingMachine, undefined, mode)
   }
   /**
    * [redeemerContract description]
@@ -698,7 +669,7 @@ export class Proposal implements IStateful<IProposalState> {
    */
   public vote(outcome: IProposalOutcome, amount: number = 0): Operation<Vote | null> {
 
-    const mapReceipt = (receipt: any) => {
+    const mapReceipt = async (receipt: any) => {
       const event = receipt.events.VoteProposal
       if (!event) {
         // no vote was cast
@@ -706,15 +677,29 @@ export class Proposal implements IStateful<IProposalState> {
       }
 
       return new Vote({
-        amount: event.returnValues._reputation, // amount
-        // createdAt is "about now", but we cannot calculate the data that will be indexed by the subgraph
-        createdAt: 0, // createdAt -
+        amount: new BN(event.returnValues._reputation), // amount
+        createdAt: await this.blockTimestamp(receipt),
         outcome,
         proposal: this.id, // proposalID
         voter: event.returnValues._voter
       }, this.context)
     }
 
+    const optimisticUpdate = (receipt: any) => {
+      const event = receipt.events.VoteProposal
+      if (!event) {
+        return undefined
+      }
+      const reputation = new BN(event.returnValues._reputation)
+      const inFavour = Number(event.returnValues._vote) === IProposalOutcome.Pass
+      return this.optimisticUpdate(receipt, (proposal: any) => ({
+        ...proposal,
+        votes: [...proposal.votes, { __typename: 'ProposalVote', id: optimisticId(receipt, event) }],
+        votesAgainst: inFavour ? proposal.votesAgainst : addAmount(proposal.votesAgainst, reputation),
+        votesFor: inFavour ? addAmount(proposal.votesFor, reputation) : proposal.votesFor
+      }))
+    }
+
     const observable = from(this.votingMachine()).pipe(
       concatMap((votingMachine) => {
         const voteMethod = votingMachine.methods.vote(
@@ -728,12 +713,12 @@ export class Proposal implements IStateful<IProposalState> {
           const proposal = this
           const proposalDataFromVotingMachine = await votingMachine.methods.proposals(proposal.id).call()
           if (proposalDataFromVotingMachine.proposer === NULL_ADDRESS) {
-            return Error(`Error in vote(): unknown proposal with id ${proposal.id}`)
+            return new UnknownProposalError(proposal.id, `Error in vote(): unknown proposal with id ${proposal.id}`)
           }
 
           if (proposalDataFromVotingMachine.state === '2') {
             const msg = `Error in vote(): proposal ${proposal.id} already executed`
-            return Error(msg)
+            return new ProposalAlreadyExecutedError(proposal.id, msg)
           }
           // call the method, so we collect any errors from the EVM
           await voteMethod.call()
@@ -741,7 +726,10 @@ export class Proposal implements IStateful<IProposalState> {
           return error
         }
 
-        return this.context.sendTransaction(voteMethod, mapReceipt, errorHandler)
+        return this.context.optimisticUpdates.track(
+          this.context.sendTransaction<Vote | null>(voteMethod, mapReceipt, errorHandler),
+          optimisticUpdate
+        )
       })
     )
 
@@ -768,7 +756,7 @@ export class Proposal implements IStateful<IProposalState> {
     const observable = from(this.votingMachine()).pipe(
       concatMap((votingMachine) => {
 
-        const map = (receipt: any) => { // map extracts Stake instance from receipt
+        const map = async (receipt: any) => { // map extracts Stake instance from receipt
 
           const event = receipt.events.Stake
           if (!event) {
@@ -776,38 +764,56 @@ export class Proposal implements IStateful<IProposalState> {
             throw new Error(`Error staking: no "Stake" event was found - ${Object.keys(receipt.events)}`)
           }
           return new Stake({
-            amount: event.returnValues._reputation, // amount
-            // createdAt is "about now", but we cannot calculate the data that will be indexed by the subgraph
-            createdAt: undefined,
+            amount: new BN(event.returnValues._amount), // amount
+            createdAt: await this.blockTimestamp(receipt),
             outcome,
             proposal: this.id, // proposalID
             staker: event.returnValues._staker
           }, this.context)
         }
 
+        const optimisticUpdate = (receipt: any) => {
+          const event = receipt.events.Stake
+          if (!event) {
+            return undefined
+          }
+          const staked = new BN(event.returnValues._amount)
+          const inFavour = Number(event.returnValues._vote) === IProposalOutcome.Pass
+          return this.optimisticUpdate(receipt, (proposal: any) => ({
+            ...proposal,
+            stakes: [...proposal.stakes, { __typename: 'ProposalStake', id: optimisticId(receipt, event) }],
+            stakesAgainst: inFavour ? proposal.stakesAgainst : addAmount(proposal.stakesAgainst, staked),
+            stakesFor: inFavour ? addAmount(proposal.stakesFor, staked) : proposal.stakesFor
+          }))
+        }
+
         const errorHandler = async (error: Error) => {
           const proposal = this
-          const proposalState = await (await this.votingMachine()).methods.proposals(proposal.id).call()
+          const proposalState = await (await this.votingMachine('readonly')).methods.proposals(proposal.id).call()
           const stakingToken = this.stakingToken()
           if (proposalState.proposer === NULL_ADDRESS) {
-            return new Error(`Unknown proposal with id ${proposal.id}`)
+            return new UnknownProposalError(proposal.id)
           }
           // staker has sufficient balance
           const defaultAccount = await this.context.getAccount().pipe(first()).toPromise()
-          const balance = new BN(await stakingToken.contract().methods.balanceOf(defaultAccount).call())
+          const balance = new BN(await stakingToken.contract('readonly').methods.balanceOf(defaultAccount).call())
           const amountBN = new BN(amount)
           if (balance.lt(amountBN)) {
             const msg = `Staker ${defaultAccount} has insufficient balance to stake ${amount.toString()}
               (balance is ${balance.toString()})`
-            return new Error(msg)
+            return new InsufficientBalanceError(defaultAccount, amountBN, balance, msg)
           }
 
           // staker has approved the token spend
-          const allowance = new BN(await stakingToken.contract().methods.allowance(
+          const allowance = new BN(await stakingToken.contract('readonly').methods.allowance(
             defaultAccount, votingMachine.options.address
           ).call())
           if (allowance.lt(amountBN)) {
-            return new Error(
+            return new InsufficientAllowanceError(
+              defaultAccount,
+              votingMachine.options.address,
+              amountBN,
+              allowance,
               `Staker has insufficient allowance to stake ${amount.toString()}
                 (allowance for ${votingMachine.options.address} is ${allowance.toString()})`
             )
@@ -817,7 +823,7 @@ export class Proposal implements IStateful<IProposalState> {
           await stakeMethod.call()
           if (!!error.message.match(/event was found/)) {
             if (proposalState.state === IProposalStage.Boosted) {
-              return new Error(`Staking failed because the proposal is boosted`)
+              return new ProposalBoostedError(this.id, `Staking failed because the proposal is boosted`)
             }
           }
           // if we have found no known error, we return the original error
@@ -830,7 +836,10 @@ export class Proposal implements IStateful<IProposalState> {
           outcome, // a value between 0 to and the proposal number of choices.
           amount.toString() // the amount of tokens to stake
         )
-        return this.context.sendTransaction(stakeMethod, map, errorHandler)
+        return this.context.optimisticUpdates.track(
+          this.context.sendTransaction<Stake>(stakeMethod, map, errorHandler),
+          optimisticUpdate
+        )
       })
     )
 
@@ -890,7 +899,21 @@ export class Proposal implements IStateful<IProposalState> {
             beneficiary
           )
         }
-        return this.context.sendTransaction(transaction, () => true)
+        const optimisticUpdate = (receipt: any) => {
+          if (!this.redeemedGenesisProtocolRewards(receipt, state.votingMachine, beneficiary as Address)) {
+            return undefined
+          }
+          const account = (beneficiary as Address).toLowerCase()
+          return this.optimisticUpdate(receipt, (proposal: any) => ({
+            ...proposal,
+            accountsWithUnclaimedRewards: proposal.accountsWithUnclaimedRewards
+              .filter((a: Address) => a.toLowerCase() !== account)
+          }))
+        }
+        return this.context.optimisticUpdates.track(
+          this.context.sendTransaction(transaction, () => true),
+          optimisticUpdate
+        )
       })
     )
     return toIOperationObservable(observable)
@@ -935,10 +958,10 @@ export class Proposal implements IStateful<IProposalState> {
 
           if (proposalDataFromVotingMachine.callbacks === NULL_ADDRESS) {
             const msg = `Error in proposal.execute(): A proposal with id ${this.id} does not exist`
-            return Error(msg)
+            return new UnknownProposalError(this.id, msg)
           } else if (proposalDataFromVotingMachine.state === '2') {
             const msg = `Error in proposal.execute(): proposal ${this.id} already executed`
-            return Error(msg)
+            return new ProposalAlreadyExecutedError(this.id, msg)
           }
           await transaction.call()
           return err
@@ -967,7 +990,7 @@ export class Proposal implements IStateful<IProposalState> {
 
           if (proposalDataFromVotingMachine.callbacks === NULL_ADDRESS) {
             const msg = `Error in proposal.executeBoosted(): A proposal with id ${this.id} does not exist`
-            return Error(msg)
+            return new UnknownProposalError(this.id, msg)
           }
           console.log('accling...')
           await transaction.call()
@@ -979,35 +1002,121 @@ export class Proposal implements IStateful<IProposalState> {
     return toIOperationObservable(observable)
   }
 
+  private async blockTimestamp(receipt: any): Promise<number> {
+    const block = await this.context.web3.eth.getBlock(receipt.blockNumber)
+    return Number(block.timestamp)
+  }
+
+  /**
+   * the changes of the state of this proposal after a transaction, which are written to the cache until
+   * the subgraph has indexed the transaction (cf. [[OptimisticUpdates]])
+   */
+  private optimisticUpdate(receipt: any, update: (proposal: any) => any): IOptimisticUpdate {
+    return {
+      blockNumber: receipt.blockNumber,
+      dataId: `Proposal:${this.id}`,
+      fragment: OPTIMISTIC_FIELDS,
+      id: receipt.transactionHash,
+      query: gql`query ProposalOptimisticFields {
+        proposal(id: "${this.id}") {
+          ...ProposalOptimisticFields
+        }
+      }
+      ${OPTIMISTIC_FIELDS}`,
+      update
+    }
+  }
+
+  /**
+   * @return true if the transaction redeemed rewards of the GenesisProtocol for the beneficiary
+   */
+  private redeemedGenesisProtocolRewards(receipt: any, votingMachine: Address, beneficiary: Address): boolean {
+    if (beneficiary === NULL_ADDRESS || !Array.isArray(receipt.logs)) {
+      return false
+    }
+    const abi = this.context.web3.eth.abi
+    const topics = [
+      'Redeem(bytes32,address,address,uint256)',
+      'RedeemDaoBounty(bytes32,address,address,uint256)',
+      'RedeemReputation(bytes32,address,address,uint256)'
+    ].map((signature: string) => abi.encodeEventSignature(signature))
+    const beneficiaryTopic = abi.encodeParameter('address', beneficiary)
+    // the proposal and the beneficiary are indexed parameters of the events
+    return receipt.logs.some((log: any) =>
+      log.address.toLowerCase() === votingMachine.toLowerCase() &&
+      topics.indexOf(log.topics[0]) > -1 &&
+      log.topics[1] === this.id &&
+      log.topics[3] === beneficiaryTopic
+    )
+  }
+}
+
+// the fields of a proposal that change with votes, stakes and redemptions
+const OPTIMISTIC_FIELDS = gql`fragment ProposalOptimisticFields on Proposal {
+  id
+  accountsWithUnclaimedRewards
+  stakes { id }
+  stakesAgainst
+  stakesFor
+  votes { id }
+  votesAgainst
+  votesFor
+}`
+
+function addAmount(value: string, amount: BN): string {
+  return new BN(value).add(amount).toString()
 }
 
-enum ProposalQuerySortOptions {
-  resolvesAt = 'resolvesAt',
-  preBoostedAt = 'preBoostedAt'
+// the id of a vote or stake that is not indexed yet. The subgraph derives the id from the log,
+// but only the number of votes and stakes of the proposal is used
+function optimisticId(receipt: any, event: any): string {
+  return `${receipt.transactionHash}-${event.logIndex}`
+}
+
+export interface IProposalWhere {
+  accountsWithUnclaimedRewards_contains?: Address[]
+  competition?: string
+  competition_not?: string | null
+  createdAt_gt?: Date
+  createdAt_gte?: Date
+  createdAt_lt?: Date
+  createdAt_lte?: Date
+  dao?: Address
+  dao_in?: Address[]
+  expiresInQueueAt?: Date
+  expiresInQueueAt_gte?: Date
+  expiresInQueueAt_lte?: Date
+  expiresInQueueAt_gt?: Date
+  expiresInQueueAt_lt?: Date
+  executedAfter?: Date
+  executedBefore?: Date
+  id?: string
+  id_in?: string[]
+  proposer?: Address
+  proposer_in?: Address[]
+  stage?: IProposalStage
+  stage_in?: IProposalStage[]
+  scheme?: string
+  scheme_in?: string[]
+  tags_contains?: string[]
+  title?: string
+  title_contains?: string
+  type?: IProposalType
+  /**
+   * @deprecated use `stage_in`; `active: true` is the same as
+   * `stage_in: [Queued, PreBoosted, Boosted, QuietEndingPeriod]`
+   */
+  active?: boolean
+  /** @deprecated use `stage_in: [Boosted, QuietEndingPeriod]` */
+  boosted?: boolean
+  /** @deprecated use `id` */
+  proposalId?: string
+  /** @deprecated use the `orderBy` of the IProposalQueryOptions */
+  orderBy?: string
 }
 
 export interface IProposalQueryOptions extends ICommonQueryOptions {
-  where?: {
-    accountsWithUnclaimedRewards_contains?: Address[]
-    active?: boolean
-    boosted?: boolean
-    dao?: Address
-    expiresInQueueAt?: Date
-    expiresInQueueAt_gte?: Date
-    expiresInQueueAt_lte?: Date
-    expiresInQueueAt_gt?: Date
-    executedAfter?: Date
-    executedBefore?: Date
-    id?: string
-    proposer?: Address
-    proposalId?: string
-    stage?: IProposalStage
-    stage_in?: IProposalStage[]
-    scheme?: Address
-    orderBy?: ProposalQuerySortOptions
-    type?: IProposalType
-    [key: string]: any | undefined
-  }
+  where?: IProposalWhere
 }
 
 export interface IProposalBaseCreateOptions {
@@ -1022,11 +1131,22 @@ export interface IProposalBaseCreateOptions {
   proposalType?: string
 }
 
+/**
+ * The options to create a proposal in the scheme types, by the field of their `proposalFragment`
+ */
+export interface IProposalCreateOptionsByScheme {
+  contributionReward: ContributionReward.IProposalCreateOptionsCR
+  genericScheme: GenericScheme.IProposalCreateOptionsGS
+  genericSchemeMultiCall: GenericSchemeMultiCall.IProposalCreateOptionsGSMultiCall
+  globalConstraintRegistrar: GlobalConstraintRegistrar.IProposalCreateOptionsGlobalConstraintRegistrar
+  schemeRegistrar: SchemeRegistrar.IProposalCreateOptionsSR
+  signalScheme: SignalScheme.IProposalCreateOptionsSignal
+  upgradeScheme: UpgradeScheme.IProposalCreateOptionsUpgradeScheme
+  voteInOrganization: VoteInOrganizationScheme.IProposalCreateOptionsVoteInOrganization
+}
+
 export type IProposalCreateOptions = (
-  (IProposalBaseCreateOptions & GenericScheme.IProposalCreateOptionsGS) |
-  (IProposalBaseCreateOptions & GenericSchemeMultiCall.IProposalCreateOptionsGSMultiCall) |
-  (IProposalBaseCreateOptions & SchemeRegistrar.IProposalCreateOptionsSR) |
-  (IProposalBaseCreateOptions & ContributionReward.IProposalCreateOptionsCR) |
+  (IProposalBaseCreateOptions & IProposalCreateOptionsByScheme[keyof IProposalCreateOptionsByScheme]) |
   (ContributionRewardExt.IProposalCreateOptionsContributionRewardExt) |
   (IProposalCreateOptionsCompetition)
 )
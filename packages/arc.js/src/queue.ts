@@ -5,7 +5,8 @@ import { Arc, IApolloQueryOptions } from './arc'
 import { DAO } from './dao'
 import { ISchemeState, Scheme } from './scheme'
 import { Address, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery, isAddress, realMathToNumber } from './utils'
+import { realMathToNumber } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IQueueStaticState {
   dao: DAO
@@ -19,16 +20,29 @@ export interface IQueueState extends IQueueStaticState {
   votingMachine: Address
 }
 
+export interface IQueueWhere {
+  dao?: Address,
+  dao_in?: Address[],
+  votingMachine?: Address
+  scheme?: string
+  scheme_in?: string[]
+}
+
 export interface IQueueQueryOptions extends ICommonQueryOptions {
-  where?: {
-    dao?: Address,
-    votingMachine?: Address
-    scheme?: Address
-    [key: string]: any
-  }
+  where?: IQueueWhere
 }
 
 export class Queue implements IStateful<IQueueState> {
+  public static schema: IEntitySchema = {
+    fields: {
+      dao: 'address',
+      id: 'id',
+      scheme: 'id',
+      threshold: 'bigint',
+      votingMachine: 'address'
+    },
+    name: 'GPQueue'
+  }
 
   /**
    * Queue.search(context, options) searches for queue entities
@@ -41,26 +55,11 @@ export class Queue implements IStateful<IQueueState> {
     options: IQueueQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
 ): Observable<Queue[]> {
-    if (!options.where) { options.where = {}}
-    let where = ''
-    for (const key of Object.keys(options.where)) {
-      if (options[key] === undefined) {
-        continue
-      }
-
-      if (key === 'dao' || key === 'votingMaching' || key === 'scheme') {
-        const option = options[key] as string
-        isAddress(option)
-        options[key] = option.toLowerCase()
-      }
-
-      where += `${key}: "${options[key] as string}"\n`
-    }
-
+    const { args, declarations, variables } = createQueryArguments(Queue.schema, options)
     // use the following query once https://github.com/daostack/subgraph/issues/217 is resolved
-    const query = gql`query QueueSearch
+    const query = gql`query QueueSearch ${declarations}
       {
-        gpqueues ${createGraphQlQuery(options, where)} {
+        gpqueues ${args} {
           id
           dao {
             id
@@ -86,7 +85,7 @@ export class Queue implements IStateful<IQueueState> {
       )
     }
 
-    return context.getObservableList(query, itemMap, apolloQueryOptions) as Observable<Queue[]>
+    return context.getObservableList(query, itemMap, { ...apolloQueryOptions, variables }) as Observable<Queue[]>
   }
 
   constructor(
@@ -6,7 +6,8 @@ import { map } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { REPUTATION_CONTRACT_VERSION } from './settings'
 import { Address, ICommonQueryOptions, IStateful, Web3Receipt } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
+import { isAddress } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IReputationState {
   address: Address
@@ -14,13 +15,25 @@ export interface IReputationState {
   dao: Address
 }
 
-export interface IReputationQueryOptions extends ICommonQueryOptions {
-  id?: string
+export interface IReputationWhere {
+  id?: Address
+  id_in?: Address[]
   dao?: Address
-  [key: string]: any
+}
+
+export interface IReputationQueryOptions extends ICommonQueryOptions {
+  where?: IReputationWhere
 }
 
 export class Reputation implements IStateful<IReputationState> {
+  public static schema: IEntitySchema = {
+    fields: {
+      dao: 'address',
+      id: 'address',
+      totalSupply: 'bigint'
+    },
+    name: 'Rep'
+  }
 
   /**
    * Reputation.search(context, options) searches for reputation entities
@@ -33,25 +46,10 @@ export class Reputation implements IStateful<IReputationState> {
     options: IReputationQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<Reputation[]> {
-    let where = ''
-    if (!options.where) { options.where = {}}
-    for (const key of Object.keys(options.where)) {
-      if (options[key] === undefined) {
-        continue
-      }
-
-      if (key === 'dao') {
-        const option = options[key] as string
-        isAddress(option)
-        options[key] = option.toLowerCase()
-      }
-
-      where += `${key}: "${options[key] as string}"\n`
-    }
-
-    const query = gql`query ReputationSearch {
+    const { args, declarations, variables } = createQueryArguments(Reputation.schema, options)
+    const query = gql`query ReputationSearch ${declarations} {
       reps
-      ${createGraphQlQuery(options, where)}
+      ${args}
       {
         id
       }
@@ -60,7 +58,7 @@ export class Reputation implements IStateful<IReputationState> {
     return context.getObservableList(
       query,
       (r: any) => new Reputation(r.id, context),
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     )
   }
 
@@ -4,7 +4,7 @@ import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { Address, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IRewardStaticState {
   id: string,
@@ -25,16 +25,21 @@ export interface IRewardState extends IRewardStaticState {
   daoBountyForStakerRedeemedAt: number
 }
 
+export interface IRewardWhere {
+  id?: string,
+  id_in?: string[],
+  beneficiary?: Address,
+  beneficiary_in?: Address[],
+  dao?: Address,
+  proposal?: string,
+  createdAtAfter?: Date,
+  createdAtBefore?: Date,
+  createdAt_gt?: Date,
+  createdAt_lt?: Date
+}
+
 export interface IRewardQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string,
-    beneficiary?: Address,
-    dao?: Address,
-    proposal?: string,
-    createdAtAfter?: Date,
-    createdAtBefore?: Date,
-    [key: string]: any
-  }
+  where?: IRewardWhere
 }
 
 export class Reward implements IStateful<IRewardState> {
@@ -62,6 +67,22 @@ export class Reward implements IStateful<IRewardState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      beneficiary: 'address',
+      createdAt: 'bigint',
+      dao: 'address',
+      daoBountyForStakerRedeemedAt: 'bigint',
+      id: 'id',
+      proposal: 'id',
+      reputationForProposerRedeemedAt: 'bigint',
+      reputationForVoterRedeemedAt: 'bigint',
+      tokenAddress: 'address',
+      tokensForStakerRedeemedAt: 'bigint'
+    },
+    name: 'GPReward'
+  }
+
   /**
    * Reward.search(context, options) searches for reward entities
    * @param  context an Arc instance that provides connection information
@@ -73,29 +94,20 @@ export class Reward implements IStateful<IRewardState> {
     options: IRewardQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<Reward[]> {
-    let where = ''
-    if (!options.where) { options.where = {}}
-
-    const proposalId = options.where.proposal
-    // if we are searching for stakes on a specific proposal (a common case), we
-    // will structure the query so that stakes are stored in the cache together wit the proposal
-    if (proposalId) {
-      delete options.where.proposal
+    // if we are searching for rewards of a specific proposal (a common case), we
+    // will structure the query so that the rewards are stored in the cache together with the proposal
+    const { proposal: proposalId, createdAtAfter, createdAtBefore, ...where } = options.where || {} as IRewardWhere
+    if (createdAtAfter !== undefined) {
+      where.createdAt_gt = createdAtAfter
     }
-
-    for (const key of Object.keys(options.where)) {
-      if (options.where[key] === undefined) {
-        continue
-      }
-
-      if (key === 'beneficiary' || key === 'dao') {
-        const option = options.where[key] as string
-        isAddress(option)
-        options.where[key] = option.toLowerCase()
-      }
-
-      where += `${key}: "${options.where[key] as string}"\n`
+    if (createdAtBefore !== undefined) {
+      where.createdAt_lt = createdAtBefore
     }
+    const { args, declarations, variables } = createQueryArguments(
+      Reward.schema,
+      { ...options, where },
+      proposalId ? { proposalId: { type: 'ID!', value: proposalId } } : {}
+    )
 
     const itemMap = (item: any) => new Reward({
       beneficiary: item.beneficiary,
@@ -111,11 +123,11 @@ export class Reward implements IStateful<IRewardState> {
 
     let query
     if (proposalId) {
-      query = gql`query RewardSearchFromProposal
+      query = gql`query RewardSearchFromProposal ${declarations}
       {
-        proposal (id: "${proposalId}") {
+        proposal (id: $proposalId) {
           id
-          gpRewards ${createGraphQlQuery(options, where)} {
+          gpRewards ${args} {
             ...RewardFields
           }
         }
@@ -131,12 +143,12 @@ export class Reward implements IStateful<IRewardState> {
           const rewards = r.gpRewards
           return rewards.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Reward[]>
     } else {
-      query = gql`query RewardSearch
+      query = gql`query RewardSearch ${declarations}
       {
-        gprewards ${createGraphQlQuery(options, where)} {
+        gprewards ${args} {
           ...RewardFields
         }
       }
@@ -147,7 +159,7 @@ export class Reward implements IStateful<IRewardState> {
     return context.getObservableList(
       query,
       itemMap,
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     ) as Observable<Reward[]>
   }
 
@@ -2,24 +2,21 @@ import gql from 'graphql-tag'
 import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
-import { mapGenesisProtocolParams } from './genesisProtocol'
+import { ArcError } from './errors'
 import { Operation, toIOperationObservable } from './operation'
 import { IProposalCreateOptions, IProposalQueryOptions, Proposal } from './proposal'
+import { Auction4ReputationScheme } from './schemes/auction4rep'
 import { ISchemeQueryOptions, ISchemeState, ISchemeStaticState, SchemeBase } from './schemes/base'
 import { CL4RScheme } from './schemes/cl4rep'
 import { CompetitionScheme, isCompetitionScheme } from './schemes/competition'
 import * as Competition from './schemes/competition'
-import * as ContributionReward from './schemes/contributionReward'
-import * as ContributionRewardExt from './schemes/contributionRewardExt'
-import * as GenericScheme from './schemes/genericScheme'
-import * as GenericSchemeMultiCall from './schemes/genericSchemeMultiCall'
+import { LOCKING4REPUTATION_SCHEMES, Locking4ReputationScheme } from './schemes/locking4rep'
 import { ReputationFromTokenScheme } from './schemes/reputationFromToken'
-import * as SchemeRegistrar from './schemes/schemeRegistrar'
-import * as UGenericScheme from './schemes/uGenericScheme'
+import { fragmentField, schemeTypes } from './schemeTypes'
 import { Address } from './types'
-import { createGraphQlQuery } from './utils'
+import { createQueryArguments } from './where'
 
-export { ISchemeQueryOptions, ISchemeState, ISchemeStaticState } from './schemes/base'
+export { ISchemeQueryOptions, ISchemeState, ISchemeStaticState, ISchemeWhere } from './schemes/base'
 
 /**
  * A Scheme represents a scheme instance that is registered at a DAO
@@ -37,18 +34,26 @@ export class Scheme extends SchemeBase  {
     options: ISchemeQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<Array<Scheme | CompetitionScheme>> {
+    // the parameters of the registered scheme types can be filtered on as well
+    const schema = { ...Scheme.schema, fields: { ...Scheme.schema.fields } }
+    for (const schemeType of schemeTypes.list()) {
+      if (schemeType.paramsFragment) {
+        schema.fields[fragmentField(schemeType.paramsFragment)] = 'id'
+      }
+    }
+    const { args, declarations, variables } = createQueryArguments(schema, options)
     let query
     if (apolloQueryOptions.fetchAllData === true) {
-      query = gql`query SchemeSearchAllData {
-        controllerSchemes ${createGraphQlQuery(options)}
+      query = gql`query SchemeSearchAllData ${declarations} {
+        controllerSchemes ${args}
         {
           ...SchemeFields
         }
       }
       ${SchemeBase.fragments.SchemeFields}`
     } else {
-      query = gql`query SchemeSearch {
-        controllerSchemes ${createGraphQlQuery(options)}
+      query = gql`query SchemeSearch ${declarations} {
+        controllerSchemes ${args}
         {
             id
             address
@@ -91,7 +96,7 @@ export class Scheme extends SchemeBase  {
     return context.getObservableList(
       query,
       itemMap,
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     ) as Observable<Scheme[]>
   }
 
@@ -122,52 +127,26 @@ export class Scheme extends SchemeBase  {
         }
       }
     }
-    const uGenericSchemeParams = item.uGenericSchemeParams && {
-      contractToCall: item.uGenericSchemeParams.contractToCall,
-      voteParams: mapGenesisProtocolParams(item.uGenericSchemeParams.voteParams),
-      votingMachine: item.uGenericSchemeParams.votingMachine
-    }
-    const contributionRewardParams = item.contributionRewardParams && {
-      voteParams: mapGenesisProtocolParams(item.contributionRewardParams.voteParams),
-      votingMachine: item.contributionRewardParams.votingMachine
-    }
-    const contributionRewardExtParams = item.contributionRewardExtParams && {
-      rewarder: item.contributionRewardExtParams.rewarder,
-      voteParams: mapGenesisProtocolParams(item.contributionRewardExtParams.voteParams),
-      votingMachine: item.contributionRewardExtParams.votingMachine
-    }
-    const schemeRegistrarParams = item.schemeRegistrarParams && {
-      voteRegisterParams: mapGenesisProtocolParams(item.schemeRegistrarParams.voteRegisterParams),
-      voteRemoveParams: mapGenesisProtocolParams(item.schemeRegistrarParams.voteRemoveParams),
-      votingMachine: item.schemeRegistrarParams.votingMachine
-    }
-    const genericSchemeParams = item.genericSchemeParams  && {
-      contractToCall: item.genericSchemeParams.contractToCall,
-      voteParams: mapGenesisProtocolParams(item.genericSchemeParams.voteParams),
-      votingMachine: item.genericSchemeParams.votingMachine
-    }
-    const genericSchemeMultiCallParams = item.genericSchemeMultiCallParams  && {
-      contractToCall: item.genericSchemeMultiCallParams.contractsToCall,
-      contractsWhiteList: item.genericSchemeMultiCallParams.contractsWhiteList,
-      schemeConstraints: item.genericSchemeMultiCallParams.schemeConstraints,
-      voteParams: mapGenesisProtocolParams(item.genericSchemeMultiCallParams.voteParams),
-      votingMachine: item.genericSchemeMultiCallParams.votingMachine
+    // the parameters of each scheme type, by the field of its paramsFragment
+    const params: { [field: string]: any } = {}
+    for (const schemeType of schemeTypes.list()) {
+      if (!schemeType.paramsFragment || !schemeType.mapParams) {
+        continue
+      }
+      const field = fragmentField(schemeType.paramsFragment)
+      if (!(field in params)) {
+        params[field] = item[field] && schemeType.mapParams(item[field])
+      }
     }
-    const schemeParams = (
-      uGenericSchemeParams || contributionRewardParams ||
-      schemeRegistrarParams || genericSchemeParams || genericSchemeMultiCallParams || contributionRewardExtParams
-    )
+    const schemeParams = Object.values(params).find((value: any) => !!value)
     return {
+      ...params,
       address: item.address,
       canDelegateCall: item.canDelegateCall,
       canManageGlobalConstraints: item.canManageGlobalConstraints,
       canRegisterSchemes: item.canRegisterSchemes,
       canUpgradeController: item.canUpgradeController,
-      contributionRewardExtParams,
-      contributionRewardParams,
       dao: item.dao.id,
-      genericSchemeMultiCallParams,
-      genericSchemeParams,
       id: item.id,
       isRegistered: item.isRegistered,
       name,
@@ -176,8 +155,6 @@ export class Scheme extends SchemeBase  {
       numberOfQueuedProposals: Number(item.numberOfQueuedProposals),
       paramsHash: item.paramsHash,
       schemeParams,
-      schemeRegistrarParams,
-      uGenericSchemeParams,
       version: item.version
     }
   }
@@ -186,6 +163,8 @@ export class Scheme extends SchemeBase  {
   public staticState: ISchemeStaticState | null = null
   public ReputationFromToken: ReputationFromTokenScheme | null = null
   public CTL4R: CL4RScheme | null = null
+  public Auction4Reputation: Auction4ReputationScheme | null = null
+  public Locking4Reputation: Locking4ReputationScheme | null = null
 
   constructor(idOrOpts: Address | ISchemeStaticState, public context: Arc) {
     super(idOrOpts, context)
@@ -207,6 +186,12 @@ export class Scheme extends SchemeBase  {
     if (this.staticState.name ===  'ContinuousLocking4Reputation') {
       this.CTL4R = new CL4RScheme(this)
     }
+    if (this.staticState.name ===  'Auction4Reputation') {
+      this.Auction4Reputation = new Auction4ReputationScheme(this)
+    }
+    if (LOCKING4REPUTATION_SCHEMES.includes(this.staticState.name)) {
+      this.Locking4Reputation = new Locking4ReputationScheme(this)
+    }
   }
 
   /**
@@ -244,7 +229,17 @@ export class Scheme extends SchemeBase  {
       ${SchemeBase.fragments.SchemeFields}
     `
     const itemMap = (item: any) => Scheme.itemMap(item, this.context)
-    return this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<ISchemeState>
+    return this.context.getObservableState(
+      apolloQueryOptions,
+      () => this.context.getObservableObject(query, itemMap, apolloQueryOptions) as Observable<ISchemeState>,
+      async (blockNumber?: number) => {
+        if (!this.staticState) {
+          throw new ArcError(`The scheme ${this.id} can only be read from the chain if its address and dao are known`)
+        }
+        const { address, dao } = this.staticState
+        return itemMap(await this.context.chainData.scheme(dao, address, blockNumber)) as ISchemeState
+      }
+    )
   }
 
   /**
@@ -254,67 +249,22 @@ export class Scheme extends SchemeBase  {
    */
   public createProposal(options: IProposalCreateOptions): Operation<Proposal>  {
     const observable = Observable.create(async (observer: any) => {
-      let msg: string
-      const context = this.context
-      let createTransaction: () => any = () => null
-      let map: any
-      const state = await this.fetchStaticState()
-
-      switch (state.name) {
-        case 'ContributionReward':
-          createTransaction  = ContributionReward.createProposal(options, this.context)
-          map = ContributionReward.createTransactionMap(options, this.context)
-          break
-        case 'ContributionRewardExt':
-          // TODO: ContributionRewardExt can also be used to create a Competition proposal
-          // For now, we explicitly pass this in the options, but in reality (once 36-4 is released) we
-          // should be able to sniff this: if the rewarder of the scheme is a Contribution.sol instance....
-          if (options.proposalType === 'competition') {
-            const competitionScheme = new CompetitionScheme(this.id, this.context)
-            return competitionScheme.createProposal(options as Competition.IProposalCreateOptionsCompetition)
-            // createTransaction = competitionScheme.createProposal(options, this.context)
-            // map = Competition.createTransactionMap(options, this.context),
-            // errHandler = Competition.createProposalErrorHandler
-          } else {
-            createTransaction  = ContributionRewardExt.createProposal(options, this.context)
-            map = ContributionRewardExt.createTransactionMap(options, this.context)
-          }
-          break
-
-        case 'UGenericScheme':
-            createTransaction  = UGenericScheme.createTransaction(options, this.context)
-            map = UGenericScheme.createTransactionMap(options, this.context)
-            break
-
-        case 'GenericScheme':
-          const versionNumber = Number(state.version.split('rc.')[1])
-          if (versionNumber < 23) {
-            // the pre-24 " GenericScheme" contracts have beeen renamed to UGenericScheme
-            createTransaction  = UGenericScheme.createTransaction(options, this.context)
-            map = UGenericScheme.createTransactionMap(options, this.context)
-            break
-          } else {
-            createTransaction  = GenericScheme.createTransaction(options, this.context)
-            map = GenericScheme.createTransactionMap(options, this.context)
-            break
-          }
-        case 'GenericSchemeMultiCall':
-          createTransaction  = GenericSchemeMultiCall.createTransaction(options, this.context)
-          map = GenericSchemeMultiCall.createTransactionMap(options, this.context)
-          break
-
-        case 'SchemeRegistrar':
-          createTransaction  = SchemeRegistrar.createTransaction(options, this.context)
-          map = SchemeRegistrar.createTransactionMap(options, this.context)
-          break
-
-        default:
-          msg = `Unknown proposal scheme: '${state.name}'`
-          msg = `${state.name} ${state.name === 'ContributionRewardExt'}`
-          throw Error(msg)
+      let sendTransactionObservable: Observable<any>
+      try {
+        const state = await this.fetchStaticState()
+        const schemeType = schemeTypes.find(state.name, state.version)
+        if (!schemeType) {
+          throw new ArcError(`Unknown proposal scheme: '${state.name}' (version ${state.version})`)
+        }
+        sendTransactionObservable = this.context.sendTransaction(
+          schemeType.createTransaction(options, this.context, this),
+          schemeType.mapReceipt(options, this.context, this),
+          schemeType.errorHandler && schemeType.errorHandler(options, this.context, this)
+        )
+      } catch (err) {
+        observer.error(err)
+        return
       }
-
-      const sendTransactionObservable = context.sendTransaction(createTransaction, map)
       const sub = sendTransactionObservable.subscribe(observer)
 
       return () => sub.unsubscribe()
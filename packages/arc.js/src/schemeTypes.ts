@@ -0,0 +1,194 @@
+import { DocumentNode, FieldNode, FragmentDefinitionNode, print } from 'graphql'
+import gql from 'graphql-tag'
+import { Arc } from './arc'
+import { IChainProposalReader } from './chainDataProvider'
+import { ISchemeState, Scheme } from './scheme'
+import * as ContributionReward from './schemes/contributionReward'
+import * as ContributionRewardExt from './schemes/contributionRewardExt'
+import * as GenericScheme from './schemes/genericScheme'
+import * as GenericSchemeMultiCall from './schemes/genericSchemeMultiCall'
+import * as GlobalConstraintRegistrar from './schemes/globalConstraintRegistrar'
+import * as SchemeRegistrar from './schemes/schemeRegistrar'
+import * as SignalScheme from './schemes/signalScheme'
+import * as UGenericScheme from './schemes/uGenericScheme'
+import * as UpgradeScheme from './schemes/upgradeScheme'
+import * as VoteInOrganizationScheme from './schemes/voteInOrganizationScheme'
+import { IProposalCall } from './simulation'
+import { Address } from './types'
+
+/**
+ * Describes how proposals are created in a scheme contract, and how its parameters and proposals are
+ * read from the subgraph. The built-in types are those of the modules in `src/schemes`; other schemes can
+ * be supported with [[Arc.registerSchemeType]].
+ *
+ * The functions that create a proposal get the options that were passed to `createProposal` (the `dao`
+ * and the `scheme` address are filled in), and return the same as the arguments of [[Arc.sendTransaction]].
+ */
+export interface ISchemeType {
+  /** the name of the contract, as in `ControllerScheme.name` of the subgraph */
+  name: string
+  /** the versions of the contract that this type applies to (a list or a test). Default is all versions */
+  versions?: string[] | ((version: string) => boolean)
+  /**
+   * a fragment on `ControllerScheme` that selects one field with the parameters of the scheme,
+   * e.g. `fragment GenericSchemeParams on ControllerScheme { genericSchemeParams { ... } }`
+   */
+  paramsFragment?: DocumentNode
+  /** map the field of the `paramsFragment`, if it is set, to the value in the ISchemeState */
+  mapParams?: (params: any) => any
+  /** a fragment on `Proposal` that selects one field with the data of the proposals of the scheme */
+  proposalFragment?: DocumentNode
+  /**
+   * map the field of the `proposalFragment`, if it is set, to the value in the IProposalState and the type
+   * of the proposal. `proposal` is the whole proposal, as it is selected by `Proposal.fragments.ProposalFields`
+   */
+  mapProposal?: (data: any, proposal: any) => { state: any, type: string }
+  /** the types that `mapProposal` returns, to search for proposals by type */
+  proposalTypes?: string[]
+  /** return the function that creates the transaction that creates a proposal */
+  createTransaction: (options: any, context: Arc, scheme: Scheme) => () => Promise<any>
+  /** return the function that maps the receipt of the transaction to the result, usually a [[Proposal]] */
+  mapReceipt: (options: any, context: Arc, scheme: Scheme) => (receipt: any) => any
+  /** return a function that explains why the transaction failed */
+  errorHandler?: (options: any, context: Arc, scheme: Scheme) => ((err: Error) => Error | Promise<Error>) | undefined
+  /**
+   * return the calls that the avatar will make when a proposal with these options is executed,
+   * to simulate them (cf. [[Scheme.simulateProposal]])
+   */
+  proposalCalls?: (options: any, scheme: ISchemeState) => IProposalCall[]
+  /**
+   * read a proposal of the scheme from the chain, for when the subgraph is not used (cf. [[ChainDataProvider]]):
+   * return the `descriptionHash` and the field of the `proposalFragment`, as the subgraph would return it
+   */
+  readProposal?: (reader: IChainProposalReader) => Promise<{ descriptionHash: string, [field: string]: any }>
+  /**
+   * return true if the parameters of the scheme are valid (cf. [[Arc.verifyParametersHash]]);
+   * `validateVoteParams` checks the parameters of the votes in a GenesisProtocol
+   */
+  verifyParameters?: (
+    contract: any,
+    paramsHash: string,
+    validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+  ) => Promise<boolean>
+}
+
+/**
+ * The scheme types that Arc knows.
+ *
+ * The fragments of the types are part of `Scheme.fragments.SchemeFields` and `Proposal.fragments.ProposalFields`,
+ * which are shared by all Arc instances, and so are the registered types.
+ */
+export class SchemeTypes {
+  // the types that were registered besides the built-in ones
+  private types: ISchemeType[] = []
+  private fragments: { [name: string]: { revision: number, fragment: DocumentNode } } = {}
+  private revision = 0
+
+  /**
+   * Add a scheme type. A type that is registered later takes precedence over the earlier types (and the built-in
+   * ones) for the same name and version
+   */
+  public register(schemeType: ISchemeType): void {
+    this.types.push(schemeType)
+    this.revision++
+  }
+
+  /**
+   * @return the built-in and the registered types, the latest first
+   */
+  public list(): ISchemeType[] {
+    return [...builtInSchemeTypes(), ...this.types].reverse()
+  }
+
+  /**
+   * @return the type of the scheme contract with this name and version, or undefined if there is none
+   */
+  public find(name: string, version: string): ISchemeType | undefined {
+    return this.list().find((schemeType: ISchemeType) => {
+      if (schemeType.name !== name) {
+        return false
+      }
+      if (Array.isArray(schemeType.versions)) {
+        return schemeType.versions.includes(version)
+      }
+      return !schemeType.versions || schemeType.versions(version)
+    })
+  }
+
+  /**
+   * @return the type whose proposals are of this proposal type, e.g. `SchemeRegistrarAdd`
+   */
+  public findByProposalType(proposalType: string): ISchemeType | undefined {
+    return this.list().find((schemeType: ISchemeType) =>
+      !!schemeType.proposalFragment && (schemeType.proposalTypes || []).includes(proposalType)
+    )
+  }
+
+  /**
+   * A fragment with the given fields, and the fields of the `paramsFragment` or `proposalFragment` of all types
+   * @param  name          the name of the fragment, e.g. `SchemeFields`
+   * @param  typeCondition the entity of the fragment, e.g. `ControllerScheme`
+   * @param  fields        the selection of the fields that do not depend on the type
+   * @param  kind          which fragment of the types to add
+   */
+  public fragment(
+    name: string,
+    typeCondition: string,
+    fields: string,
+    kind: 'paramsFragment' | 'proposalFragment'
+  ): DocumentNode {
+    const cached = this.fragments[name]
+    if (cached && cached.revision === this.revision) {
+      return cached.fragment
+    }
+    const typeFragments: { [name: string]: DocumentNode } = {}
+    for (const schemeType of this.list()) {
+      const typeFragment = schemeType[kind]
+      if (typeFragment) {
+        typeFragments[fragmentName(typeFragment)] = typeFragments[fragmentName(typeFragment)] || typeFragment
+      }
+    }
+    const names = Object.keys(typeFragments)
+    const fragment = gql`fragment ${name} on ${typeCondition} {
+      ${fields}
+      ${names.map((typeFragmentName: string) => `...${typeFragmentName}`).join('\n')}
+    }
+    ${names.map((typeFragmentName: string) => print(typeFragments[typeFragmentName])).join('\n')}`
+    this.fragments[name] = { fragment, revision: this.revision }
+    return fragment
+  }
+}
+
+/**
+ * @return the name of the field that a `paramsFragment` or `proposalFragment` selects
+ */
+export function fragmentField(fragment: DocumentNode): string {
+  const definition = fragment.definitions[0] as FragmentDefinitionNode
+  return (definition.selectionSet.selections[0] as FieldNode).name.value
+}
+
+function fragmentName(fragment: DocumentNode): string {
+  return (fragment.definitions[0] as FragmentDefinitionNode).name.value
+}
+
+// the built-in types are read when they are used, so that it does not matter which module is imported first
+function builtInSchemeTypes(): ISchemeType[] {
+  return [
+    ContributionReward.schemeType,
+    ContributionRewardExt.schemeType,
+    GenericScheme.schemeType,
+    GenericSchemeMultiCall.schemeType,
+    GlobalConstraintRegistrar.schemeType,
+    SchemeRegistrar.schemeType,
+    SignalScheme.schemeType,
+    UGenericScheme.schemeType,
+    UGenericScheme.legacyGenericSchemeType,
+    UpgradeScheme.schemeType,
+    VoteInOrganizationScheme.schemeType
+  ]
+}
+
+/**
+ * The scheme types of all Arc instances
+ */
+export const schemeTypes = new SchemeTypes()
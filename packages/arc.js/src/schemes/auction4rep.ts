@@ -0,0 +1,143 @@
+import BN = require('bn.js')
+import { from } from 'rxjs'
+import { concatMap } from 'rxjs/operators'
+
+import {
+  Operation,
+  toIOperationObservable
+} from '../operation'
+
+import { Address } from '../types'
+
+import { Scheme } from '../scheme'
+import { ISchemeStaticState } from './base'
+
+/**
+ * Auction4Reputation sells reputation in a series of auctions: the reputation of each auction
+ * is divided between its bidders in proportion to the tokens that they bid
+ */
+export class Auction4ReputationScheme {
+
+  constructor(public scheme: Scheme) {
+
+  }
+
+  public async getAgreementHash(): Promise<string> {
+    const contract = await this.getContract('readonly')
+    const result = await contract.methods.getAgreementHash().call()
+    return result
+  }
+
+  /**
+   * the amount of tokens that a bidder bid in an auction
+   * @param  bidder
+   * @param  auctionId
+   */
+  public async getBid(bidder: Address, auctionId: number): Promise<BN> {
+    const contract = await this.getContract('readonly')
+    return new BN(await contract.methods.getBid(bidder, auctionId).call())
+  }
+
+  /**
+   * the total amount of tokens that were bid in an auction
+   * @param  auctionId
+   */
+  public async getAuctionTotalBid(auctionId: number): Promise<BN> {
+    const contract = await this.getContract('readonly')
+    return new BN(await contract.methods.auctions(auctionId).call())
+  }
+
+  /**
+   * the reputation that a beneficiary can redeem for an auction; this reverts if the auction has not
+   * ended, if redeeming is not enabled yet, or if the beneficiary has nothing to redeem
+   * @param  beneficiary
+   * @param  auctionId
+   */
+  public async getRedeemableReputation(beneficiary: Address, auctionId: number): Promise<BN> {
+    const contract = await this.getContract('readonly')
+    return new BN(await contract.methods.redeem(beneficiary, auctionId).call())
+  }
+
+  /**
+   * bid in the auction that is running now - the scheme must be allowed to transfer the amount of tokens
+   * @param  amount the amount of tokens to bid
+   * @param  auctionId the auction that is running now
+   * @param  agreementHash the agreement hash of the scheme (ignored by contracts older than 0.0.1-rc.17)
+   */
+  public bid(amount: BN, auctionId: number, agreementHash?: string): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        let transaction: any
+        if (this.hasAgreementHash()) {
+          if (!agreementHash) {
+            throw Error(`For Auction4Reputation version > rc.16, an "agreementHash" argument must be provided`)
+          }
+          transaction = contract.methods.bid(amount, auctionId, agreementHash)
+        } else {
+          transaction = contract.methods.bid(amount, auctionId)
+        }
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call()
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable)
+  }
+
+  /**
+   * redeem the reputation of a beneficiary for an auction
+   * @param  beneficiary
+   * @param  auctionId
+   */
+  public redeem(beneficiary: Address, auctionId: number): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        const transaction = contract.methods.redeem(beneficiary, auctionId)
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call()
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable)
+  }
+
+  public async getContract(mode?: 'readonly') {
+    const state = await this.scheme.fetchStaticState()
+    const contract = this.scheme.context.getContract(state.address, undefined, mode)
+    return contract
+  }
+
+  public getScheme() {
+    return this.scheme
+  }
+
+  /**
+   * the agreement hash was added in 0.0.1-rc.17
+   */
+  private hasAgreementHash(): boolean {
+    const version = (this.scheme.staticState as ISchemeStaticState).version
+    return !version || Number(version.split('rc.')[1]) > 16
+  }
+}
@@ -1,15 +1,25 @@
-import gql from 'graphql-tag'
+import { DocumentNode } from 'graphql'
 import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from '../arc'
+import { ArcError } from '../errors'
 import { IGenesisProtocolParams } from '../genesisProtocol'
 import { Operation, toIOperationObservable } from '../operation'
 import {
   IProposalCreateOptions,
   IProposalQueryOptions, Proposal } from '../proposal'
+import { schemeTypes } from '../schemeTypes'
+import { IProposalSimulation, simulateCalls } from '../simulation'
 import { Address, ICommonQueryOptions, IStateful } from '../types'
+import { IEntitySchema } from '../where'
+import { Auction4ReputationScheme } from './auction4rep'
 import { CL4RScheme } from './cl4rep'
+import { IGlobalConstraintRegistrarParams } from './globalConstraintRegistrar'
+import { LOCKING4REPUTATION_SCHEMES, Locking4ReputationScheme } from './locking4rep'
 import { ReputationFromTokenScheme } from './reputationFromToken'
+import { ISignalSchemeParams } from './signalScheme'
+import { IUpgradeSchemeParams } from './upgradeScheme'
+import { IVoteInOrganizationParams } from './voteInOrganizationScheme'
 
 export interface ISchemeStaticState {
   id: string
@@ -41,8 +51,28 @@ export interface ISchemeState extends ISchemeStaticState {
   numberOfPreBoostedProposals: number
   numberOfBoostedProposals: number
   uGenericSchemeParams?: IGenericSchemeParams
-  schemeParams?: IGenericSchemeParams | IGenericSchemeMultiCallParams | IContributionRewardParams
-  | IContributionRewardExtParams | ISchemeRegisterParams
+  globalConstraintRegistrarParams?: IGlobalConstraintRegistrarParams
+  signalSchemeParams?: ISignalSchemeParams
+  upgradeSchemeParams?: IUpgradeSchemeParams
+  voteInOrganizationParams?: IVoteInOrganizationParams
+  /** the parameters of the scheme, whichever its type is */
+  schemeParams?: ISchemeParamsByScheme[keyof ISchemeParamsByScheme]
+}
+
+/**
+ * The parameters of the scheme types, by the field of their `paramsFragment`. A type that is registered with
+ * [[Arc.registerSchemeType]] can add its own (and the field of the ISchemeState) with a `declare module`
+ */
+export interface ISchemeParamsByScheme {
+  contributionRewardParams: IContributionRewardParams
+  contributionRewardExtParams: IContributionRewardExtParams
+  genericSchemeParams: IGenericSchemeParams
+  genericSchemeMultiCallParams: IGenericSchemeMultiCallParams
+  globalConstraintRegistrarParams: IGlobalConstraintRegistrarParams
+  schemeRegistrarParams: ISchemeRegisterParams
+  signalSchemeParams: ISignalSchemeParams
+  upgradeSchemeParams: IUpgradeSchemeParams
+  voteInOrganizationParams: IVoteInOrganizationParams
 }
 
 export interface IGenericSchemeParams {
@@ -74,20 +104,37 @@ export interface ISchemeRegisterParams {
   voteParams: IGenesisProtocolParams
 }
 
+export interface ISchemeWhere {
+  address?: Address
+  address_in?: Address[]
+  canDelegateCall?: boolean
+  canRegisterSchemes?: boolean
+  canUpgradeController?: boolean
+  canManageGlobalConstraints?: boolean
+  dao?: Address
+  dao_in?: Address[]
+  id?: string
+  id_in?: string[]
+  isRegistered?: boolean
+  name?: string
+  name_not?: string | null
+  name_in?: string[]
+  name_not_in?: string[]
+  paramsHash?: string
+  version?: string
+  /** the parameters of a scheme type, like `genericSchemeParams_not: null` for the generic schemes */
+  auction4ReputationParams_not?: string | null
+  contributionRewardExtParams_not?: string | null
+  contributionRewardParams_not?: string | null
+  genericSchemeParams_not?: string | null
+  genericSchemeParams_not_in?: string[]
+  locking4ReputationParams_not?: string | null
+  schemeRegistrarParams_not?: string | null
+  uGenericSchemeParams_not?: string | null
+}
+
 export interface ISchemeQueryOptions extends ICommonQueryOptions {
-  where?: {
-    address?: Address
-    canDelegateCall?: boolean
-    canRegisterSchemes?: boolean
-    canUpgradeController?: boolean
-    canManageGlobalConstraints?: boolean
-    dao?: Address
-    id?: string
-    isRegistered?: boolean
-    name?: string
-    paramsHash?: string
-    [key: string]: any
-  }
+  where?: ISchemeWhere
 }
 
 /**
@@ -95,161 +142,61 @@ export interface ISchemeQueryOptions extends ICommonQueryOptions {
  */
 export abstract class SchemeBase implements IStateful<ISchemeState> {
   public static fragments = {
-    SchemeFields: gql`
-    fragment SchemeFields on ControllerScheme {
-      id
-      address
-      name
-      dao { id }
-      canDelegateCall
-      canRegisterSchemes
-      canUpgradeController
-      canManageGlobalConstraints
-      isRegistered
-      paramsHash
-      contributionRewardParams {
+    /** the fields of a scheme, with the parameters of all scheme types (cf. [[ISchemeType]]) */
+    get SchemeFields(): DocumentNode {
+      return schemeTypes.fragment('SchemeFields', 'ControllerScheme', `
         id
-        votingMachine
-        voteParams {
-          id
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-      }
-      contributionRewardExtParams {
-        id
-        votingMachine
-        voteParams {
-          id
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-        rewarder
-      }
-      genericSchemeParams {
-        votingMachine
-        contractToCall
-        voteParams {
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-      }
-      genericSchemeMultiCallParams {
-        votingMachine
-        schemeConstraints
-        contractsWhiteList
-        voteParams {
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-      }
-      schemeRegistrarParams {
-        votingMachine
-        voteRemoveParams {
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-        voteRegisterParams {
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-      }
-      numberOfQueuedProposals
-      numberOfPreBoostedProposals
-      numberOfBoostedProposals
-      uGenericSchemeParams {
-        votingMachine
-        contractToCall
-        voteParams {
-          queuedVoteRequiredPercentage
-          queuedVotePeriodLimit
-          boostedVotePeriodLimit
-          preBoostedVotePeriodLimit
-          thresholdConst
-          limitExponentValue
-          quietEndingPeriod
-          proposingRepReward
-          votersReputationLossRatio
-          minimumDaoBounty
-          daoBountyConst
-          activationTime
-          voteOnBehalf
-        }
-      }
-      version
-    }`
+        address
+        name
+        dao { id }
+        canDelegateCall
+        canRegisterSchemes
+        canUpgradeController
+        canManageGlobalConstraints
+        isRegistered
+        paramsHash
+        numberOfQueuedProposals
+        numberOfPreBoostedProposals
+        numberOfBoostedProposals
+        version
+      `, 'paramsFragment')
+    }
+  }
+
+  public static schema: IEntitySchema = {
+    fields: {
+      address: 'address',
+      alias: 'string',
+      auction4ReputationParams: 'id',
+      canDelegateCall: 'boolean',
+      canManageGlobalConstraints: 'boolean',
+      canRegisterSchemes: 'boolean',
+      canUpgradeController: 'boolean',
+      continuousLocking4ReputationParams: 'id',
+      contributionRewardExtParams: 'id',
+      contributionRewardParams: 'id',
+      dao: 'address',
+      genericSchemeMultiCallParams: 'id',
+      genericSchemeParams: 'id',
+      gpQueue: 'id',
+      id: 'id',
+      isRegistered: 'boolean',
+      locking4ReputationParams: 'id',
+      name: 'string',
+      paramsHash: 'bytes',
+      schemeRegistrarParams: 'id',
+      uGenericSchemeParams: 'id',
+      version: 'string'
+    },
+    name: 'ControllerScheme'
   }
 
   public id: Address
   public staticState: ISchemeStaticState | null = null
   public ReputationFromToken: ReputationFromTokenScheme | null = null
   public CTL4R: CL4RScheme | null = null
+  public Auction4Reputation: Auction4ReputationScheme | null = null
+  public Locking4Reputation: Locking4ReputationScheme | null = null
 
   constructor(idOrOpts: Address | ISchemeStaticState, public context: Arc) {
     this.context = context
@@ -288,6 +235,12 @@ export abstract class SchemeBase implements IStateful<ISchemeState> {
       if (this.staticState.name ===  'ContinuousLocking4Reputation') {
         this.CTL4R = new CL4RScheme(this)
       }
+      if (this.staticState.name ===  'Auction4Reputation') {
+        this.Auction4Reputation = new Auction4ReputationScheme(this)
+      }
+      if (LOCKING4REPUTATION_SCHEMES.includes(this.staticState.name)) {
+        this.Locking4Reputation = new Locking4ReputationScheme(this)
+      }
       return state
     }
   }
@@ -333,6 +286,25 @@ export abstract class SchemeBase implements IStateful<ISchemeState> {
 
   public abstract state(apolloQueryOptions: IApolloQueryOptions): Observable < ISchemeState >
 
+  /**
+   * Make the calls that the avatar will make when a proposal with these options is executed, without
+   * creating the proposal, and report for each call whether it succeeds (cf. [[simulateCalls]]).
+   * Only the proposals of schemes whose type has `proposalCalls` (the GenericSchemes) can be simulated.
+   * @param  options the options of `createProposal`, e.g. `{ callData, value }` for a GenericScheme
+   * @return the result of each call
+   */
+  public async simulateProposal(options: IProposalCreateOptions): Promise<IProposalSimulation> {
+    const state = await this.state({ subscribe: false }).pipe(first()).toPromise()
+    if (!state) {
+      throw new ArcError(`No scheme with id ${this.id} was found`)
+    }
+    const schemeType = schemeTypes.find(state.name, state.version)
+    if (!schemeType || !schemeType.proposalCalls) {
+      throw new ArcError(`Proposals of the scheme ${state.name} cannot be simulated`)
+    }
+    return simulateCalls(this.context, state.dao, schemeType.proposalCalls(options, state))
+  }
+
   public proposals(
     options: IProposalQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
@@ -76,7 +76,7 @@ export class CL4RScheme {
   }
 
   public async getAgreementHash(): Promise<string> {
-    const contract = await this.getContract()
+    const contract = await this.getContract('readonly')
     const result = await contract.methods.getAgreementHash().call()
     return result
   }
@@ -86,7 +86,7 @@ export class CL4RScheme {
                                                 repuationRewardForPeriod: Decimal)
                                                 : Promise<Decimal> {
     let reputation = new Decimal('0')
-    const contract = await this.getContract()
+    const contract = await this.getContract('readonly')
     const lockingTotalScore = new Decimal(await contract.methods.batches(batchIndex).call())
 
     if (lockingTotalScore.isZero()) {
@@ -225,10 +225,10 @@ export class CL4RScheme {
       return toIOperationObservable(observable)
     }
 
-  public async getContract() {
+  public async getContract(mode?: 'readonly') {
     const address = await this.getContractAddress()
     await this.scheme.context.fetchContractInfos({fetchPolicy: 'network-only'})
-    const contract = this.scheme.context.getContract(address)
+    const contract = this.scheme.context.getContract(address, undefined, mode)
     return contract
   }
 
@@ -4,6 +4,7 @@ import { Observable } from 'rxjs'
 import { concatMap, first, map } from 'rxjs/operators'
 import { Arc } from '../arc'
 import { DAO } from '../dao'
+import { InvalidStartTimeError, NoReputationError, UnknownProposalError, UnknownSuggestionError } from '../errors'
 import { mapGenesisProtocolParams } from '../genesisProtocol'
 import { IApolloQueryOptions } from '../graphnode'
 import { Operation, toIOperationObservable } from '../operation'
@@ -11,12 +12,13 @@ import { IProposalBaseCreateOptions, IProposalQueryOptions, IProposalState, Prop
 import { Address, ICommonQueryOptions, IStateful } from '../types'
 import {
   concat,
-  createGraphQlQuery, dateToSecondsSinceEpoch, getBlockTime,
+  dateToSecondsSinceEpoch, getBlockTime,
   hexStringToUint8Array,
   NULL_ADDRESS,
   secondSinceEpochToDate
 } from '../utils'
 import { IVoteQueryOptions } from '../vote'
+import { createQueryArguments, IEntitySchema } from '../where'
 import { ISchemeState, SchemeBase } from './base'
 
 const Web3 = require('web3')
@@ -268,7 +270,12 @@ export class CompetitionScheme extends SchemeBase {
         await tx.call()
       } catch (err) {
         if (err.message.match(/startTime should be greater than proposing time/ig)) {
-          return Error(`${err.message} - startTime is ${options.startTime}, current block time is ${await getBlockTime(this.context.web3)}`)
+          const blockTime = await getBlockTime(this.context.web3)
+          return new InvalidStartTimeError(
+            options.startTime,
+            blockTime,
+            `${err.message} - startTime is ${options.startTime}, current block time is ${blockTime}`
+          )
         } else {
           return err
         }
@@ -342,7 +349,7 @@ export class CompetitionScheme extends SchemeBase {
       // see if the suggestionId does exist in the contract
       const suggestion = await contract.methods.suggestions(options.suggestionId).call()
       if (suggestion.proposalId === '0x0000000000000000000000000000000000000000000000000000000000000000') {
-        throw Error(`A suggestion with suggestionId ${options.suggestionId} does not exist`)
+        throw new UnknownSuggestionError(options.suggestionId)
       }
 
       // check if the sender has reputation in the DAO
@@ -352,7 +359,11 @@ export class CompetitionScheme extends SchemeBase {
       const sender = await this.context.getAccount().pipe(first()).toPromise()
       const reputationOfUser = await reputation.reputationOf(sender).pipe(first()).toPromise()
       if (reputationOfUser.isZero()) {
-        throw Error(`Cannot vote because the user ${sender} does not have any reputation in the DAO at ${dao.id}`)
+        throw new NoReputationError(
+          sender,
+          dao.id,
+          `Cannot vote because the user ${sender} does not have any reputation in the DAO at ${dao.id}`
+        )
       }
       // get any solidity-defined errors
       const tx = await createTransaction()
@@ -390,7 +401,7 @@ export class CompetitionScheme extends SchemeBase {
       // see if the suggestionId does exist in the contract
       const suggestion = await contract.methods.suggestions(options.suggestionId).call()
       if (suggestion.proposalId === '0x0000000000000000000000000000000000000000000000000000000000000000') {
-        throw Error(`A suggestion with suggestionId ${options.suggestionId} does not exist`)
+        throw new UnknownSuggestionError(options.suggestionId)
       }
       const tx = await createTransaction()
       try {
@@ -476,7 +487,7 @@ export class Competition { // extends Proposal {
       const contract = getCompetitionContract(schemeState, this.context)
       const proposal = await contract.methods.proposals(this.id).call(opts)
       if (!proposal) {
-        throw Error(`A proposal with id ${this.id} does not exist`)
+        throw new UnknownProposalError(this.id, `A proposal with id ${this.id} does not exist`)
       }
       const tx = await createTransaction()
       await tx.call(opts)
@@ -570,6 +581,21 @@ export class CompetitionSuggestion implements IStateful<ICompetitionSuggestionSt
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      beneficiary: 'address',
+      createdAt: 'bigint',
+      id: 'id',
+      positionInWinnerList: 'bigint',
+      proposal: 'id',
+      redeemedAt: 'bigint',
+      suggester: 'address',
+      suggestionId: 'bigint',
+      totalVotes: 'bigint'
+    },
+    name: 'CompetitionSuggestion'
+  }
+
   public static calculateId(opts: { scheme: Address, suggestionId: number }): string {
     const seed = concat(
       hexStringToUint8Array(opts.scheme.toLowerCase()),
@@ -592,10 +618,15 @@ export class CompetitionSuggestion implements IStateful<ICompetitionSuggestionSt
     // if we are looing for the suggestions of a particular proposal, we prime the cache..
     // temp fix to fetch first 1000 instead of 100 default
     if (options.where && options.where.proposal && !options.where.id) {
-      query = gql`query CompetitionSuggestionSearchByProposal
+      const { args, declarations, variables } = createQueryArguments(
+        CompetitionSuggestion.schema,
+        { first: 1000, where: { ...options.where, proposal: undefined } },
+        { proposalId: { type: 'ID!', value: options.where.proposal } }
+      )
+      query = gql`query CompetitionSuggestionSearchByProposal ${declarations}
         {
-          competitionProposal (id: "${options.where.proposal}") {
-              suggestions ${createGraphQlQuery({ first: 1000, where: { ...options.where, proposal: undefined } })} {
+          competitionProposal (id: $proposalId) {
+              suggestions ${args} {
                 ...CompetitionSuggestionFields
               }
             }
@@ -610,12 +641,13 @@ export class CompetitionSuggestion implements IStateful<ICompetitionSuggestionSt
           }
           return r.suggestions.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<CompetitionSuggestion[]>
     } else {
-      query = gql`query CompetitionSuggestionSearch
+      const { args, declarations, variables } = createQueryArguments(CompetitionSuggestion.schema, options)
+      query = gql`query CompetitionSuggestionSearch ${declarations}
         {
-          competitionSuggestions ${createGraphQlQuery(options)} {
+          competitionSuggestions ${args} {
             ...CompetitionSuggestionFields
           }
         }
@@ -625,7 +657,7 @@ export class CompetitionSuggestion implements IStateful<ICompetitionSuggestionSt
       return context.getObservableList(
         query,
         itemMap,
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<CompetitionSuggestion[]>
     }
   }
@@ -777,6 +809,18 @@ export class CompetitionVote implements IStateful<ICompetitionVoteState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      createdAt: 'bigint',
+      id: 'id',
+      proposal: 'id',
+      reputation: 'bigint',
+      suggestion: 'id',
+      voter: 'address'
+    },
+    name: 'CompetitionVote'
+  }
+
   public static search(
     context: Arc,
     options: ICompetitionVoteQueryOptions = {},
@@ -789,11 +833,16 @@ export class CompetitionVote implements IStateful<ICompetitionVoteState> {
     }
     let query
     if (options.where.suggestion && !options.where.id) {
-      query = gql`query CompetitionVoteSearchBySuggestion
+      const { args, declarations, variables } = createQueryArguments(
+        CompetitionVote.schema,
+        { where: { ...options.where, suggestion: undefined } },
+        { suggestionId: { type: 'ID!', value: options.where.suggestion } }
+      )
+      query = gql`query CompetitionVoteSearchBySuggestion ${declarations}
         {
-          competitionSuggestion (id: "${options.where.suggestion}") {
+          competitionSuggestion (id: $suggestionId) {
             id
-            votes ${createGraphQlQuery({ where: { ...options.where, suggestion: undefined } })} {
+            votes ${args} {
               ...CompetitionVoteFields
             }
           }
@@ -809,13 +858,13 @@ export class CompetitionVote implements IStateful<ICompetitionVoteState> {
           }
           return r.votes.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<CompetitionVote[]>
     } else {
-
-      query = gql`query CompetitionVoteSearch
+      const { args, declarations, variables } = createQueryArguments(CompetitionVote.schema, options)
+      query = gql`query CompetitionVoteSearch ${declarations}
         {
-          competitionVotes ${createGraphQlQuery(options)} {
+          competitionVotes ${args} {
             ...CompetitionVoteFields
           }
         }
@@ -825,7 +874,7 @@ export class CompetitionVote implements IStateful<ICompetitionVoteState> {
       return context.getObservableList(
         query,
         itemMap,
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<CompetitionVote[]>
     }
   }
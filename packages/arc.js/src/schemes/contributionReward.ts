@@ -1,6 +1,9 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, mapGenesisProtocolParams } from '../genesisProtocol'
 import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
 import { Address } from '../types'
 import { NULL_ADDRESS } from '../utils'
 
@@ -73,3 +76,93 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment ContributionRewardParams on ControllerScheme {
+  contributionRewardParams {
+    id
+    votingMachine
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment ContributionRewardProposalFields on Proposal {
+  contributionReward {
+    id
+    beneficiary
+    ethReward
+    ethRewardLeft
+    externalToken
+    externalTokenReward
+    externalTokenRewardLeft
+    nativeTokenReward
+    nativeTokenRewardLeft
+    periods
+    periodLength
+    reputationReward
+    reputationChangeLeft
+    alreadyRedeemedReputationPeriods
+    alreadyRedeemedExternalTokenPeriods
+    alreadyRedeemedNativeTokenPeriods
+    alreadyRedeemedEthPeriods
+  }
+}`
+
+// the amounts that are left are null until a part of the reward is redeemed
+const bnOrNull = (value: string | null) => value !== null ? new BN(value) : null
+
+function mapContributionReward(item: any): IContributionReward {
+  return {
+    alreadyRedeemedEthPeriods: Number(item.alreadyRedeemedEthPeriods),
+    alreadyRedeemedExternalTokenPeriods: Number(item.alreadyRedeemedExternalTokenPeriods),
+    alreadyRedeemedNativeTokenPeriods: Number(item.alreadyRedeemedNativeTokenPeriods),
+    alreadyRedeemedReputationPeriods: Number(item.alreadyRedeemedReputationPeriods),
+    beneficiary: item.beneficiary,
+    ethReward: new BN(item.ethReward),
+    ethRewardLeft: bnOrNull(item.ethRewardLeft),
+    externalToken: item.externalToken,
+    externalTokenReward: new BN(item.externalTokenReward),
+    externalTokenRewardLeft: bnOrNull(item.externalTokenRewardLeft),
+    nativeTokenReward: new BN(item.nativeTokenReward),
+    nativeTokenRewardLeft: bnOrNull(item.nativeTokenRewardLeft),
+    periodLength: Number(item.periodLength),
+    periods: Number(item.periods),
+    reputationChangeLeft: bnOrNull(item.reputationChangeLeft),
+    reputationReward: new BN(item.reputationReward)
+  }
+}
+
+/**
+ * The proposals of ContributionReward, and of ContributionRewardExt, are in the `contributionReward` field
+ */
+/**
+ * check the voting parameters that are registered in the scheme under `paramsHash` (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const parameters = await contract.methods.parameters(paramsHash).call()
+  return validateVoteParams(parameters[1], parameters[0])
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction: createProposal,
+  mapParams: (params: any) => ({
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }),
+  mapProposal: (contributionReward: any) => ({
+    state: mapContributionReward(contributionReward),
+    type: IProposalType.ContributionReward
+  }),
+  mapReceipt: createTransactionMap,
+  name: 'ContributionReward',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [IProposalType.ContributionReward],
+  verifyParameters
+}
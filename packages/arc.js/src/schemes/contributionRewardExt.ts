@@ -1,8 +1,14 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, mapGenesisProtocolParams } from '../genesisProtocol'
 import { IProposalBaseCreateOptions, Proposal } from '../proposal'
+import { Scheme } from '../scheme'
+import { ISchemeType } from '../schemeTypes'
 import { Address } from '../types'
 import { NULL_ADDRESS } from '../utils'
+import { CompetitionScheme } from './competition'
+import { verifyParameters } from './genericScheme'
 
 // // this interface is not used - it is conflated with IContributionReward
 export interface IContributionRewardExt {
@@ -74,3 +80,47 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment ContributionRewardExtParams on ControllerScheme {
+  contributionRewardExtParams {
+    id
+    votingMachine
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+    rewarder
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+// TODO: ContributionRewardExt can also be used to create a Competition proposal
+// For now, we explicitly pass this in the options, but in reality (once 36-4 is released) we
+// should be able to sniff this: if the rewarder of the scheme is a Contribution.sol instance....
+const isCompetition = (options: any) => options.proposalType === 'competition'
+
+// the module of the CompetitionScheme is loaded when it is used: it extends SchemeBase, which is still loading now
+const competitionScheme = (scheme: Scheme, context: Arc): CompetitionScheme =>
+  new (require('./competition').CompetitionScheme)(scheme.id, context)
+
+/**
+ * The proposals are mapped by the ContributionReward type, from the `contributionReward` field
+ */
+export const schemeType: ISchemeType = {
+  createTransaction: (options: any, context: Arc, scheme: Scheme) => isCompetition(options)
+    ? competitionScheme(scheme, context).createProposalTransaction(options)
+    : createProposal(options, context),
+  errorHandler: (options: any, context: Arc, scheme: Scheme) => isCompetition(options)
+    ? competitionScheme(scheme, context).createProposalErrorHandler(options)
+    : undefined,
+  mapParams: (params: any) => ({
+    rewarder: params.rewarder,
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }),
+  mapReceipt: (options: any, context: Arc, scheme: Scheme) => isCompetition(options)
+    ? competitionScheme(scheme, context).createProposalTransactionMap()
+    : createTransactionMap(options, context),
+  name: 'ContributionRewardExt',
+  paramsFragment,
+  verifyParameters
+}
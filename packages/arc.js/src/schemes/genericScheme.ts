@@ -1,7 +1,12 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, mapGenesisProtocolParams } from '../genesisProtocol'
 import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { IProposalCall } from '../simulation'
 import { Address } from '../types'
+import { IGenericSchemeParams, ISchemeState } from './base'
 
 export interface IGenericSchemeInfo {
   id: string
@@ -61,3 +66,87 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment GenericSchemeParams on ControllerScheme {
+  genericSchemeParams {
+    votingMachine
+    contractToCall
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment GenericSchemeProposalFields on Proposal {
+  genericScheme {
+    id
+    contractToCall
+    callData
+    executed
+    returnValue
+    value
+  }
+}`
+
+/**
+ * map the parameters of a GenericScheme or an UGenericScheme
+ */
+export function mapParams(params: any): IGenericSchemeParams {
+  return {
+    contractToCall: params.contractToCall,
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }
+}
+
+/**
+ * the call of a proposal of a GenericScheme or an UGenericScheme
+ */
+export function proposalCalls(options: any, scheme: ISchemeState): IProposalCall[] {
+  if (!options.callData) {
+    throw new Error(`Missing argument "callData" for ${scheme.name} in Scheme.simulateProposal()`)
+  }
+  return [{
+    callData: options.callData,
+    contractToCall: (scheme.schemeParams as IGenericSchemeParams).contractToCall,
+    value: new BN(options.value || 0)
+  }]
+}
+
+/**
+ * the scheme keeps its voting machine and voting parameters in the contract, instead of under a parameters hash.
+ * This is also how a GenericSchemeMultiCall and a ContributionRewardExt are checked (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const votingMachine = await contract.methods.votingMachine().call()
+  const voteParams = await contract.methods.voteParams().call()
+  return validateVoteParams(votingMachine, voteParams)
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapProposal: (genericScheme: any) => ({
+    state: {
+      callData: genericScheme.callData,
+      contractToCall: genericScheme.contractToCall,
+      executed: genericScheme.executed,
+      id: genericScheme.id,
+      returnValue: genericScheme.returnValue,
+      value: new BN(genericScheme.value)
+    },
+    type: IProposalType.GenericScheme
+  }),
+  mapReceipt: createTransactionMap,
+  name: 'GenericScheme',
+  paramsFragment,
+  proposalCalls,
+  proposalFragment,
+  proposalTypes: [IProposalType.GenericScheme],
+  verifyParameters
+}
@@ -1,7 +1,12 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, mapGenesisProtocolParams } from '../genesisProtocol'
 import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { IProposalCall } from '../simulation'
 import { Address } from '../types'
+import { verifyParameters } from './genericScheme'
 
 export interface IGenericSchemeMultiCallInfo {
   id: string
@@ -64,3 +69,64 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment GenericSchemeMultiCallParams on ControllerScheme {
+  genericSchemeMultiCallParams {
+    votingMachine
+    schemeConstraints
+    contractsWhiteList
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment GenericSchemeMultiCallProposalFields on Proposal {
+  genericSchemeMultiCall {
+    id
+    contractsToCall
+    callsData
+    executed
+    returnValues
+    values
+  }
+}`
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams: (params: any) => ({
+    contractToCall: params.contractsToCall,
+    contractsWhiteList: params.contractsWhiteList,
+    schemeConstraints: params.schemeConstraints,
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }),
+  mapProposal: (genericSchemeMultiCall: any) => ({
+    state: {
+      callsData: genericSchemeMultiCall.callsData,
+      contractsToCall: genericSchemeMultiCall.contractsToCall,
+      executed: genericSchemeMultiCall.executed,
+      id: genericSchemeMultiCall.id,
+      returnValues: genericSchemeMultiCall.returnValues,
+      values: genericSchemeMultiCall.values
+    },
+    type: IProposalType.GenericSchemeMultiCall
+  }),
+  mapReceipt: createTransactionMap,
+  name: 'GenericSchemeMultiCall',
+  paramsFragment,
+  proposalCalls: (options: any): IProposalCall[] => {
+    if (!options.contractsToCall || !options.callsData) {
+      throw new Error(`Missing argument "contractsToCall" or "callsData" for GenericSchemeMultiCall in Scheme.simulateProposal()`)
+    }
+    return options.contractsToCall.map((contractToCall: Address, i: number) => ({
+      callData: options.callsData[i],
+      contractToCall,
+      value: new BN(options.values && options.values[i] || 0)
+    }))
+  },
+  proposalFragment,
+  proposalTypes: [IProposalType.GenericSchemeMultiCall],
+  verifyParameters
+}
@@ -0,0 +1,210 @@
+import gql from 'graphql-tag'
+import { Arc } from '../arc'
+import { IChainProposalReader } from '../chainDataProvider'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, IGenesisProtocolParams, mapGenesisProtocolParams } from '../genesisProtocol'
+import { ITokenCapGCParams, mapTokenCapGCParams } from '../globalConstraint'
+import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { Address } from '../types'
+
+export interface IGlobalConstraintRegistrarParams {
+  votingMachine: Address
+  voteRegisterParams: IGenesisProtocolParams
+}
+
+export interface IGlobalConstraintRegistrar {
+  id: string
+  /** the global constraint that is added or removed */
+  globalConstraint: Address
+  /** the name of the global constraint contract, if it is a known Arc contract */
+  name: string | null
+  /** the parameters of the constraint; for a RemoveGlobalConstraint proposal, those of the removed constraint */
+  paramsHash: string | null
+  /** the parameters of the vote to remove the constraint again, for an AddGlobalConstraint proposal */
+  voteToRemoveParams: string | null
+  tokenCapGCParams: ITokenCapGCParams | null
+  decision: number | null
+  executed: boolean
+}
+
+export interface IProposalCreateOptionsGlobalConstraintRegistrar {
+  globalConstraint?: Address
+  globalConstraintParamsHash?: string
+  voteToRemoveParams?: string
+}
+
+export enum IProposalType {
+  AddGlobalConstraint = 'AddGlobalConstraint', // propose to add a global constraint to the DAO
+  RemoveGlobalConstraint = 'RemoveGlobalConstraint' // propose to remove a global constraint from the DAO
+}
+
+export function createTransaction(options: any, context: Arc): () => any {
+  let msg: string
+  if (!options.globalConstraint) {
+    msg = `Missing argument "globalConstraint" for GlobalConstraintRegistrar in Proposal.create()`
+    throw Error(msg)
+  }
+  switch (options.type) {
+    case IProposalType.AddGlobalConstraint:
+      if (!options.globalConstraintParamsHash) {
+        msg = `Missing argument "globalConstraintParamsHash" for GlobalConstraintRegistrar in Proposal.create()`
+        throw Error(msg)
+      }
+      if (!options.voteToRemoveParams) {
+        msg = `Missing argument "voteToRemoveParams" for GlobalConstraintRegistrar in Proposal.create()`
+        throw Error(msg)
+      }
+      return async () => {
+        const globalConstraintRegistrar = context.getContract(options.scheme)
+        options.descriptionHash = await context.saveIPFSData(options)
+        const transaction = globalConstraintRegistrar.methods.proposeGlobalConstraint(
+          options.dao,
+          options.globalConstraint,
+          options.globalConstraintParamsHash,
+          options.voteToRemoveParams,
+          options.descriptionHash
+        )
+        return transaction
+      }
+    case IProposalType.RemoveGlobalConstraint:
+      return async () => {
+        const globalConstraintRegistrar = context.getContract(options.scheme)
+        options.descriptionHash = await context.saveIPFSData(options)
+        const transaction = globalConstraintRegistrar.methods.proposeToRemoveGC(
+          options.dao,
+          options.globalConstraint,
+          options.descriptionHash
+        )
+        return transaction
+      }
+  }
+  throw Error('For a GlobalConstraintRegistrar proposal, you must specify proposal.type')
+}
+
+export function createTransactionMap(options: any, context: Arc) {
+  const eventName = options.type === IProposalType.RemoveGlobalConstraint
+    ? 'RemoveGlobalConstraintsProposal'
+    : 'NewGlobalConstraintsProposal'
+  const map = (receipt: any) => {
+    const proposalId = receipt.events[eventName].returnValues._proposalId
+    return new Proposal(proposalId, context)
+  }
+  return map
+}
+
+const paramsFragment = gql`fragment GlobalConstraintRegistrarParams on ControllerScheme {
+  globalConstraintRegistrarParams {
+    votingMachine
+    voteRegisterParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment GlobalConstraintRegistrarProposalFields on Proposal {
+  globalConstraintRegistrar {
+    id
+    type
+    globalConstraint
+    name
+    paramsHash
+    voteToRemoveParams
+    tokenCapGCParams {
+      token
+      cap
+    }
+    decision
+    executed
+  }
+}`
+
+export function mapParams(params: any): IGlobalConstraintRegistrarParams {
+  return {
+    voteRegisterParams: mapGenesisProtocolParams(params.voteRegisterParams),
+    votingMachine: params.votingMachine
+  }
+}
+
+export function mapProposal(
+  globalConstraintRegistrar: any
+): { state: IGlobalConstraintRegistrar, type: IProposalType } {
+  return {
+    state: {
+      decision: globalConstraintRegistrar.decision !== null ? Number(globalConstraintRegistrar.decision) : null,
+      executed: !!globalConstraintRegistrar.executed,
+      globalConstraint: globalConstraintRegistrar.globalConstraint,
+      id: globalConstraintRegistrar.id,
+      name: globalConstraintRegistrar.name,
+      paramsHash: globalConstraintRegistrar.paramsHash,
+      tokenCapGCParams: mapTokenCapGCParams(globalConstraintRegistrar.tokenCapGCParams),
+      voteToRemoveParams: globalConstraintRegistrar.voteToRemoveParams
+    },
+    type: globalConstraintRegistrar.type === IProposalType.RemoveGlobalConstraint
+      ? IProposalType.RemoveGlobalConstraint
+      : IProposalType.AddGlobalConstraint
+  }
+}
+
+/**
+ * read a proposal from the events of the scheme, as the subgraph indexes them (cf. [[ChainDataProvider]])
+ */
+export async function readProposal(reader: IChainProposalReader) {
+  const [[added], [removed], [executed]] = await Promise.all([
+    reader.pastEvents(reader.scheme, 'NewGlobalConstraintsProposal'),
+    reader.pastEvents(reader.scheme, 'RemoveGlobalConstraintsProposal'),
+    reader.pastEvents(reader.scheme, 'ProposalExecuted')
+  ])
+  const created = added || removed
+  const globalConstraint = created.returnValues._gc.toLowerCase()
+  const globalConstraintInfo = reader.contractInfo(globalConstraint)
+  // a proposal to remove a constraint shows the parameters of the constraint that is removed
+  const paramsHash = added ? added.returnValues._params : await (await reader.controller(reader.createdAtBlock))
+    .methods.getGlobalConstraintParameters(globalConstraint, reader.dao).call({}, reader.createdAtBlock)
+  let tokenCapGCParams = null
+  if (globalConstraintInfo && globalConstraintInfo.name === 'TokenCapGC') {
+    const parameters = await reader.contract(globalConstraint).methods.parameters(paramsHash)
+      .call({}, reader.blockNumber)
+    tokenCapGCParams = { cap: parameters.cap, token: parameters.token.toLowerCase() }
+  }
+  return {
+    descriptionHash: created.returnValues._descriptionHash,
+    globalConstraintRegistrar: {
+      decision: executed ? executed.returnValues._param : null,
+      executed: !!executed,
+      globalConstraint,
+      id: reader.proposalId,
+      name: globalConstraintInfo ? globalConstraintInfo.name : null,
+      paramsHash: Number(paramsHash) === 0 ? null : paramsHash,
+      tokenCapGCParams,
+      type: added ? IProposalType.AddGlobalConstraint : IProposalType.RemoveGlobalConstraint,
+      voteToRemoveParams: added ? added.returnValues._voteToRemoveParams : null
+    }
+  }
+}
+
+/**
+ * check the voting parameters for adding global constraints that are registered under `paramsHash`
+ * (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const parameters = await contract.methods.parameters(paramsHash).call()
+  return validateVoteParams(parameters[1], parameters[0])
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapProposal,
+  mapReceipt: createTransactionMap,
+  name: 'GlobalConstraintRegistrar',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [IProposalType.AddGlobalConstraint, IProposalType.RemoveGlobalConstraint],
+  readProposal,
+  verifyParameters
+}
@@ -0,0 +1,239 @@
+import BN = require('bn.js')
+import { from } from 'rxjs'
+import { concatMap } from 'rxjs/operators'
+
+import {
+  Operation,
+  toIOperationObservable
+} from '../operation'
+
+import { Address } from '../types'
+
+import { Scheme } from '../scheme'
+import { ISchemeStaticState } from './base'
+
+/** the names of the schemes that extend Locking4Reputation */
+export const LOCKING4REPUTATION_SCHEMES = [
+  'ExternalLocking4Reputation',
+  'LockingEth4Reputation',
+  'LockingToken4Reputation'
+]
+
+export interface ILocking4ReputationLock {
+  amount: BN
+  /** the time (in seconds since the epoch) from which the lock can be released */
+  releaseTime: number
+}
+
+/**
+ * A helper for the schemes that extend Locking4Reputation: LockingEth4Reputation, LockingToken4Reputation
+ * and ExternalLocking4Reputation. Lockers get a score for the amount and the period of their locks,
+ * and redeem a share of the reputation reward in proportion to their score once the locking has ended.
+ */
+export class Locking4ReputationScheme {
+
+  constructor(public scheme: Scheme) {
+
+  }
+
+  public async getAgreementHash(): Promise<string> {
+    const contract = await this.getContract('readonly')
+    const result = await contract.methods.getAgreementHash().call()
+    return result
+  }
+
+  /**
+   * the score of a beneficiary, which is the sum of the amount times the period of all its locks
+   * @param  beneficiary
+   */
+  public async getScore(beneficiary: Address): Promise<BN> {
+    const contract = await this.getContract('readonly')
+    return new BN(await contract.methods.scores(beneficiary).call())
+  }
+
+  public async getTotalScore(): Promise<BN> {
+    const contract = await this.getContract('readonly')
+    return new BN(await contract.methods.totalScore().call())
+  }
+
+  /**
+   * the amount of a lock and the time from which it can be released
+   * @param  locker
+   * @param  lockingId
+   */
+  public async getLock(locker: Address, lockingId: string): Promise<ILocking4ReputationLock> {
+    const contract = await this.getContract('readonly')
+    const result = await contract.methods.lockers(locker, lockingId).call()
+    return {
+      amount: new BN(result.amount),
+      releaseTime: Number(result.releaseTime)
+    }
+  }
+
+  /**
+   * lock ETH in a LockingEth4Reputation, or tokens in a LockingToken4Reputation; the tokens must be
+   * approved for the scheme first
+   * @param  amount the amount of wei or tokens to lock
+   * @param  period the locking period, in seconds
+   * @param  agreementHash the agreement hash of the scheme (ignored by contracts older than 0.0.1-rc.17)
+   * @param  token the token to lock, for a LockingToken4Reputation
+   */
+  public lock(amount: BN, period: number, agreementHash?: string, token?: Address): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    // the ETH is sent along with the transaction of a LockingEth4Reputation
+    const value = this.getName() === 'LockingEth4Reputation' ? amount.toString() : undefined
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        const args = this.hasAgreementHash() ? [agreementHash] : []
+        if (this.hasAgreementHash() && !agreementHash) {
+          throw Error(`For Locking4Reputation version > rc.16, an "agreementHash" argument must be provided`)
+        }
+        let transaction: any
+        switch (this.getName()) {
+          case 'LockingEth4Reputation':
+            transaction = contract.methods.lock(period, ...args)
+            break
+          case 'LockingToken4Reputation':
+            if (!token) {
+              throw Error(`For LockingToken4Reputation, a "token" argument must be provided`)
+            }
+            transaction = contract.methods.lock(amount, period, token, ...args)
+            break
+          default:
+            throw Error(`A ${this.getName()} does not lock - use claim() for an ExternalLocking4Reputation`)
+        }
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call({ value })
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable, { value })
+  }
+
+  /**
+   * claim the balance of a beneficiary in the external locking contract of an ExternalLocking4Reputation
+   * as a lock
+   * @param  beneficiary the beneficiary, which must be the sender or have registered to let others claim
+   * @param  agreementHash the agreement hash of the scheme (ignored by contracts older than 0.0.1-rc.17)
+   */
+  public claim(beneficiary: Address, agreementHash?: string): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        if (this.getName() !== 'ExternalLocking4Reputation') {
+          throw Error(`Only an ExternalLocking4Reputation can claim, not a ${this.getName()}`)
+        }
+        let transaction: any
+        if (this.hasAgreementHash()) {
+          if (!agreementHash) {
+            throw Error(`For ExternalLocking4Reputation version > rc.16, an "agreementHash" argument must be provided`)
+          }
+          transaction = contract.methods.claim(beneficiary, agreementHash)
+        } else {
+          transaction = contract.methods.claim(beneficiary)
+        }
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call()
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable)
+  }
+
+  /**
+   * release a lock whose period has passed, which returns the ETH or tokens to the beneficiary
+   * @param  beneficiary
+   * @param  lockingId
+   */
+  public release(beneficiary: Address, lockingId: string): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        const transaction = contract.methods.release(beneficiary, lockingId)
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call()
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable)
+  }
+
+  /**
+   * redeem the reputation of a beneficiary for all its locks
+   * @param  beneficiary
+   */
+  public redeem(beneficiary: Address): Operation<any> {
+    const mapReceipt = (receipt: any) => {
+      return receipt
+    }
+
+    const observable = from(this.getContract())
+      .pipe(
+      concatMap((contract) => {
+        const transaction = contract.methods.redeem(beneficiary)
+        const errorHandler = async (error: Error) => {
+          try {
+            await transaction.call()
+          } catch (err) {
+            throw err
+          }
+          return error
+        }
+        return this.scheme.context.sendTransaction(transaction, mapReceipt, errorHandler)
+      })
+    )
+    return toIOperationObservable(observable)
+  }
+
+  public async getContract(mode?: 'readonly') {
+    const state = await this.scheme.fetchStaticState()
+    const contract = this.scheme.context.getContract(state.address, undefined, mode)
+    return contract
+  }
+
+  public getScheme() {
+    return this.scheme
+  }
+
+  private getName(): string {
+    return (this.scheme.staticState as ISchemeStaticState).name
+  }
+
+  /**
+   * the agreement hash was added in 0.0.1-rc.17
+   */
+  private hasAgreementHash(): boolean {
+    const version = (this.scheme.staticState as ISchemeStaticState).version
+    return !version || Number(version.split('rc.')[1]) > 16
+  }
+}
@@ -1,5 +1,8 @@
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, mapGenesisProtocolParams } from '../genesisProtocol'
 import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
 import { Address } from '../types'
 
 export interface ISchemeRegistrar {
@@ -93,3 +96,89 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment SchemeRegistrarParams on ControllerScheme {
+  schemeRegistrarParams {
+    votingMachine
+    voteRemoveParams {
+      ...GenesisProtocolParamsFields
+    }
+    voteRegisterParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment SchemeRegistrarProposalFields on Proposal {
+  schemeRegistrar {
+    id
+    schemeToRegister
+    schemeToRegisterParamsHash
+    schemeToRegisterPermission
+    schemeToRemove
+    decision
+    schemeRegistered
+    schemeRemoved
+  }
+}`
+
+function proposalType(schemeRegistrar: any, proposal: any): IProposalType {
+  if (schemeRegistrar.schemeToRegister) {
+    // TODO: this is failing bc of https://github.com/daostack/subgraph/issues/224
+    if (proposal.dao.schemes.map((s: any) => s.address.toLowerCase())
+      .includes(schemeRegistrar.schemeToRegister.toLowerCase())) {
+      return IProposalType.SchemeRegistrarEdit
+    } else {
+      return IProposalType.SchemeRegistrarAdd
+    }
+  } else if (schemeRegistrar.schemeToRemove) {
+    return IProposalType.SchemeRegistrarRemove
+  }
+  throw Error(`Unknown proposal type: schemeRegistrar without a scheme to register or to remove`)
+}
+
+/**
+ * the scheme has separate voting parameters for registering and for removing schemes, and both must be valid
+ * (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const parameters = await contract.methods.parameters(paramsHash).call()
+  return await validateVoteParams(parameters[2], parameters[0]) && validateVoteParams(parameters[2], parameters[1])
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams: (params: any) => ({
+    voteRegisterParams: mapGenesisProtocolParams(params.voteRegisterParams),
+    voteRemoveParams: mapGenesisProtocolParams(params.voteRemoveParams),
+    votingMachine: params.votingMachine
+  }),
+  mapProposal: (schemeRegistrar: any, proposal: any) => ({
+    state: {
+      decision: schemeRegistrar.decision,
+      id: schemeRegistrar.id,
+      schemeRegistered: schemeRegistrar.schemeRegistered,
+      schemeRemoved: schemeRegistrar.schemeRemoved,
+      schemeToRegister: schemeRegistrar.schemeToRegister,
+      schemeToRegisterParamsHash: schemeRegistrar.schemeToRegisterParamsHash,
+      schemeToRegisterPermission: schemeRegistrar.schemeToRegisterPermission,
+      schemeToRemove: schemeRegistrar.schemeToRemove
+    },
+    type: proposalType(schemeRegistrar, proposal)
+  }),
+  mapReceipt: createTransactionMap,
+  name: 'SchemeRegistrar',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [
+    IProposalType.SchemeRegistrarAdd,
+    IProposalType.SchemeRegistrarEdit,
+    IProposalType.SchemeRegistrarRemove
+  ],
+  verifyParameters
+}
@@ -0,0 +1,174 @@
+import gql from 'graphql-tag'
+import { Arc } from '../arc'
+import { IChainProposalReader } from '../chainDataProvider'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, IGenesisProtocolParams, mapGenesisProtocolParams } from '../genesisProtocol'
+import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { Address, Date } from '../types'
+
+export interface ISignalSchemeParams {
+  votingMachine: Address
+  voteParams: IGenesisProtocolParams
+  /** the type of the signals of the scheme, which is set when the scheme is deployed */
+  signalType: number
+}
+
+/**
+ * The signal that the scheme emits when a proposal passes
+ */
+export interface ISignal {
+  id: string
+  signalType: number
+  descriptionHash: string
+  createdAt: Date
+  txHash: string
+}
+
+export interface ISignalScheme {
+  id: string
+  signalType: number
+  descriptionHash: string
+  /** the signal of the proposal, or null if it has not passed (yet) */
+  signal: ISignal | null
+}
+
+/**
+ * A proposal of a SignalScheme has no options besides the common ones: the title, description and url
+ * (which are saved on IPFS) are what is signalled
+ */
+export interface IProposalCreateOptionsSignal {
+  descriptionHash?: string
+}
+
+export enum IProposalType {
+  Signal = 'Signal'
+}
+
+export function createTransaction(options: any, context: Arc) {
+  return async () => {
+    options.descriptionHash = await context.saveIPFSData(options)
+
+    const signalScheme = context.getContract(options.scheme)
+    const transaction = signalScheme.methods.proposeSignal(options.descriptionHash)
+    return transaction
+  }
+}
+
+/**
+ * map the transaction receipt of the createTransaction call to a nice result
+ * @param  options  the options passed to the createProposal call
+ * @param  context an Arc instance
+ * @return         [description]
+ */
+export function createTransactionMap(options: any, context: Arc) {
+  const eventName = 'NewSignalProposal'
+  const map = async (receipt: any) => {
+    const proposalId = receipt.events[eventName].returnValues._proposalId
+    return new Proposal(proposalId, context)
+  }
+  return map
+}
+
+const paramsFragment = gql`fragment SignalSchemeParams on ControllerScheme {
+  signalSchemeParams {
+    votingMachine
+    signalType
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment SignalSchemeProposalFields on Proposal {
+  signalScheme {
+    id
+    signalType
+    descriptionHash
+    signal {
+      id
+      signalType
+      descriptionHash
+      createdAt
+      txHash
+    }
+  }
+}`
+
+export function mapParams(params: any): ISignalSchemeParams {
+  return {
+    signalType: Number(params.signalType),
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }
+}
+
+export function mapProposal(signalScheme: any): { state: ISignalScheme, type: IProposalType } {
+  const signal = signalScheme.signal
+  return {
+    state: {
+      descriptionHash: signalScheme.descriptionHash,
+      id: signalScheme.id,
+      signal: signal && {
+        createdAt: Number(signal.createdAt),
+        descriptionHash: signal.descriptionHash,
+        id: signal.id,
+        signalType: Number(signal.signalType),
+        txHash: signal.txHash
+      },
+      signalType: Number(signalScheme.signalType)
+    },
+    type: IProposalType.Signal
+  }
+}
+
+/**
+ * read a proposal from the events of the scheme, as the subgraph indexes them (cf. [[ChainDataProvider]])
+ */
+export async function readProposal(reader: IChainProposalReader) {
+  const [[created], [signal]] = await Promise.all([
+    reader.pastEvents(reader.scheme, 'NewSignalProposal'),
+    reader.pastEvents(reader.scheme, 'Signal')
+  ])
+  return {
+    descriptionHash: created.returnValues._descriptionHash,
+    signalScheme: {
+      descriptionHash: created.returnValues._descriptionHash,
+      id: reader.proposalId,
+      signal: signal ? {
+        createdAt: await reader.timestamp(signal.blockNumber),
+        descriptionHash: signal.returnValues._descriptionHash,
+        id: reader.proposalId,
+        signalType: signal.returnValues._signalType,
+        txHash: signal.transactionHash
+      } : null,
+      signalType: created.returnValues._signalType
+    }
+  }
+}
+
+/**
+ * the parameters of a SignalScheme are set when it is initialized, so `paramsHash` is not used
+ * (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const params = await contract.methods.params().call()
+  return validateVoteParams(params.intVote, params.voteApproveParams)
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapProposal,
+  mapReceipt: createTransactionMap,
+  name: 'SignalScheme',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [IProposalType.Signal],
+  readProposal,
+  verifyParameters
+}
@@ -1,7 +1,11 @@
 import BN = require('bn.js')
+import gql from 'graphql-tag'
 import { Arc } from '../arc'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT } from '../genesisProtocol'
 import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
 import { Address } from '../types'
+import { mapParams, proposalCalls } from './genericScheme'
 
 export interface IUGenericSchemeInfo {
   id: string
@@ -60,3 +64,37 @@ export function createTransactionMap(options: any, context: Arc) {
   }
   return map
 }
+
+const paramsFragment = gql`fragment UGenericSchemeParams on ControllerScheme {
+  uGenericSchemeParams {
+    votingMachine
+    contractToCall
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+/**
+ * The proposals are in the `genericScheme` field, like those of the GenericScheme
+ */
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapReceipt: createTransactionMap,
+  name: 'UGenericScheme',
+  paramsFragment,
+  proposalCalls
+}
+
+/**
+ * the pre-24 " GenericScheme" contracts have beeen renamed to UGenericScheme
+ */
+export const legacyGenericSchemeType: ISchemeType = {
+  createTransaction,
+  mapReceipt: createTransactionMap,
+  name: 'GenericScheme',
+  proposalCalls,
+  versions: (version: string) => Number(version.split('rc.')[1]) < 23
+}
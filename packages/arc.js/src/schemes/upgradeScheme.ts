@@ -0,0 +1,193 @@
+import gql from 'graphql-tag'
+import { Arc } from '../arc'
+import { IChainProposalReader } from '../chainDataProvider'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, IGenesisProtocolParams, mapGenesisProtocolParams } from '../genesisProtocol'
+import { Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { Address } from '../types'
+
+export interface IUpgradeSchemeParams {
+  votingMachine: Address
+  voteParams: IGenesisProtocolParams
+}
+
+export interface IUpgradeScheme {
+  id: string
+  /** the controller of the DAO when the proposal was created */
+  oldController: Address | null
+  /** the controller that the DAO upgrades to, for an UpgradeController proposal */
+  newController: Address | null
+  /** the scheme that replaces the UpgradeScheme, for a ChangeUpgradeScheme proposal */
+  newUpgradeScheme: Address | null
+  newUpgradeSchemeParamsHash: string | null
+  /** the permissions of the UpgradeScheme, which a new upgrade scheme receives */
+  permissions: string | null
+  decision: number | null
+  executed: boolean
+}
+
+export interface IProposalCreateOptionsUpgradeScheme {
+  newController?: Address
+  newUpgradeScheme?: Address
+  newUpgradeSchemeParamsHash?: string
+}
+
+export enum IProposalType {
+  UpgradeController = 'UpgradeController', // propose to upgrade the controller of the DAO
+  ChangeUpgradeScheme = 'ChangeUpgradeScheme' // propose to replace the UpgradeScheme by another one
+}
+
+export function createTransaction(options: any, context: Arc): () => any {
+  let msg: string
+  switch (options.type) {
+    case IProposalType.UpgradeController:
+      if (!options.newController) {
+        msg = `Missing argument "newController" for UpgradeScheme in Proposal.create()`
+        throw Error(msg)
+      }
+      return async () => {
+        const upgradeScheme = context.getContract(options.scheme)
+        options.descriptionHash = await context.saveIPFSData(options)
+        const transaction = upgradeScheme.methods.proposeUpgrade(
+          options.dao,
+          options.newController,
+          options.descriptionHash
+        )
+        return transaction
+      }
+    case IProposalType.ChangeUpgradeScheme:
+      if (!options.newUpgradeScheme) {
+        msg = `Missing argument "newUpgradeScheme" for UpgradeScheme in Proposal.create()`
+        throw Error(msg)
+      }
+      if (!options.newUpgradeSchemeParamsHash) {
+        msg = `Missing argument "newUpgradeSchemeParamsHash" for UpgradeScheme in Proposal.create()`
+        throw Error(msg)
+      }
+      return async () => {
+        const upgradeScheme = context.getContract(options.scheme)
+        options.descriptionHash = await context.saveIPFSData(options)
+        const transaction = upgradeScheme.methods.proposeChangeUpgradingScheme(
+          options.dao,
+          options.newUpgradeScheme,
+          options.newUpgradeSchemeParamsHash,
+          options.descriptionHash
+        )
+        return transaction
+      }
+  }
+  throw Error('For an UpgradeScheme proposal, you must specify proposal.type')
+}
+
+export function createTransactionMap(options: any, context: Arc) {
+  const eventName = options.type === IProposalType.ChangeUpgradeScheme
+    ? 'ChangeUpgradeSchemeProposal'
+    : 'NewUpgradeProposal'
+  const map = (receipt: any) => {
+    const proposalId = receipt.events[eventName].returnValues._proposalId
+    return new Proposal(proposalId, context)
+  }
+  return map
+}
+
+const paramsFragment = gql`fragment UpgradeSchemeParams on ControllerScheme {
+  upgradeSchemeParams {
+    votingMachine
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment UpgradeSchemeProposalFields on Proposal {
+  upgradeScheme {
+    id
+    type
+    oldController
+    newController
+    newUpgradeScheme
+    newUpgradeSchemeParamsHash
+    permissions
+    decision
+    executed
+  }
+}`
+
+export function mapParams(params: any): IUpgradeSchemeParams {
+  return {
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }
+}
+
+export function mapProposal(upgradeScheme: any): { state: IUpgradeScheme, type: IProposalType } {
+  return {
+    state: {
+      decision: upgradeScheme.decision !== null ? Number(upgradeScheme.decision) : null,
+      executed: !!upgradeScheme.executed,
+      id: upgradeScheme.id,
+      newController: upgradeScheme.newController,
+      newUpgradeScheme: upgradeScheme.newUpgradeScheme,
+      newUpgradeSchemeParamsHash: upgradeScheme.newUpgradeSchemeParamsHash,
+      oldController: upgradeScheme.oldController,
+      permissions: upgradeScheme.permissions
+    },
+    type: upgradeScheme.type === IProposalType.ChangeUpgradeScheme
+      ? IProposalType.ChangeUpgradeScheme
+      : IProposalType.UpgradeController
+  }
+}
+
+/**
+ * read a proposal from the events of the scheme, as the subgraph indexes them (cf. [[ChainDataProvider]])
+ */
+export async function readProposal(reader: IChainProposalReader) {
+  const [[upgrade], [change], [executed], controller] = await Promise.all([
+    reader.pastEvents(reader.scheme, 'NewUpgradeProposal'),
+    reader.pastEvents(reader.scheme, 'ChangeUpgradeSchemeProposal'),
+    reader.pastEvents(reader.scheme, 'ProposalExecuted'),
+    reader.controller(reader.createdAtBlock)
+  ])
+  const created = upgrade || change
+  return {
+    descriptionHash: created.returnValues._descriptionHash,
+    upgradeScheme: {
+      decision: executed ? executed.returnValues._param : null,
+      executed: !!executed,
+      id: reader.proposalId,
+      newController: upgrade ? upgrade.returnValues._newController.toLowerCase() : null,
+      newUpgradeScheme: change ? change.returnValues._newUpgradeScheme.toLowerCase() : null,
+      newUpgradeSchemeParamsHash: change ? change.returnValues._params : null,
+      oldController: controller.options.address.toLowerCase(),
+      permissions: await controller.methods.getSchemePermissions(reader.schemeAddress, reader.dao)
+        .call({}, reader.createdAtBlock),
+      type: upgrade ? IProposalType.UpgradeController : IProposalType.ChangeUpgradeScheme
+    }
+  }
+}
+
+/**
+ * the parameters of the scheme are valid if its voting parameters are (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const parameters = await contract.methods.parameters(paramsHash).call()
+  return validateVoteParams(parameters[1], parameters[0])
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapProposal,
+  mapReceipt: createTransactionMap,
+  name: 'UpgradeScheme',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [IProposalType.UpgradeController, IProposalType.ChangeUpgradeScheme],
+  readProposal,
+  verifyParameters
+}
@@ -0,0 +1,194 @@
+import gql from 'graphql-tag'
+import { Arc } from '../arc'
+import { IChainProposalReader } from '../chainDataProvider'
+import { GENESIS_PROTOCOL_PARAMS_FRAGMENT, IGenesisProtocolParams, mapGenesisProtocolParams } from '../genesisProtocol'
+import { IProposalOutcome, Proposal } from '../proposal'
+import { ISchemeType } from '../schemeTypes'
+import { Address } from '../types'
+import { NULL_ADDRESS } from '../utils'
+
+export interface IVoteInOrganizationParams {
+  votingMachine: Address
+  voteParams: IGenesisProtocolParams
+}
+
+export interface IVoteInOrganization {
+  id: string
+  /** the voting machine of the proposal in the other organization */
+  originalIntVote: Address
+  originalProposalId: string
+  /** the id of the proposal and the address of the DAO it belongs to, if the proposal is known to the subgraph */
+  originalProposal: string | null
+  originalDAO: Address | null
+  /** the vote that is cast in the other organization if the proposal passes */
+  vote: IProposalOutcome
+  decision: number | null
+  executed: boolean
+  /** the return value of the vote in the other organization */
+  callReturnValue: string | null
+}
+
+export interface IProposalCreateOptionsVoteInOrganization {
+  /** the proposal in the other organization */
+  originalProposalId?: string
+  /** the voting machine of the original proposal; it is looked up in the subgraph if it is not given */
+  originalIntVote?: Address
+  vote?: IProposalOutcome
+}
+
+export enum IProposalType {
+  VoteInOrganization = 'VoteInOrganization' // propose to vote in a proposal of another organization
+}
+
+export function createTransaction(options: any, context: Arc) {
+  let msg: string
+  if (!options.originalProposalId) {
+    msg = `Missing argument "originalProposalId" for VoteInOrganizationScheme in Proposal.create()`
+    throw Error(msg)
+  }
+  if (options.vote !== IProposalOutcome.Pass && options.vote !== IProposalOutcome.Fail) {
+    msg = `The "vote" for VoteInOrganizationScheme in Proposal.create() must be IProposalOutcome.Pass or .Fail`
+    throw Error(msg)
+  }
+  return async () => {
+    if (!options.originalIntVote) {
+      const originalProposal = await new Proposal(options.originalProposalId, context).fetchStaticState()
+      options.originalIntVote = originalProposal.votingMachine
+    }
+    options.descriptionHash = await context.saveIPFSData(options)
+
+    const voteInOrganizationScheme = context.getContract(options.scheme)
+    const transaction = voteInOrganizationScheme.methods.proposeVote(
+      options.dao,
+      options.originalIntVote,
+      options.originalProposalId,
+      options.vote,
+      options.descriptionHash
+    )
+    return transaction
+  }
+}
+
+export function createTransactionMap(options: any, context: Arc) {
+  const eventName = 'NewVoteProposal'
+  const map = (receipt: any) => {
+    const proposalId = receipt.events[eventName].returnValues._proposalId
+    return new Proposal(proposalId, context)
+  }
+  return map
+}
+
+const paramsFragment = gql`fragment VoteInOrganizationParams on ControllerScheme {
+  voteInOrganizationParams {
+    votingMachine
+    voteParams {
+      ...GenesisProtocolParamsFields
+    }
+  }
+}
+${GENESIS_PROTOCOL_PARAMS_FRAGMENT}`
+
+const proposalFragment = gql`fragment VoteInOrganizationProposalFields on Proposal {
+  voteInOrganization {
+    id
+    originalIntVote
+    originalProposalId
+    originalProposal {
+      id
+    }
+    originalDAO {
+      id
+    }
+    vote
+    decision
+    executed
+    callReturnValue
+  }
+}`
+
+export function mapParams(params: any): IVoteInOrganizationParams {
+  return {
+    voteParams: mapGenesisProtocolParams(params.voteParams),
+    votingMachine: params.votingMachine
+  }
+}
+
+export function mapProposal(voteInOrganization: any): { state: IVoteInOrganization, type: IProposalType } {
+  return {
+    state: {
+      callReturnValue: voteInOrganization.callReturnValue,
+      decision: voteInOrganization.decision !== null ? Number(voteInOrganization.decision) : null,
+      executed: !!voteInOrganization.executed,
+      id: voteInOrganization.id,
+      originalDAO: voteInOrganization.originalDAO ? voteInOrganization.originalDAO.id : null,
+      originalIntVote: voteInOrganization.originalIntVote,
+      originalProposal: voteInOrganization.originalProposal ? voteInOrganization.originalProposal.id : null,
+      originalProposalId: voteInOrganization.originalProposalId,
+      vote: Number(voteInOrganization.vote)
+    },
+    type: IProposalType.VoteInOrganization
+  }
+}
+
+/**
+ * read a proposal from the events of the scheme, as the subgraph indexes them (cf. [[ChainDataProvider]])
+ */
+export async function readProposal(reader: IChainProposalReader) {
+  const [[created], [executed]] = await Promise.all([
+    reader.pastEvents(reader.scheme, 'NewVoteProposal'),
+    reader.pastEvents(reader.scheme, 'ProposalExecuted')
+  ])
+  const values = created.returnValues
+  const originalIntVote = values._originalIntVote.toLowerCase()
+  const originalIntVoteInfo = reader.contractInfo(originalIntVote)
+  let originalDAO = null
+  if (originalIntVoteInfo && originalIntVoteInfo.name === 'GenesisProtocol') {
+    const originalGP = reader.contract(originalIntVote)
+    const original = await originalGP.methods.proposals(values._originalProposalId).call({}, reader.blockNumber)
+    if (original.proposer !== NULL_ADDRESS) {
+      const organization = await originalGP.methods.organizations(original.organizationId)
+        .call({}, reader.blockNumber)
+      originalDAO = organization.toLowerCase()
+    }
+  }
+  return {
+    descriptionHash: values._descriptionHash,
+    voteInOrganization: {
+      callReturnValue: executed ? executed.returnValues._callReturnValue : null,
+      decision: executed ? executed.returnValues._param : null,
+      executed: !!executed,
+      id: reader.proposalId,
+      originalDAO: originalDAO && { id: originalDAO },
+      originalIntVote,
+      originalProposal: originalDAO && { id: values._originalProposalId },
+      originalProposalId: values._originalProposalId,
+      vote: values._vote
+    }
+  }
+}
+
+/**
+ * check the voting machine and voting parameters that are registered under `paramsHash`
+ * (cf. [[Arc.verifyParametersHash]])
+ */
+export async function verifyParameters(
+  contract: any,
+  paramsHash: string,
+  validateVoteParams: (votingMachine: Address, voteParams: string) => Promise<boolean>
+) {
+  const parameters = await contract.methods.parameters(paramsHash).call()
+  return validateVoteParams(parameters[0], parameters[1])
+}
+
+export const schemeType: ISchemeType = {
+  createTransaction,
+  mapParams,
+  mapProposal,
+  mapReceipt: createTransactionMap,
+  name: 'VoteInOrganizationScheme',
+  paramsFragment,
+  proposalFragment,
+  proposalTypes: [IProposalType.VoteInOrganization],
+  readProposal,
+  verifyParameters
+}
@@ -8,8 +8,8 @@ export const REDEEMER_CONTRACT_VERSIONS = [
 // the version of the Reputation, and token contract instances
 export const REPUTATION_CONTRACT_VERSION = '0.0.1-rc.19'
 export const DAOTOKEN_CONTRACT_VERSION = '0.0.1-rc.19'
+// the version of the Avatar and Controller ABIs, used to read the DAOs from the chain
+export const AVATAR_CONTRACT_VERSION = '0.0.1-rc.19'
+export const CONTROLLER_CONTRACT_VERSION = '0.0.1-rc.19'
 // used for a workaround
 export const CONTRIBUTION_REWARD_DUMMY_VERSION = '0.0.1-rc.44'
-
-// export const ABI_DIR = path.resolve('./node_modules/@daostack/migration/contracts-optimized')
-export const ABI_DIR = './abis'
@@ -0,0 +1,132 @@
+import BN = require('bn.js')
+import {
+  bufferToHex,
+  bufferToInt,
+  ecrecover,
+  ecsign,
+  keccak256,
+  pubToAddress,
+  rlp,
+  stripZeros,
+  toBuffer,
+  toChecksumAddress
+} from 'ethereumjs-util'
+import { Address } from './types'
+const Web3 = require('web3')
+
+/** the type of the EIP-1559 transactions, cf. EIP-2718 */
+const EIP1559_TRANSACTION_TYPE = 2
+
+/**
+ * An unsigned transaction, as it is passed to an ITransactionSigner
+ */
+export interface ITransactionRequest {
+  chainId: number
+  data: string
+  from: Address
+  gas: number
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+  nonce: number
+  to: Address
+  value?: string
+}
+
+/**
+ * A signer signs transactions for an Arc instance, instead of the account of the web3 provider.
+ * The signed transactions are sent with `eth_sendRawTransaction`
+ */
+export interface ITransactionSigner {
+  /** the address of the account that signs the transactions */
+  getAddress(): Promise<Address>
+  /** return the serialized signed transaction as a hex string */
+  signTransaction(transaction: ITransactionRequest): Promise<string>
+}
+
+/**
+ * Sign transactions with a private key that is kept in memory
+ */
+export class PrivateKeySigner implements ITransactionSigner {
+  private account: any
+
+  constructor(privateKey: string) {
+    if (!privateKey.startsWith('0x')) {
+      privateKey = `0x${privateKey}`
+    }
+    this.account = new Web3().eth.accounts.privateKeyToAccount(privateKey)
+  }
+
+  public async getAddress(): Promise<Address> {
+    return this.account.address
+  }
+
+  public async signTransaction(transaction: ITransactionRequest): Promise<string> {
+    if (transaction.maxFeePerGas !== undefined) {
+      return this.signEIP1559Transaction(transaction)
+    }
+    const signed = await this.account.signTransaction({
+      chainId: transaction.chainId,
+      data: transaction.data,
+      gas: transaction.gas,
+      gasPrice: transaction.gasPrice,
+      nonce: transaction.nonce,
+      to: transaction.to,
+      value: transaction.value || '0'
+    })
+    return signed.rawTransaction
+  }
+
+  /**
+   * web3 1.3 can only sign legacy transactions, so we serialize and sign EIP-1559 transactions ourselves:
+   * `0x02 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gas, to, value, data, accessList,
+   * yParity, r, s])`, where the signature is over the keccak256 hash of the same envelope without it
+   */
+  private signEIP1559Transaction(transaction: ITransactionRequest): string {
+    const fields = [
+      toQuantity(transaction.chainId),
+      toQuantity(transaction.nonce),
+      toQuantity(transaction.maxPriorityFeePerGas || 0),
+      toQuantity(transaction.maxFeePerGas || 0),
+      toQuantity(transaction.gas),
+      transaction.to ? toBuffer(transaction.to) : Buffer.from([]),
+      toQuantity(transaction.value || 0),
+      toBuffer(transaction.data || '0x'),
+      []
+    ]
+    const type = Buffer.from([EIP1559_TRANSACTION_TYPE])
+    const hash = keccak256(Buffer.concat([type, rlp.encode(fields)]))
+    const signature = ecsign(hash, toBuffer(this.account.privateKey))
+    const signed = rlp.encode([
+      ...fields,
+      toQuantity(signature.v - 27),
+      stripZeros(signature.r),
+      stripZeros(signature.s)
+    ])
+    return bufferToHex(Buffer.concat([type, signed]))
+  }
+}
+
+/**
+ * Return the address of the account that signed a serialized transaction.
+ * web3 1.3 can only read legacy transactions, so we recover the signer of EIP-1559 transactions ourselves,
+ * from the signature over the envelope that `PrivateKeySigner` signs
+ */
+export function recoverTransactionSender(rawTransaction: string): Address {
+  const serialized = toBuffer(rawTransaction)
+  if (serialized[0] !== EIP1559_TRANSACTION_TYPE) {
+    return new Web3().eth.accounts.recoverTransaction(rawTransaction)
+  }
+  const fields = rlp.decode(serialized.slice(1)) as any as Buffer[]
+  if (fields.length !== 12) {
+    throw Error(`The EIP-1559 transaction has ${fields.length} fields instead of 12`)
+  }
+  const [yParity, r, s] = fields.slice(9)
+  const hash = keccak256(Buffer.concat([serialized.slice(0, 1), rlp.encode(fields.slice(0, 9))]))
+  return toChecksumAddress(bufferToHex(pubToAddress(ecrecover(hash, bufferToInt(yParity) + 27, r, s))))
+}
+
+/** encode a number as an RLP quantity, i.e. big endian without leading zeros */
+function toQuantity(value: number | string): Buffer {
+  return stripZeros(new BN(value.toString()).toArrayLike(Buffer))
+}
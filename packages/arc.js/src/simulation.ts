@@ -0,0 +1,88 @@
+import BN = require('bn.js')
+import { Arc } from './arc'
+import { Address } from './types'
+
+/**
+ * A call that the avatar of a DAO makes when a proposal is executed
+ */
+export interface IProposalCall {
+  contractToCall: Address
+  callData: string
+  /** the amount of ETH (in wei) that is sent with the call */
+  value: BN
+}
+
+export interface ICallSimulation extends IProposalCall {
+  success: boolean
+  /** the data that the call returned, if it succeeded */
+  returnValue: string | null
+  /** the reason that the call reverted with (or the error of the node), if it failed */
+  revertReason: string | null
+  /** the gas that a transaction with the call would use, as estimated by the node, if it succeeded */
+  gasUsed: number | null
+}
+
+export interface IProposalSimulation {
+  /** the address that the calls were made from: the avatar of the DAO */
+  avatar: Address
+  calls: ICallSimulation[]
+  /** true if all calls succeeded */
+  success: boolean
+}
+
+// the selector of `Error(string)`, which encodes the reason of a `revert` or a `require`
+const ERROR_SELECTOR = '0x08c379a0'
+
+/**
+ * Make the calls of a proposal with `eth_call` from the avatar, on the state of the latest block, without
+ * sending a transaction.
+ *
+ * Each call is made on its own: a call that depends on the effects of an earlier call of the same proposal
+ * may fail in the simulation, even if it will succeed when the proposal is executed. The calls can be made
+ * on a local fork of the chain by creating the Arc instance with its provider as `web3ProviderRead`.
+ */
+export async function simulateCalls(
+  context: Arc,
+  avatar: Address,
+  calls: IProposalCall[]
+): Promise<IProposalSimulation> {
+  const web3 = context.web3Read
+  if (!web3) {
+    throw Error(`Proposals can only be simulated with a web3 provider`)
+  }
+  const results = await Promise.all(calls.map(async (call: IProposalCall): Promise<ICallSimulation> => {
+    const transaction = { data: call.callData, from: avatar, to: call.contractToCall, value: call.value.toString() }
+    try {
+      const returnValue = await web3.eth.call(transaction)
+      const gasUsed = await web3.eth.estimateGas(transaction)
+      return { ...call, gasUsed, returnValue, revertReason: null, success: true }
+    } catch (err) {
+      return { ...call, gasUsed: null, returnValue: null, revertReason: revertReason(web3, err), success: false }
+    }
+  }))
+  return {
+    avatar,
+    calls: results,
+    success: results.every((result: ICallSimulation) => result.success)
+  }
+}
+
+/**
+ * @return the reason of a reverted call, from the revert data if the node returns it, or else from the message
+ */
+export function revertReason(web3: any, err: any): string {
+  const data = typeof err.data === 'string' ? err.data : err.data && err.data.data
+  if (typeof data === 'string' && data.startsWith(ERROR_SELECTOR)) {
+    try {
+      return web3.eth.abi.decodeParameter('string', `0x${data.slice(ERROR_SELECTOR.length)}`)
+    } catch (decodeError) {
+      // the message is all we have
+    }
+  }
+  const message = err.message.replace(/^Returned error: /, '')
+  const match = message.match(/(?:execution reverted|VM Exception while processing transaction: revert):? ?(.*)$/)
+  if (match) {
+    return match[1] || 'reverted without a reason'
+  }
+  return message
+}
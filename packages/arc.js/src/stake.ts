@@ -4,13 +4,13 @@ import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { IProposalOutcome} from './proposal'
-import { Address, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
+import { Address, Date, ICommonQueryOptions, IStateful } from './types'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IStakeStaticState {
   id?: string
   staker: Address
-  createdAt: Date | undefined
+  createdAt: Date | undefined // the timestamp of the block, in seconds
   outcome: IProposalOutcome
   amount: BN // amount staked
   proposal: string
@@ -20,15 +20,20 @@ export interface IStakeState extends IStakeStaticState {
   id: string
 }
 
+export interface IStakeWhere {
+  id?: string
+  id_in?: string[]
+  staker?: Address
+  dao?: Address
+  proposal?: string
+  proposal_in?: string[]
+  createdAt?: number
+  createdAt_gt?: number
+  createdAt_lt?: number
+}
+
 export interface IStakeQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string
-    staker?: Address
-    dao?: Address
-    proposal?: string
-    createdAt?: number
-    [key: string]: any
-  }
+  where?: IStakeWhere
 }
 
 export class Stake implements IStateful<IStakeState> {
@@ -48,6 +53,19 @@ export class Stake implements IStateful<IStakeState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      amount: 'bigint',
+      createdAt: 'bigint',
+      dao: 'address',
+      id: 'id',
+      outcome: 'string',
+      proposal: 'id',
+      staker: 'address'
+    },
+    name: 'ProposalStake'
+  }
+
   /**
    * Stake.search(context, options) searches for stake entities
    * @param  context an Arc instance that provides connection information
@@ -59,29 +77,18 @@ export class Stake implements IStateful<IStakeState> {
     options: IStakeQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable <Stake[]> {
-    if (!options.where) { options.where = {}}
-    let where = ''
-
-    const proposalId = options.where.proposal
+    const where: IStakeWhere = { ...options.where }
     // if we are searching for stakes on a specific proposal (a common case), we
     // will structure the query so that stakes are stored in the cache together wit the proposal
+    const proposalId = where.id ? undefined : where.proposal
     if (proposalId) {
-      delete options.where.proposal
-    }
-
-    for (const key of Object.keys(options.where)) {
-      if (options.where[key] === undefined) {
-        continue
-      }
-
-      if (key === 'staker' || key === 'dao') {
-        const option = options.where[key] as string
-        isAddress(option)
-        options.where[key] = option.toLowerCase()
-      }
-
-      where += `${key}: "${options.where[key] as string}"\n`
+      delete where.proposal
     }
+    const { args, declarations, variables } = createQueryArguments(
+      Stake.schema,
+      { ...options, where },
+      proposalId ? { proposalId: { type: 'ID!', value: proposalId } } : {}
+    )
 
     let query
     const itemMap = (r: any) => {
@@ -95,7 +102,7 @@ export class Stake implements IStateful<IStakeState> {
       }
       return new Stake({
         amount: new BN(r.amount || 0),
-        createdAt: r.createdAt,
+        createdAt: Number(r.createdAt),
         id: r.id,
         outcome,
         proposal: r.proposal.id,
@@ -103,12 +110,12 @@ export class Stake implements IStateful<IStakeState> {
       }, context)
     }
 
-    if (proposalId && !options.where.id) {
-      query = gql`query ProposalStakesSearchFromProposal
+    if (proposalId) {
+      query = gql`query ProposalStakesSearchFromProposal ${declarations}
         {
-          proposal (id: "${proposalId}") {
+          proposal (id: $proposalId) {
             id
-            stakes ${createGraphQlQuery(options, where)} {
+            stakes ${args} {
               ...StakeFields
             }
           }
@@ -125,12 +132,12 @@ export class Stake implements IStateful<IStakeState> {
           const stakes = r.stakes
           return stakes.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Stake[]>
     } else {
-      query = gql`query ProposalStakesSearch
+      query = gql`query ProposalStakesSearch ${declarations}
         {
-          proposalStakes ${createGraphQlQuery(options, where)} {
+          proposalStakes ${args} {
               ...StakeFields
           }
         }
@@ -140,7 +147,7 @@ export class Stake implements IStateful<IStakeState> {
       return context.getObservableList(
         query,
         itemMap,
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Stake[]>
     }
   }
@@ -182,7 +189,7 @@ export class Stake implements IStateful<IStakeState> {
       }
       this.setStaticState({
         amount: new BN(item.amount),
-        createdAt: item.createdAt,
+        createdAt: Number(item.createdAt),
         id: item.id,
         outcome: item.outcome,
         proposal: item.proposal.id,
@@ -190,7 +197,7 @@ export class Stake implements IStateful<IStakeState> {
       })
       return {
         amount: new BN(item.amount),
-        createdAt: item.createdAt,
+        createdAt: Number(item.createdAt),
         id: item.id,
         outcome: item.outcome,
         proposal: item.proposal.id,
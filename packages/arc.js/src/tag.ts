@@ -4,7 +4,7 @@ import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { Proposal } from './proposal'
 import { ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface ITagStaticState {
   id: string
@@ -16,11 +16,14 @@ export interface ITagState extends ITagStaticState {
   proposals: Proposal[]
 }
 
+export interface ITagWhere {
+  id?: string,
+  id_in?: string[],
+  proposal?: string
+}
+
 export interface ITagQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string,
-    proposal?: string
-  }
+  where?: ITagWhere
 }
 
 export class Tag implements IStateful<ITagState> {
@@ -32,6 +35,15 @@ export class Tag implements IStateful<ITagState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      id: 'id',
+      numberOfProposals: 'bigint',
+      numberOfSuggestions: 'bigint'
+    },
+    name: 'Tag'
+  }
+
   /**
    * Tag.search(context, options) searches for stake entities
    * @param  context an Arc instance that provides connection information
@@ -43,22 +55,14 @@ export class Tag implements IStateful<ITagState> {
     options: ITagQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable <Tag[]> {
-    if (!options.where) { options.where = {}}
-    let where = ''
-
-    const proposalId = options.where.proposal
-    // if we are searching for stakes on a specific proposal (a common case), we
-    // will structure the query so that stakes are stored in the cache together wit the proposal
-    if (proposalId) {
-      delete options.where.proposal
-    }
-
-    for (const key of Object.keys(options.where)) {
-      if (options.where[key] === undefined) {
-        continue
-      }
-      where += `${key}: "${options.where[key] as string}"\n`
-    }
+    // if we are searching for tags of a specific proposal (a common case), we
+    // will structure the query so that the tags are stored in the cache together with the proposal
+    const { proposal: proposalId, ...where } = options.where || {} as ITagWhere
+    const { args, declarations, variables } = createQueryArguments(
+      Tag.schema,
+      { ...options, where },
+      proposalId ? { proposalId: { type: 'ID!', value: proposalId } } : {}
+    )
 
     let query
     const itemMap = (r: any) => {
@@ -69,11 +73,11 @@ export class Tag implements IStateful<ITagState> {
     }
 
     if (proposalId) {
-      query = gql`query TagsSearchFromProposal
+      query = gql`query TagsSearchFromProposal ${declarations}
         {
-          proposal (id: "${proposalId}") {
+          proposal (id: $proposalId) {
             id
-            tags ${createGraphQlQuery(options, where)} {
+            tags ${args} {
               ...TagFields
             }
           }
@@ -89,12 +93,12 @@ export class Tag implements IStateful<ITagState> {
           }
           return r.tags.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Tag[]>
     } else {
-      query = gql`query TagsSearch
+      query = gql`query TagsSearch ${declarations}
         {
-          tags ${createGraphQlQuery(options, where)} {
+          tags ${args} {
               ...TagFields
           }
         }
@@ -104,7 +108,7 @@ export class Tag implements IStateful<ITagState> {
       return context.getObservableList(
         query,
         itemMap,
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Tag[]>
     }
   }
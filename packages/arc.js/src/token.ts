@@ -5,7 +5,8 @@ import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { DAOTOKEN_CONTRACT_VERSION } from './settings'
 import { Address, Hash, ICommonQueryOptions, IStateful, Web3Receipt } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
+import { isAddress } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface ITokenState {
   address: Address
@@ -15,14 +16,17 @@ export interface ITokenState {
   totalSupply: BN
 }
 
+export interface ITokenWhere {
+  id?: Address
+  id_in?: Address[]
+  address?: Address
+  dao?: Address
+  name?: string
+  symbol?: string
+}
+
 export interface ITokenQueryOptions extends ICommonQueryOptions {
-  where?: {
-    address?: Address
-    name?: string
-    owner?: Address
-    symbol?: string
-    [key: string]: any
-  }
+  where?: ITokenWhere
 }
 
 export interface IApproval {
@@ -42,6 +46,16 @@ export interface IAllowance {
 }
 
 export class Token implements IStateful<ITokenState> {
+  public static schema: IEntitySchema = {
+    fields: {
+      dao: 'address',
+      id: 'address',
+      name: 'string',
+      symbol: 'string',
+      totalSupply: 'bigint'
+    },
+    name: 'Token'
+  }
 
   /**
    * Token.search(context, options) searches for token entities
@@ -54,25 +68,15 @@ export class Token implements IStateful<ITokenState> {
     options: ITokenQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable<Token[]> {
-    if (!options.where) { options.where = {}}
-    let where = ''
-    for (const key of Object.keys(options.where)) {
-      if (options[key] === undefined) {
-        continue
-      }
-
-      if (key === 'token' || key === 'owner' || key === 'spender') {
-        const option = options[key] as string
-        isAddress(option)
-        options[key] = option.toLowerCase()
-      }
-
-      where += `${key}: "${options[key] as string}"\n`
+    // the address of a token is its id
+    const { address, ...where } = options.where || {} as ITokenWhere
+    if (address !== undefined) {
+      where.id = address
     }
-
-    const query = gql`query TokenSearch
+    const { args, declarations, variables } = createQueryArguments(Token.schema, { ...options, where })
+    const query = gql`query TokenSearch ${declarations}
     {
-      tokens ${createGraphQlQuery(options, where)} {
+      tokens ${args} {
         id
       }
     }`
@@ -80,7 +84,7 @@ export class Token implements IStateful<ITokenState> {
     return context.getObservableList(
       query,
       (r: any) => new Token(r.id, context),
-      apolloQueryOptions
+      { ...apolloQueryOptions, variables }
     ) as Observable<Token[]>
   }
 
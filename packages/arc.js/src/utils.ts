@@ -111,6 +111,7 @@ export const NULL_ADDRESS = '0x0000000000000000000000000000000000000000'
  * @param  options [description]
  * @param  where   [description]
  * @return         [description]
+ * @deprecated the values are inlined in the query; use [[createQueryArguments]], which passes them as variables
  */
 export function createGraphQlQuery(options: ICommonQueryOptions, where: string = '') {
   let queryString = ``
@@ -142,6 +143,9 @@ export function createGraphQlQuery(options: ICommonQueryOptions, where: string =
   }
 }
 
+/**
+ * @deprecated use [[buildWhere]], which validates the where clause
+ */
 export function createGraphQlWhereQuery(where?: {[key: string]: string|string[]|null}) {
   let result = ''
   if (!where) { where = {}}
@@ -157,11 +161,9 @@ export function createGraphQlWhereQuery(where?: {[key: string]: string|string[]|
       isAddress(value as string)
       value = (value as string).toLowerCase()
       result += `${key}: "${value}"\n`
-    } else if (key.endsWith('_in') || key.endsWith('_not_in')) {
-      value = JSON.stringify(value)
-      result += `${key}: ${value}\n`
     } else {
-      result += `${key}: "${value}"\n`
+      // JSON.stringify quotes and escapes strings as GraphQL does
+      result += `${key}: ${JSON.stringify(Array.isArray(value) ? value : String(value))}\n`
     }
   }
   return result
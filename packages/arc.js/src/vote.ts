@@ -5,12 +5,12 @@ import { first } from 'rxjs/operators'
 import { Arc, IApolloQueryOptions } from './arc'
 import { IProposalOutcome } from './proposal'
 import { Address, Date, ICommonQueryOptions, IStateful } from './types'
-import { createGraphQlQuery, isAddress } from './utils'
+import { createQueryArguments, IEntitySchema } from './where'
 
 export interface IVoteStaticState {
   id?: string
   voter: Address
-  createdAt: Date | undefined
+  createdAt: Date | undefined // the timestamp of the block, in seconds
   outcome: IProposalOutcome
   amount: BN // amount of reputation that was voted with
   proposal: string
@@ -21,15 +21,20 @@ export interface IVoteState extends IVoteStaticState {
   id: string
 }
 
+export interface IVoteWhere {
+  id?: string
+  id_in?: string[]
+  voter?: Address
+  outcome?: IProposalOutcome
+  proposal?: string
+  proposal_in?: string[]
+  dao?: Address
+  createdAt_gt?: number
+  createdAt_lt?: number
+}
+
 export interface IVoteQueryOptions extends ICommonQueryOptions {
-  where?: {
-    id?: string
-    voter?: Address
-    outcome?: IProposalOutcome
-    proposal?: string
-    dao?: Address
-    [key: string]: any
-  }
+  where?: IVoteWhere
 }
 
 export class Vote implements IStateful<IVoteState> {
@@ -49,6 +54,19 @@ export class Vote implements IStateful<IVoteState> {
     }`
   }
 
+  public static schema: IEntitySchema = {
+    fields: {
+      createdAt: 'bigint',
+      dao: 'address',
+      id: 'id',
+      outcome: 'string',
+      proposal: 'id',
+      reputation: 'bigint',
+      voter: 'address'
+    },
+    name: 'ProposalVote'
+  }
+
   /**
    * Vote.search(context, options) searches for vote entities
    * @param  context an Arc instance that provides connection information
@@ -60,32 +78,22 @@ export class Vote implements IStateful<IVoteState> {
     options: IVoteQueryOptions = {},
     apolloQueryOptions: IApolloQueryOptions = {}
   ): Observable <Vote[]> {
-    if (!options.where) { options.where = {}}
-    const proposalId = options.where.proposal
+    const where: { [key: string]: any } = { ...options.where }
     // if we are searching for votes of a specific proposal (a common case), we
-    // will structure the query so that votes are stored in the cache together wit the proposal
+    // will structure the query so that votes are stored in the cache together with the proposal
+    const proposalId = where.id ? undefined : where.proposal
     if (proposalId) {
-      delete options.where.proposal
+      delete where.proposal
     }
-
-    let where = ''
-    for (const key of Object.keys(options.where)) {
-      if (options.where[key] === undefined) {
-        continue
-      }
-
-      if (key === 'voter' || key === 'dao') {
-        const option = options.where[key] as string
-        isAddress(option)
-        options.where[key] = option.toLowerCase()
-      }
-
-      if (key === 'outcome') {
-        where += `${key}: "${IProposalOutcome[options.where[key] as number]}"\n`
-      } else {
-        where += `${key}: "${options.where[key] as string}"\n`
-      }
+    if (where.outcome !== undefined) {
+      // the subgraph stores the outcome by its name
+      where.outcome = IProposalOutcome[where.outcome]
     }
+    const { args, declarations, variables } = createQueryArguments(
+      Vote.schema,
+      { ...options, where },
+      proposalId ? { proposalId: { type: 'ID!', value: proposalId } } : {}
+    )
 
     let query
     const itemMap = (r: any) => {
@@ -99,7 +107,7 @@ export class Vote implements IStateful<IVoteState> {
       }
       return new Vote({
         amount: new BN(r.reputation || 0),
-        createdAt: r.createdAt,
+        createdAt: Number(r.createdAt),
         dao: r.dao.id,
         id: r.id,
         outcome,
@@ -108,15 +116,12 @@ export class Vote implements IStateful<IVoteState> {
       }, context)
     }
 
-    // if we are searching for votes of a specific proposal (a common case), we
-    // will structure the query so that votes are stored in the cache together with the proposal
-    // if (options.where.proposal && !options.where.id) {
-    if (proposalId && !options.where.id) {
-      query = gql`query ProposalVotesSearchFromProposal
+    if (proposalId) {
+      query = gql`query ProposalVotesSearchFromProposal ${declarations}
         {
-          proposal (id: "${proposalId}") {
+          proposal (id: $proposalId) {
             id
-            votes ${createGraphQlQuery({ where: { ...options.where, proposal: undefined}}, where)} {
+            votes ${args} {
               ...VoteFields
             }
           }
@@ -133,13 +138,13 @@ export class Vote implements IStateful<IVoteState> {
           const votes = r.votes
           return votes.map(itemMap)
         },
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Vote[]>
 
     } else {
-      query = gql`query ProposalVotesSearch
+      query = gql`query ProposalVotesSearch ${declarations}
         {
-          proposalVotes ${createGraphQlQuery(options, where)} {
+          proposalVotes ${args} {
             ...VoteFields
           }
         }
@@ -149,7 +154,7 @@ export class Vote implements IStateful<IVoteState> {
       return context.getObservableList(
         query,
         itemMap,
-        apolloQueryOptions
+        { ...apolloQueryOptions, variables }
       ) as Observable<Vote[]>
     }
   }
@@ -181,7 +186,7 @@ export class Vote implements IStateful<IVoteState> {
       }
       return {
         amount: item.reputation,
-        createdAt: item.createdAt,
+        createdAt: Number(item.createdAt),
         dao: item.dao.id,
         id: item.id,
         outcome: item.outcome,
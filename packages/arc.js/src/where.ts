@@ -0,0 +1,228 @@
+import BN = require('bn.js')
+import { ICommonQueryOptions } from './types'
+import { dateToSecondsSinceEpoch, isAddress } from './utils'
+
+/**
+ * The type of a field that can be filtered on. `addresses` is a list of addresses (like
+ * `Proposal.accountsWithUnclaimedRewards`), `ids` a list of ids (like `Proposal.tags`) and
+ * `bigint` is a `BigInt` of the subgraph
+ */
+export type WhereFieldType = 'address' | 'addresses' | 'bigint' | 'boolean' | 'bytes' | 'id' | 'ids' | 'int' | 'string'
+
+/**
+ * Describes the filter of an entity of the subgraph
+ */
+export interface IEntitySchema {
+  /** the name of the entity in the subgraph, e.g. `Proposal`; its filter is of type `Proposal_filter` */
+  name: string
+  /** the fields that can be filtered on, and their types */
+  fields: { [field: string]: WhereFieldType }
+}
+
+/**
+ * The operators that can be appended to a field name, as in `{ createdAt_gt: 1570000000 }`
+ */
+export const WHERE_OPERATORS = [
+  'not', 'gt', 'lt', 'gte', 'lte', 'in', 'not_in', 'contains', 'not_contains',
+  'starts_with', 'not_starts_with', 'ends_with', 'not_ends_with'
+]
+
+const ORDERING_OPERATORS = ['gt', 'lt', 'gte', 'lte']
+const LIST_OPERATORS = ['in', 'not_in']
+const CONTAINS_OPERATORS = ['contains', 'not_contains']
+const STRING_OPERATORS = ['starts_with', 'not_starts_with', 'ends_with', 'not_ends_with']
+
+// the operators that the subgraph supports for each type of field, besides equality and 'not'
+const OPERATORS_BY_TYPE: { [type: string]: string[] } = {
+  address: [...ORDERING_OPERATORS, ...LIST_OPERATORS, ...CONTAINS_OPERATORS],
+  addresses: CONTAINS_OPERATORS,
+  bigint: [...ORDERING_OPERATORS, ...LIST_OPERATORS],
+  boolean: LIST_OPERATORS,
+  bytes: [...ORDERING_OPERATORS, ...LIST_OPERATORS, ...CONTAINS_OPERATORS],
+  id: [...ORDERING_OPERATORS, ...LIST_OPERATORS, ...CONTAINS_OPERATORS, ...STRING_OPERATORS],
+  ids: CONTAINS_OPERATORS,
+  int: [...ORDERING_OPERATORS, ...LIST_OPERATORS],
+  string: [...ORDERING_OPERATORS, ...LIST_OPERATORS, ...CONTAINS_OPERATORS, ...STRING_OPERATORS]
+}
+
+/**
+ * A GraphQL variable that a query declares, besides the ones of [[createQueryArguments]]
+ */
+export interface IQueryVariable {
+  /** the GraphQL type, e.g. `ID!` */
+  type: string
+  value: any
+}
+
+export interface IQueryArguments {
+  /** the declarations of the variables, to be used in the operation, e.g. `($where: DAO_filter, $first: Int)` */
+  declarations: string
+  /** the arguments, to be used in the field of the entity, e.g. `(where: $where, first: $first)` */
+  args: string
+  /** the values of the variables, to be passed on in the `variables` of the IApolloQueryOptions */
+  variables: { [name: string]: any }
+}
+
+/**
+ * split a key of a where clause, like `createdAt_gt`, into a field and an operator
+ * @throws an Error if the entity has no such field, or the field does not support the operator
+ */
+export function parseWhereKey(schema: IEntitySchema, key: string): { field: string, operator: string } {
+  if (schema.fields[key]) {
+    return { field: key, operator: '' }
+  }
+  // try the longest operators first, so that `dao_not_in` is not read as the field `dao_not` with operator `in`
+  const operators = [...WHERE_OPERATORS].sort((a: string, b: string) => b.length - a.length)
+  for (const operator of operators) {
+    const field = key.substring(0, key.length - operator.length - 1)
+    if (key.endsWith(`_${operator}`) && schema.fields[field]) {
+      const type = schema.fields[field]
+      if (operator !== 'not' && OPERATORS_BY_TYPE[type].indexOf(operator) === -1) {
+        throw Error(`The field "${field}" of ${schema.name} does not support the "${operator}" operator`)
+      }
+      return { field, operator }
+    }
+  }
+  throw Error(`Cannot filter ${schema.name} on "${key}"; ` +
+    `the fields that can be used are: ${Object.keys(schema.fields).join(', ')}`)
+}
+
+/**
+ * Validate and normalize a where clause: the keys are checked against the schema, addresses are validated
+ * and lowercased, dates and BNs are converted to the BigInts of the subgraph and undefined values are dropped.
+ * The result can be passed as the `where` variable of a query (cf. [[createQueryArguments]])
+ *
+ * For example:
+ * ```
+ * buildWhere(Proposal.schema, { dao: '0xABC...', createdAt_gt: new Date('2020-01-01') })
+ * // { dao: '0xabc...', createdAt_gt: '1577836800' }
+ * ```
+ * @throws an Error if the where clause uses a field that does not exist, an operator that is not supported, or
+ * a value of the wrong type
+ */
+export function buildWhere(schema: IEntitySchema, where: { [key: string]: any } = {}): { [key: string]: any } {
+  const result: { [key: string]: any } = {}
+  for (const key of Object.keys(where)) {
+    if (where[key] === undefined) {
+      continue
+    }
+    const { field, operator } = parseWhereKey(schema, key)
+    const type = schema.fields[field]
+    const value = where[key]
+    if (LIST_OPERATORS.indexOf(operator) > -1 || ((type === 'addresses' || type === 'ids') && value !== null)) {
+      if (!Array.isArray(value)) {
+        throw Error(`The value of "${key}" must be an array, got ${value} instead`)
+      }
+      result[key] = value.map((v: any) => normalizeValue(schema, key, type, v))
+    } else if (STRING_OPERATORS.indexOf(operator) > -1 || CONTAINS_OPERATORS.indexOf(operator) > -1) {
+      // (part of) a string or hex string, which we cannot validate as a whole
+      result[key] = normalizeValue(schema, key, type === 'address' ? 'bytes' : 'string', value)
+    } else {
+      result[key] = normalizeValue(schema, key, type, value)
+    }
+  }
+  return result
+}
+
+/**
+ * Create the variables and arguments of a query for a list of entities, from the query options.
+ *
+ * For example:
+ * ```
+ * const { args, declarations, variables } = createQueryArguments(DAO.schema, { first: 10, where: { name } })
+ * const query = gql`query SearchDaos ${declarations} {
+ *   daos ${args} { id }
+ * }`
+ * context.getObservableList(query, itemMap, { ...apolloQueryOptions, variables })
+ * ```
+ * @param  schema    the schema of the entity
+ * @param  options   the query options; `options.where` is checked with [[buildWhere]]
+ * @param  variables other variables that the query uses, like an id in `proposal(id: $proposalId)`
+ */
+export function createQueryArguments(
+  schema: IEntitySchema,
+  options: ICommonQueryOptions = {},
+  variables: { [name: string]: IQueryVariable } = {}
+): IQueryArguments {
+  const declarations: string[] = []
+  const args: string[] = []
+  const values: { [name: string]: any } = {}
+  const declare = (name: string, type: string, value: any) => {
+    declarations.push(`$${name}: ${type}`)
+    values[name] = value
+  }
+  const addArgument = (name: string, type: string, value: any) => {
+    declare(name, type, value)
+    args.push(`${name}: $${name}`)
+  }
+
+  const where = buildWhere(schema, options.where)
+  if (Object.keys(where).length > 0) {
+    addArgument('where', `${schema.name}_filter`, where)
+  }
+  if (options.first) {
+    addArgument('first', 'Int', options.first)
+  }
+  if (options.skip) {
+    addArgument('skip', 'Int', options.skip)
+  }
+  if (options.orderBy) {
+    addArgument('orderBy', `${schema.name}_orderBy`, options.orderBy)
+  }
+  if (options.orderDirection) {
+    addArgument('orderDirection', 'OrderDirection', options.orderDirection)
+  }
+  for (const name of Object.keys(variables)) {
+    declare(name, variables[name].type, variables[name].value)
+  }
+  return {
+    args: args.length > 0 ? `(${args.join(', ')})` : '',
+    declarations: declarations.length > 0 ? `(${declarations.join(', ')})` : '',
+    variables: values
+  }
+}
+
+function normalizeValue(schema: IEntitySchema, key: string, type: WhereFieldType, value: any): any {
+  if (value === null) {
+    return null
+  }
+  const invalid = (expected: string) =>
+    Error(`The value of "${key}" of ${schema.name} must be ${expected}, got ${JSON.stringify(value)} instead`)
+  switch (type) {
+    case 'address':
+    case 'addresses':
+      isAddress(value)
+      return (value as string).toLowerCase()
+    case 'bytes':
+      if (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]*$/.test(value)) {
+        throw invalid('a hex string')
+      }
+      return value.toLowerCase()
+    case 'bigint':
+      if (value instanceof Date) {
+        return String(dateToSecondsSinceEpoch(value))
+      }
+      if (BN.isBN(value)) {
+        return value.toString()
+      }
+      if (!(typeof value === 'number' || typeof value === 'string') || !/^-?\d+$/.test(String(value))) {
+        throw invalid('an integer')
+      }
+      return String(value)
+    case 'int':
+      if (!Number.isInteger(Number(value)) || typeof value === 'boolean' || value === '') {
+        throw invalid('an integer')
+      }
+      return Number(value)
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw invalid('a boolean')
+      }
+      return value
+    default:
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw invalid('a string')
+      }
+      return String(value)
+  }
+}
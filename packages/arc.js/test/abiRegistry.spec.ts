@@ -0,0 +1,71 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ABIRegistry, bundledABILoader } from '../src/abiRegistry'
+const rimraf = require('rimraf')
+
+jest.mock('../src/abis', () => ({
+  bundledABIs: { '0.0.0-test': { Avatar: () => ({ abi: [{ name: 'owner', type: 'function' }] }) } }
+}), { virtual: true })
+
+describe('ABIRegistry', () => {
+  const avatarABI = [{ name: 'owner', type: 'function' }]
+  const genericSchemeABI = [{ name: 'proposeCall', type: 'function' }]
+
+  it('finds ABIs in the manifest, following rootVersion', () => {
+    const registry = new ABIRegistry({ manifest: {
+      '0.0.1-rc.19': { Avatar: { abi: avatarABI } },
+      '0.0.1-rc.20': { Avatar: { rootVersion: '0.0.1-rc.19' } }
+    }})
+    expect(registry.getABI('Avatar', '0.0.1-rc.19')).toEqual(avatarABI)
+    expect(registry.getABI('Avatar', '0.0.1-rc.20')).toEqual(avatarABI)
+  })
+
+  it('applies the resolutions', () => {
+    const registry = new ABIRegistry({ manifest: {
+      '0.0.1-rc.23': { GenericScheme: genericSchemeABI },
+      '0.0.1-rc.24': { UGenericScheme: genericSchemeABI },
+      '0.0.1-rc.3': { ERC20: avatarABI }
+    }})
+    expect(registry.resolve('UGenericScheme', '0.0.1-rc.23')).toEqual({
+      name: 'GenericScheme', version: '0.0.1-rc.23'
+    })
+    expect(registry.resolve('UGenericScheme', '0.0.1-rc.24')).toEqual({
+      name: 'UGenericScheme', version: '0.0.1-rc.24'
+    })
+    expect(registry.getABI('UGenericScheme', '0.0.1-rc.23')).toEqual(genericSchemeABI)
+    expect(registry.getABI('GEN', '0.0.1-rc.3')).toEqual(avatarABI)
+  })
+
+  it('asks the loader and reads the directory', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'abis-'))
+    fs.mkdirSync(path.join(directory, '0.0.1-rc.44'))
+    fs.writeFileSync(path.join(directory, '0.0.1-rc.44', 'Avatar.json'), JSON.stringify({ abi: avatarABI }))
+    const loader = jest.fn((name: string) => name === 'GenericScheme' ? genericSchemeABI : undefined)
+    try {
+      const registry = new ABIRegistry({ directory, loader })
+      expect(registry.getABI('Avatar', '0.0.1-rc.44')).toEqual(avatarABI)
+      expect(registry.getABI('GenericScheme', '0.0.1-rc.44')).toEqual(genericSchemeABI)
+      expect(registry.knownVersions('Avatar')).toEqual(['0.0.1-rc.44'])
+    } finally {
+      rimraf.sync(directory)
+    }
+  })
+
+  it('requires the ABIs that are copied into the package by default', () => {
+    const registry = new ABIRegistry({ loader: bundledABILoader })
+    expect(registry.getABI('Avatar', '0.0.0-test')).toEqual(avatarABI)
+    expect(bundledABILoader('Controller', '0.0.0-test')).toBeUndefined()
+    expect(bundledABILoader('Avatar', '0.0.1-rc.99')).toBeUndefined()
+  })
+
+  it('lists the known versions when an ABI is not found', () => {
+    const registry = new ABIRegistry({ manifest: {
+      '0.0.1-rc.2': { Avatar: avatarABI },
+      '0.0.1-rc.10': { Avatar: avatarABI }
+    }})
+    expect(() => registry.getABI('Avatar', '0.0.1-rc.99'))
+      .toThrow('known versions of Avatar are: 0.0.1-rc.2, 0.0.1-rc.10')
+    expect(() => registry.getABI('Controller', '0.0.1-rc.2')).toThrow('no versions of Controller are known')
+  })
+})
@@ -1,7 +1,8 @@
 import BN = require('bn.js')
+import { EventEmitter } from 'events'
 import gql from 'graphql-tag'
 import { first } from 'rxjs/operators'
-import Arc from '../src/index'
+import Arc, { ChainMismatchError } from '../src/index'
 import { Proposal } from '../src/proposal'
 import { Scheme } from '../src/scheme'
 import { REDEEMER_CONTRACT_VERSIONS } from '../src/settings'
@@ -34,6 +35,14 @@ describe('Arc ', () => {
     expect(arc).toBeInstanceOf(Arc)
   })
 
+  it('Arc can query the subgraph over HTTP only', () => {
+    const arc = new Arc({ graphqlHttpProvider: 'https://graphql.provider', graphqlPollInterval: 60000 })
+    expect(arc.apolloClient).toBeDefined()
+    // queries that subscribe poll instead
+    expect(arc.subscriptionClient).toBeUndefined()
+    expect(arc.graphqlPollInterval).toEqual(60000)
+  })
+
   it('Arc is usable without subgraph connection', async () => {
     const arc = await newArcWithoutGraphql()
     expect(arc).toBeInstanceOf(Arc)
@@ -216,6 +225,19 @@ describe('Arc ', () => {
     expect(anAddress).toEqual(anAddress.toLowerCase())
   })
 
+  it('arc.indexingStatus() reports how far the subgraph is behind', async () => {
+    const arc = await newArc()
+    const status = await arc.indexingStatus().pipe(first()).toPromise()
+    expect(status.chainBlockNumber).toBeGreaterThan(0)
+    expect(status.subgraphBlockNumber).toBeLessThanOrEqual(status.chainBlockNumber)
+    expect(status.blocksBehind).toEqual(status.chainBlockNumber - (status.subgraphBlockNumber as number))
+
+    const arcWithoutGraphql = await newArcWithoutGraphql()
+    const statusWithoutGraphql = await arcWithoutGraphql.indexingStatus().pipe(first()).toPromise()
+    expect(statusWithoutGraphql.subgraphBlockNumber).toEqual(null)
+    expect(statusWithoutGraphql.blocksBehind).toEqual(null)
+  })
+
   it('arc.getABI works', async () => {
     const arc = await newArc()
     await arc.fetchContractInfos()
@@ -231,4 +253,125 @@ describe('Arc ', () => {
 
     expect(contractInfo.alias).toEqual("ContributionRewardExt")
   })
+  it('arc.getAccount() and arc.getChainId() listen to the events of EIP-1193 providers', async () => {
+    const arc = new Arc({})
+    const provider = new EventEmitter() as any
+    provider.request = () => undefined
+    const account1 = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+    const account2 = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+    arc.web3 = {
+      currentProvider: provider,
+      eth: {
+        accounts: [],
+        getAccounts: async () => [account1],
+        getChainId: async () => 1
+      }
+    }
+    const accounts: Address[] = []
+    const chainIds: number[] = []
+    const accountSubscription = arc.getAccount().subscribe((account: Address) => accounts.push(account))
+    const chainIdSubscription = arc.getChainId().subscribe((chainId: number) => chainIds.push(chainId))
+    await waitUntilTrue(() => accounts.length === 1 && chainIds.length === 1)
+    expect(provider.listenerCount('accountsChanged')).toEqual(1)
+
+    // a second subscriber shares the same listener
+    const accountSubscription2 = arc.getAccount().subscribe()
+    expect(provider.listenerCount('accountsChanged')).toEqual(1)
+
+    provider.emit('accountsChanged', [account2])
+    provider.emit('chainChanged', '0x64')
+    expect(accounts).toEqual([account1, account2])
+    expect(chainIds).toEqual([1, 100])
+
+    accountSubscription.unsubscribe()
+    accountSubscription2.unsubscribe()
+    chainIdSubscription.unsubscribe()
+    expect(provider.listenerCount('accountsChanged')).toEqual(0)
+    expect(provider.listenerCount('chainChanged')).toEqual(0)
+  })
+
+  it('arc.close() completes the shared observables and disconnects the providers', async () => {
+    const arc = new Arc({})
+    const provider = new EventEmitter() as any
+    provider.request = () => undefined
+    provider.disconnect = jest.fn()
+    arc.web3 = arc.web3Read = {
+      currentProvider: provider,
+      eth: {
+        accounts: [],
+        clearSubscriptions: jest.fn(),
+        getAccounts: async () => [],
+        getBlockNumber: async () => 1
+      }
+    }
+    const completed: string[] = []
+    arc.indexingStatus(10).subscribe({ complete: () => completed.push('indexingStatus') })
+    arc.accountChanges().subscribe({ complete: () => completed.push('accountChanges') })
+    expect(provider.listenerCount('accountsChanged')).toEqual(1)
+
+    await arc.close()
+    expect(arc.isClosed).toEqual(true)
+    expect(completed.sort()).toEqual(['accountChanges', 'indexingStatus'])
+    expect(provider.listenerCount('accountsChanged')).toEqual(0)
+    expect(arc.web3.eth.clearSubscriptions).toHaveBeenCalled()
+    expect(provider.disconnect).toHaveBeenCalledTimes(1)
+  })
+
+  it('arc.close() removes the listeners and the subscription of the callCache from the provider', async () => {
+    const provider = new EventEmitter() as any
+    provider.send = jest.fn((payload: any, callback: (err: Error | null, response?: any) => void) =>
+      setTimeout(() => callback(null, { id: payload.id, jsonrpc: '2.0', result: '0x1' })))
+    const arc = new Arc({ callCache: true, web3Provider: provider })
+    // wait for the subscription to new blocks
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const events = ['data', 'message', 'close', 'connect']
+    const listenerCounts = events.map((event: string) => provider.listenerCount(event))
+
+    await arc.close()
+    expect(events.map((event: string) => provider.listenerCount(event)))
+      .toEqual(listenerCounts.map((count: number) => count - 1))
+    expect(provider.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: 'eth_unsubscribe', params: ['0x1'] }), expect.any(Function))
+  })
+
+  it('refuses to send transactions when the web3 provider is on another chain', async () => {
+    const arc = new Arc({ chainId: 1 })
+    const provider = new EventEmitter() as any
+    provider.request = () => undefined
+    arc.web3 = arc.web3Read = {
+      currentProvider: provider,
+      eth: {
+        getChainId: async () => 1
+      }
+    }
+    await arc.verifyChain()
+    const mismatches: Array<ChainMismatchError | null> = []
+    const subscription = arc.chainMismatch().subscribe((mismatch) => mismatches.push(mismatch))
+    await waitUntilTrue(() => mismatches.length === 1)
+    expect(mismatches[0]).toBeNull()
+
+    provider.emit('chainChanged', '0x4')
+    expect(mismatches[1]).toBeInstanceOf(ChainMismatchError)
+    expect(mismatches[1]).toMatchObject({ chainId: 4, expectedChainId: 1 })
+    await expect(arc.verifyChain()).rejects.toThrow(ChainMismatchError)
+
+    const transaction = {
+      estimateGas: async () => { throw Error('the transaction should not be sent') }
+    }
+    const operation = arc.sendTransaction(transaction, () => undefined)
+    await expect(operation.send()).rejects.toThrow(ChainMismatchError)
+    subscription.unsubscribe()
+  })
+
+  it('verifies that the subgraph and the contracts are on the chain of the web3 providers', async () => {
+    const arc = await newArc()
+    await arc.verifyChain()
+
+    const getBlock = jest.spyOn(arc.web3Read.eth, 'getBlock').mockResolvedValue({ hash: '0x' + '0'.repeat(64) })
+    await expect(arc.verifyChain()).rejects.toThrow('The subgraph is not on chain')
+    getBlock.mockRestore()
+
+    await arc.setContractInfos([{ ...arc.contractInfos[0], address: '0x' + '1'.repeat(40) }])
+    await expect(arc.verifyChain()).rejects.toThrow('The first contract of the contractInfos is not on chain')
+  })
 })
@@ -0,0 +1,60 @@
+import { concat, merge, of, throwError } from 'rxjs'
+import { toArray } from 'rxjs/operators'
+import { IBatchFailurePolicy, sendBatch } from '../src/batch'
+import { ITransactionState, sendTransaction, toIOperationObservable } from '../src/operation'
+
+describe('sendBatch', () => {
+  const context: any = {
+    getAccount: () => of('0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'),
+    web3: { eth: { getTransactionCount: async () => 7 } }
+  }
+  const succeeding = (hash: string) => toIOperationObservable(of(
+    { state: ITransactionState.Sending },
+    { state: ITransactionState.Sent, transactionHash: hash },
+    { confirmations: 0, state: ITransactionState.Mined, transactionHash: hash }
+  ))
+  const failing = () => toIOperationObservable(concat(
+    of({ state: ITransactionState.Sending }),
+    throwError(Error('estimateGas failed'))
+  )) as any
+
+  it('reports the updates of all operations', async () => {
+    const updates = await sendBatch(context, [succeeding('0x1'), succeeding('0x2')]).pipe(toArray()).toPromise()
+    expect(updates.map((u) => [u.index, u.update && u.update.state])).toEqual([
+      [0, ITransactionState.Sending],
+      [0, ITransactionState.Sent],
+      [0, ITransactionState.Mined],
+      [1, ITransactionState.Sending],
+      [1, ITransactionState.Sent],
+      [1, ITransactionState.Mined]
+    ])
+  })
+
+  it('skips the remaining operations after a failure by default', async () => {
+    const updates = await sendBatch(context, [failing(), succeeding('0x2')]).pipe(toArray()).toPromise()
+    expect(updates[1]).toMatchObject({ index: 0 })
+    expect((updates[1].error as Error).message).toEqual('estimateGas failed')
+    expect(updates[2]).toEqual({ index: 1, skipped: true })
+    expect(updates.length).toEqual(3)
+  })
+
+  it('fails operations that send more than one transaction, as they cannot share a nonce', async () => {
+    // a transaction that is never sent
+    const transaction = { estimateGas: () => new Promise(() => undefined) }
+    const composite = toIOperationObservable(merge(
+      sendTransaction(context, transaction, () => undefined),
+      sendTransaction(context, transaction, () => undefined)
+    ))
+    const updates = await sendBatch(context, [composite]).pipe(toArray()).toPromise()
+    expect(updates[0]).toMatchObject({ index: 0, update: { state: ITransactionState.Sending } })
+    expect((updates[1].error as Error).message).toMatch('more than one transaction')
+    expect(updates.length).toEqual(2)
+  })
+
+  it('continues after a failure if asked to', async () => {
+    const updates = await sendBatch(context, [failing(), succeeding('0x2')], {
+      onFailure: IBatchFailurePolicy.Continue
+    }).pipe(toArray()).toPromise()
+    expect(updates.filter((u) => u.index === 1).length).toEqual(3)
+  })
+})
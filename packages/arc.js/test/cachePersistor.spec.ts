@@ -0,0 +1,96 @@
+import { InMemoryCache } from 'apollo-cache-inmemory'
+import gql from 'graphql-tag'
+import { CachePersistor, FileCacheStorage } from '../src/cachePersistor'
+const fs = require('fs')
+const os = require('os')
+
+const query = gql`query TestDAO {
+  dao(id: "0x1234") { id name }
+}`
+
+describe('CachePersistor', () => {
+  let directory: string
+  let storage: FileCacheStorage
+
+  const newCache = () => {
+    const cache = new InMemoryCache()
+    cache.writeQuery({ data: { dao: { __typename: 'DAO', id: '0x1234', name: 'Genesis' } }, query })
+    return cache
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(`${os.tmpdir()}/arc-cache-`)
+    storage = new FileCacheStorage(directory)
+  })
+
+  afterEach(() => {
+    fs.rmdirSync(directory, { recursive: true })
+  })
+
+  it('saves the cache and restores it in another cache', async () => {
+    const persistor = new CachePersistor(newCache(), { storage, version: 'v1' })
+    await persistor.persist()
+    expect(await storage.getItem('arc.js-apollo-cache:v1')).toContain('Genesis')
+
+    const cache = new InMemoryCache()
+    expect(await new CachePersistor(cache, { storage, version: 'v1' }).restore()).toEqual(true)
+    expect(cache.readQuery({ query })).toMatchObject({ dao: { id: '0x1234', name: 'Genesis' } })
+  })
+
+  it('saves the cache at each interval, if it has changed', async () => {
+    const cache = new InMemoryCache()
+    const persistor = new CachePersistor(cache, { interval: 10, storage, version: 'v1' })
+    const write = cache.write
+    cache.writeQuery({ data: { dao: { __typename: 'DAO', id: '0x1234', name: 'Genesis' } }, query })
+    expect(await storage.getItem(persistor.key)).toEqual(null)
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(await storage.getItem(persistor.key)).toContain('Genesis')
+    // the cache itself is not changed
+    expect(cache.write).toBe(write)
+
+    const setItem = jest.spyOn(storage, 'setItem')
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(setItem).not.toHaveBeenCalled()
+    cache.writeQuery({ data: { dao: { __typename: 'DAO', id: '0x1234', name: 'Genesis DAO' } }, query })
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(setItem).toHaveBeenCalledTimes(1)
+    expect(await storage.getItem(persistor.key)).toContain('Genesis DAO')
+    persistor.stop()
+    setItem.mockRestore()
+  })
+
+  it('does not restore a cache of another version, or an expired cache', async () => {
+    await new CachePersistor(newCache(), { storage, version: 'v1' }).persist()
+    expect(await new CachePersistor(new InMemoryCache(), { storage, version: 'v2' }).restore()).toEqual(false)
+
+    const expired = new CachePersistor(new InMemoryCache(), { storage, ttl: -1, version: 'v1' })
+    expect(await expired.restore()).toEqual(false)
+    // the expired cache is removed
+    expect(await storage.getItem(expired.key)).toEqual(null)
+  })
+
+  it('leaves out the entries that were updated longest ago to fit in the maxSize', async () => {
+    const cache = newCache()
+    const persistor = new CachePersistor(cache, { storage, version: 'v1' })
+    await persistor.persist()
+    const size = (await storage.getItem(persistor.key) as string).length
+    // a later update of another DAO
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    const otherQuery = gql`query OtherDAO { dao(id: "0x5678") { id name } }`
+    cache.writeQuery({ data: { dao: { __typename: 'DAO', id: '0x5678', name: 'Other' } }, query: otherQuery })
+    persistor.maxSize = size
+    await persistor.persist()
+
+    const saved = JSON.parse(await storage.getItem(persistor.key) as string)
+    expect(Object.keys(saved.data)).toContain('ROOT_QUERY')
+    expect(Object.keys(saved.data)).toContain('DAO:0x5678')
+    expect(Object.keys(saved.data)).not.toContain('DAO:0x1234')
+
+    // a cache of which even the root queries do not fit is not saved, and the saved cache is kept
+    persistor.maxSize = 10
+    cache.writeQuery({ data: { dao: { __typename: 'DAO', id: '0x5678', name: 'Other DAO' } }, query: otherQuery })
+    await persistor.persist()
+    expect(JSON.parse(await storage.getItem(persistor.key) as string)).toEqual(saved)
+    persistor.stop()
+  })
+})
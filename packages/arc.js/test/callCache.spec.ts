@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events'
+import { CallCache } from '../src/callCache'
+const Web3 = require('web3')
+
+const address = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+
+/**
+ * a provider that answers each eth_call with the number of eth_calls it received, and that
+ * sends a new block header to its subscribers when `mine()` is called
+ */
+function fakeProvider() {
+  const provider = new EventEmitter() as any
+  provider.calls = 0
+  provider.connected = true
+  provider.send = (payload: any, callback: (err: Error | null, response?: any) => void) => {
+    let result: any = null
+    if (payload.method === 'eth_call') {
+      provider.calls += 1
+      result = `0x${provider.calls}`
+    } else if (payload.method === 'eth_subscribe') {
+      result = '0x1'
+    }
+    setTimeout(() => callback(null, { id: payload.id, jsonrpc: '2.0', result }))
+  }
+  provider.mine = (blockNumber: number) => provider.emit('data', {
+    jsonrpc: '2.0',
+    method: 'eth_subscription',
+    params: {
+      result: { hash: `0x${blockNumber}`, number: `0x${blockNumber.toString(16)}`, parentHash: '0x0' },
+      subscription: '0x1'
+    }
+  })
+  return provider
+}
+
+describe('CallCache', () => {
+
+  it('answers calls from the cache until a new block arrives', async () => {
+    const cache = new CallCache()
+    const provider = fakeProvider()
+    const web3 = new Web3(cache.wrapProvider(provider).provider)
+    // wait for the subscription to new blocks
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    const call = { data: '0x70a08231', to: address }
+    expect(await web3.eth.call(call)).toEqual(await web3.eth.call(call))
+    expect(provider.calls).toEqual(1)
+    // a different calldata is a different call
+    await web3.eth.call({ ...call, data: '0x70a08232' })
+    expect(provider.calls).toEqual(2)
+    expect(cache.metrics).toEqual({ hits: 1, misses: 2, size: 2 })
+
+    provider.mine(1)
+    await web3.eth.call(call)
+    expect(provider.calls).toEqual(3)
+    expect(cache.metrics).toMatchObject({ hits: 1, misses: 3, size: 1 })
+
+    // calls to a specific block are kept
+    await web3.eth.call(call, 1)
+    provider.mine(2)
+    await web3.eth.call(call, 1)
+    expect(provider.calls).toEqual(4)
+    // unless that block is replaced
+    provider.emit('data', {
+      method: 'eth_subscription',
+      params: { result: { hash: '0xother', number: '0x1', parentHash: '0x0' }, subscription: '0x1' }
+    })
+    await web3.eth.call(call, 1)
+    expect(provider.calls).toEqual(5)
+  })
+
+  it('removes its listeners and its subscription from the provider when it is disposed', async () => {
+    const cache = new CallCache()
+    const provider = fakeProvider()
+    const send = jest.spyOn(provider, 'send')
+    const { dispose } = cache.wrapProvider(provider)
+    await new Promise((resolve) => setTimeout(resolve, 10))
+    for (const event of ['data', 'message', 'close', 'connect']) {
+      expect(provider.listenerCount(event)).toEqual(1)
+    }
+
+    dispose()
+    for (const event of ['data', 'message', 'close', 'connect']) {
+      expect(provider.listenerCount(event)).toEqual(0)
+    }
+    expect(send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ method: 'eth_unsubscribe', params: ['0x1'] }), expect.any(Function))
+  })
+
+  it('does not cache calls to the latest block if it cannot follow new blocks', async () => {
+    const cache = new CallCache({ maxEntries: 1 })
+    const provider = fakeProvider()
+    provider.on = undefined
+    const web3 = new Web3(cache.wrapProvider(provider).provider)
+    const call = { data: '0x70a08231', to: address }
+    await web3.eth.call(call)
+    await web3.eth.call(call)
+    expect(provider.calls).toEqual(2)
+
+    await web3.eth.call(call, 1)
+    await web3.eth.call(call, 1)
+    expect(provider.calls).toEqual(3)
+    await web3.eth.call(call, 2)
+    expect(cache.metrics).toEqual({ hits: 1, misses: 2, size: 1 })
+  })
+})
@@ -5,6 +5,7 @@ import { IProposalStage, Proposal } from '../src/proposal'
 import { fromWei,
   getTestAddresses,
   getTestDAO,
+  mintSomeReputation,
   newArc,
   newArcWithoutGraphql,
   toWei,
@@ -103,6 +104,64 @@ describe('DAO', () => {
     )
   })
 
+  it('dao.state() can be queried at a past block', async () => {
+    const dao = await getTestDAO()
+    const blockNumber = await arc.web3.eth.getBlockNumber()
+    await waitUntilTrue(async () => {
+      // wait until the subgraph has indexed the block
+      try {
+        await dao.state({ block: { number: blockNumber } }).pipe(first()).toPromise()
+        return true
+      } catch (err) {
+        return false
+      }
+    })
+    const pastState = await dao.state({ block: { number: blockNumber } }).pipe(first()).toPromise()
+    await mintSomeReputation()
+    let latestState = await dao.state({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+    await waitUntilTrue(async () => {
+      latestState = await dao.state({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+      return !latestState.reputationTotalSupply.eq(pastState.reputationTotalSupply)
+    })
+    const stateAtBlock = await dao.state({ block: { number: blockNumber } }).pipe(first()).toPromise()
+    expect(stateAtBlock.reputationTotalSupply).toEqual(pastState.reputationTotalSupply)
+    // the state at the past block did not replace the latest state in the cache
+    latestState = await dao.state().pipe(first()).toPromise()
+    expect(latestState.reputationTotalSupply).not.toEqual(pastState.reputationTotalSupply)
+  })
+
+  it('dao.state() can be read from the chain', async () => {
+    const dao = await getTestDAO()
+    const arcWithoutGraphql = await newArcWithoutGraphql()
+    expect(arcWithoutGraphql.dataSource).toEqual('chain')
+    const stateFromChain = await arcWithoutGraphql.dao(dao.id).state({ subscribe: false }).pipe(first()).toPromise()
+    const stateFromSubgraph = await dao.state({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+    expect(stateFromChain.name).toEqual(stateFromSubgraph.name)
+    expect(stateFromChain.tokenSymbol).toEqual(stateFromSubgraph.tokenSymbol)
+    expect(stateFromChain.reputation.id).toEqual(stateFromSubgraph.reputation.id)
+    expect(stateFromChain.reputationTotalSupply).toEqual(stateFromSubgraph.reputationTotalSupply)
+    expect(stateFromChain.memberCount).toEqual(stateFromSubgraph.memberCount)
+    expect(stateFromChain.numberOfQueuedProposals).toEqual(stateFromSubgraph.numberOfQueuedProposals)
+    expect(stateFromChain.numberOfBoostedProposals).toEqual(stateFromSubgraph.numberOfBoostedProposals)
+  })
+
+  it('dao.state() is read from the chain when the subgraph lags behind', async () => {
+    const dao = await getTestDAO()
+    // the subgraph can never be ahead of the chain, so it always lags more than -1 blocks
+    const autoArc = await newArc({ dataSource: 'auto', maxSubgraphLag: -1 })
+    expect(await autoArc.isSubgraphLagging()).toEqual(true)
+    const state = await autoArc.dao(dao.id).state({ subscribe: false }).pipe(first()).toPromise()
+    expect(state.address).toEqual(dao.id)
+  })
+
+  it('arc.getBlockNumberAtTime() finds the block of a time', async () => {
+    const block = await arc.web3.eth.getBlock('latest')
+    const date = new Date(Number(block.timestamp) * 1000)
+    expect(await arc.getBlockNumberAtTime(date)).toBeGreaterThanOrEqual(block.number)
+    const firstBlock = await arc.web3.eth.getBlock(1)
+    expect(await arc.getBlockNumberAtTime(new Date(Number(firstBlock.timestamp) * 1000))).toBeGreaterThanOrEqual(1)
+  })
+
   it('dao.member() should work', async () => {
     const dao = await getTestDAO()
     const member = await dao.member(arc.web3.eth.defaultAccount)
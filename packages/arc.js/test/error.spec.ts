@@ -1,5 +1,5 @@
 import { RetryLink } from 'apollo-link-retry'
-import { Arc } from '../src'
+import { Arc, ArcError, GraphQueryError, UnknownContractError } from '../src'
 
 jest.setTimeout(20000)
 /**
@@ -40,4 +40,29 @@ describe('client handles errors', () => {
     await expect(arc.fetchContractInfos()).rejects.toThrow()
     expect(retries).toEqual(2) // we set attempts.max to 3, so we have retried twice before throwing the error
   })
+
+  it('throws typed errors with structured fields', () => {
+    const arc = new Arc({ contractInfos: [] })
+    const address = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    let error: any
+    try {
+      arc.getContractInfo(address)
+    } catch (err) {
+      error = err
+    }
+    expect(error).toBeInstanceOf(UnknownContractError)
+    expect(error).toBeInstanceOf(ArcError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toMatchObject({ address, name: 'UnknownContractError' })
+    expect(error.message).toEqual(`No contract with address ${address} is known`)
+    expect(() => arc.getContractInfoByName('Avatar', '0.0.1-rc.1')).toThrow(UnknownContractError)
+  })
+
+  it('creates a GraphQueryError without a cause', () => {
+    const error = new GraphQueryError('{ daos { id } }')
+    expect(error).toBeInstanceOf(GraphQueryError)
+    expect(error).toBeInstanceOf(ArcError)
+    expect(error.graphQLErrors).toEqual([])
+    expect(error.message).toEqual('The query to the subgraph failed\n{ daos { id } }')
+  })
 })
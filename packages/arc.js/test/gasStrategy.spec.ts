@@ -0,0 +1,82 @@
+import BN = require('bn.js')
+import { Arc } from '../src/arc'
+import {
+  computeGasLimit,
+  DefaultGasStrategy,
+  EIP1559GasStrategy,
+  FixedGasPriceStrategy,
+  PercentileGasPriceStrategy
+} from '../src/gasStrategy'
+
+/**
+ * an Arc-like object whose web3Read returns the given blocks
+ */
+function fakeContext(blocks: any[], gasPrice: string = '1000') {
+  return {
+    web3Read: {
+      eth: {
+        getBlock: async (n: number | string) => n === 'latest' ? blocks[0] : blocks[blocks.length - 1 - (n as number)],
+        getBlockNumber: async () => blocks.length - 1,
+        getGasPrice: async () => gasPrice
+      }
+    }
+  } as any as Arc
+}
+
+const from = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+
+describe('Gas strategies', () => {
+
+  it('computeGasLimit doubles the estimate and caps it', () => {
+    expect(computeGasLimit(100000)).toEqual(200000)
+    expect(computeGasLimit(800000)).toEqual(1000000)
+    expect(computeGasLimit(0)).toEqual(1000000)
+    expect(computeGasLimit(800000, { maxGas: null })).toEqual(1600000)
+    expect(computeGasLimit(800000, { gasMultiplier: 1.5, maxGas: 5000000 })).toEqual(1200000)
+  })
+
+  it('DefaultGasStrategy leaves the gas price to the provider', async () => {
+    const settings = await new DefaultGasStrategy().getGasSettings(fakeContext([]), { gasEstimate: 21000 })
+    expect(settings).toEqual({ gas: 42000 })
+  })
+
+  it('FixedGasPriceStrategy uses the given gas price', async () => {
+    const strategy = new FixedGasPriceStrategy(new BN('5000000000'), { maxGas: null })
+    const settings = await strategy.getGasSettings(fakeContext([]), { gasEstimate: 2000000 })
+    expect(settings).toEqual({ gas: 4000000, gasPrice: '5000000000' })
+  })
+
+  it('PercentileGasPriceStrategy uses a percentile of recent gas prices', async () => {
+    // blocks are ordered from latest to oldest
+    const blocks = [
+      { transactions: [{ gasPrice: '10' }, { gasPrice: '40' }] },
+      { transactions: [{ gasPrice: '30' }, { gasPrice: '20' }] },
+      { transactions: [] }
+    ]
+    const strategy = new PercentileGasPriceStrategy({ percentile: 50 })
+    const settings = await strategy.getGasSettings(fakeContext(blocks), { from, gasEstimate: 21000 } as any)
+    expect(settings).toEqual({ gas: 42000, gasPrice: '30' })
+  })
+
+  it('PercentileGasPriceStrategy falls back to the node gas price for empty blocks', async () => {
+    const strategy = new PercentileGasPriceStrategy()
+    const settings = await strategy.getGasSettings(fakeContext([{ transactions: [] }], '123'), { gasEstimate: 21000 })
+    expect(settings.gasPrice).toEqual('123')
+  })
+
+  it('PercentileGasPriceStrategy rejects invalid percentiles', () => {
+    expect(() => new PercentileGasPriceStrategy({ percentile: 101 })).toThrow(/between 0 and 100/)
+  })
+
+  it('EIP1559GasStrategy computes the max fee from the base fee', async () => {
+    const strategy = new EIP1559GasStrategy({ maxPriorityFeePerGas: '2' })
+    const settings = await strategy.getGasSettings(fakeContext([{ baseFeePerGas: '100' }]), { gasEstimate: 21000 })
+    expect(settings).toEqual({ gas: 42000, maxFeePerGas: '202', maxPriorityFeePerGas: '2' })
+  })
+
+  it('EIP1559GasStrategy falls back to a gas price on chains without a base fee', async () => {
+    const strategy = new EIP1559GasStrategy()
+    const settings = await strategy.getGasSettings(fakeContext([{}], '77'), { gasEstimate: 21000 })
+    expect(settings).toEqual({ gas: 42000, gasPrice: '77' })
+  })
+})
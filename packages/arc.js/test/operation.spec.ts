@@ -1,6 +1,29 @@
-import { ITransactionState, ITransactionUpdate } from '../src/operation'
+import BN = require('bn.js')
+import { NEVER, of, throwError } from 'rxjs'
+import { first, tap, toArray } from 'rxjs/operators'
+import { TransactionNotReplaceableError } from '../src/errors'
+import {
+  ITransactionState,
+  ITransactionUpdate,
+  replacementFees,
+  sendTransaction,
+  toIOperationObservable
+} from '../src/operation'
 import { Proposal } from '../src/proposal'
-import { getTestAddresses, getTestDAO, mineANewBlock, toWei, waitUntilTrue } from './utils'
+import { PrivateKeySigner } from '../src/signer'
+import {
+  advanceBlock,
+  getTestAddresses,
+  getTestDAO,
+  mineANewBlock,
+  newArc,
+  revertToSnapShot,
+  startMining,
+  stopMining,
+  takeSnapshot,
+  toWei,
+  waitUntilTrue
+} from './utils'
 
 jest.setTimeout(60000)
 
@@ -21,7 +44,7 @@ describe('Operation', () => {
 
     // collect the first 4 results of the observable in a a listOfUpdates array
     const listOfUpdates: Array<ITransactionUpdate<Proposal>> = []
-    dao.createProposal(options).subscribe(
+    dao.createProposal(options).withConfirmations(2).subscribe(
       (next: ITransactionUpdate<Proposal>) => { listOfUpdates.push(next) }
     )
 
@@ -68,4 +91,336 @@ describe('Operation', () => {
     })
 
   })
+  it('builds an unsigned transaction that can be signed and sent later', async () => {
+    const dao = await getTestDAO()
+    const arc = dao.context
+    const options = {
+      beneficiary: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0',
+      dao: dao.id,
+      ethReward: toWei('300'),
+      externalTokenAddress: undefined,
+      externalTokenReward: toWei('0'),
+      nativeTokenReward: toWei('1'),
+      scheme: getTestAddresses(arc).base.ContributionReward
+    }
+    const operation = dao.createProposal(options)
+    const unsignedTransaction = await operation.build()
+    expect(unsignedTransaction.to.toLowerCase()).toEqual(options.scheme.toLowerCase())
+    expect(unsignedTransaction.from).toEqual(arc.web3.eth.defaultAccount)
+    expect(unsignedTransaction.gas).toBeGreaterThan(0)
+
+    const account = arc.web3.eth.accounts.wallet[0]
+    const signed = await account.signTransaction({
+      data: unsignedTransaction.data,
+      gas: unsignedTransaction.gas,
+      to: unsignedTransaction.to,
+      value: unsignedTransaction.value
+    })
+    const update = await operation.sendSigned(signed.rawTransaction).send()
+    expect(update.result).toBeInstanceOf(Proposal)
+  })
+
+  it('signs the data, destination and value of the transaction with the signer', async () => {
+    // the second account of ganache, which is not unlocked in the web3 provider of newArc
+    const signer = new PrivateKeySigner('0x6cbed15c793ce57650b9877cf6fa156fbef513c4e6134f022a85b1ffdd59b2a1')
+    const arc = await newArc({ signer })
+    const token = arc.GENToken()
+    const spender = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    const operation = token.approveForStaking(spender, toWei('1'))
+    const unsignedTransaction = await operation.build()
+    const update = await operation.send()
+    const transaction = await arc.web3.eth.getTransaction(update.transactionHash as string)
+    expect(transaction.from).toEqual(await signer.getAddress())
+    expect(transaction.to.toLowerCase()).toEqual(token.address.toLowerCase())
+    expect(transaction.input).toEqual(unsignedTransaction.data)
+    expect(transaction.value).toEqual('0')
+    expect(await token.contract().methods.allowance(await signer.getAddress(), spender).call()).toEqual(toWei('1').toString())
+  })
+
+  it('fails when the transaction or the account cannot be read', async () => {
+    const context = { getAccount: () => throwError(new Error('no account')) } as any
+    const updates: Array<ITransactionUpdate<any>> = []
+    await expect(sendTransaction(context, () => { throw new Error('no transaction') }, () => undefined)
+      .pipe(tap((update: ITransactionUpdate<any>) => updates.push(update))).toPromise()
+    ).rejects.toThrow('no transaction')
+    expect(updates).toEqual([])
+    await expect(sendTransaction(context, {}, () => undefined).send()).rejects.toThrow('no account')
+  })
+
+  it('sends a signed EIP-1559 transaction', async () => {
+    // ganache cannot mine EIP-1559 transactions, so we only check that the transaction is read and sent
+    const signer = new PrivateKeySigner('0x6cbed15c793ce57650b9877cf6fa156fbef513c4e6134f022a85b1ffdd59b2a1')
+    const rawTransaction = await signer.signTransaction({
+      chainId: 1,
+      data: '0x',
+      from: await signer.getAddress(),
+      gas: 21000,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000',
+      nonce: 0,
+      to: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    })
+    const sendSignedTransaction = jest.fn(() => { throw new Error('not connected') })
+    const context = { closing: NEVER, web3: { eth: { sendSignedTransaction } } } as any
+    const transaction = { _parent: { options: { address: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0' } },
+      encodeABI: () => '0x' }
+    await expect(sendTransaction(context, transaction, () => undefined).sendSigned(rawTransaction).send())
+      .rejects.toThrow('not connected')
+    expect(sendSignedTransaction).toHaveBeenCalledWith(rawTransaction)
+  })
+
+  it('cannot speed up or cancel an operation without a pending transaction', async () => {
+    const operation = toIOperationObservable(of({ state: ITransactionState.Sending }))
+    await expect(operation.speedUp()).rejects.toThrow(TransactionNotReplaceableError)
+    await expect(operation.speedUp()).rejects.toThrow('no pending transaction')
+    await operation.toPromise()
+    await expect(operation.cancel()).rejects.toThrow(TransactionNotReplaceableError)
+  })
+  it('speeds up a pending transaction', async () => {
+    const arc = await newArc()
+    const token = arc.GENToken()
+    const owner = arc.web3.eth.defaultAccount
+    const spender = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    const amount = toWei(Math.ceil(Math.random() * 1000).toString())
+    const operation = token.approveForStaking(spender, amount)
+    const listOfUpdates: Array<ITransactionUpdate<any>> = []
+    let completed = false
+    await stopMining()
+    try {
+      operation.subscribe(
+        (update: ITransactionUpdate<any>) => { listOfUpdates.push(update) },
+        undefined,
+        () => { completed = true }
+      )
+      await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Sent))
+      const sentHash = listOfUpdates[1].transactionHash as string
+      const sent = await arc.web3.eth.getTransaction(sentHash)
+
+      const hash = await operation.speedUp()
+      expect(listOfUpdates[2]).toEqual({
+        replacedTransactionHash: sentHash,
+        state: ITransactionState.Replaced,
+        transactionHash: hash
+      })
+      const replacement = await arc.web3.eth.getTransaction(hash)
+      expect(replacement.nonce).toEqual(sent.nonce)
+      expect(replacement.input).toEqual(sent.input)
+      expect(replacement.gasPrice).toEqual(new BN(sent.gasPrice).muln(1125).divn(1000).toString())
+    } finally {
+      await startMining()
+    }
+    await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Mined))
+    expect(listOfUpdates[3]).toMatchObject({
+      confirmations: 0,
+      state: ITransactionState.Mined,
+      transactionHash: listOfUpdates[2].transactionHash
+    })
+    expect(await token.contract().methods.allowance(owner, spender).call()).toEqual(amount.toString())
+    await waitUntilTrue(() => completed)
+    await expect(operation.speedUp()).rejects.toThrow(TransactionNotReplaceableError)
+  })
+
+  it('cancels a pending transaction', async () => {
+    const arc = await newArc()
+    const token = arc.GENToken()
+    const owner = arc.web3.eth.defaultAccount
+    const spender = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    const allowance = await token.contract().methods.allowance(owner, spender).call()
+    const operation = token.approveForStaking(spender, new BN(allowance).addn(1))
+    const listOfUpdates: Array<ITransactionUpdate<any>> = []
+    let completed = false
+    await stopMining()
+    try {
+      operation.subscribe(
+        (update: ITransactionUpdate<any>) => { listOfUpdates.push(update) },
+        undefined,
+        () => { completed = true }
+      )
+      await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Sent))
+      const sentHash = listOfUpdates[1].transactionHash as string
+      const sent = await arc.web3.eth.getTransaction(sentHash)
+
+      const hash = await operation.cancel()
+      expect(listOfUpdates[2]).toEqual({
+        replacedTransactionHash: sentHash,
+        state: ITransactionState.Cancelled,
+        transactionHash: hash
+      })
+      const cancellation = await arc.web3.eth.getTransaction(hash)
+      expect(cancellation.nonce).toEqual(sent.nonce)
+      expect(cancellation.to).toEqual(sent.from)
+      expect(cancellation.input).toEqual('0x')
+      expect(cancellation.gasPrice).toEqual(new BN(sent.gasPrice).muln(1125).divn(1000).toString())
+    } finally {
+      await startMining()
+    }
+    // the operation ends when the cancelling transaction is mined, without a Mined update
+    await waitUntilTrue(() => completed)
+    expect(listOfUpdates.map((update) => update.state)).toEqual([
+      ITransactionState.Sending,
+      ITransactionState.Sent,
+      ITransactionState.Cancelled
+    ])
+    expect(await token.contract().methods.allowance(owner, spender).call()).toEqual(allowance)
+  })
+
+  it('fails when the transaction is reverted', async () => {
+    const arc = await newArc()
+    const token = arc.GENToken()
+    const accounts = arc.web3.eth.accounts.wallet
+    const owner = accounts[0].address
+    const beneficiary = accounts[1].address
+    const balance = await token.contract().methods.balanceOf(owner).call()
+    const nonce = await arc.web3.eth.getTransactionCount(owner)
+    const listsOfUpdates: Array<Array<ITransactionUpdate<any>>> = [[], []]
+    const errors: Array<Error | undefined> = [undefined, undefined]
+    await stopMining()
+    try {
+      // both transfers are valid when they are sent, but the first one leaves nothing to transfer for the second
+      for (let i = 0; i < 2; i++) {
+        token.transfer(beneficiary, new BN(balance)).withNonce(nonce + i).subscribe(
+          (update: ITransactionUpdate<any>) => { listsOfUpdates[i].push(update) },
+          (error: Error) => { errors[i] = error }
+        )
+      }
+      await waitUntilTrue(() => listsOfUpdates.every((updates) =>
+        updates.some((update) => update.state === ITransactionState.Sent)))
+    } finally {
+      await startMining()
+    }
+    await waitUntilTrue(() => errors[1] !== undefined)
+    expect(errors[0]).toBeUndefined()
+    expect(listsOfUpdates[0].some((update) => update.state === ITransactionState.Mined)).toBe(true)
+    expect(listsOfUpdates[1].map((update) => update.state)).toEqual([
+      ITransactionState.Sending,
+      ITransactionState.Sent
+    ])
+    // give the tokens back
+    await token.contract().methods.transfer(owner, balance).send({ from: beneficiary })
+  })
+
+  it('reports a reorganisation that removes the block of the transaction', async () => {
+    const arc = await newArc()
+    const token = arc.GENToken()
+    const spender = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    const listOfUpdates: Array<ITransactionUpdate<any>> = []
+    let completed = false
+    // ganache cannot reorganise, but reverting to a snapshot removes the block in the same way
+    const snapshotId = await takeSnapshot() as string
+    token.approveForStaking(spender, toWei('1')).subscribe(
+      (update: ITransactionUpdate<any>) => { listOfUpdates.push(update) },
+      undefined,
+      () => { completed = true }
+    )
+    await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Mined))
+    await revertToSnapShot(snapshotId)
+    await advanceBlock()
+    await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Reorged))
+    const mined = listOfUpdates.find((update) => update.state === ITransactionState.Mined) as ITransactionUpdate<any>
+    expect(listOfUpdates.find((update) => update.state === ITransactionState.Reorged)).toEqual({
+      receipt: mined.receipt,
+      result: mined.result,
+      state: ITransactionState.Reorged,
+      transactionHash: mined.transactionHash
+    })
+    // the transaction was removed with the block, and is not mined again
+    await waitUntilTrue(() => completed)
+    expect(listOfUpdates[listOfUpdates.length - 1]).toEqual({
+      state: ITransactionState.Dropped,
+      transactionHash: mined.transactionHash
+    })
+  })
+
+  it('raises the fees of the pending transaction by 12.5% to replace it', () => {
+    // web3 formats the gas price of a transaction, but passes its EIP-1559 fees on as hex quantities
+    expect(replacementFees({ gasPrice: '1000000000' }, {})).toEqual({ gasPrice: '1125000000' })
+    expect(replacementFees({ maxFeePerGas: '0x77359400', maxPriorityFeePerGas: '0x3b9aca00' }, {})).toEqual({
+      maxFeePerGas: '2250000000',
+      maxPriorityFeePerGas: '1125000000'
+    })
+    expect(replacementFees({ gasPrice: '1000000000' }, { gasPrice: '3000000000' })).toEqual({
+      gasPrice: '3000000000',
+      maxFeePerGas: undefined,
+      maxPriorityFeePerGas: undefined
+    })
+  })
+
+  it('completes and resolves send() after the required number of confirmations', async () => {
+    const updates = [
+      { state: ITransactionState.Sending },
+      { state: ITransactionState.Sent, transactionHash: '0x1' },
+      { confirmations: 0, state: ITransactionState.Mined, transactionHash: '0x1' },
+      { confirmations: 1, state: ITransactionState.Mined, transactionHash: '0x1' },
+      { confirmations: 2, state: ITransactionState.Mined, transactionHash: '0x1' }
+    ]
+    const operation = toIOperationObservable(of(...updates))
+    expect(await operation.send()).toEqual(updates[2])
+    expect(await operation.withConfirmations(1).send()).toEqual(updates[3])
+    expect(await operation.withConfirmations(1).pipe(toArray()).toPromise()).toEqual(updates.slice(0, 4))
+  })
+
+  it('resolves send() when mined and completes at the confirmations default of the Arc instance', async () => {
+    const arc = await newArc({ confirmations: 2 })
+    const token = arc.GENToken()
+    const spender = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    // ganache only mines a block for each transaction, so send() must not wait for later blocks
+    expect(await token.approveForStaking(spender, toWei('1')).send()).toMatchObject({
+      confirmations: 0,
+      state: ITransactionState.Mined
+    })
+
+    const listOfUpdates: Array<ITransactionUpdate<any>> = []
+    let completed = false
+    token.approveForStaking(spender, toWei('2')).subscribe(
+      (update: ITransactionUpdate<any>) => { listOfUpdates.push(update) },
+      undefined,
+      () => { completed = true }
+    )
+    await waitUntilTrue(() => listOfUpdates.some((update) => update.state === ITransactionState.Mined))
+    expect(completed).toBe(false)
+    for (let i = 0; i < 2; i++) {
+      await mineANewBlock()
+    }
+    await waitUntilTrue(() => completed)
+    expect(listOfUpdates[listOfUpdates.length - 1]).toMatchObject({
+      confirmations: 2,
+      state: ITransactionState.Mined
+    })
+  })
+
+  it('resolves send() with the Indexed update of an operation that waits for indexing', async () => {
+    const updates = [
+      { state: ITransactionState.Sending },
+      { state: ITransactionState.Sent, transactionHash: '0x1' },
+      { confirmations: 0, state: ITransactionState.Mined, transactionHash: '0x1' },
+      { confirmations: 0, state: ITransactionState.Indexed, transactionHash: '0x1' }
+    ]
+    const operation = toIOperationObservable(of(...updates))
+    expect(await operation.withIndexing().send()).toEqual(updates[3])
+    expect(await operation.withIndexing().pipe(toArray()).toPromise()).toEqual(updates)
+  })
+
+  it('ends with an Indexed update once the subgraph has indexed the transaction', async () => {
+    // waiting for indexing starts when the transaction is mined, not after the confirmations of the Arc instance
+    const arc = await newArc({ confirmations: 24 })
+    const dao = await getTestDAO(arc)
+    const updates: Array<ITransactionUpdate<any>> = await arc.approveForStaking(dao.id, toWei('1'))
+      .withIndexing().pipe(toArray()).toPromise()
+    const indexed = updates[updates.length - 1]
+    expect(indexed).toMatchObject({
+      confirmations: 0,
+      state: ITransactionState.Indexed
+    })
+    const status = await arc.indexingStatus().pipe(first()).toPromise()
+    expect(status.subgraphBlockNumber).toBeGreaterThanOrEqual((indexed.receipt as any).blockNumber)
+  })
+
+  it('rejects send() when the transaction is dropped', async () => {
+    const operation = toIOperationObservable(of(
+      { state: ITransactionState.Sending },
+      { state: ITransactionState.Sent, transactionHash: '0x1' },
+      { state: ITransactionState.Dropped, transactionHash: '0x1' }
+    ))
+    await expect(operation.send()).rejects.toThrow('was dropped')
+  })
 })
@@ -0,0 +1,97 @@
+import gql from 'graphql-tag'
+import { of, Subject } from 'rxjs'
+import { Arc, IIndexingStatus } from '../src/arc'
+import { ITransactionState } from '../src/operation'
+import { IOptimisticUpdate } from '../src/optimisticUpdates'
+
+const proposalId = '0x1234'
+
+const fragment = gql`fragment TestProposalFields on Proposal {
+  id
+  votesFor
+  votes { id }
+}`
+
+const query = gql`query TestProposal {
+  proposal(id: "${proposalId}") {
+    ...TestProposalFields
+  }
+}
+${fragment}`
+
+describe('Optimistic updates', () => {
+  let arc: Arc
+  let status: Subject<IIndexingStatus>
+
+  const vote = (transactionHash: string, blockNumber: number): IOptimisticUpdate => ({
+    blockNumber,
+    dataId: `Proposal:${proposalId}`,
+    fragment,
+    id: transactionHash,
+    query,
+    update: (proposal: any) => ({
+      ...proposal,
+      votes: [...proposal.votes, { __typename: 'ProposalVote', id: transactionHash }],
+      votesFor: String(Number(proposal.votesFor) + 10)
+    })
+  })
+
+  const cached = (optimistic: boolean) => (arc.apolloClient as any).cache.readFragment({
+    fragment,
+    id: `Proposal:${proposalId}`
+  }, optimistic)
+
+  beforeEach(() => {
+    arc = new Arc({ graphqlHttpProvider: 'http://127.0.0.1:1', graphqlWsProvider: 'ws://127.0.0.1:1' })
+    status = new Subject()
+    arc.indexingStatus = () => status
+    const client = arc.apolloClient as any
+    client.writeQuery({ data: { proposal: {
+      __typename: 'Proposal', id: proposalId, votes: [], votesFor: '5'
+    } }, query })
+  })
+
+  it('writes the update to the cache until the block is indexed, then refetches', async () => {
+    const client = arc.apolloClient as any
+    const refetch = jest.spyOn(client, 'query').mockImplementation(async () => {
+      client.writeQuery({ data: { proposal: {
+        __typename: 'Proposal', id: proposalId, votes: [{ __typename: 'ProposalVote', id: '0xabc' }], votesFor: '15'
+      } }, query })
+      return {}
+    })
+
+    expect(arc.optimisticUpdates.apply(vote('0x1', 100))).toEqual(true)
+    // the same transaction is not counted twice
+    expect(arc.optimisticUpdates.apply(vote('0x1', 100))).toEqual(false)
+    expect(cached(true)).toMatchObject({ votes: [{ id: '0x1' }], votesFor: '15' })
+    expect(cached(false)).toMatchObject({ votes: [], votesFor: '5' })
+
+    status.next({ blocksBehind: 2, chainBlockNumber: 101, subgraphBlockNumber: 99 })
+    expect(arc.optimisticUpdates.isPending('0x1')).toEqual(true)
+    status.next({ blocksBehind: 1, chainBlockNumber: 101, subgraphBlockNumber: 100 })
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(refetch).toHaveBeenCalledWith({ fetchPolicy: 'network-only', query })
+    expect(arc.optimisticUpdates.isPending('0x1')).toEqual(false)
+    expect(cached(true)).toMatchObject({ votes: [{ id: '0xabc' }], votesFor: '15' })
+  })
+
+  it('rolls back the update when the transaction is reorganised', async () => {
+    const updates = [
+      { confirmations: 0, receipt: { blockNumber: 100 }, state: ITransactionState.Mined, transactionHash: '0x1' },
+      { receipt: { blockNumber: 100 }, state: ITransactionState.Reorged, transactionHash: '0x1' }
+    ]
+    const tracked = arc.optimisticUpdates.track(of(updates[0]), () => vote('0x1', 100))
+    await tracked.toPromise()
+    expect(cached(true)).toMatchObject({ votesFor: '15' })
+
+    await arc.optimisticUpdates.track(of(updates[1]), () => vote('0x1', 100)).toPromise()
+    expect(arc.optimisticUpdates.isPending('0x1')).toEqual(false)
+    expect(cached(true)).toMatchObject({ votes: [], votesFor: '5' })
+  })
+
+  it('does nothing if the entity is not in the cache', () => {
+    expect(arc.optimisticUpdates.apply({ ...vote('0x1', 100), dataId: 'Proposal:0x5678' })).toEqual(false)
+    expect(arc.optimisticUpdates.isPending('0x1')).toEqual(false)
+  })
+})
@@ -0,0 +1,75 @@
+import { Observable, of } from 'rxjs'
+import { toArray } from 'rxjs/operators'
+import { Arc } from '../src/arc'
+import { ICommonQueryOptions } from '../src/types'
+import { searchAll, searchPages } from '../src/pagination'
+
+const items = Array.from({ length: 25 }, (_, i) => ({ id: `0x${(i + 1).toString().padStart(2, '0')}` }))
+
+/**
+ * a search function that returns the items the subgraph would return, and remembers the options it was called with
+ */
+function fakeSearch() {
+  const calls: ICommonQueryOptions[] = []
+  const search = (context: Arc, options: ICommonQueryOptions): Observable<Array<{ id: string }>> => {
+    calls.push(options)
+    const cursor = options.where.id_gt
+    const results = items.filter((item) => cursor === undefined || item.id > cursor)
+    return of(results.slice(0, options.first))
+  }
+  return { calls, search }
+}
+
+const context = {} as Arc
+
+describe('Pagination', () => {
+
+  it('searchPages walks the id_gt cursor until all items are fetched', async () => {
+    const { calls, search } = fakeSearch()
+    const pages = await searchPages(search, context, { where: { dao: '0x1' } }, {}, { pageSize: 10 })
+      .pipe(toArray()).toPromise()
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5])
+    expect([].concat(...pages as any)).toEqual(items)
+    expect(calls.map((options) => options.where)).toEqual([
+      { dao: '0x1' },
+      { dao: '0x1', id_gt: '0x10' },
+      { dao: '0x1', id_gt: '0x20' }
+    ])
+    expect(calls[0]).toMatchObject({ first: 10, orderBy: 'id', orderDirection: 'asc' })
+  })
+
+  it('searchPages stops at maxItems', async () => {
+    const { calls, search } = fakeSearch()
+    const pages = await searchPages(search, context, {}, {}, { maxItems: 15, pageSize: 10 })
+      .pipe(toArray()).toPromise()
+    expect(pages.map((page) => page.length)).toEqual([10, 5])
+    expect(calls[1].first).toEqual(5)
+  })
+
+  it('searchPages refuses to paginate results that are not ordered by id', () => {
+    const { search } = fakeSearch()
+    expect(() => searchPages(search, context, { orderBy: 'createdAt' })).toThrow(/ordered by id/)
+    expect(() => searchPages(search, context, { skip: 10 })).toThrow(/skip/)
+  })
+
+  it('searchPages fails if the search ignores the cursor', async () => {
+    const search = (ctx: Arc, options: ICommonQueryOptions) => of(items.slice(0, options.first))
+    await expect(searchPages(search, context, {}, {}, { pageSize: 10 }).pipe(toArray()).toPromise())
+      .rejects.toThrow(/id_gt/)
+  })
+
+  it('searchAll iterates over all items', async () => {
+    const { search } = fakeSearch()
+    const results = []
+    for await (const item of searchAll(search, context, { where: { id_gt: '0x05' } }, {}, { pageSize: 7 })) {
+      results.push(item)
+    }
+    expect(results).toEqual(items.slice(5))
+
+    const limited = []
+    for await (const item of searchAll(search, context, {}, {}, { maxItems: 8, pageSize: 7 })) {
+      limited.push(item)
+    }
+    expect(limited).toEqual(items.slice(0, 8))
+  })
+})
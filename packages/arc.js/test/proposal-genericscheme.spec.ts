@@ -75,4 +75,30 @@ describe('Proposal', () => {
     //   returnValue: '0x'
     // })
   })
+
+  it('simulates the call of a proposal from the avatar', async () => {
+    const daos = await arc.daos({ where: { name: 'Nectar DAO' } }).pipe(first()).toPromise()
+    const dao = daos[0]
+    const actionMockABI = arc.getABI(undefined, 'ActionMock', LATEST_ARC_VERSION)
+    const actionMock = new arc.web3.eth.Contract(actionMockABI, testAddresses.test.ActionMock)
+    const schemes = await dao.schemes({ where: { name: 'GenericScheme' } }).pipe(first()).toPromise()
+
+    // test2 requires that it is called by the address that it is given
+    const simulation = await schemes[0].simulateProposal({
+      callData: actionMock.methods.test2(dao.id).encodeABI(),
+      dao: dao.id,
+      value: 0
+    })
+    expect(simulation.avatar).toEqual(dao.id)
+    expect(simulation.success).toEqual(true)
+    expect(simulation.calls[0].gasUsed).toBeGreaterThan(0)
+
+    const failing = await schemes[0].simulateProposal({
+      callData: actionMock.methods.test2(testAddresses.test.ActionMock).encodeABI(),
+      dao: dao.id,
+      value: 0
+    })
+    expect(failing.success).toEqual(false)
+    expect(failing.calls[0].revertReason).toMatch(/caller must be equal/)
+  })
 })
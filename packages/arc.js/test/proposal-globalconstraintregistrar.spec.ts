@@ -0,0 +1,163 @@
+import { first } from 'rxjs/operators'
+import { Arc } from '../src/arc'
+import { DAO } from '../src/dao'
+import { IProposalState, Proposal } from '../src/proposal'
+import { Scheme } from '../src/scheme'
+import * as GlobalConstraintRegistrar from '../src/schemes/globalConstraintRegistrar'
+import { IProposalType } from '../src/schemes/globalConstraintRegistrar'
+import {
+  BN,
+  createAProposal,
+  getTestAddresses,
+  LATEST_ARC_VERSION,
+  newArc,
+  voteToPassProposal,
+  waitUntilTrue
+} from './utils'
+
+jest.setTimeout(60000)
+
+describe('GlobalConstraintRegistrar', () => {
+  let arc: Arc
+  let dao: DAO
+  let globalConstraintRegistrar: string
+
+  beforeAll(async () => {
+    arc = await newArc()
+    // the GlobalConstraintRegistrar is registered in the DAO of the migration
+    dao = arc.dao(getTestAddresses(arc).dao.Avatar)
+    globalConstraintRegistrar = arc.getContractInfoByName('GlobalConstraintRegistrar', LATEST_ARC_VERSION).address
+  })
+
+  async function lastStateOf(proposal: Proposal): Promise<() => IProposalState> {
+    const states: IProposalState[] = []
+    proposal.state().subscribe((state: IProposalState) => states.push(state))
+    await waitUntilTrue(() => states.length > 0)
+    return () => states[states.length - 1]
+  }
+
+  it('adds and removes a global constraint with proposals', async () => {
+    const tokenCapGC = arc.getContract(arc.getContractInfoByName('TokenCapGC', LATEST_ARC_VERSION).address)
+    // a cap that the native token of the DAO never reaches, so the constraint does not block the other tests
+    const token = (await dao.fetchStaticState()).token.address
+    const cap = new BN(2).pow(new BN(255))
+    await tokenCapGC.methods.setParameters(token, cap.toString()).send()
+    const paramsHash = await tokenCapGC.methods.getParametersHash(token, cap.toString()).call()
+    const voteToRemoveParams = (await dao.schemes({ where: { address: globalConstraintRegistrar } })
+      .pipe(first()).toPromise())[0].staticState!.paramsHash
+
+    const add = await createAProposal(dao, {
+      globalConstraint: tokenCapGC.options.address,
+      globalConstraintParamsHash: paramsHash,
+      scheme: globalConstraintRegistrar,
+      type: IProposalType.AddGlobalConstraint,
+      voteToRemoveParams
+    }) as Proposal
+    const lastAddState = await lastStateOf(add)
+    expect(lastAddState().type).toEqual(IProposalType.AddGlobalConstraint)
+    expect(lastAddState().globalConstraintRegistrar).toMatchObject({
+      executed: false,
+      globalConstraint: tokenCapGC.options.address.toLowerCase(),
+      id: add.id,
+      name: 'TokenCapGC',
+      paramsHash,
+      voteToRemoveParams
+    })
+    expect(lastAddState().globalConstraintRegistrar!.tokenCapGCParams!.cap.toString()).toEqual(cap.toString())
+
+    await voteToPassProposal(add)
+    await waitUntilTrue(() => lastAddState().globalConstraintRegistrar!.executed)
+    let globalConstraints = await dao.globalConstraints({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+    expect(globalConstraints).toContainEqual(expect.objectContaining({
+      address: tokenCapGC.options.address.toLowerCase(),
+      name: 'TokenCapGC',
+      paramsHash
+    }))
+
+    const remove = await createAProposal(dao, {
+      globalConstraint: tokenCapGC.options.address,
+      scheme: globalConstraintRegistrar,
+      type: IProposalType.RemoveGlobalConstraint
+    }) as Proposal
+    const lastRemoveState = await lastStateOf(remove)
+    expect(lastRemoveState().type).toEqual(IProposalType.RemoveGlobalConstraint)
+    expect(lastRemoveState().globalConstraintRegistrar).toMatchObject({
+      globalConstraint: tokenCapGC.options.address.toLowerCase(),
+      id: remove.id,
+      paramsHash
+    })
+
+    await voteToPassProposal(remove)
+    await waitUntilTrue(() => lastRemoveState().globalConstraintRegistrar!.executed)
+    globalConstraints = await dao.globalConstraints({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+    expect(globalConstraints.map((globalConstraint) => globalConstraint.address))
+      .not.toContain(tokenCapGC.options.address.toLowerCase())
+  })
+
+  it('requires the global constraint and its parameters', () => {
+    const createTransaction = (options: any) => () => GlobalConstraintRegistrar.createTransaction(options, arc)
+    expect(createTransaction({ type: IProposalType.RemoveGlobalConstraint })).toThrow(/globalConstraint/)
+    expect(createTransaction({ globalConstraint: '0x9abc', type: IProposalType.AddGlobalConstraint }))
+      .toThrow(/globalConstraintParamsHash/)
+    const add = { globalConstraint: '0x9abc', globalConstraintParamsHash: '0x1111', type: IProposalType.AddGlobalConstraint }
+    expect(createTransaction(add)).toThrow(/voteToRemoveParams/)
+    expect(createTransaction({ globalConstraint: '0x9abc' })).toThrow(/proposal.type/)
+  })
+
+  it('maps the receipt with the event of the proposal type', () => {
+    const receipt = { events: { RemoveGlobalConstraintsProposal: { returnValues: { _proposalId: '0x1' } } } }
+    const options = { type: IProposalType.RemoveGlobalConstraint }
+    const proposal = GlobalConstraintRegistrar.createTransactionMap(options, arc)(receipt)
+    expect(proposal.id).toEqual('0x1')
+  })
+
+  it('maps the params of the scheme', () => {
+    const state = Scheme.itemMap({
+      address: '0x1234',
+      dao: { id: '0x5678' },
+      globalConstraintRegistrarParams: {
+        voteRegisterParams: { queuedVotePeriodLimit: '1800' },
+        votingMachine: '0x9abc'
+      },
+      id: '0x1',
+      name: 'GlobalConstraintRegistrar'
+    }, arc)
+    expect(state!.globalConstraintRegistrarParams).toMatchObject({
+      voteRegisterParams: { queuedVotePeriodLimit: 1800 }, votingMachine: '0x9abc'
+    })
+    expect(state!.schemeParams).toBe(state!.globalConstraintRegistrarParams)
+  })
+
+  it('maps the proposals', () => {
+    const proposal = {
+      decision: null,
+      executed: null,
+      globalConstraint: '0x9abc',
+      id: '0x1',
+      name: 'TokenCapGC',
+      paramsHash: '0x1111',
+      tokenCapGCParams: { cap: '1000', token: '0xdef0' },
+      type: 'AddGlobalConstraint',
+      voteToRemoveParams: '0x2222'
+    }
+    const { state, type } = GlobalConstraintRegistrar.mapProposal(proposal)
+    expect(type).toEqual(IProposalType.AddGlobalConstraint)
+    expect(state).toMatchObject({
+      decision: null,
+      executed: false,
+      globalConstraint: '0x9abc',
+      id: '0x1',
+      name: 'TokenCapGC',
+      paramsHash: '0x1111',
+      voteToRemoveParams: '0x2222'
+    })
+    expect(state.tokenCapGCParams!.cap.toString()).toEqual('1000')
+    expect(state.tokenCapGCParams!.token).toEqual('0xdef0')
+
+    const remove = { ...proposal, decision: '1', executed: true, tokenCapGCParams: null, type: 'RemoveGlobalConstraint' }
+    expect(GlobalConstraintRegistrar.mapProposal(remove)).toMatchObject({
+      state: { decision: 1, executed: true, tokenCapGCParams: null },
+      type: IProposalType.RemoveGlobalConstraint
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import { first } from 'rxjs/operators'
+import { Arc } from '../src/arc'
+import { DAO } from '../src/dao'
+import { IProposalState, Proposal } from '../src/proposal'
+import { Scheme } from '../src/scheme'
+import * as SignalScheme from '../src/schemes/signalScheme'
+import { IProposalType } from '../src/schemes/signalScheme'
+import { createAProposal, getTestAddresses, newArc, voteToPassProposal, waitUntilTrue } from './utils'
+
+jest.setTimeout(60000)
+
+describe('SignalScheme', () => {
+  let arc: Arc
+  let dao: DAO
+  let signalScheme: Scheme
+
+  beforeAll(async () => {
+    arc = await newArc()
+    // the SignalScheme is registered in the DAO of the migration
+    dao = arc.dao(getTestAddresses(arc).dao.Avatar)
+    const schemes = await dao.schemes({ where: { name: 'SignalScheme' } }).pipe(first()).toPromise()
+    if (schemes.length === 0) {
+      throw Error(`Could not find a SignalScheme in the DAO ${dao.id}`)
+    }
+    signalScheme = schemes[0] as Scheme
+  })
+
+  it('reads the params of the scheme', async () => {
+    const state = await signalScheme.state().pipe(first()).toPromise()
+    expect(state.signalSchemeParams).toMatchObject({ signalType: 1 })
+    expect(state.signalSchemeParams!.voteParams).toBeDefined()
+    expect(state.schemeParams).toBe(state.signalSchemeParams)
+  })
+
+  it('creates a proposal and reads its signal once it passes', async () => {
+    const proposal = await createAProposal(dao, {
+      description: 'Do we like cats?',
+      scheme: signalScheme.staticState!.address,
+      title: 'Cats',
+      type: IProposalType.Signal
+    }) as Proposal
+
+    const states: IProposalState[] = []
+    proposal.state().subscribe((state: IProposalState) => states.push(state))
+    await waitUntilTrue(() => states.length > 0)
+    const lastState = () => states[states.length - 1]
+
+    expect(lastState().type).toEqual(IProposalType.Signal)
+    expect(lastState().signalScheme).toMatchObject({
+      descriptionHash: lastState().descriptionHash,
+      signal: null,
+      signalType: 1
+    })
+
+    await voteToPassProposal(proposal)
+    await waitUntilTrue(() => !!lastState().signalScheme!.signal)
+    expect(lastState().signalScheme!.signal).toMatchObject({
+      descriptionHash: lastState().descriptionHash,
+      signalType: 1
+    })
+  })
+
+  it('maps the params of the scheme', () => {
+    const state = Scheme.itemMap({
+      address: '0x1234',
+      dao: { id: '0x5678' },
+      id: '0x1',
+      name: 'SignalScheme',
+      signalSchemeParams: { signalType: '3', voteParams: { queuedVotePeriodLimit: '1800' }, votingMachine: '0x9abc' }
+    }, arc)
+    expect(state!.signalSchemeParams).toMatchObject({
+      signalType: 3, voteParams: { queuedVotePeriodLimit: 1800 }, votingMachine: '0x9abc'
+    })
+    expect(state!.schemeParams).toBe(state!.signalSchemeParams)
+  })
+
+  it('maps the proposal and its signal', () => {
+    const proposal = { descriptionHash: 'QmHash', id: '0x1', signal: null, signalType: '3' }
+    expect(SignalScheme.mapProposal(proposal)).toEqual({
+      state: { descriptionHash: 'QmHash', id: '0x1', signal: null, signalType: 3 },
+      type: IProposalType.Signal
+    })
+
+    const signal = { createdAt: '1600000000', descriptionHash: 'QmHash', id: '0x1', signalType: '3', txHash: '0xabc' }
+    expect(SignalScheme.mapProposal({ ...proposal, signal }).state.signal).toEqual({
+      createdAt: 1600000000,
+      descriptionHash: 'QmHash',
+      id: '0x1',
+      signalType: 3,
+      txHash: '0xabc'
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { first } from 'rxjs/operators'
+import { Arc } from '../src/arc'
+import { DAO } from '../src/dao'
+import { IProposalState, Proposal } from '../src/proposal'
+import { Scheme } from '../src/scheme'
+import * as UpgradeScheme from '../src/schemes/upgradeScheme'
+import { IProposalType } from '../src/schemes/upgradeScheme'
+import { createAProposal, getTestAddresses, ITestAddresses, LATEST_ARC_VERSION, newArc, waitUntilTrue } from './utils'
+
+jest.setTimeout(60000)
+
+describe('UpgradeScheme', () => {
+  let arc: Arc
+  let addresses: ITestAddresses
+  let dao: DAO
+  let upgradeScheme: string
+
+  beforeAll(async () => {
+    arc = await newArc()
+    addresses = getTestAddresses(arc)
+    // the UpgradeScheme is registered in the DAO of the migration
+    dao = arc.dao(addresses.dao.Avatar)
+    upgradeScheme = arc.getContractInfoByName('UpgradeScheme', LATEST_ARC_VERSION).address
+  })
+
+  async function lastStateOf(proposal: Proposal): Promise<() => IProposalState> {
+    const states: IProposalState[] = []
+    proposal.state().subscribe((state: IProposalState) => states.push(state))
+    await waitUntilTrue(() => states.length > 0)
+    return () => states[states.length - 1]
+  }
+
+  // the proposals are not voted on, so the DAO keeps its controller
+  it('creates and reads a proposal to upgrade the controller', async () => {
+    const newController = arc.web3.eth.accounts.create().address.toLowerCase()
+    const proposal = await createAProposal(dao, {
+      newController,
+      scheme: upgradeScheme,
+      type: IProposalType.UpgradeController
+    }) as Proposal
+    const lastState = await lastStateOf(proposal)
+
+    expect(lastState().type).toEqual(IProposalType.UpgradeController)
+    expect(lastState().upgradeScheme).toMatchObject({
+      decision: null,
+      executed: false,
+      id: proposal.id,
+      newController,
+      newUpgradeScheme: null,
+      newUpgradeSchemeParamsHash: null,
+      oldController: addresses.dao.Controller.toLowerCase()
+    })
+  })
+
+  it('creates and reads a proposal to change the upgrade scheme', async () => {
+    const newUpgradeScheme = arc.web3.eth.accounts.create().address.toLowerCase()
+    const newUpgradeSchemeParamsHash = '0x0000000000000000000000000000000000000000000000000000000000001234'
+    const proposal = await createAProposal(dao, {
+      newUpgradeScheme,
+      newUpgradeSchemeParamsHash,
+      scheme: upgradeScheme,
+      type: IProposalType.ChangeUpgradeScheme
+    }) as Proposal
+    const lastState = await lastStateOf(proposal)
+
+    expect(lastState().type).toEqual(IProposalType.ChangeUpgradeScheme)
+    expect(lastState().upgradeScheme).toMatchObject({
+      executed: false,
+      id: proposal.id,
+      newController: null,
+      newUpgradeScheme,
+      newUpgradeSchemeParamsHash
+    })
+  })
+
+  it('reads the params of the scheme', async () => {
+    const schemes = await dao.schemes({ where: { address: upgradeScheme } }).pipe(first()).toPromise()
+    const state = await schemes[0].state().pipe(first()).toPromise()
+    expect(state.upgradeSchemeParams).toMatchObject({
+      votingMachine: arc.getContractInfoByName('GenesisProtocol', LATEST_ARC_VERSION).address.toLowerCase()
+    })
+    expect(state.schemeParams).toBe(state.upgradeSchemeParams)
+  })
+
+  it('requires the new controller or scheme', () => {
+    expect(() => UpgradeScheme.createTransaction({ type: IProposalType.UpgradeController }, arc))
+      .toThrow(/newController/)
+    expect(() => UpgradeScheme.createTransaction({ newUpgradeScheme: '0x9abc', type: IProposalType.ChangeUpgradeScheme }, arc))
+      .toThrow(/newUpgradeSchemeParamsHash/)
+    expect(() => UpgradeScheme.createTransaction({}, arc)).toThrow(/proposal.type/)
+  })
+
+  it('maps the receipt with the event of the proposal type', () => {
+    const receipt = { events: { ChangeUpgradeSchemeProposal: { returnValues: { _proposalId: '0x1' } } } }
+    const proposal = UpgradeScheme.createTransactionMap({ type: IProposalType.ChangeUpgradeScheme }, arc)(receipt)
+    expect(proposal.id).toEqual('0x1')
+  })
+
+  it('maps the params of the scheme', () => {
+    const state = Scheme.itemMap({
+      address: '0x1234',
+      dao: { id: '0x5678' },
+      id: '0x1',
+      name: 'UpgradeScheme',
+      upgradeSchemeParams: { voteParams: { queuedVotePeriodLimit: '1800' }, votingMachine: '0x9abc' }
+    }, arc)
+    expect(state!.upgradeSchemeParams).toMatchObject({
+      voteParams: { queuedVotePeriodLimit: 1800 }, votingMachine: '0x9abc'
+    })
+    expect(state!.schemeParams).toBe(state!.upgradeSchemeParams)
+  })
+
+  it('maps the proposals', () => {
+    const proposal = {
+      decision: null,
+      executed: null,
+      id: '0x1',
+      newController: '0x9abc',
+      newUpgradeScheme: null,
+      newUpgradeSchemeParamsHash: null,
+      oldController: '0xdef0',
+      permissions: '0x0000000b',
+      type: 'UpgradeController'
+    }
+    expect(UpgradeScheme.mapProposal(proposal)).toEqual({
+      state: {
+        decision: null,
+        executed: false,
+        id: '0x1',
+        newController: '0x9abc',
+        newUpgradeScheme: null,
+        newUpgradeSchemeParamsHash: null,
+        oldController: '0xdef0',
+        permissions: '0x0000000b'
+      },
+      type: IProposalType.UpgradeController
+    })
+
+    const change = { ...proposal, decision: '1', executed: true, newController: null, type: 'ChangeUpgradeScheme' }
+    expect(UpgradeScheme.mapProposal(change)).toMatchObject({
+      state: { decision: 1, executed: true },
+      type: IProposalType.ChangeUpgradeScheme
+    })
+  })
+})
@@ -1,7 +1,7 @@
 import { first } from 'rxjs/operators'
 import { Arc } from '../src/arc'
 import { DAO } from '../src/dao'
-import { IProposalOutcome, Proposal } from '../src/proposal'
+import { IProposalOutcome, IProposalState, Proposal } from '../src/proposal'
 import { Vote } from '../src/vote'
 import { createAProposal, firstResult,
   getTestAddresses, getTestDAO, ITestAddresses,
@@ -49,6 +49,18 @@ describe('Vote on a ContributionReward', () => {
     expect(voteState.outcome).toEqual(IProposalOutcome.Pass)
   })
 
+  it('updates the votes of the proposal before the vote is indexed', async () => {
+    const proposal = await createAProposal()
+    const states: IProposalState[] = []
+    const subscription = proposal.state().subscribe((state: IProposalState) => states.push(state))
+    await waitUntilTrue(() => states.length > 0)
+    const update = await proposal.vote(IProposalOutcome.Pass).withConfirmations(0).send()
+    expect(proposal.context.optimisticUpdates.isPending(update.transactionHash as string)).toEqual(true)
+    await waitUntilTrue(() => states[states.length - 1].votesCount === 1)
+    expect(states[states.length - 1].votesFor.gtn(0)).toEqual(true)
+    subscription.unsubscribe()
+  })
+
   it('voting twice will not complain', async () => {
     const proposal = await createAProposal()
     await proposal.vote(IProposalOutcome.Pass).send()
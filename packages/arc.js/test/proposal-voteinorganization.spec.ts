@@ -0,0 +1,162 @@
+import { first } from 'rxjs/operators'
+import { Arc } from '../src/arc'
+import { DAO } from '../src/dao'
+import { IProposalOutcome, IProposalState, Proposal } from '../src/proposal'
+import { Scheme } from '../src/scheme'
+import { IProposalType as ISchemeRegistrarProposalType } from '../src/schemes/schemeRegistrar'
+import * as VoteInOrganizationScheme from '../src/schemes/voteInOrganizationScheme'
+import { IProposalType } from '../src/schemes/voteInOrganizationScheme'
+import {
+  createAProposal,
+  getTestAddresses,
+  getTestDAO,
+  LATEST_ARC_VERSION,
+  newArc,
+  voteToPassProposal,
+  waitUntilTrue
+} from './utils'
+
+jest.setTimeout(60000)
+
+describe('VoteInOrganizationScheme', () => {
+  let arc: Arc
+  let dao: DAO
+  let voteInOrganizationScheme: string
+
+  beforeAll(async () => {
+    arc = await newArc()
+    dao = arc.dao(getTestAddresses(arc).dao.Avatar)
+    voteInOrganizationScheme = arc.getContractInfoByName('VoteInOrganizationScheme', LATEST_ARC_VERSION).address
+
+    // the scheme is not registered in any DAO of the migration: register it with the voting parameters
+    // of the SchemeRegistrar of the DAO
+    const schemeRegistrar = getTestAddresses(arc).base.SchemeRegistrar
+    const schemes = await dao.schemes({ where: { address: schemeRegistrar } }).pipe(first()).toPromise()
+    const schemeRegistrarParams = await arc.getContract(schemeRegistrar).methods
+      .parameters(schemes[0].staticState!.paramsHash).call()
+    const voteInOrganizationContract = arc.getContract(voteInOrganizationScheme)
+    await voteInOrganizationContract.methods
+      .setParameters(schemeRegistrarParams[0], schemeRegistrarParams[2]).send()
+    const parametersHash = await voteInOrganizationContract.methods
+      .getParametersHash(schemeRegistrarParams[0], schemeRegistrarParams[2]).call()
+
+    const proposalToRegister = await createAProposal(dao, {
+      descriptionHash: '',
+      parametersHash,
+      // the scheme votes in the other organization with a generic call of the controller
+      permissions: '0x00000010',
+      scheme: schemeRegistrar,
+      schemeToRegister: voteInOrganizationScheme,
+      type: ISchemeRegistrarProposalType.SchemeRegistrarAdd
+    })
+    await voteToPassProposal(proposalToRegister)
+    await waitUntilTrue(async () => {
+      const registered = await dao.schemes({ where: { address: voteInOrganizationScheme } }, { fetchPolicy: 'network-only' })
+        .pipe(first()).toPromise()
+      return registered.length > 0
+    })
+  })
+
+  it('creates a proposal to vote in a proposal of another organization and reads it', async () => {
+    const otherDAO = await getTestDAO(arc)
+    const originalProposal = await createAProposal(otherDAO)
+    const { votingMachine } = await originalProposal.fetchStaticState()
+
+    // the voting machine of the original proposal is looked up in the subgraph
+    const proposal = await createAProposal(dao, {
+      originalProposalId: originalProposal.id,
+      scheme: voteInOrganizationScheme,
+      type: IProposalType.VoteInOrganization,
+      vote: IProposalOutcome.Fail
+    }) as Proposal
+
+    const states: IProposalState[] = []
+    proposal.state().subscribe((state: IProposalState) => states.push(state))
+    await waitUntilTrue(() => states.length > 0)
+    const lastState = states[states.length - 1]
+
+    expect(lastState.type).toEqual(IProposalType.VoteInOrganization)
+    expect(lastState.voteInOrganization).toMatchObject({
+      decision: null,
+      executed: false,
+      id: proposal.id,
+      originalDAO: otherDAO.id.toLowerCase(),
+      originalIntVote: votingMachine.toLowerCase(),
+      originalProposal: originalProposal.id,
+      originalProposalId: originalProposal.id,
+      vote: IProposalOutcome.Fail
+    })
+  })
+
+  it('reads the params of the scheme', async () => {
+    const schemes = await dao.schemes({ where: { address: voteInOrganizationScheme } }).pipe(first()).toPromise()
+    const state = await schemes[0].state().pipe(first()).toPromise()
+    expect(state.voteInOrganizationParams).toMatchObject({
+      votingMachine: arc.getContractInfoByName('GenesisProtocol', LATEST_ARC_VERSION).address.toLowerCase()
+    })
+    expect(state.schemeParams).toBe(state.voteInOrganizationParams)
+  })
+
+  it('requires the original proposal and a vote', () => {
+    expect(() => VoteInOrganizationScheme.createTransaction({ vote: IProposalOutcome.Pass }, arc))
+      .toThrow(/originalProposalId/)
+    expect(() => VoteInOrganizationScheme.createTransaction({ originalProposalId: '0x1111' }, arc))
+      .toThrow(/vote/)
+    expect(() => VoteInOrganizationScheme.createTransaction({ originalProposalId: '0x1111', vote: 0 }, arc))
+      .toThrow(/vote/)
+  })
+
+  it('maps the receipt', () => {
+    const receipt = { events: { NewVoteProposal: { returnValues: { _proposalId: '0x1' } } } }
+    const proposal = VoteInOrganizationScheme.createTransactionMap({}, arc)(receipt)
+    expect(proposal.id).toEqual('0x1')
+  })
+
+  it('maps the params of the scheme', () => {
+    const state = Scheme.itemMap({
+      address: '0x1234',
+      dao: { id: '0x5678' },
+      id: '0x1',
+      name: 'VoteInOrganizationScheme',
+      voteInOrganizationParams: { voteParams: { queuedVotePeriodLimit: '1800' }, votingMachine: '0x9abc' }
+    }, arc)
+    expect(state!.voteInOrganizationParams).toMatchObject({
+      voteParams: { queuedVotePeriodLimit: 1800 }, votingMachine: '0x9abc'
+    })
+    expect(state!.schemeParams).toBe(state!.voteInOrganizationParams)
+  })
+
+  it('maps the proposals', () => {
+    const proposal = {
+      callReturnValue: null,
+      decision: null,
+      executed: null,
+      id: '0x1',
+      originalDAO: { id: '0xaaaa' },
+      originalIntVote: '0x9abc',
+      originalProposal: { id: '0x1111' },
+      originalProposalId: '0x1111',
+      vote: '1'
+    }
+    expect(VoteInOrganizationScheme.mapProposal(proposal)).toEqual({
+      state: {
+        callReturnValue: null,
+        decision: null,
+        executed: false,
+        id: '0x1',
+        originalDAO: '0xaaaa',
+        originalIntVote: '0x9abc',
+        originalProposal: '0x1111',
+        originalProposalId: '0x1111',
+        vote: IProposalOutcome.Pass
+      },
+      type: IProposalType.VoteInOrganization
+    })
+
+    const unknown = { ...proposal, callReturnValue: '0x01', decision: '1', executed: true, originalDAO: null,
+      originalProposal: null }
+    expect(VoteInOrganizationScheme.mapProposal(unknown).state).toMatchObject({
+      callReturnValue: '0x01', decision: 1, executed: true, originalDAO: null, originalProposal: null
+    })
+  })
+})
@@ -16,6 +16,7 @@ import { createAProposal,
   getTestAddresses,
   ITestAddresses,
   newArc,
+  newArcWithoutGraphql,
   toWei,
   voteToPassProposal,
   waitUntilTrue
@@ -44,6 +45,23 @@ describe('Proposal', () => {
     preBoostedProposal = await dao.proposal(preBoostedProposalId)
   })
 
+  it('proposal.state() can be read from the chain', async () => {
+    const arcWithoutGraphql = await newArcWithoutGraphql()
+    const proposal = new Proposal(queuedProposal.id, arcWithoutGraphql)
+    const stateFromChain = await proposal.state({ subscribe: false }).pipe(first()).toPromise()
+    const stateFromSubgraph = await queuedProposal.state({ fetchPolicy: 'network-only' }).pipe(first()).toPromise()
+    expect(stateFromChain.stage).toEqual(IProposalStage.Queued)
+    expect(stateFromChain.dao.id).toEqual(stateFromSubgraph.dao.id)
+    expect(stateFromChain.scheme.address).toEqual(stateFromSubgraph.scheme.address)
+    expect(stateFromChain.proposer).toEqual(stateFromSubgraph.proposer)
+    expect(stateFromChain.createdAt).toEqual(stateFromSubgraph.createdAt)
+    expect(stateFromChain.closingAt).toEqual(stateFromSubgraph.closingAt)
+    expect(stateFromChain.votesFor).toEqual(stateFromSubgraph.votesFor)
+    expect(stateFromChain.stakesFor).toEqual(stateFromSubgraph.stakesFor)
+    expect(stateFromChain.type).toEqual(stateFromSubgraph.type)
+    expect(stateFromChain.title).toEqual(stateFromSubgraph.title)
+  })
+
   it('get list of proposals', async () => {
     const proposals = dao.proposals()
     const proposalsList = await proposals.pipe(first()).toPromise()
@@ -105,6 +123,34 @@ describe('Proposal', () => {
     // expect(ls.length).toEqual(0)
   })
 
+  it('proposal.search() still accepts the deprecated filters', async () => {
+    let result: Proposal[]
+    result = await Proposal.search(arc, { where: { proposalId: queuedProposal.id } }).pipe(first()).toPromise()
+    expect(result.map((p: Proposal) => p.id)).toEqual([queuedProposal.id])
+
+    result = await Proposal.search(arc, { where: { active: true, id: queuedProposal.id } })
+      .pipe(first()).toPromise()
+    expect(result.length).toEqual(1)
+    result = await Proposal.search(arc, { where: { active: false, id: queuedProposal.id } })
+      .pipe(first()).toPromise()
+    expect(result.length).toEqual(0)
+    result = await Proposal.search(arc, { where: { active: true, id: executedProposal.id } })
+      .pipe(first()).toPromise()
+    expect(result.length).toEqual(0)
+
+    result = await Proposal.search(arc, { where: { boosted: false, id: queuedProposal.id } })
+      .pipe(first()).toPromise()
+    expect(result.length).toEqual(1)
+    result = await Proposal.search(arc, { where: { boosted: true, id: queuedProposal.id } })
+      .pipe(first()).toPromise()
+    expect(result.length).toEqual(0)
+
+    result = await Proposal.search(arc, { where: { dao: dao.id, orderBy: 'createdAt' } }).pipe(first()).toPromise()
+    const ordered = await Proposal.search(arc, { orderBy: 'createdAt', where: { dao: dao.id } })
+      .pipe(first()).toPromise()
+    expect(result.map((p: Proposal) => p.id)).toEqual(ordered.map((p: Proposal) => p.id))
+  })
+
   it('proposal.search ignores case in address', async () => {
     const proposalState = await queuedProposal.state().pipe(first()).toPromise()
     const proposer = proposalState.proposer
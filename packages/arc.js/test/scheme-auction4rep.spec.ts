@@ -0,0 +1,96 @@
+import BN = require('bn.js')
+import { Arc, Auction4ReputationScheme } from '../src'
+import { DAO } from '../src/dao'
+import { Scheme } from '../src/scheme'
+import {
+  advanceTimeAndBlock,
+  deployContract,
+  getTestAddresses,
+  LATEST_ARC_VERSION,
+  newArc,
+  registerScheme,
+  toWei
+} from './utils'
+
+jest.setTimeout(60000)
+
+describe('Auction4ReputationScheme', () => {
+  let arc: Arc
+  let dao: DAO
+  let accounts: any
+  let auction4Reputation: Auction4ReputationScheme
+  const agreementHash = '0x0000000000000000000000000000000000000001000000000000000000000000'
+  const auctionPeriod = 3600
+  const reputationReward = toWei('1000')
+
+  const newScheme = (version: string) => new Scheme({
+    address: '0x1234',
+    dao: '0x5678',
+    id: '0x1',
+    name: 'Auction4Reputation',
+    paramsHash: '0x0',
+    version
+  }, arc)
+
+  beforeAll(async () => {
+    arc = await newArc()
+    accounts = arc.web3.eth.accounts.wallet
+    dao = arc.dao(getTestAddresses(arc).dao.Avatar)
+
+    // the migration does not deploy an Auction4Reputation: deploy one with a single auction that starts now
+    const contract = await deployContract(arc, 'Auction4Reputation')
+    const auctionsStartTime = (await arc.web3.eth.getBlock('latest')).timestamp
+    await contract.methods.initialize(
+      dao.id,
+      reputationReward.toString(),
+      auctionsStartTime,
+      auctionPeriod,
+      1,
+      auctionsStartTime + auctionPeriod,
+      arc.GENToken().address,
+      accounts[0].address,
+      agreementHash
+    ).send({ from: accounts[0].address, gas: 1000000 })
+
+    const scheme = await registerScheme(dao, contract.options.address)
+    // the subgraph has no contract info for the contract, so it does not know the name of the scheme
+    auction4Reputation = new Scheme({
+      ...scheme.staticState!,
+      name: 'Auction4Reputation',
+      version: LATEST_ARC_VERSION
+    }, arc).Auction4Reputation as Auction4ReputationScheme
+  })
+
+  it('is created for an Auction4Reputation scheme', () => {
+    const scheme = newScheme(LATEST_ARC_VERSION)
+    expect(scheme.Auction4Reputation).toBeInstanceOf(Auction4ReputationScheme)
+    expect(scheme.Locking4Reputation).toBeNull()
+  })
+
+  it('requires the agreement hash after rc.16', async () => {
+    await expect(auction4Reputation.bid(new BN(100), 0).send()).rejects.toThrow(/agreementHash/)
+  })
+
+  it('bids in an auction and redeems its reputation', async () => {
+    expect(await auction4Reputation.getAgreementHash()).toEqual(agreementHash)
+
+    const token = arc.GENToken()
+    const amount = toWei('100')
+    await token.mint(accounts[0].address, amount).send()
+    await token.approveForStaking(auction4Reputation.scheme.staticState!.address, amount).send()
+    await auction4Reputation.bid(amount, 0, agreementHash).send()
+
+    expect(await auction4Reputation.getBid(accounts[0].address, 0)).toEqual(amount)
+    expect(await auction4Reputation.getAuctionTotalBid(0)).toEqual(amount)
+
+    // the reputation can be redeemed once the auction has ended
+    await advanceTimeAndBlock(auctionPeriod + 1)
+    expect(await auction4Reputation.getRedeemableReputation(accounts[0].address, 0)).toEqual(reputationReward)
+    const reputation = (await dao.fetchStaticState()).reputation.contract()
+    const reputationBefore = new BN(await reputation.methods.balanceOf(accounts[0].address).call())
+    await auction4Reputation.redeem(accounts[0].address, 0).send()
+    const reputationAfter = new BN(await reputation.methods.balanceOf(accounts[0].address).call())
+    expect(reputationAfter.sub(reputationBefore)).toEqual(reputationReward)
+    expect(await auction4Reputation.getBid(accounts[0].address, 0)).toEqual(new BN(0))
+  })
+})
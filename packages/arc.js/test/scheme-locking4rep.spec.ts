@@ -0,0 +1,135 @@
+import BN = require('bn.js')
+import { Arc, Locking4ReputationScheme } from '../src'
+import { DAO } from '../src/dao'
+import { Scheme } from '../src/scheme'
+import {
+  advanceTimeAndBlock,
+  deployContract,
+  getTestAddresses,
+  LATEST_ARC_VERSION,
+  newArc,
+  registerScheme,
+  toWei
+} from './utils'
+
+jest.setTimeout(120000)
+
+describe('Locking4ReputationScheme', () => {
+  let arc: Arc
+  let dao: DAO
+  let accounts: any
+  let lockingStartTime: number
+  let lockingEth4Reputation: Locking4ReputationScheme
+  let lockingToken4Reputation: Locking4ReputationScheme
+  let externalLocking4Reputation: Locking4ReputationScheme
+  let externalTokenLocker: any
+  const agreementHash = '0x0000000000000000000000000000000000000001000000000000000000000000'
+  const lockingPeriod = 3600
+  const reputationReward = toWei('1000')
+
+  const newLocking4Reputation = (name: string, version = LATEST_ARC_VERSION) => new Scheme({
+    address: '0x1234',
+    dao: '0x5678',
+    id: '0x1',
+    name,
+    paramsHash: '0x0',
+    version
+  }, arc).Locking4Reputation as Locking4ReputationScheme
+
+  // the migration does not deploy the locking schemes: deploy one, initialize it and register it in the DAO
+  async function deployLocking4Reputation(name: string, ...initializeArgs: any[]) {
+    const contract = await deployContract(arc, name)
+    await contract.methods.initialize(
+      dao.id,
+      reputationReward.toString(),
+      lockingStartTime,
+      lockingStartTime + lockingPeriod,
+      lockingStartTime + lockingPeriod,
+      ...initializeArgs,
+      agreementHash
+    ).send({ from: accounts[0].address, gas: 1000000 })
+    const scheme = await registerScheme(dao, contract.options.address)
+    // the subgraph has no contract info for the contract, so it does not know the name of the scheme
+    return new Scheme({ ...scheme.staticState!, name, version: LATEST_ARC_VERSION }, arc)
+      .Locking4Reputation as Locking4ReputationScheme
+  }
+
+  beforeAll(async () => {
+    arc = await newArc()
+    accounts = arc.web3.eth.accounts.wallet
+    dao = arc.dao(getTestAddresses(arc).dao.Avatar)
+    lockingStartTime = (await arc.web3.eth.getBlock('latest')).timestamp
+
+    lockingEth4Reputation = await deployLocking4Reputation('LockingEth4Reputation', lockingPeriod)
+
+    const priceOracle = await deployContract(arc, 'PriceOracleMock')
+    await priceOracle.methods.setTokenPrice(arc.GENToken().address, 1, 1).send({ from: accounts[0].address })
+    lockingToken4Reputation = await deployLocking4Reputation(
+      'LockingToken4Reputation', lockingPeriod, priceOracle.options.address)
+
+    externalTokenLocker = await deployContract(arc, 'ExternalTokenLockerMock')
+    externalLocking4Reputation = await deployLocking4Reputation(
+      'ExternalLocking4Reputation', externalTokenLocker.options.address, 'lockedTokenBalances(address)')
+  })
+
+  it('is created for the locking schemes', () => {
+    expect(newLocking4Reputation('LockingEth4Reputation')).toBeInstanceOf(Locking4ReputationScheme)
+    expect(newLocking4Reputation('LockingToken4Reputation')).toBeInstanceOf(Locking4ReputationScheme)
+    expect(newLocking4Reputation('ExternalLocking4Reputation')).toBeInstanceOf(Locking4ReputationScheme)
+    expect(newLocking4Reputation('ContinuousLocking4Reputation')).toBeNull()
+  })
+
+  it('refuses the operations that the scheme does not have', async () => {
+    await expect(lockingToken4Reputation.lock(new BN(1000), lockingPeriod, agreementHash).send())
+      .rejects.toThrow(/token/)
+    await expect(externalLocking4Reputation.lock(new BN(1000), lockingPeriod, agreementHash).send())
+      .rejects.toThrow(/claim/)
+    await expect(lockingEth4Reputation.claim(accounts[0].address, agreementHash).send())
+      .rejects.toThrow(/ExternalLocking4Reputation/)
+  })
+
+  it('locks, releases and redeems', async () => {
+    const locker = accounts[0].address
+    const amount = new BN(1000)
+    const token = arc.GENToken()
+    expect(await lockingEth4Reputation.getAgreementHash()).toEqual(agreementHash)
+
+    // lock ETH, which is sent along with the transaction
+    const ethLock = await lockingEth4Reputation.lock(amount, lockingPeriod, agreementHash).send()
+    const ethLockingId = ethLock.result.events.Lock.returnValues._lockingId
+    expect(await lockingEth4Reputation.getLock(locker, ethLockingId))
+      .toMatchObject({ amount })
+    expect(await lockingEth4Reputation.getScore(locker)).toEqual(amount.muln(lockingPeriod))
+    expect(await lockingEth4Reputation.getTotalScore()).toEqual(amount.muln(lockingPeriod))
+
+    // lock tokens, which must be approved first
+    await token.mint(locker, amount).send()
+    await token.approveForStaking(lockingToken4Reputation.scheme.staticState!.address, amount).send()
+    const tokenLock = await lockingToken4Reputation.lock(amount, lockingPeriod, agreementHash, token.address).send()
+    const tokenLockingId = tokenLock.result.events.Lock.returnValues._lockingId
+    expect((await lockingToken4Reputation.getLock(locker, tokenLockingId)).amount).toEqual(amount)
+    expect(await lockingToken4Reputation.getScore(locker)).toEqual(amount.muln(lockingPeriod))
+
+    // claim the balance in the external locking contract
+    await externalTokenLocker.methods.lock(amount.toString(), locker).send({ from: locker })
+    await externalLocking4Reputation.claim(locker, agreementHash).send()
+    expect((await externalLocking4Reputation.getScore(locker)).gtn(0)).toBe(true)
+
+    // the locks can be released, and the reputation redeemed, once the locking has ended
+    await advanceTimeAndBlock(lockingPeriod + 1)
+    const balanceBefore = new BN(await arc.web3.eth.getBalance(lockingEth4Reputation.scheme.staticState!.address))
+    await lockingEth4Reputation.release(locker, ethLockingId).send()
+    const balanceAfter = new BN(await arc.web3.eth.getBalance(lockingEth4Reputation.scheme.staticState!.address))
+    expect(balanceBefore.sub(balanceAfter)).toEqual(amount)
+    await lockingToken4Reputation.release(locker, tokenLockingId).send()
+
+    const reputation = (await dao.fetchStaticState()).reputation.contract()
+    for (const locking4Reputation of [lockingEth4Reputation, lockingToken4Reputation, externalLocking4Reputation]) {
+      const reputationBefore = new BN(await reputation.methods.balanceOf(locker).call())
+      await locking4Reputation.redeem(locker).send()
+      const reputationAfter = new BN(await reputation.methods.balanceOf(locker).call())
+      // the locker has all the score, and so redeems all the reputation
+      expect(reputationAfter.sub(reputationBefore)).toEqual(reputationReward)
+    }
+  })
+})
@@ -0,0 +1,113 @@
+import { print } from 'graphql'
+import gql from 'graphql-tag'
+import { of } from 'rxjs'
+import { Arc } from '../src/arc'
+import { Proposal } from '../src/proposal'
+import { Scheme } from '../src/scheme'
+import * as GenericScheme from '../src/schemes/genericScheme'
+import * as GlobalConstraintRegistrar from '../src/schemes/globalConstraintRegistrar'
+import * as SignalScheme from '../src/schemes/signalScheme'
+import * as UGenericScheme from '../src/schemes/uGenericScheme'
+import * as UpgradeScheme from '../src/schemes/upgradeScheme'
+import * as VoteInOrganizationScheme from '../src/schemes/voteInOrganizationScheme'
+import { ISchemeType, schemeTypes } from '../src/schemeTypes'
+
+describe('Scheme types', () => {
+  let arc: Arc
+
+  const testSchemeType: ISchemeType = {
+    createTransaction: jest.fn(() => async () => 'transaction'),
+    mapParams: (params: any) => ({ votingMachine: params.votingMachine }),
+    mapProposal: (data: any) => ({ state: { id: data.id }, type: 'TestProposal' }),
+    mapReceipt: jest.fn(() => (receipt: any) => receipt),
+    name: 'TestScheme',
+    paramsFragment: gql`fragment TestSchemeParams on ControllerScheme {
+      testSchemeParams { votingMachine }
+    }`,
+    proposalFragment: gql`fragment TestSchemeProposalFields on Proposal {
+      testScheme { id }
+    }`,
+    proposalTypes: ['TestProposal']
+  }
+
+  beforeAll(() => {
+    arc = new Arc({ graphqlHttpProvider: 'http://127.0.0.1:1' })
+    arc.registerSchemeType(testSchemeType)
+  })
+
+  it('finds the type of a scheme by its name and version', () => {
+    expect(schemeTypes.find('GenericScheme', '0.0.1-rc.22')).toBe(UGenericScheme.legacyGenericSchemeType)
+    expect(schemeTypes.find('GenericScheme', '0.0.1-rc.32')).toBe(GenericScheme.schemeType)
+    expect(schemeTypes.find('TestScheme', '0.0.1-rc.32')).toBe(testSchemeType)
+    expect(schemeTypes.find('UnknownScheme', '0.0.1-rc.32')).toBeUndefined()
+  })
+
+  it('has the types of all the schemes in src/schemes built in', () => {
+    expect(schemeTypes.find('GlobalConstraintRegistrar', '0.0.1-rc.55')).toBe(GlobalConstraintRegistrar.schemeType)
+    expect(schemeTypes.find('SignalScheme', '0.0.1-rc.55')).toBe(SignalScheme.schemeType)
+    expect(schemeTypes.find('UpgradeScheme', '0.0.1-rc.55')).toBe(UpgradeScheme.schemeType)
+    expect(schemeTypes.find('VoteInOrganizationScheme', '0.0.1-rc.55')).toBe(VoteInOrganizationScheme.schemeType)
+  })
+
+  it('verifies the parameters of a scheme with its type', async () => {
+    const contract = {
+      methods: { parameters: () => ({ call: async () => ({ 0: '0x0001', 1: '0x0002', 2: '0x9abc' }) }) }
+    }
+    const getContract = jest.spyOn(arc, 'getContract').mockImplementation(() => contract as any)
+    // only the first voting parameters are valid
+    const validateGenesisProtocolParams = jest.spyOn(arc as any, 'validateGenesisProtocolParams')
+      .mockImplementation(async (votingMachine: any, voteParams: any) => voteParams === '0x0001')
+    try {
+      expect(await arc.verifyParametersHash('0x1234', '0x1', 'ContributionReward')).toBe(true)
+      expect(validateGenesisProtocolParams).toHaveBeenLastCalledWith('0x0002', '0x0001')
+      // both the parameters to register and to remove schemes must be valid
+      expect(await arc.verifyParametersHash('0x1234', '0x1', 'SchemeRegistrar')).toBe(false)
+      expect(validateGenesisProtocolParams).toHaveBeenLastCalledWith('0x9abc', '0x0002')
+      expect(await arc.verifyParametersHash('0x1234', '0x1', 'TestScheme')).toBe(true)
+    } finally {
+      getContract.mockRestore()
+      validateGenesisProtocolParams.mockRestore()
+    }
+  })
+
+  it('adds the fragments of a registered type to the fragments of schemes and proposals', () => {
+    expect(print(Scheme.fragments.SchemeFields)).toContain('testSchemeParams')
+    expect(print(Scheme.fragments.SchemeFields)).toContain('genericSchemeParams')
+    expect(print(Proposal.fragments.ProposalFields)).toContain('testScheme')
+
+    const state = Scheme.itemMap({
+      address: '0x1234',
+      dao: { id: '0x5678' },
+      genericSchemeParams: null,
+      id: '0x1',
+      name: 'TestScheme',
+      testSchemeParams: { votingMachine: '0x9abc' }
+    }, arc) as any
+    expect(state.testSchemeParams).toEqual({ votingMachine: '0x9abc' })
+    expect(state.schemeParams).toEqual({ votingMachine: '0x9abc' })
+    expect(state.genericSchemeParams).toBeNull()
+  })
+
+  it('searches for proposals by a registered type', () => {
+    const getObservableList = jest.spyOn(arc, 'getObservableList').mockImplementation(() => of([]) as any)
+    Proposal.search(arc, { where: { type: 'TestProposal' } as any })
+    expect(getObservableList.mock.calls[0][2]!.variables).toMatchObject({ where: { testScheme_not: null } })
+    expect(() => Proposal.search(arc, { where: { type: 'UnknownProposal' } as any })).toThrow(/Unknown value/)
+  })
+
+  it('creates proposals with the registered type of the scheme', async () => {
+    const sendTransaction = jest.spyOn(arc, 'sendTransaction').mockImplementation(() => of({ result: 'proposal' }) as any)
+    const scheme = new Scheme({
+      address: '0x1234', dao: '0x5678', id: '0x1', name: 'TestScheme', paramsHash: '0x0', version: '0.0.1-rc.32'
+    }, arc)
+    const options = { dao: '0x5678', scheme: '0x1234' }
+    await scheme.createProposal(options).toPromise()
+    expect(testSchemeType.createTransaction).toHaveBeenCalledWith(options, arc, scheme)
+    expect(sendTransaction).toHaveBeenCalled()
+
+    const unknown = new Scheme({
+      address: '0x1234', dao: '0x5678', id: '0x2', name: 'UnknownScheme', paramsHash: '0x0', version: '0.0.1-rc.32'
+    }, arc)
+    await expect(unknown.createProposal(options).toPromise()).rejects.toThrow(/Unknown proposal scheme/)
+  })
+})
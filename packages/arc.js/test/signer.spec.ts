@@ -0,0 +1,79 @@
+import { bufferToHex, bufferToInt, ecrecover, keccak256, pubToAddress, rlp, toChecksumAddress } from 'ethereumjs-util'
+import { PrivateKeySigner, recoverTransactionSender } from '../src/signer'
+const Web3 = require('web3')
+
+// the first default account of ganache
+const privateKey = '0x4f3edf983ac636a65a842ce7c78d9aa706d3b113bce9c46f30d7d21715b23b1d'
+const address = '0x90F8bf6A479f320ead074411a4B0e7944Ea8c9C1'
+
+describe('PrivateKeySigner', () => {
+
+  it('returns the address of the private key', async () => {
+    expect(await new PrivateKeySigner(privateKey).getAddress()).toEqual(address)
+    expect(await new PrivateKeySigner(privateKey.substring(2)).getAddress()).toEqual(address)
+  })
+
+  it('signs legacy transactions', async () => {
+    const signer = new PrivateKeySigner(privateKey)
+    const rawTransaction = await signer.signTransaction({
+      chainId: 1,
+      data: '0x',
+      from: address,
+      gas: 21000,
+      gasPrice: '1000000000',
+      nonce: 0,
+      to: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    })
+    expect(rawTransaction).toMatch(/^0x[0-9a-f]+$/)
+    const web3 = new Web3()
+    const recovered = web3.eth.accounts.recoverTransaction(rawTransaction)
+    expect(recovered).toEqual(address)
+  })
+
+  it('signs EIP-1559 transactions', async () => {
+    const signer = new PrivateKeySigner(privateKey)
+    const rawTransaction = await signer.signTransaction({
+      chainId: 1,
+      data: '0x1234',
+      from: address,
+      gas: 21000,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000',
+      nonce: 0,
+      to: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0',
+      value: '1000'
+    })
+    // a type 2 envelope: 0x02 || rlp([chainId, nonce, tip, maxFee, gas, to, value, data, accessList, v, r, s])
+    expect(rawTransaction.startsWith('0x02')).toBeTruthy()
+    const fields = rlp.decode(Buffer.from(rawTransaction.substring(4), 'hex')) as any as Buffer[]
+    expect(fields.length).toEqual(12)
+    expect(bufferToInt(fields[0])).toEqual(1)
+    expect(bufferToHex(fields[5])).toEqual('0xffcf8fdee72ac11b5c542428b35eef5769c409f0')
+    expect(bufferToInt(fields[6])).toEqual(1000)
+    expect(bufferToHex(fields[7])).toEqual('0x1234')
+
+    const hash = keccak256(Buffer.concat([Buffer.from([2]), rlp.encode(fields.slice(0, 9))]))
+    const publicKey = ecrecover(hash, bufferToInt(fields[9]) + 27, fields[10], fields[11])
+    expect(toChecksumAddress(bufferToHex(pubToAddress(publicKey)))).toEqual(address)
+  })
+  it('recovers the sender of legacy and EIP-1559 transactions', async () => {
+    const signer = new PrivateKeySigner(privateKey)
+    const transaction = {
+      chainId: 1,
+      data: '0x',
+      from: address,
+      gas: 21000,
+      nonce: 3,
+      to: '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+    }
+    const legacyTransaction = await signer.signTransaction({ ...transaction, gasPrice: '1000000000' })
+    expect(recoverTransactionSender(legacyTransaction)).toEqual(address)
+    const eip1559Transaction = await signer.signTransaction({
+      ...transaction,
+      maxFeePerGas: '2000000000',
+      maxPriorityFeePerGas: '1000000000'
+    })
+    expect(recoverTransactionSender(eip1559Transaction)).toEqual(address)
+    expect(() => recoverTransactionSender('0x02c0')).toThrow('0 fields')
+  })
+})
@@ -0,0 +1,44 @@
+import BN = require('bn.js')
+import { Arc } from '../src/arc'
+import { revertReason, simulateCalls } from '../src/simulation'
+const Web3 = require('web3')
+
+describe('Proposal simulation', () => {
+  const web3 = new Web3()
+  const avatar = '0xe7a2c59e134ee81d4035ae6db2254f79308e334f'
+  const contractToCall = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0'
+
+  it('reads the revert reason from the revert data, or from the message', () => {
+    const data = web3.eth.abi.encodeFunctionSignature('Error(string)') +
+      web3.eth.abi.encodeParameter('string', 'Ownable: caller is not the owner').slice(2)
+    expect(revertReason(web3, { data, message: 'execution reverted' })).toEqual('Ownable: caller is not the owner')
+    expect(revertReason(web3, { message: 'Returned error: execution reverted: not enough tokens' }))
+      .toEqual('not enough tokens')
+    expect(revertReason(web3, {
+      message: 'Returned error: VM Exception while processing transaction: revert not enough tokens'
+    })).toEqual('not enough tokens')
+    expect(revertReason(web3, { message: 'Returned error: execution reverted' })).toEqual('reverted without a reason')
+    expect(revertReason(web3, { message: 'Returned error: insufficient funds for transfer' }))
+      .toEqual('insufficient funds for transfer')
+  })
+
+  it('makes each call from the avatar', async () => {
+    const arc = new Arc({ graphqlHttpProvider: 'http://127.0.0.1:1' })
+    const call = jest.fn(async (transaction: any) => {
+      if (transaction.data === '0x02') {
+        throw new Error('Returned error: execution reverted: not allowed')
+      }
+      return '0x01'
+    })
+    arc.web3Read = { eth: { abi: web3.eth.abi, call, estimateGas: async () => 30000 } }
+
+    const simulation = await simulateCalls(arc, avatar, [
+      { callData: '0x01', contractToCall, value: new BN(10) },
+      { callData: '0x02', contractToCall, value: new BN(0) }
+    ])
+    expect(call).toHaveBeenCalledWith({ data: '0x01', from: avatar, to: contractToCall, value: '10' })
+    expect(simulation.success).toEqual(false)
+    expect(simulation.calls[0]).toMatchObject({ gasUsed: 30000, returnValue: '0x01', revertReason: null, success: true })
+    expect(simulation.calls[1]).toMatchObject({ gasUsed: null, returnValue: null, revertReason: 'not allowed', success: false })
+  })
+})
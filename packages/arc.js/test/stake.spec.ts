@@ -20,7 +20,7 @@ describe('Stake', () => {
   it('Stake is instantiable', () => {
     const stake = new Stake({
       amount: toWei('300'),
-      createdAt: new Date(),
+      createdAt: 0,
       id: '0x1234id',
       outcome: IProposalOutcome.Fail,
       proposal: '0x12445proposalId',
@@ -40,7 +40,7 @@ describe('Stake', () => {
     await arc.approveForStaking(votingMachine.options.address, stakeAmount).send()
 
     proposal.stakes().subscribe((next) => stakes.push(next))
-    await proposal.stake(IProposalOutcome.Pass, stakeAmount).send()
+    const update = await proposal.stake(IProposalOutcome.Pass, stakeAmount).send()
 
     // wait until we have the we received the stake update
     await waitUntilTrue(() => stakes.length > 0 && stakes[stakes.length - 1].length > 0)
@@ -55,6 +55,10 @@ describe('Stake', () => {
     expect(result.length).toEqual(1)
     const state = await result[0].fetchStaticState()
     expect(state.outcome).toEqual(IProposalOutcome.Pass)
+    // the stake of the receipt and the indexed stake have the timestamp of the block, in seconds
+    const block = await arc.web3.eth.getBlock((update.receipt as any).blockNumber)
+    expect(state.createdAt).toEqual(Number(block.timestamp))
+    expect((update.result as Stake).staticState!.createdAt).toEqual(state.createdAt)
 
     result = await Stake
       .search(arc, {where: {staker: state.staker, proposal: proposal.id}})
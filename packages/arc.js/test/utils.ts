@@ -1,11 +1,12 @@
 import BN = require('bn.js')
 import { Observable } from 'rxjs'
 import { first } from 'rxjs/operators'
-import { IContractInfo, IProposalCreateOptions, Proposal } from '../src'
+import { IContractInfo, IProposalCreateOptions, Proposal, ProposalAlreadyExecutedError } from '../src'
 import { Arc } from '../src/arc'
 import { DAO } from '../src/dao'
-import { IProposalOutcome } from '../src/proposal'
+import { IProposalOutcome, IProposalType } from '../src/proposal'
 import { Reputation } from '../src/reputation'
+import { Scheme } from '../src/scheme'
 import { Address } from '../src/types'
 
 const Web3 = require('web3')
@@ -219,7 +220,7 @@ export async function voteToPassProposal(proposal: Proposal) {
       await proposal.vote(IProposalOutcome.Pass).send()
     } catch (err) {
       // TODO: this sometimes fails with uninformative `revert`, cannot find out why
-      if (err.message.match(/already executed/)) {
+      if (err instanceof ProposalAlreadyExecutedError) {
         return
       } else {
         // ignore?
@@ -232,6 +233,38 @@ export async function voteToPassProposal(proposal: Proposal) {
   return
 }
 
+// deploy a contract of an Arc version that the migration does not deploy itself
+export async function deployContract(arc: Arc, name: string, version: string = LATEST_ARC_VERSION) {
+  const { abi, bytecode } = require(`@daostack/migration/contracts/${version}/${name}.json`)
+  const accounts = arc.web3.eth.accounts.wallet
+  return new arc.web3.eth.Contract(abi).deploy({ data: bytecode }).send({ from: accounts[0].address, gas: 6000000 })
+}
+
+// register a scheme in a DAO with a proposal of its SchemeRegistrar, and wait for the subgraph to index it
+export async function registerScheme(
+  dao: DAO,
+  schemeToRegister: Address,
+  parametersHash: string = '0x' + padZeros('', 64),
+  permissions: string = '0x00000001'
+): Promise<Scheme> {
+  const proposal = await createAProposal(dao, {
+    descriptionHash: '',
+    parametersHash,
+    permissions,
+    scheme: getTestAddresses(dao.context).base.SchemeRegistrar,
+    schemeToRegister,
+    type: IProposalType.SchemeRegistrarAdd
+  })
+  await voteToPassProposal(proposal)
+  let schemes: Scheme[] = []
+  await waitUntilTrue(async () => {
+    schemes = await dao.schemes({ where: { address: schemeToRegister.toLowerCase() } }, { fetchPolicy: 'network-only' })
+      .pipe(first()).toPromise() as Scheme[]
+    return schemes.length > 0
+  })
+  return schemes[0]
+}
+
 // export async function timeTravel(seconds: number, web3: any) {
 //   const jsonrpc = '2.0'
 //   // web3 = new Web3('http://localhost:8545')
@@ -289,6 +322,38 @@ export const advanceBlock = () => {
   })
 }
 
+/**
+ * stop ganache from mining the transactions it receives, so that they stay pending
+ */
+export const stopMining = () => {
+  return new Promise((resolve, reject) => {
+    web3.currentProvider.send({
+      jsonrpc: '2.0',
+      method: 'miner_stop',
+      id: new Date().getTime()
+    }, (err: Error, result: any) => {
+      if (err) { return reject(err) }
+      return resolve(result)
+    })
+  })
+}
+
+/**
+ * let ganache mine again, starting with the pending transactions
+ */
+export const startMining = () => {
+  return new Promise((resolve, reject) => {
+    web3.currentProvider.send({
+      jsonrpc: '2.0',
+      method: 'miner_start',
+      id: new Date().getTime()
+    }, (err: Error, result: any) => {
+      if (err) { return reject(err) }
+      return resolve(result)
+    })
+  })
+}
+
 export const takeSnapshot = () => {
   return new Promise((resolve, reject) => {
     web3.currentProvider.send({
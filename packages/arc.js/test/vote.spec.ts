@@ -34,7 +34,7 @@ describe('vote', () => {
     const dao = await getTestDAO()
     const proposal = await createAProposal(dao)
     // let's have a vote
-    await proposal.vote(IProposalOutcome.Pass).send()
+    const update = await proposal.vote(IProposalOutcome.Pass).send()
 
     const voteIsIndexed = async () => {
       // we pass no-cache to make sure we hit the server on each request
@@ -48,6 +48,10 @@ describe('vote', () => {
       expect((await result[0].fetchStaticState()).outcome).toEqual(IProposalOutcome.Pass)
     }
     const vote = result[0]
+    // the vote of the receipt and the indexed vote have the timestamp of the block, in seconds
+    const block = await arc.web3.eth.getBlock((update.receipt as any).blockNumber)
+    expect((await vote.fetchStaticState()).createdAt).toEqual(Number(block.timestamp))
+    expect((update.result as Vote).staticState!.createdAt).toEqual(Number(block.timestamp))
 
     result = await Vote.search(arc)
       .pipe(first()).toPromise()
@@ -0,0 +1,75 @@
+import BN = require('bn.js')
+import { buildWhere, createQueryArguments, IEntitySchema } from '../src/where'
+
+const schema: IEntitySchema = {
+  fields: {
+    accounts: 'addresses',
+    createdAt: 'bigint',
+    dao: 'address',
+    id: 'id',
+    isRegistered: 'boolean',
+    tags: 'ids',
+    title: 'string'
+  },
+  name: 'Proposal'
+}
+
+const address = '0xFFcf8FDEE72ac11b5c542428B35EEF5769C409f0'
+
+describe('Where clauses', () => {
+
+  it('buildWhere validates and normalizes the values', () => {
+    expect(buildWhere(schema, {
+      accounts_contains: [address],
+      createdAt_gt: new Date(1570000000000),
+      createdAt_lt: new BN(1580000000),
+      dao: address,
+      id_in: ['0x1', '0x2'],
+      isRegistered: true,
+      title: 'a "quoted" title',
+      title_not: undefined
+    })).toEqual({
+      accounts_contains: [address.toLowerCase()],
+      createdAt_gt: '1570000000',
+      createdAt_lt: '1580000000',
+      dao: address.toLowerCase(),
+      id_in: ['0x1', '0x2'],
+      isRegistered: true,
+      title: 'a "quoted" title'
+    })
+    expect(buildWhere(schema, { dao_not: null, title_not_starts_with: 'x' }))
+      .toEqual({ dao_not: null, title_not_starts_with: 'x' })
+    expect(buildWhere(schema, { tags_contains: ['tag1', 2] })).toEqual({ tags_contains: ['tag1', '2'] })
+  })
+
+  it('buildWhere refuses unknown fields, unsupported operators and invalid values', () => {
+    expect(() => buildWhere(schema, { proposer: address })).toThrow('Cannot filter Proposal on "proposer"')
+    expect(() => buildWhere(schema, { isRegistered_gt: true }))
+      .toThrow('does not support the "gt" operator')
+    expect(() => buildWhere(schema, { dao: '0x1234' })).toThrow('Not a valid address')
+    expect(() => buildWhere(schema, { createdAt: '1 OR 1' })).toThrow('must be an integer')
+    expect(() => buildWhere(schema, { id_in: '0x1' })).toThrow('must be an array')
+    expect(() => buildWhere(schema, { isRegistered: 'true' })).toThrow('must be a boolean')
+    expect(() => buildWhere(schema, { tags_in: ['tag1'] })).toThrow('does not support the "in" operator')
+  })
+
+  it('createQueryArguments passes the options as variables', () => {
+    const { args, declarations, variables } = createQueryArguments(
+      schema,
+      { first: 10, orderBy: 'createdAt', orderDirection: 'desc', where: { dao: address } },
+      { daoId: { type: 'ID!', value: address } }
+    )
+    expect(declarations).toEqual('($where: Proposal_filter, $first: Int, $orderBy: Proposal_orderBy, ' +
+      '$orderDirection: OrderDirection, $daoId: ID!)')
+    expect(args).toEqual('(where: $where, first: $first, orderBy: $orderBy, orderDirection: $orderDirection)')
+    expect(variables).toEqual({
+      daoId: address,
+      first: 10,
+      orderBy: 'createdAt',
+      orderDirection: 'desc',
+      where: { dao: address.toLowerCase() }
+    })
+    expect(createQueryArguments(schema, { where: { title: undefined } }))
+      .toEqual({ args: '', declarations: '', variables: {} })
+  })
+})
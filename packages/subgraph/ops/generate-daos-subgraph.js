@@ -4,7 +4,9 @@ const { migrationFileLocation: defaultMigrationFileLocation, network, startBlock
 const {   subgraphLocation: defaultSubgraphLocation } = require('./graph-cli')
 const path = require("path");
 const currentDir = path.resolve(`${__dirname}`)
-const supportedSchemes = ['ContinuousLocking4Reputation', 'ContributionRewardExt', 'GenericScheme', 'GenericSchemeMultiCall']
+const supportedSchemes = ['Auction4Reputation', 'ContinuousLocking4Reputation', 'ContributionRewardExt', 'ExternalLocking4Reputation', 'GenericScheme', 'GenericSchemeMultiCall', 'LockingEth4Reputation', 'LockingToken4Reputation', 'SignalScheme']
+// the reputation schemes of rc.16 do not have the agreement hash yet
+const reputationSchemes = ['Auction4Reputation', 'ExternalLocking4Reputation', 'Locking4Reputation', 'LockingEth4Reputation', 'LockingToken4Reputation']
 const supportedStandAloneContracts = ['Competition', 'DxDaoSchemeConstraints']
 let ids = [];
 
@@ -50,6 +52,11 @@ function daoYaml(contract, contractAddress, arcVersion) {
                   file: path.resolve(`./abis/0.0.1-rc.24/ContinuousLocking4Reputation.json`)
                 };
         }
+        if ((_arcVersion < 17) && (reputationSchemes.indexOf(contractName) !== -1)) {
+          return {name: contractName,
+                  file: path.resolve(`./abis/0.0.1-rc.17/${contractName}.json`)
+                };
+        }
         if ((_arcVersion < 24) && (contractName === "UGenericScheme")) {
           return {name: contractName,
                   file: path.resolve(`./abis/${arcVersion}/GenericScheme.json`)
@@ -67,6 +74,12 @@ function daoYaml(contract, contractAddress, arcVersion) {
             file: `${__dirname}/../abis/0.0.1-rc.47/GenericSchemeMultiCall.json`
           };
         }
+        if ((_arcVersion < 23) && (contractName === "SignalScheme")) {
+          return {
+            name: contractName,
+            file: `${__dirname}/../abis/0.0.1-rc.23/SignalScheme.json`
+          };
+        }
         if ((_arcVersion < 47) && (contractName === "DxDaoSchemeConstraints")) {
           return {
             name: contractName,
@@ -8,6 +8,8 @@ var mappings = require("./mappings.json")[network].mappings;
 const { subgraphLocation: defaultSubgraphLocation } = require('./graph-cli')
 
 let existingAddresses = []
+// the reputation schemes of rc.16 do not have the agreement hash yet
+const reputationSchemes = ['Auction4Reputation', 'ExternalLocking4Reputation', 'Locking4Reputation', 'LockingEth4Reputation', 'LockingToken4Reputation']
 
 /**
  * Generate a `subgraph.yaml` file from `datasource.yaml` fragments in
@@ -100,6 +102,13 @@ function combineFragments(fragments, isTemplate, addresses, missingAddresses) {
           };
         }
 
+        if ((versionNum < 17) && (reputationSchemes.indexOf(contractName) !== -1)) {
+          return {
+            name: contractName,
+            file: `${__dirname}/../abis/0.0.1-rc.17/${contractName}.json`
+          };
+        }
+
         if ((versionNum < 36) && (contractName === "ContributionRewardExt")) {
           return {
             name: contractName,
@@ -114,6 +123,13 @@ function combineFragments(fragments, isTemplate, addresses, missingAddresses) {
           };
         }
 
+        if ((versionNum < 23) && (contractName === "SignalScheme")) {
+          return {
+            name: contractName,
+            file: `${__dirname}/../abis/0.0.1-rc.23/SignalScheme.json`
+          };
+        }
+
         if ((versionNum < 47) && (contractName === "DxDaoSchemeConstraints")) {
           return {
             name: contractName,
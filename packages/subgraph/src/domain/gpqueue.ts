@@ -1,20 +1,31 @@
 import { Address, BigDecimal, BigInt, ByteArray, Bytes, crypto } from '@graphprotocol/graph-ts';
-import { setContinuousLocking4ReputationParams,
+import { setAuction4ReputationParams,
+         setContinuousLocking4ReputationParams,
          setContributionRewardExtParams,
          setContributionRewardParams,
          setGenericSchemeMultiCallParams,
          setGenericSchemeParams,
+         setGlobalConstraintRegistrarParams,
+         setLocking4ReputationParams,
          setSchemeRegistrarParams,
+         setSignalSchemeParams,
          setUGenericSchemeParams,
+         setUpgradeSchemeParams,
+         setVoteInOrganizationParams,
         } from '../mappings/Controller/mapping';
 import {ContinuousLocking4Reputation} from '../types/ContinuousLocking4Reputation/ContinuousLocking4Reputation';
 import {ContributionReward} from '../types/ContributionReward/ContributionReward';
 import { ContributionRewardExt } from '../types/ContributionRewardExt/ContributionRewardExt';
+import { Auction4Reputation } from '../types/Controller/Auction4Reputation';
 import {GenericScheme} from '../types/GenericScheme/GenericScheme';
 import { GenericSchemeMultiCall } from '../types/GenericSchemeMultiCall/GenericSchemeMultiCall';
+import { GlobalConstraintRegistrar } from '../types/GlobalConstraintRegistrar/GlobalConstraintRegistrar';
 import { ContractInfo, GPQueue } from '../types/schema';
 import {SchemeRegistrar} from '../types/SchemeRegistrar/SchemeRegistrar';
+import { SignalScheme } from '../types/Controller/SignalScheme';
 import {UGenericScheme} from '../types/UGenericScheme/UGenericScheme';
+import { UpgradeScheme } from '../types/UpgradeScheme/UpgradeScheme';
+import { VoteInOrganizationScheme } from '../types/VoteInOrganizationScheme/VoteInOrganizationScheme';
 import { concat, equalStrings, setSchemeError} from '../utils';
 
 export function getGPQueue(id: string): GPQueue {
@@ -83,6 +94,39 @@ export function create(dao: Address,
          setSchemeError(schemeId, BigInt.fromI32(1), 'Scheme parameters could not be found.');
      }
    }
+   if (equalStrings(contractInfo.name, 'UpgradeScheme')) {
+     let upgradeScheme = UpgradeScheme.bind(scheme);
+     let parameters = upgradeScheme.parameters(paramsHash);
+     if (!equalStrings(parameters.value1.toHex(), addressZero)) {
+         gpAddress = parameters.value1;
+         setUpgradeSchemeParams(dao, scheme, gpAddress, parameters.value0);
+         isGPQue = true;
+     } else {
+         setSchemeError(schemeId, BigInt.fromI32(1), 'Scheme parameters could not be found.');
+     }
+   }
+   if (equalStrings(contractInfo.name, 'GlobalConstraintRegistrar')) {
+     let globalConstraintRegistrar = GlobalConstraintRegistrar.bind(scheme);
+     let parameters = globalConstraintRegistrar.parameters(paramsHash);
+     if (!equalStrings(parameters.value1.toHex(), addressZero)) {
+         gpAddress = parameters.value1;
+         setGlobalConstraintRegistrarParams(dao, scheme, gpAddress, parameters.value0);
+         isGPQue = true;
+     } else {
+         setSchemeError(schemeId, BigInt.fromI32(1), 'Scheme parameters could not be found.');
+     }
+   }
+   if (equalStrings(contractInfo.name, 'VoteInOrganizationScheme')) {
+     let voteInOrganizationScheme = VoteInOrganizationScheme.bind(scheme);
+     let parameters = voteInOrganizationScheme.parameters(paramsHash);
+     if (!equalStrings(parameters.value0.toHex(), addressZero)) {
+         gpAddress = parameters.value0;
+         setVoteInOrganizationParams(dao, scheme, gpAddress, parameters.value1);
+         isGPQue = true;
+     } else {
+         setSchemeError(schemeId, BigInt.fromI32(1), 'Scheme parameters could not be found.');
+     }
+   }
    let arcVersion = BigDecimal.fromString(
       contractInfo.version.slice(contractInfo.version.length - 2, contractInfo.version.length));
 
@@ -115,6 +159,17 @@ export function create(dao: Address,
                     genericSchemeMultiCall.voteParams(),
                     genericSchemeMultiCall.schemeConstraints());
     isGPQue = true;
+  } else if (equalStrings(contractInfo.name, 'SignalScheme')) {
+    let signalScheme = SignalScheme.bind(scheme);
+    let parameters = signalScheme.params();
+    gpAddress = parameters.value1;
+    setSignalSchemeParams(
+                    dao,
+                    scheme,
+                    gpAddress,
+                    parameters.value0,
+                    parameters.value2);
+    isGPQue = true;
   } else if (equalStrings(contractInfo.name, 'ContinuousLocking4Reputation')) {
     let continuousLocking4Reputation = ContinuousLocking4Reputation.bind(scheme);
     setContinuousLocking4ReputationParams(
@@ -124,6 +179,22 @@ export function create(dao: Address,
       continuousLocking4Reputation.redeemEnableTime(),
       continuousLocking4Reputation.batchTime(),
       continuousLocking4Reputation.token());
+  } else if (equalStrings(contractInfo.name, 'Auction4Reputation')) {
+    let auction4Reputation = Auction4Reputation.bind(scheme);
+    setAuction4ReputationParams(
+      dao,
+      scheme,
+      auction4Reputation.auctionsStartTime(),
+      auction4Reputation.auctionsEndTime(),
+      auction4Reputation.auctionPeriod(),
+      auction4Reputation.numberOfAuctions(),
+      auction4Reputation.redeemEnableTime(),
+      auction4Reputation.auctionReputationReward(),
+      auction4Reputation.token());
+  } else if (equalStrings(contractInfo.name, 'LockingEth4Reputation') ||
+             equalStrings(contractInfo.name, 'LockingToken4Reputation') ||
+             equalStrings(contractInfo.name, 'ExternalLocking4Reputation')) {
+    setLocking4ReputationParams(dao, scheme, contractInfo.name);
    }
 
    if (isGPQue) {
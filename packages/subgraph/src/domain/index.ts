@@ -19,6 +19,7 @@ import {
   parseOutcome,
   saveProposal,
   updateCRProposal,
+  updateGlobalConstraintRegistrarProposal,
   updateGPProposal,
   updateGSMCProposal,
   updateGSProposal,
@@ -27,7 +28,10 @@ import {
   updateProposalExecution,
   updateProposalExecutionState,
   updateProposalState,
+  updateSignalProposal,
   updateSRProposal,
+  updateUpgradeSchemeProposal,
+  updateVoteInOrganizationProposal,
 } from './proposal';
 import {
   getReputation,
@@ -154,6 +158,92 @@ export function handleNewMultiCallProposal(
   handleGPProposalPrivate(proposalId.toHex());
 }
 
+export function handleNewSignalProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  timestamp: BigInt,
+  descriptionHash: string,
+  eventAddress: Address,
+): void {
+  if (!daoModule.exists(avatar)) {
+    return;
+  }
+  updateSignalProposal(
+    proposalId,
+    timestamp,
+    avatar,
+    descriptionHash,
+    eventAddress,
+  );
+  handleGPProposalPrivate(proposalId.toHex());
+}
+
+export function handleNewUpgradeSchemeProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  timestamp: BigInt,
+  votingMachine: Address,
+  descriptionHash: string,
+  eventAddress: Address,
+): void {
+  if (!daoModule.exists(avatar)) {
+    return;
+  }
+  updateUpgradeSchemeProposal(
+    proposalId,
+    timestamp,
+    avatar,
+    votingMachine,
+    descriptionHash,
+    eventAddress,
+  );
+  handleGPProposalPrivate(proposalId.toHex());
+}
+
+export function handleNewGlobalConstraintRegistrarProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  timestamp: BigInt,
+  votingMachine: Address,
+  descriptionHash: string,
+  eventAddress: Address,
+): void {
+  if (!daoModule.exists(avatar)) {
+    return;
+  }
+  updateGlobalConstraintRegistrarProposal(
+    proposalId,
+    timestamp,
+    avatar,
+    votingMachine,
+    descriptionHash,
+    eventAddress,
+  );
+  handleGPProposalPrivate(proposalId.toHex());
+}
+
+export function handleNewVoteInOrganizationProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  timestamp: BigInt,
+  votingMachine: Address,
+  descriptionHash: string,
+  eventAddress: Address,
+): void {
+  if (!daoModule.exists(avatar)) {
+    return;
+  }
+  updateVoteInOrganizationProposal(
+    proposalId,
+    timestamp,
+    avatar,
+    votingMachine,
+    descriptionHash,
+    eventAddress,
+  );
+  handleGPProposalPrivate(proposalId.toHex());
+}
+
 export function handleStake(event: Stake): void {
   let proposal = getProposal(event.params._proposalId.toHex());
   if (equalsBytes(proposal.paramsHash, new Bytes(32))) {
@@ -0,0 +1,67 @@
+import { Address, BigInt, Bytes, crypto } from '@graphprotocol/graph-ts';
+import { Locking4ReputationLock, Locking4ReputationRedeem } from '../types/schema';
+import { concat } from '../utils';
+
+// LockingEth4Reputation, LockingToken4Reputation and ExternalLocking4Reputation share
+// the events of their Locking4Reputation base contract, so they share these entities
+
+function lockId(scheme: Address, lockingId: Bytes): string {
+  return scheme.toHex() + lockingId.toHex();
+}
+
+export function insertLock(
+  avatar: Address,
+  scheme: Address,
+  lockingId: Bytes,
+  locker: Address,
+  amount: BigInt,
+  period: BigInt,
+  timestamp: BigInt,
+): void {
+  let lock = new Locking4ReputationLock(lockId(scheme, lockingId));
+  lock.dao = avatar.toHex();
+  lock.scheme = crypto.keccak256(concat(avatar, scheme)).toHex();
+  lock.lockingId = lockingId;
+  lock.locker = locker;
+  lock.amount = amount;
+  lock.period = period;
+  lock.lockingTime = timestamp;
+  lock.released = false;
+  lock.save();
+}
+
+export function setLockToken(scheme: Address, lockingId: Bytes, token: Address): void {
+  let lock = Locking4ReputationLock.load(lockId(scheme, lockingId));
+  if (lock == null) {
+    return;
+  }
+  lock.token = token;
+  lock.save();
+}
+
+export function releaseLock(scheme: Address, lockingId: Bytes, timestamp: BigInt): void {
+  let lock = Locking4ReputationLock.load(lockId(scheme, lockingId));
+  if (lock == null) {
+    return;
+  }
+  lock.released = true;
+  lock.releasedAt = timestamp;
+  lock.save();
+}
+
+export function insertLockingRedeem(
+  avatar: Address,
+  scheme: Address,
+  beneficiary: Address,
+  amount: BigInt,
+  timestamp: BigInt,
+): void {
+  // the reputation of all the locks of a beneficiary is redeemed at once
+  let redeem = new Locking4ReputationRedeem(scheme.toHex() + beneficiary.toHex());
+  redeem.dao = avatar.toHex();
+  redeem.scheme = crypto.keccak256(concat(avatar, scheme)).toHex();
+  redeem.beneficiary = beneficiary;
+  redeem.amount = amount;
+  redeem.redeemedAt = timestamp;
+  redeem.save();
+}
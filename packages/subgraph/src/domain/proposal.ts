@@ -405,6 +405,84 @@ export function updateGSMCProposal(
   saveProposal(proposal);
 }
 
+export function updateSignalProposal(
+  proposalId: Bytes,
+  createdAt: BigInt,
+  avatarAddress: Address,
+  descriptionHash: string,
+  schemeAddress: Address,
+): void {
+  let proposal = getProposal(proposalId.toHex());
+  proposal.dao = avatarAddress.toHex();
+  proposal.signalScheme = proposalId.toHex();
+  proposal.createdAt = createdAt;
+  proposal.descriptionHash = descriptionHash;
+  proposal.scheme = crypto.keccak256(concat(avatarAddress, schemeAddress)).toHex();
+  getProposalIPFSData(proposal);
+
+  saveProposal(proposal);
+}
+
+export function updateUpgradeSchemeProposal(
+  proposalId: Bytes,
+  createdAt: BigInt,
+  avatarAddress: Address,
+  votingMachine: Address,
+  descriptionHash: string,
+  schemeAddress: Address,
+): void {
+  let proposal = getProposal(proposalId.toHex());
+  proposal.dao = avatarAddress.toHex();
+  proposal.upgradeScheme = proposalId.toHex();
+  proposal.createdAt = createdAt;
+  proposal.votingMachine = votingMachine;
+  proposal.descriptionHash = descriptionHash;
+  proposal.scheme = crypto.keccak256(concat(avatarAddress, schemeAddress)).toHex();
+  getProposalIPFSData(proposal);
+
+  saveProposal(proposal);
+}
+
+export function updateGlobalConstraintRegistrarProposal(
+  proposalId: Bytes,
+  createdAt: BigInt,
+  avatarAddress: Address,
+  votingMachine: Address,
+  descriptionHash: string,
+  schemeAddress: Address,
+): void {
+  let proposal = getProposal(proposalId.toHex());
+  proposal.dao = avatarAddress.toHex();
+  proposal.globalConstraintRegistrar = proposalId.toHex();
+  proposal.createdAt = createdAt;
+  proposal.votingMachine = votingMachine;
+  proposal.descriptionHash = descriptionHash;
+  proposal.scheme = crypto.keccak256(concat(avatarAddress, schemeAddress)).toHex();
+  getProposalIPFSData(proposal);
+
+  saveProposal(proposal);
+}
+
+export function updateVoteInOrganizationProposal(
+  proposalId: Bytes,
+  createdAt: BigInt,
+  avatarAddress: Address,
+  votingMachine: Address,
+  descriptionHash: string,
+  schemeAddress: Address,
+): void {
+  let proposal = getProposal(proposalId.toHex());
+  proposal.dao = avatarAddress.toHex();
+  proposal.voteInOrganization = proposalId.toHex();
+  proposal.createdAt = createdAt;
+  proposal.votingMachine = votingMachine;
+  proposal.descriptionHash = descriptionHash;
+  proposal.scheme = crypto.keccak256(concat(avatarAddress, schemeAddress)).toHex();
+  getProposalIPFSData(proposal);
+
+  saveProposal(proposal);
+}
+
 export function updateSRProposal(
   proposalId: string,
   createdAt: BigInt,
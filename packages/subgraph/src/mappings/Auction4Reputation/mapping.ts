@@ -0,0 +1,38 @@
+// Import entity types generated from the GraphQL schema
+import { crypto } from '@graphprotocol/graph-ts';
+import { Auction4Reputation, Bid, Redeem } from '../../types/Auction4Reputation/Auction4Reputation';
+import {
+  Auction4ReputationBid,
+  Auction4ReputationRedeem,
+} from '../../types/schema';
+import { concat, eventId } from '../../utils';
+
+export function handleBid(event: Bid): void {
+  let bid = new Auction4ReputationBid(eventId(event));
+  let auction4Reputation = Auction4Reputation.bind(event.address);
+
+  let avatar = auction4Reputation.avatar();
+  bid.dao = avatar.toHex();
+  bid.scheme = crypto.keccak256(concat(avatar, event.address)).toHex();
+  bid.auctionId = event.params._auctionId;
+  bid.bidder = event.params._bidder;
+  bid.amount = event.params._amount;
+  bid.createdAt = event.block.timestamp;
+  bid.save();
+}
+
+export function handleRedeem(event: Redeem): void {
+  let redeem = new Auction4ReputationRedeem(
+    event.address.toHex() + event.params._auctionId.toString() + event.params._beneficiary.toHex(),
+  );
+  let auction4Reputation = Auction4Reputation.bind(event.address);
+
+  let avatar = auction4Reputation.avatar();
+  redeem.dao = avatar.toHex();
+  redeem.scheme = crypto.keccak256(concat(avatar, event.address)).toHex();
+  redeem.auctionId = event.params._auctionId;
+  redeem.beneficiary = event.params._beneficiary;
+  redeem.amount = event.params._amount;
+  redeem.redeemedAt = event.block.timestamp;
+  redeem.save();
+}
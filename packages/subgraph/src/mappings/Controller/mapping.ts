@@ -9,14 +9,20 @@ import {
   store,
 } from '@graphprotocol/graph-ts';
 
+import { Auction4Reputation } from '../../types/Controller/Auction4Reputation';
 import { DAOToken } from '../../types/Controller/DAOToken';
+import { ExternalLocking4Reputation } from '../../types/Controller/ExternalLocking4Reputation';
+import { Locking4Reputation } from '../../types/Controller/Locking4Reputation';
+import { LockingToken4Reputation } from '../../types/Controller/LockingToken4Reputation';
 import { Reputation } from '../../types/Controller/Reputation';
 import { SchemeConstraints } from '../../types/Controller/SchemeConstraints';
+import { TokenCapGC } from '../../types/Controller/TokenCapGC';
 import { GenesisProtocol } from '../../types/GenesisProtocol/GenesisProtocol';
 
 import * as domain from '../../domain';
 
 import {
+  Auction4ReputationParams,
   AvatarContract,
   ContinuousLocking4ReputationParams,
   ContractInfo,
@@ -35,10 +41,16 @@ import {
   GenericSchemeMultiCallParam,
   GenericSchemeParam,
   GenesisProtocolParam,
+  GlobalConstraintRegistrarParam,
+  Locking4ReputationParams,
   ReputationContract,
   SchemeRegistrarParam,
+  SignalSchemeParam,
+  TokenCapGCParam,
   TokenContract,
   UGenericSchemeParam,
+  UpgradeSchemeParam,
+  VoteInOrganizationParam,
 } from '../../types/schema';
 
 import {
@@ -163,13 +175,37 @@ function insertGlobalConstraint(
   let ent = new ControllerGlobalConstraint(
     crypto.keccak256(concat(avatarAddress, globalConstraint)).toHex(),
   );
+  ent.dao = avatarAddress.toHex();
   ent.address = globalConstraint;
   ent.paramsHash = paramsHash;
   ent.type = type;
 
+  let contractInfo = ContractInfo.load(globalConstraint.toHex());
+  if (contractInfo != null) {
+    ent.name = contractInfo.name;
+    if (equalStrings(contractInfo.name, 'TokenCapGC')) {
+      ent.tokenCapGCParams = setTokenCapGCParams(globalConstraint, paramsHash);
+    }
+  }
+
   store.set('ControllerGlobalConstraint', ent.id, ent);
 }
 
+// the parameters of a TokenCapGC, or null if they are not set in the constraint
+export function setTokenCapGCParams(globalConstraint: Address, paramsHash: Bytes): string | null {
+  let tokenCapGC = TokenCapGC.bind(globalConstraint);
+  let callResult = tokenCapGC.try_parameters(paramsHash);
+  if (callResult.reverted) {
+    log.info('TokenCapGC try_parameters reverted', []);
+    return null;
+  }
+  let tokenCapGCParams = new TokenCapGCParam(paramsHash.toHex());
+  tokenCapGCParams.token = callResult.value.value0;
+  tokenCapGCParams.cap = callResult.value.value1;
+  tokenCapGCParams.save();
+  return tokenCapGCParams.id;
+}
+
 function deleteGlobalConstraint(
   avatarAddress: Address,
   globalConstraint: Address,
@@ -421,6 +457,109 @@ export function setContinuousLocking4ReputationParams(
   }
 }
 
+export function setAuction4ReputationParams(
+  avatar: Address,
+  scheme: Address,
+  auctionsStartTime: BigInt,
+  auctionsEndTime: BigInt,
+  auctionPeriod: BigInt,
+  numberOfAuctions: BigInt,
+  redeemEnableTime: BigInt,
+  auctionReputationReward: BigInt,
+  token: Address,
+): void {
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  let auction4ReputationParams = new Auction4ReputationParams(scheme.toHex());
+  auction4ReputationParams.auctionsStartTime = auctionsStartTime;
+  auction4ReputationParams.auctionsEndTime = auctionsEndTime;
+  auction4ReputationParams.auctionPeriod = auctionPeriod;
+  auction4ReputationParams.numberOfAuctions = numberOfAuctions;
+  auction4ReputationParams.redeemEnableTime = redeemEnableTime;
+  auction4ReputationParams.auctionReputationReward = auctionReputationReward;
+  auction4ReputationParams.token = token;
+
+  let tokenContract = DAOToken.bind(token);
+  let tokenCallResult = tokenContract.try_name();
+  if (tokenCallResult.reverted) {
+    log.info('Auction4Reputation token try_name reverted', []);
+  } else {
+    auction4ReputationParams.tokenName = tokenCallResult.value;
+  }
+
+  tokenCallResult = tokenContract.try_symbol();
+  if (tokenCallResult.reverted) {
+    log.info('Auction4Reputation token try_symbol reverted', []);
+  } else {
+    auction4ReputationParams.tokenSymbol = tokenCallResult.value;
+  }
+
+  let auction4ReputationContract = Auction4Reputation.bind(scheme);
+  let walletCallResult = auction4ReputationContract.try_wallet();
+  if (walletCallResult.reverted) {
+    log.info('Auction4Reputation try_wallet reverted', []);
+  } else {
+    auction4ReputationParams.wallet = walletCallResult.value;
+  }
+
+  let agreementHashCallResult = auction4ReputationContract.try_getAgreementHash();
+  if (agreementHashCallResult.reverted) {
+    log.info('Auction4Reputation getAgreementHash reverted', []);
+  } else {
+    auction4ReputationParams.agreementHash = agreementHashCallResult.value.toHex();
+  }
+
+  auction4ReputationParams.save();
+  if (controllerScheme != null) {
+    controllerScheme.auction4ReputationParams = auction4ReputationParams.id;
+    controllerScheme.save();
+  }
+}
+
+/**
+ * Set the params of LockingEth4Reputation, LockingToken4Reputation and ExternalLocking4Reputation,
+ * which all extend Locking4Reputation
+ */
+export function setLocking4ReputationParams(
+  avatar: Address,
+  scheme: Address,
+  name: string,
+): void {
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  let locking4Reputation = Locking4Reputation.bind(scheme);
+  let locking4ReputationParams = new Locking4ReputationParams(scheme.toHex());
+  locking4ReputationParams.reputationReward = locking4Reputation.reputationReward();
+  locking4ReputationParams.lockingStartTime = locking4Reputation.lockingStartTime();
+  locking4ReputationParams.lockingEndTime = locking4Reputation.lockingEndTime();
+  locking4ReputationParams.redeemEnableTime = locking4Reputation.redeemEnableTime();
+  locking4ReputationParams.maxLockingPeriod = locking4Reputation.maxLockingPeriod();
+
+  let agreementHashCallResult = locking4Reputation.try_getAgreementHash();
+  if (agreementHashCallResult.reverted) {
+    log.info('Locking4Reputation getAgreementHash reverted', []);
+  } else {
+    locking4ReputationParams.agreementHash = agreementHashCallResult.value.toHex();
+  }
+
+  if (equalStrings(name, 'LockingToken4Reputation')) {
+    let lockingToken4Reputation = LockingToken4Reputation.bind(scheme);
+    locking4ReputationParams.priceOracleContract = lockingToken4Reputation.priceOracleContract();
+  } else if (equalStrings(name, 'ExternalLocking4Reputation')) {
+    let externalLocking4Reputation = ExternalLocking4Reputation.bind(scheme);
+    locking4ReputationParams.externalLockingContract = externalLocking4Reputation.externalLockingContract();
+    locking4ReputationParams.getBalanceFuncSignature = externalLocking4Reputation.getBalanceFuncSignature();
+  }
+
+  locking4ReputationParams.save();
+  if (controllerScheme != null) {
+    controllerScheme.locking4ReputationParams = locking4ReputationParams.id;
+    controllerScheme.save();
+  }
+}
+
 export function setContributionRewardExtParams(
   avatar: Address,
   scheme: Address,
@@ -470,6 +609,28 @@ export function setSchemeRegistrarParams(
   }
 }
 
+export function setGlobalConstraintRegistrarParams(
+  avatar: Address,
+  scheme: Address,
+  vmAddress: Address,
+  voteRegisterParams: Bytes,
+): void {
+  setGPParams(vmAddress, voteRegisterParams, avatar);
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  if (controllerScheme != null) {
+    let globalConstraintRegistrarParams = new GlobalConstraintRegistrarParam(
+      controllerScheme.paramsHash.toHex(),
+    );
+    globalConstraintRegistrarParams.votingMachine = vmAddress;
+    globalConstraintRegistrarParams.voteRegisterParams = voteRegisterParams.toHex();
+    globalConstraintRegistrarParams.save();
+    controllerScheme.globalConstraintRegistrarParams = globalConstraintRegistrarParams.id;
+    controllerScheme.save();
+  }
+}
+
 export function setGenericSchemeParams(
   avatar: Address,
   scheme: Address,
@@ -519,6 +680,72 @@ export function setGenericSchemeMultiCallParams(
   }
 }
 
+export function setSignalSchemeParams(
+  avatar: Address,
+  scheme: Address,
+  vmAddress: Address,
+  vmParamsHash: Bytes,
+  signalType: BigInt,
+): void {
+  setGPParams(vmAddress, vmParamsHash, avatar);
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  let signalSchemeParams = new SignalSchemeParam(scheme.toHex());
+  signalSchemeParams.votingMachine = vmAddress;
+  signalSchemeParams.voteParams = vmParamsHash.toHex();
+  signalSchemeParams.signalType = signalType;
+  signalSchemeParams.save();
+  if (controllerScheme != null) {
+    controllerScheme.signalSchemeParams = signalSchemeParams.id;
+    controllerScheme.save();
+  }
+}
+
+export function setUpgradeSchemeParams(
+  avatar: Address,
+  scheme: Address,
+  vmAddress: Address,
+  vmParamsHash: Bytes,
+): void {
+  setGPParams(vmAddress, vmParamsHash, avatar);
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  if (controllerScheme != null) {
+    let upgradeSchemeParams = new UpgradeSchemeParam(
+      controllerScheme.paramsHash.toHex(),
+    );
+    upgradeSchemeParams.votingMachine = vmAddress;
+    upgradeSchemeParams.voteParams = vmParamsHash.toHex();
+    upgradeSchemeParams.save();
+    controllerScheme.upgradeSchemeParams = upgradeSchemeParams.id;
+    controllerScheme.save();
+  }
+}
+
+export function setVoteInOrganizationParams(
+  avatar: Address,
+  scheme: Address,
+  vmAddress: Address,
+  vmParamsHash: Bytes,
+): void {
+  setGPParams(vmAddress, vmParamsHash, avatar);
+  let controllerScheme = ControllerScheme.load(
+    crypto.keccak256(concat(avatar, scheme)).toHex(),
+  );
+  if (controllerScheme != null) {
+    let voteInOrganizationParams = new VoteInOrganizationParam(
+      controllerScheme.paramsHash.toHex(),
+    );
+    voteInOrganizationParams.votingMachine = vmAddress;
+    voteInOrganizationParams.voteParams = vmParamsHash.toHex();
+    voteInOrganizationParams.save();
+    controllerScheme.voteInOrganizationParams = voteInOrganizationParams.id;
+    controllerScheme.save();
+  }
+}
+
 export function setUGenericSchemeParams(
   avatar: Address,
   scheme: Address,
@@ -0,0 +1,26 @@
+import { insertLock, insertLockingRedeem } from '../../domain/locking4reputation';
+import { ExternalLocking4Reputation, Lock, Redeem } from '../../types/ExternalLocking4Reputation/ExternalLocking4Reputation';
+
+export function handleLock(event: Lock): void {
+  let avatar = ExternalLocking4Reputation.bind(event.address).avatar();
+  insertLock(
+    avatar,
+    event.address,
+    event.params._lockingId,
+    event.params._locker,
+    event.params._amount,
+    event.params._period,
+    event.block.timestamp,
+  );
+}
+
+export function handleRedeem(event: Redeem): void {
+  let avatar = ExternalLocking4Reputation.bind(event.address).avatar();
+  insertLockingRedeem(
+    avatar,
+    event.address,
+    event.params._beneficiary,
+    event.params._amount,
+    event.block.timestamp,
+  );
+}
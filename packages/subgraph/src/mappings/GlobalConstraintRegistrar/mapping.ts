@@ -0,0 +1,110 @@
+import { Address, Bytes, crypto, store } from '@graphprotocol/graph-ts';
+
+// Import event types from the GlobalConstraintRegistrar contract ABI
+import {
+  NewGlobalConstraintsProposal,
+  ProposalExecuted,
+  RemoveGlobalConstraintsProposal,
+} from '../../types/GlobalConstraintRegistrar/GlobalConstraintRegistrar';
+
+import * as domain from '../../domain';
+
+// Import entity types generated from the GraphQL schema
+import {
+  ContractInfo,
+  ControllerGlobalConstraint,
+  GlobalConstraintRegistrarProposal,
+} from '../../types/schema';
+
+import { concat, equalStrings } from '../../utils';
+import { setTokenCapGCParams } from '../Controller/mapping';
+
+function insertNewProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  globalConstraint: Address,
+  type: string,
+  descriptionHash: string,
+): GlobalConstraintRegistrarProposal {
+  let ent = new GlobalConstraintRegistrarProposal(proposalId.toHex());
+  ent.dao = avatar.toHex();
+  ent.type = type;
+  ent.globalConstraint = globalConstraint;
+  ent.descriptionHash = descriptionHash;
+
+  let contractInfo = ContractInfo.load(globalConstraint.toHex());
+  if (contractInfo != null) {
+    ent.name = contractInfo.name;
+  }
+  return ent;
+}
+
+export function handleNewGlobalConstraintsProposal(
+  event: NewGlobalConstraintsProposal,
+): void {
+  domain.handleNewGlobalConstraintRegistrarProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._intVoteInterface,
+    event.params._descriptionHash,
+    event.address);
+
+  let ent = insertNewProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.params._gc,
+    'AddGlobalConstraint',
+    event.params._descriptionHash);
+  ent.paramsHash = event.params._params;
+  ent.voteToRemoveParams = event.params._voteToRemoveParams;
+  let name = ent.name;
+  if (name != null && equalStrings(name as string, 'TokenCapGC')) {
+    ent.tokenCapGCParams = setTokenCapGCParams(event.params._gc, event.params._params);
+  }
+  store.set('GlobalConstraintRegistrarProposal', ent.id, ent);
+}
+
+export function handleRemoveGlobalConstraintsProposal(
+  event: RemoveGlobalConstraintsProposal,
+): void {
+  domain.handleNewGlobalConstraintRegistrarProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._intVoteInterface,
+    event.params._descriptionHash,
+    event.address);
+
+  let ent = insertNewProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.params._gc,
+    'RemoveGlobalConstraint',
+    event.params._descriptionHash);
+
+  // show the parameters of the constraint that is removed
+  let globalConstraint = ControllerGlobalConstraint.load(
+    crypto.keccak256(concat(event.params._avatar, event.params._gc)).toHex(),
+  );
+  if (globalConstraint != null) {
+    ent.paramsHash = globalConstraint.paramsHash;
+    ent.tokenCapGCParams = globalConstraint.tokenCapGCParams;
+  }
+  store.set('GlobalConstraintRegistrarProposal', ent.id, ent);
+}
+
+export function handleProposalExecuted(
+  event: ProposalExecuted,
+): void {
+  let ent = store.get(
+    'GlobalConstraintRegistrarProposal',
+    event.params._proposalId.toHex(),
+  ) as GlobalConstraintRegistrarProposal;
+  if (ent == null) {
+    return;
+  }
+  ent.decision = event.params._param;
+  ent.executed = true;
+  store.set('GlobalConstraintRegistrarProposal', ent.id, ent);
+}
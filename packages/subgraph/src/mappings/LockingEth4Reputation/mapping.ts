@@ -0,0 +1,30 @@
+import { insertLock, insertLockingRedeem, releaseLock } from '../../domain/locking4reputation';
+import { Lock, LockingEth4Reputation, Redeem, Release } from '../../types/LockingEth4Reputation/LockingEth4Reputation';
+
+export function handleLock(event: Lock): void {
+  let avatar = LockingEth4Reputation.bind(event.address).avatar();
+  insertLock(
+    avatar,
+    event.address,
+    event.params._lockingId,
+    event.params._locker,
+    event.params._amount,
+    event.params._period,
+    event.block.timestamp,
+  );
+}
+
+export function handleRelease(event: Release): void {
+  releaseLock(event.address, event.params._lockingId, event.block.timestamp);
+}
+
+export function handleRedeem(event: Redeem): void {
+  let avatar = LockingEth4Reputation.bind(event.address).avatar();
+  insertLockingRedeem(
+    avatar,
+    event.address,
+    event.params._beneficiary,
+    event.params._amount,
+    event.block.timestamp,
+  );
+}
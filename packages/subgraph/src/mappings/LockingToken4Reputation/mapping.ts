@@ -0,0 +1,35 @@
+import { insertLock, insertLockingRedeem, releaseLock, setLockToken } from '../../domain/locking4reputation';
+import { Lock, LockingToken4Reputation, LockToken, Redeem, Release } from '../../types/LockingToken4Reputation/LockingToken4Reputation';
+
+export function handleLock(event: Lock): void {
+  let avatar = LockingToken4Reputation.bind(event.address).avatar();
+  insertLock(
+    avatar,
+    event.address,
+    event.params._lockingId,
+    event.params._locker,
+    event.params._amount,
+    event.params._period,
+    event.block.timestamp,
+  );
+}
+
+export function handleLockToken(event: LockToken): void {
+  // emitted right after the Lock event of the same locking
+  setLockToken(event.address, event.params._lockingId, event.params._token);
+}
+
+export function handleRelease(event: Release): void {
+  releaseLock(event.address, event.params._lockingId, event.block.timestamp);
+}
+
+export function handleRedeem(event: Redeem): void {
+  let avatar = LockingToken4Reputation.bind(event.address).avatar();
+  insertLockingRedeem(
+    avatar,
+    event.address,
+    event.params._beneficiary,
+    event.params._amount,
+    event.block.timestamp,
+  );
+}
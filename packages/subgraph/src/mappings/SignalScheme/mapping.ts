@@ -0,0 +1,58 @@
+import { store } from '@graphprotocol/graph-ts';
+
+// Import event types from the SignalScheme contract ABI
+import {
+  NewSignalProposal,
+  Signal,
+} from '../../types/SignalScheme/SignalScheme';
+
+import * as domain from '../../domain';
+
+// Import entity types generated from the GraphQL schema
+import {
+  SignalSchemeProposal,
+  SignalSchemeSignal,
+} from '../../types/schema';
+
+function insertNewProposal(event: NewSignalProposal): void {
+  let ent = new SignalSchemeProposal(event.params._proposalId.toHex());
+  ent.dao = event.params._avatar.toHex();
+  ent.signalType = event.params._signalType;
+  ent.descriptionHash = event.params._descriptionHash;
+
+  store.set('SignalSchemeProposal', event.params._proposalId.toHex(), ent);
+}
+
+export function handleNewSignalProposal(
+  event: NewSignalProposal,
+): void {
+  domain.handleNewSignalProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._descriptionHash,
+    event.address);
+
+  insertNewProposal(event);
+}
+
+// the scheme emits the signal when a proposal passes
+export function handleSignal(
+  event: Signal,
+): void {
+  let ent = store.get('SignalSchemeProposal', event.params._proposalId.toHex()) as SignalSchemeProposal;
+  if (ent == null) {
+    return;
+  }
+  let signal = new SignalSchemeSignal(event.params._proposalId.toHex());
+  signal.txHash = event.transaction.hash;
+  signal.dao = event.params._avatar.toHex();
+  signal.proposal = ent.id;
+  signal.signalType = event.params._signalType;
+  signal.descriptionHash = event.params._descriptionHash;
+  signal.createdAt = event.block.timestamp;
+  store.set('SignalSchemeSignal', signal.id, signal);
+
+  ent.signal = signal.id;
+  store.set('SignalSchemeProposal', ent.id, ent);
+}
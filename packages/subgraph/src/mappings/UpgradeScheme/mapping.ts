@@ -0,0 +1,98 @@
+import { Address, Bytes, store } from '@graphprotocol/graph-ts';
+
+// Import event types from the UpgradeScheme contract ABI
+import {
+  ChangeUpgradeSchemeProposal,
+  NewUpgradeProposal,
+  ProposalExecuted,
+} from '../../types/UpgradeScheme/UpgradeScheme';
+
+import { Controller } from '../../types/UpgradeScheme/Controller';
+
+import * as domain from '../../domain';
+
+// Import entity types generated from the GraphQL schema
+import {
+  ControllerOrganization,
+  UpgradeSchemeProposal,
+} from '../../types/schema';
+
+function insertNewProposal(
+  avatar: Address,
+  proposalId: Bytes,
+  scheme: Address,
+  type: string,
+  descriptionHash: string,
+): UpgradeSchemeProposal {
+  let ent = new UpgradeSchemeProposal(proposalId.toHex());
+  ent.dao = avatar.toHex();
+  ent.type = type;
+  ent.descriptionHash = descriptionHash;
+
+  // DAOs of a universal controller have no ControllerOrganization
+  let organization = store.get('ControllerOrganization', avatar.toHex()) as ControllerOrganization;
+  if (organization != null) {
+    ent.oldController = organization.controller;
+    let controller = Controller.bind(organization.controller as Address);
+    let callResult = controller.try_getSchemePermissions(scheme, avatar);
+    if (!callResult.reverted) {
+      ent.permissions = callResult.value;
+    }
+  }
+  return ent;
+}
+
+export function handleNewUpgradeProposal(
+  event: NewUpgradeProposal,
+): void {
+  domain.handleNewUpgradeSchemeProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._intVoteInterface,
+    event.params._descriptionHash,
+    event.address);
+
+  let ent = insertNewProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.address,
+    'UpgradeController',
+    event.params._descriptionHash);
+  ent.newController = event.params._newController;
+  store.set('UpgradeSchemeProposal', ent.id, ent);
+}
+
+export function handleChangeUpgradeSchemeProposal(
+  event: ChangeUpgradeSchemeProposal,
+): void {
+  domain.handleNewUpgradeSchemeProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._intVoteInterface,
+    event.params._descriptionHash,
+    event.address);
+
+  let ent = insertNewProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.address,
+    'ChangeUpgradeScheme',
+    event.params._descriptionHash);
+  ent.newUpgradeScheme = event.params._newUpgradeScheme;
+  ent.newUpgradeSchemeParamsHash = event.params._params;
+  store.set('UpgradeSchemeProposal', ent.id, ent);
+}
+
+export function handleProposalExecuted(
+  event: ProposalExecuted,
+): void {
+  let ent = store.get('UpgradeSchemeProposal', event.params._proposalId.toHex()) as UpgradeSchemeProposal;
+  if (ent == null) {
+    return;
+  }
+  ent.decision = event.params._param;
+  ent.executed = true;
+  store.set('UpgradeSchemeProposal', ent.id, ent);
+}
@@ -0,0 +1,57 @@
+import { store } from '@graphprotocol/graph-ts';
+
+// Import event types from the VoteInOrganizationScheme contract ABI
+import {
+  NewVoteProposal,
+  ProposalExecuted,
+} from '../../types/VoteInOrganizationScheme/VoteInOrganizationScheme';
+
+import * as domain from '../../domain';
+
+// Import entity types generated from the GraphQL schema
+import {
+  Proposal,
+  VoteInOrganizationProposal,
+} from '../../types/schema';
+
+export function handleNewVoteProposal(
+  event: NewVoteProposal,
+): void {
+  domain.handleNewVoteInOrganizationProposal(
+    event.params._avatar,
+    event.params._proposalId,
+    event.block.timestamp,
+    event.params._intVoteInterface,
+    event.params._descriptionHash,
+    event.address);
+
+  let ent = new VoteInOrganizationProposal(event.params._proposalId.toHex());
+  ent.dao = event.params._avatar.toHex();
+  ent.originalIntVote = event.params._originalIntVote;
+  ent.originalProposalId = event.params._originalProposalId;
+  ent.vote = event.params._vote;
+  ent.descriptionHash = event.params._descriptionHash;
+
+  let originalProposal = Proposal.load(event.params._originalProposalId.toHex());
+  if (originalProposal != null) {
+    ent.originalProposal = originalProposal.id;
+    ent.originalDAO = originalProposal.dao;
+  }
+  store.set('VoteInOrganizationProposal', ent.id, ent);
+}
+
+export function handleProposalExecuted(
+  event: ProposalExecuted,
+): void {
+  let ent = store.get(
+    'VoteInOrganizationProposal',
+    event.params._proposalId.toHex(),
+  ) as VoteInOrganizationProposal;
+  if (ent == null) {
+    return;
+  }
+  ent.decision = event.params._param;
+  ent.executed = true;
+  ent.callReturnValue = event.params._callReturnValue;
+  store.set('VoteInOrganizationProposal', ent.id, ent);
+}
@@ -0,0 +1,142 @@
+import {
+  getArcVersion,
+  getContractAddresses,
+  getOptions,
+  getWeb3,
+  sendQuery,
+  waitUntilTrue,
+} from './util';
+
+const GlobalConstraintRegistrar = require(
+  '@daostack/migration/contracts/' + getArcVersion() + '/GlobalConstraintRegistrar.json',
+);
+const TokenCapGC = require('@daostack/migration/contracts/' + getArcVersion() + '/TokenCapGC.json');
+
+describe('GlobalConstraintRegistrar', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let globalConstraintRegistrar;
+    let tokenCapGC;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        globalConstraintRegistrar = new web3.eth.Contract(
+          GlobalConstraintRegistrar.abi,
+          addresses.GlobalConstraintRegistrar,
+          opts,
+        );
+        tokenCapGC = new web3.eth.Contract(TokenCapGC.abi, addresses.TokenCapGC, opts);
+    });
+
+    it('Sanity', async () => {
+        const descHash = '0x0000000000000000000000000000000000000000000000000000000000000123';
+        const voteToRemoveParams = '0x0000000000000000000000000000000000000000000000000000000000001234';
+        const cap = '1000000';
+
+        const setParameters = tokenCapGC.methods.setParameters(addresses.NativeToken, cap);
+        const paramsHash = await setParameters.call();
+        await setParameters.send();
+
+        const globalConstraintRegistrarProposalsQuery = `{
+          globalConstraintRegistrarProposals {
+            id,
+            dao {
+              id
+            },
+            type,
+            globalConstraint,
+            name,
+            paramsHash,
+            voteToRemoveParams,
+            tokenCapGCParams {
+              token
+              cap
+            },
+            descriptionHash,
+            decision,
+            executed
+          }
+        }`;
+
+        const prevProposalsLength = (
+          await sendQuery(globalConstraintRegistrarProposalsQuery)
+        ).globalConstraintRegistrarProposals.length;
+
+        // the proposals are not voted on, so the constraint is never added to the test DAO
+        let propose = globalConstraintRegistrar.methods.proposeGlobalConstraint(
+            addresses.Avatar,
+            addresses.TokenCapGC,
+            paramsHash,
+            voteToRemoveParams,
+            descHash,
+        );
+        const addProposalId = await propose.call();
+        await propose.send();
+
+        propose = globalConstraintRegistrar.methods.proposeToRemoveGC(
+            addresses.Avatar,
+            addresses.TokenCapGC,
+            descHash,
+        );
+        const removeProposalId = await propose.call();
+        await propose.send();
+
+        const proposalsAreIndexed = async () => {
+          return (await sendQuery(globalConstraintRegistrarProposalsQuery)).globalConstraintRegistrarProposals.length
+           > prevProposalsLength + 1;
+        };
+
+        await waitUntilTrue(proposalsAreIndexed);
+
+        const { globalConstraintRegistrarProposals } = await sendQuery(globalConstraintRegistrarProposalsQuery);
+
+        expect(globalConstraintRegistrarProposals).toContainEqual({
+          id: addProposalId,
+          dao: { id: addresses.Avatar.toLowerCase() },
+          type: 'AddGlobalConstraint',
+          globalConstraint: addresses.TokenCapGC.toLowerCase(),
+          name: 'TokenCapGC',
+          paramsHash,
+          voteToRemoveParams,
+          tokenCapGCParams: {
+            token: addresses.NativeToken.toLowerCase(),
+            cap,
+          },
+          descriptionHash: descHash,
+          decision: null,
+          executed: null,
+        });
+
+        expect(globalConstraintRegistrarProposals).toContainEqual({
+          id: removeProposalId,
+          dao: { id: addresses.Avatar.toLowerCase() },
+          type: 'RemoveGlobalConstraint',
+          globalConstraint: addresses.TokenCapGC.toLowerCase(),
+          name: 'TokenCapGC',
+          paramsHash: null,
+          voteToRemoveParams: null,
+          tokenCapGCParams: null,
+          descriptionHash: descHash,
+          decision: null,
+          executed: null,
+        });
+
+        const { proposal } = await sendQuery(`{
+          proposal(id: "${addProposalId}") {
+            globalConstraintRegistrar {
+              id
+            }
+            scheme {
+              address
+            }
+          }
+        }`);
+
+        expect(proposal).toEqual({
+          globalConstraintRegistrar: { id: addProposalId },
+          scheme: { address: addresses.GlobalConstraintRegistrar.toLowerCase() },
+        });
+    }, 100000);
+});
@@ -0,0 +1,123 @@
+import {
+  getArcVersion,
+  getContractAddresses,
+  getOptions,
+  getWeb3,
+  sendQuery,
+  waitUntilTrue,
+} from './util';
+
+const UpgradeScheme = require('@daostack/migration/contracts/' + getArcVersion() + '/UpgradeScheme.json');
+
+describe('UpgradeScheme', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let upgradeScheme;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        upgradeScheme = new web3.eth.Contract(UpgradeScheme.abi, addresses.UpgradeScheme, opts);
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+
+        const descHash = '0x0000000000000000000000000000000000000000000000000000000000000123';
+        const newSchemeParamsHash = '0x0000000000000000000000000000000000000000000000000000000000001234';
+
+        const upgradeSchemeProposalsQuery = `{
+          upgradeSchemeProposals {
+            id,
+            dao {
+              id
+            },
+            type,
+            oldController,
+            newController,
+            newUpgradeScheme,
+            newUpgradeSchemeParamsHash,
+            permissions,
+            descriptionHash,
+            decision,
+            executed
+          }
+        }`;
+
+        const prevProposalsLength = (
+          await sendQuery(upgradeSchemeProposalsQuery)
+        ).upgradeSchemeProposals.length;
+
+        // the proposals are not voted on, so the test DAO keeps its controller
+        let propose = upgradeScheme.methods.proposeUpgrade(
+            addresses.Avatar,
+            accounts[1].address,
+            descHash,
+        );
+        const upgradeProposalId = await propose.call();
+        await propose.send();
+
+        propose = upgradeScheme.methods.proposeChangeUpgradingScheme(
+            addresses.Avatar,
+            accounts[2].address,
+            newSchemeParamsHash,
+            descHash,
+        );
+        const changeProposalId = await propose.call();
+        await propose.send();
+
+        const proposalsAreIndexed = async () => {
+          return (await sendQuery(upgradeSchemeProposalsQuery)).upgradeSchemeProposals.length
+           > prevProposalsLength + 1;
+        };
+
+        await waitUntilTrue(proposalsAreIndexed);
+
+        const { upgradeSchemeProposals } = await sendQuery(upgradeSchemeProposalsQuery);
+
+        expect(upgradeSchemeProposals).toContainEqual({
+          id: upgradeProposalId,
+          dao: { id: addresses.Avatar.toLowerCase() },
+          type: 'UpgradeController',
+          oldController: addresses.Controller.toLowerCase(),
+          newController: accounts[1].address.toLowerCase(),
+          newUpgradeScheme: null,
+          newUpgradeSchemeParamsHash: null,
+          permissions: '0x0000000b',
+          descriptionHash: descHash,
+          decision: null,
+          executed: null,
+        });
+
+        expect(upgradeSchemeProposals).toContainEqual({
+          id: changeProposalId,
+          dao: { id: addresses.Avatar.toLowerCase() },
+          type: 'ChangeUpgradeScheme',
+          oldController: addresses.Controller.toLowerCase(),
+          newController: null,
+          newUpgradeScheme: accounts[2].address.toLowerCase(),
+          newUpgradeSchemeParamsHash: newSchemeParamsHash,
+          permissions: '0x0000000b',
+          descriptionHash: descHash,
+          decision: null,
+          executed: null,
+        });
+
+        const { proposal } = await sendQuery(`{
+          proposal(id: "${upgradeProposalId}") {
+            upgradeScheme {
+              id
+            }
+            scheme {
+              address
+            }
+          }
+        }`);
+
+        expect(proposal).toEqual({
+          scheme: { address: addresses.UpgradeScheme.toLowerCase() },
+          upgradeScheme: { id: upgradeProposalId },
+        });
+    }, 100000);
+});
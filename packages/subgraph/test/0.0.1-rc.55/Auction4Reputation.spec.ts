@@ -0,0 +1,112 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const Auction4Reputation = require('@daostack/migration/contracts/' + getArcVersion() + '/Auction4Reputation.json');
+const DAOToken = require('@daostack/migration/contracts/' + getArcVersion() + '/DAOToken.json');
+
+describe('Auction4Reputation', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let auction4Reputation;
+    let daoToken;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        auction4Reputation = new web3.eth.Contract(Auction4Reputation.abi, addresses.Auction4Reputation, opts);
+        daoToken = new web3.eth.Contract(DAOToken.abi, addresses.NativeToken, opts);
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+        const agreementHash = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+        const getScheme = `{
+          controllerSchemes(where: { address: "${addresses.Auction4Reputation.toLowerCase()}" }) {
+            id
+            name
+            dao {
+              id
+            }
+            auction4ReputationParams {
+              auctionsStartTime
+              auctionsEndTime
+              auctionPeriod
+              numberOfAuctions
+              redeemEnableTime
+              auctionReputationReward
+              token
+              tokenName
+              tokenSymbol
+              wallet
+              agreementHash
+            }
+          }
+        }`;
+
+        const { controllerSchemes } = await sendQuery(getScheme);
+        expect(controllerSchemes).toMatchObject([{
+          name: 'Auction4Reputation',
+          dao: { id: addresses.Avatar.toLowerCase() },
+          auction4ReputationParams: {
+            auctionsStartTime: '0',
+            auctionsEndTime: '2000000000',
+            auctionPeriod: '2000000000',
+            numberOfAuctions: '1',
+            redeemEnableTime: '2000000000',
+            auctionReputationReward: '100000',
+            token: addresses.NativeToken.toLowerCase(),
+            tokenName: await daoToken.methods.name().call(),
+            tokenSymbol: await daoToken.methods.symbol().call(),
+            wallet: addresses.Wallet.toLowerCase(),
+            agreementHash,
+          },
+        }]);
+
+        // the single auction of the scheme runs until its auctionsEndTime; the founders of the DAO have tokens to bid
+        const amount = '100';
+        await daoToken.methods.approve(addresses.Auction4Reputation, amount).send({ from: accounts[0].address });
+        const { blockNumber } = await auction4Reputation.methods.bid(amount, 0, agreementHash)
+          .send({ from: accounts[0].address });
+        const { timestamp } = await web3.eth.getBlock(blockNumber);
+
+        const getBids = `{
+          auction4ReputationBids(where: { scheme: "${controllerSchemes[0].id}" }) {
+            dao {
+              id
+            }
+            scheme {
+              id
+            }
+            auctionId
+            bidder
+            amount
+            createdAt
+          }
+        }`;
+
+        const bidIsIndexed = async () => {
+          return (await sendQuery(getBids)).auction4ReputationBids
+            .some((bid) => bid.createdAt === timestamp.toString());
+        };
+
+        await waitUntilTrue(bidIsIndexed);
+
+        const { auction4ReputationBids } = await sendQuery(getBids);
+        expect(auction4ReputationBids).toContainEqual({
+          dao: { id: addresses.Avatar.toLowerCase() },
+          scheme: { id: controllerSchemes[0].id },
+          auctionId: '0',
+          bidder: accounts[0].address.toLowerCase(),
+          amount,
+          createdAt: timestamp.toString(),
+        });
+    }, 100000);
+});
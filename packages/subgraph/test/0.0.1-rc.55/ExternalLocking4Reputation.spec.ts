@@ -0,0 +1,124 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const ExternalLocking4Reputation = require(
+    '@daostack/migration/contracts/' + getArcVersion() + '/ExternalLocking4Reputation.json',
+);
+const ExternalTokenLockerMock = require(
+    '@daostack/migration/contracts/' + getArcVersion() + '/ExternalTokenLockerMock.json',
+);
+
+describe('ExternalLocking4Reputation', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let externalLocking4Reputation;
+    let externalTokenLocker;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        externalLocking4Reputation = new web3.eth.Contract(
+            ExternalLocking4Reputation.abi,
+            addresses.ExternalLocking4Reputation,
+            opts,
+        );
+        externalTokenLocker = new web3.eth.Contract(
+            ExternalTokenLockerMock.abi,
+            addresses.ExternalTokenLockerMock,
+            opts,
+        );
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+        const agreementHash = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+        const getScheme = `{
+          controllerSchemes(where: { address: "${addresses.ExternalLocking4Reputation.toLowerCase()}" }) {
+            id
+            name
+            locking4ReputationParams {
+              reputationReward
+              lockingStartTime
+              lockingEndTime
+              redeemEnableTime
+              maxLockingPeriod
+              agreementHash
+              priceOracleContract
+              externalLockingContract
+              getBalanceFuncSignature
+            }
+          }
+        }`;
+
+        const { controllerSchemes } = await sendQuery(getScheme);
+        expect(controllerSchemes).toMatchObject([{
+          name: 'ExternalLocking4Reputation',
+          locking4ReputationParams: {
+            reputationReward: '100000',
+            lockingStartTime: '0',
+            lockingEndTime: '2000000000',
+            redeemEnableTime: '2000000000',
+            maxLockingPeriod: '100',
+            agreementHash,
+            priceOracleContract: null,
+            externalLockingContract: addresses.ExternalTokenLockerMock.toLowerCase(),
+            getBalanceFuncSignature: 'lockedTokenBalances(address)',
+          },
+        }]);
+
+        // the balance in the external locking contract is claimed as a lock with a period of 1 second
+        const amount = '1000';
+        const period = 1;
+        await externalTokenLocker.methods.lock(amount, accounts[0].address).send({ from: accounts[0].address });
+        const claim = externalLocking4Reputation.methods.claim(accounts[0].address, agreementHash);
+        const lockingId = await claim.call({ from: accounts[0].address });
+        const { blockNumber } = await claim.send({ from: accounts[0].address });
+        const { timestamp } = await web3.eth.getBlock(blockNumber);
+
+        const getLock = `{
+          locking4ReputationLock(id: "${addresses.ExternalLocking4Reputation.toLowerCase() + lockingId}") {
+            dao {
+              id
+            }
+            scheme {
+              id
+            }
+            lockingId
+            locker
+            amount
+            period
+            lockingTime
+            token
+            released
+            releasedAt
+          }
+        }`;
+
+        const lockIsIndexed = async () => {
+          return (await sendQuery(getLock)).locking4ReputationLock != null;
+        };
+
+        await waitUntilTrue(lockIsIndexed);
+
+        expect((await sendQuery(getLock)).locking4ReputationLock).toEqual({
+          dao: { id: addresses.Avatar.toLowerCase() },
+          scheme: { id: controllerSchemes[0].id },
+          lockingId,
+          locker: accounts[0].address.toLowerCase(),
+          amount,
+          period: period.toString(),
+          lockingTime: timestamp.toString(),
+          token: null,
+          released: false,
+          releasedAt: null,
+        });
+    }, 100000);
+});
@@ -0,0 +1,132 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    increaseTime,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const LockingEth4Reputation = require(
+    '@daostack/migration/contracts/' + getArcVersion() + '/LockingEth4Reputation.json',
+);
+
+describe('LockingEth4Reputation', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let lockingEth4Reputation;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        lockingEth4Reputation = new web3.eth.Contract(
+            LockingEth4Reputation.abi,
+            addresses.LockingEth4Reputation,
+            opts,
+        );
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+        const agreementHash = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+        const getScheme = `{
+          controllerSchemes(where: { address: "${addresses.LockingEth4Reputation.toLowerCase()}" }) {
+            id
+            name
+            locking4ReputationParams {
+              reputationReward
+              lockingStartTime
+              lockingEndTime
+              redeemEnableTime
+              maxLockingPeriod
+              agreementHash
+              priceOracleContract
+              externalLockingContract
+              getBalanceFuncSignature
+            }
+          }
+        }`;
+
+        const { controllerSchemes } = await sendQuery(getScheme);
+        expect(controllerSchemes).toMatchObject([{
+          name: 'LockingEth4Reputation',
+          locking4ReputationParams: {
+            reputationReward: '100000',
+            lockingStartTime: '0',
+            lockingEndTime: '2000000000',
+            redeemEnableTime: '2000000000',
+            maxLockingPeriod: '100',
+            agreementHash,
+            priceOracleContract: null,
+            externalLockingContract: null,
+            getBalanceFuncSignature: null,
+          },
+        }]);
+
+        // the ETH is sent along with the lock
+        const amount = '1000';
+        const period = 1;
+        const lock = lockingEth4Reputation.methods.lock(period, agreementHash);
+        const lockingId = await lock.call({ from: accounts[0].address, value: amount });
+        const { blockNumber } = await lock.send({ from: accounts[0].address, value: amount });
+        const { timestamp } = await web3.eth.getBlock(blockNumber);
+
+        const getLock = `{
+          locking4ReputationLock(id: "${addresses.LockingEth4Reputation.toLowerCase() + lockingId}") {
+            dao {
+              id
+            }
+            scheme {
+              id
+            }
+            lockingId
+            locker
+            amount
+            period
+            lockingTime
+            token
+            released
+            releasedAt
+          }
+        }`;
+
+        const lockIsIndexed = async () => {
+          return (await sendQuery(getLock)).locking4ReputationLock != null;
+        };
+
+        await waitUntilTrue(lockIsIndexed);
+
+        expect((await sendQuery(getLock)).locking4ReputationLock).toEqual({
+          dao: { id: addresses.Avatar.toLowerCase() },
+          scheme: { id: controllerSchemes[0].id },
+          lockingId,
+          locker: accounts[0].address.toLowerCase(),
+          amount,
+          period: period.toString(),
+          lockingTime: timestamp.toString(),
+          token: null,
+          released: false,
+          releasedAt: null,
+        });
+
+        // the lock can be released once its period has passed
+        await increaseTime(period + 1, web3);
+        const release = await lockingEth4Reputation.methods.release(accounts[0].address, lockingId)
+          .send({ from: accounts[0].address });
+        const releasedAt = (await web3.eth.getBlock(release.blockNumber)).timestamp;
+
+        const lockIsReleased = async () => {
+          return (await sendQuery(getLock)).locking4ReputationLock.released;
+        };
+
+        await waitUntilTrue(lockIsReleased);
+
+        expect((await sendQuery(getLock)).locking4ReputationLock).toMatchObject({
+          released: true,
+          releasedAt: releasedAt.toString(),
+        });
+    }, 100000);
+});
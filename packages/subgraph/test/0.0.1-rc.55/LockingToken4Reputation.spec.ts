@@ -0,0 +1,141 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    increaseTime,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const LockingToken4Reputation = require(
+    '@daostack/migration/contracts/' + getArcVersion() + '/LockingToken4Reputation.json',
+);
+const DAOToken = require('@daostack/migration/contracts/' + getArcVersion() + '/DAOToken.json');
+const PriceOracleMock = require('@daostack/migration/contracts/' + getArcVersion() + '/PriceOracleMock.json');
+
+describe('LockingToken4Reputation', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let lockingToken4Reputation;
+    let daoToken;
+    let priceOracle;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        lockingToken4Reputation = new web3.eth.Contract(
+            LockingToken4Reputation.abi,
+            addresses.LockingToken4Reputation,
+            opts,
+        );
+        daoToken = new web3.eth.Contract(DAOToken.abi, addresses.NativeToken, opts);
+        priceOracle = new web3.eth.Contract(PriceOracleMock.abi, addresses.PriceOracleMock, opts);
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+        const agreementHash = '0x0000000000000000000000000000000000000000000000000000000000000001';
+
+        const getScheme = `{
+          controllerSchemes(where: { address: "${addresses.LockingToken4Reputation.toLowerCase()}" }) {
+            id
+            name
+            locking4ReputationParams {
+              reputationReward
+              lockingStartTime
+              lockingEndTime
+              redeemEnableTime
+              maxLockingPeriod
+              agreementHash
+              priceOracleContract
+              externalLockingContract
+              getBalanceFuncSignature
+            }
+          }
+        }`;
+
+        const { controllerSchemes } = await sendQuery(getScheme);
+        expect(controllerSchemes).toMatchObject([{
+          name: 'LockingToken4Reputation',
+          locking4ReputationParams: {
+            reputationReward: '100000',
+            lockingStartTime: '0',
+            lockingEndTime: '2000000000',
+            redeemEnableTime: '2000000000',
+            maxLockingPeriod: '100',
+            agreementHash,
+            priceOracleContract: addresses.PriceOracleMock.toLowerCase(),
+            externalLockingContract: null,
+            getBalanceFuncSignature: null,
+          },
+        }]);
+
+        // the tokens that can be locked are those that the price oracle has a price for;
+        // the founders of the DAO have tokens to lock
+        await priceOracle.methods.setTokenPrice(addresses.NativeToken, 1, 1).send({ from: accounts[0].address });
+        const amount = '1000';
+        const period = 1;
+        await daoToken.methods.approve(addresses.LockingToken4Reputation, amount).send({ from: accounts[0].address });
+        const lock = lockingToken4Reputation.methods.lock(amount, period, addresses.NativeToken, agreementHash);
+        const lockingId = await lock.call({ from: accounts[0].address });
+        const { blockNumber } = await lock.send({ from: accounts[0].address });
+        const { timestamp } = await web3.eth.getBlock(blockNumber);
+
+        const getLock = `{
+          locking4ReputationLock(id: "${addresses.LockingToken4Reputation.toLowerCase() + lockingId}") {
+            dao {
+              id
+            }
+            scheme {
+              id
+            }
+            lockingId
+            locker
+            amount
+            period
+            lockingTime
+            token
+            released
+            releasedAt
+          }
+        }`;
+
+        const lockIsIndexed = async () => {
+          return (await sendQuery(getLock)).locking4ReputationLock != null;
+        };
+
+        await waitUntilTrue(lockIsIndexed);
+
+        expect((await sendQuery(getLock)).locking4ReputationLock).toEqual({
+          dao: { id: addresses.Avatar.toLowerCase() },
+          scheme: { id: controllerSchemes[0].id },
+          lockingId,
+          locker: accounts[0].address.toLowerCase(),
+          amount,
+          period: period.toString(),
+          lockingTime: timestamp.toString(),
+          token: addresses.NativeToken.toLowerCase(),
+          released: false,
+          releasedAt: null,
+        });
+
+        // the lock can be released once its period has passed
+        await increaseTime(period + 1, web3);
+        const release = await lockingToken4Reputation.methods.release(accounts[0].address, lockingId)
+          .send({ from: accounts[0].address });
+        const releasedAt = (await web3.eth.getBlock(release.blockNumber)).timestamp;
+
+        const lockIsReleased = async () => {
+          return (await sendQuery(getLock)).locking4ReputationLock.released;
+        };
+
+        await waitUntilTrue(lockIsReleased);
+
+        expect((await sendQuery(getLock)).locking4ReputationLock).toMatchObject({
+          released: true,
+          releasedAt: releasedAt.toString(),
+        });
+    }, 100000);
+});
@@ -0,0 +1,115 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const SignalScheme = require('@daostack/migration/contracts/' + getArcVersion() + '/SignalScheme.json');
+const GenesisProtocol = require('@daostack/migration/contracts/' + getArcVersion() + '/GenesisProtocol.json');
+
+describe('SignalScheme', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let signalScheme;
+    let genesisProtocol;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        signalScheme = new web3.eth.Contract(SignalScheme.abi, addresses.SignalScheme, opts);
+        genesisProtocol = new web3.eth.Contract(GenesisProtocol.abi, addresses.GenesisProtocol, opts);
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+
+        const descriptionHash = 'QmNp4Yk9r6V8Hf6gL1JJAN7yn35Y4yNE8rC7mFCnTzN6dG';
+
+        const propose = signalScheme.methods.proposeSignal(descriptionHash);
+        const proposalId = await propose.call();
+        await propose.send();
+
+        const getProposal = `{
+          proposal(id: "${proposalId}") {
+            id
+            descriptionHash
+            stage
+            signalScheme {
+              id
+              dao {
+                id
+              }
+              signalType
+              descriptionHash
+              signal {
+                id
+                signalType
+                descriptionHash
+              }
+            }
+            scheme {
+              address
+              signalSchemeParams {
+                signalType
+                votingMachine
+              }
+            }
+          }
+        }`;
+
+        const proposalIsIndexed = async () => {
+          return (await sendQuery(getProposal)).proposal != null;
+        };
+
+        await waitUntilTrue(proposalIsIndexed);
+
+        let proposal = (await sendQuery(getProposal)).proposal;
+        expect(proposal).toMatchObject({
+          id: proposalId,
+          descriptionHash,
+          stage: 'Queued',
+          signalScheme: {
+            id: proposalId,
+            dao: { id: addresses.Avatar.toLowerCase() },
+            signalType: '1',
+            descriptionHash,
+            signal: null,
+          },
+          scheme: {
+            address: addresses.SignalScheme.toLowerCase(),
+            signalSchemeParams: {
+              signalType: '1',
+              votingMachine: addresses.GenesisProtocol.toLowerCase(),
+            },
+          },
+        });
+
+        // the scheme emits the signal when the proposal passes
+        for (let i = 0; i < 4; i++) {
+          await genesisProtocol.methods.vote(proposalId, 1, 0, accounts[i].address)
+            .send({ from: accounts[i].address });
+        }
+
+        const signalIsIndexed = async () => {
+          return (await sendQuery(getProposal)).proposal.signalScheme.signal != null;
+        };
+
+        await waitUntilTrue(signalIsIndexed);
+
+        proposal = (await sendQuery(getProposal)).proposal;
+        expect(proposal).toMatchObject({
+          stage: 'Executed',
+          signalScheme: {
+            signal: {
+              id: proposalId,
+              signalType: '1',
+              descriptionHash,
+            },
+          },
+        });
+    }, 100000);
+});
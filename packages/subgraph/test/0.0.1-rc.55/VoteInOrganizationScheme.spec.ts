@@ -0,0 +1,175 @@
+import {
+    getArcVersion,
+    getContractAddresses,
+    getOptions,
+    getWeb3,
+    sendQuery,
+    waitUntilTrue,
+} from './util';
+
+const VoteInOrganizationScheme = require(
+    '@daostack/migration/contracts/' + getArcVersion() + '/VoteInOrganizationScheme.json',
+);
+const GenesisProtocol = require('@daostack/migration/contracts/' + getArcVersion() + '/GenesisProtocol.json');
+const SchemeRegistrar = require('@daostack/migration/contracts/' + getArcVersion() + '/SchemeRegistrar.json');
+
+describe('VoteInOrganizationScheme', () => {
+    let web3;
+    let addresses;
+    let opts;
+    let voteInOrganizationScheme;
+    let schemeRegistrar;
+    let genesisProtocol;
+    beforeAll(async () => {
+        web3 = await getWeb3();
+        addresses = getContractAddresses();
+        opts = await getOptions(web3);
+        voteInOrganizationScheme = new web3.eth.Contract(
+            VoteInOrganizationScheme.abi,
+            addresses.VoteInOrganizationScheme,
+            opts,
+        );
+        schemeRegistrar = new web3.eth.Contract(SchemeRegistrar.abi, addresses.SchemeRegistrar, opts);
+        genesisProtocol = new web3.eth.Contract(GenesisProtocol.abi, addresses.GenesisProtocol, opts);
+    });
+
+    it('Sanity', async () => {
+        const accounts = web3.eth.accounts.wallet;
+        const descHash = '0x000000000000000000000000000000000000000000000000000000000000abcd';
+
+        // the scheme is not registered in the DAO by the migration: register it with
+        // the voting parameters of the SchemeRegistrar of the DAO
+        const { controllerSchemes } = await sendQuery(`{
+          controllerSchemes(where: {
+            dao: "${addresses.Avatar.toLowerCase()}",
+            address: "${addresses.SchemeRegistrar.toLowerCase()}"
+          }) {
+            paramsHash
+          }
+        }`);
+        const schemeRegistrarParams = await schemeRegistrar.methods
+            .parameters(controllerSchemes[0].paramsHash).call();
+        const voteParams = schemeRegistrarParams.voteRegisterParams;
+        await voteInOrganizationScheme.methods.setParameters(voteParams, addresses.GenesisProtocol).send();
+        const paramsHash = await voteInOrganizationScheme.methods
+            .getParametersHash(voteParams, addresses.GenesisProtocol).call();
+
+        const proposeScheme = schemeRegistrar.methods.proposeScheme(
+            addresses.Avatar,
+            addresses.VoteInOrganizationScheme,
+            paramsHash,
+            '0x00000010',
+            descHash,
+        );
+        const proposeSchemeProposalId = await proposeScheme.call();
+        await proposeScheme.send();
+
+        for (let i = 0; i < 4; i++) {
+            await genesisProtocol.methods.vote(
+                proposeSchemeProposalId,
+                1,
+                0,
+                accounts[0].address /* unused by the contract */)
+                .send({ from: accounts[i].address });
+        }
+
+        const schemeRegisteredIsIndexed = async () => {
+            return (await sendQuery(`{
+              controllerSchemes(where: {
+                dao: "${addresses.Avatar.toLowerCase()}",
+                address: "${addresses.VoteInOrganizationScheme.toLowerCase()}"
+              }) {
+                id
+              }
+            }`)).controllerSchemes.length > 0;
+        };
+
+        await waitUntilTrue(schemeRegisteredIsIndexed);
+
+        // the proposal to vote on, which is not voted on itself
+        const proposeOriginal = schemeRegistrar.methods.proposeScheme(
+            addresses.Avatar,
+            accounts[1].address,
+            paramsHash,
+            '0x00000000',
+            descHash,
+        );
+        const originalProposalId = await proposeOriginal.call();
+        await proposeOriginal.send();
+
+        const proposeVote = voteInOrganizationScheme.methods.proposeVote(
+            addresses.Avatar,
+            addresses.GenesisProtocol,
+            originalProposalId,
+            2,
+            descHash,
+        );
+        const proposalId = await proposeVote.call();
+        await proposeVote.send();
+
+        const getProposal = `{
+          proposal(id: "${proposalId}") {
+            id
+            descriptionHash
+            stage
+            voteInOrganization {
+              id
+              dao {
+                id
+              }
+              originalIntVote
+              originalProposalId
+              originalProposal {
+                id
+              }
+              originalDAO {
+                id
+              }
+              vote
+              descriptionHash
+              decision
+              executed
+              callReturnValue
+            }
+            scheme {
+              address
+              voteInOrganizationParams {
+                votingMachine
+              }
+            }
+          }
+        }`;
+
+        const proposalIsIndexed = async () => {
+          return (await sendQuery(getProposal)).proposal != null;
+        };
+
+        await waitUntilTrue(proposalIsIndexed);
+
+        const { proposal } = await sendQuery(getProposal);
+        expect(proposal).toMatchObject({
+          id: proposalId,
+          descriptionHash: descHash,
+          stage: 'Queued',
+          voteInOrganization: {
+            id: proposalId,
+            dao: { id: addresses.Avatar.toLowerCase() },
+            originalIntVote: addresses.GenesisProtocol.toLowerCase(),
+            originalProposalId,
+            originalProposal: { id: originalProposalId },
+            originalDAO: { id: addresses.Avatar.toLowerCase() },
+            vote: '2',
+            descriptionHash: descHash,
+            decision: null,
+            executed: null,
+            callReturnValue: null,
+          },
+          scheme: {
+            address: addresses.VoteInOrganizationScheme.toLowerCase(),
+            voteInOrganizationParams: {
+              votingMachine: addresses.GenesisProtocol.toLowerCase(),
+            },
+          },
+        });
+    }, 100000);
+});
@@ -65,8 +65,16 @@ export function getContractAddresses() {
     NativeReputation: addresses.private.dao[arcVersion].Reputation,
     GenericSchemeMultiCall: addresses.private.dao[arcVersion].Schemes[2].address,
     ContinuousLocking4Reputation: addresses.private.dao[arcVersion].Schemes[3].address,
+    SignalScheme: addresses.private.dao[arcVersion].Schemes[4].address,
+    Auction4Reputation: addresses.private.dao[arcVersion].Schemes[5].address,
+    LockingEth4Reputation: addresses.private.dao[arcVersion].Schemes[6].address,
+    LockingToken4Reputation: addresses.private.dao[arcVersion].Schemes[7].address,
+    ExternalLocking4Reputation: addresses.private.dao[arcVersion].Schemes[8].address,
+    Wallet: addresses.private.dao[arcVersion].StandAloneContracts[0].address,
     DxDaoSchemeConstraints:
       addresses.private.dao[arcVersion].StandAloneContracts[5].address,
+    PriceOracleMock: addresses.private.dao[arcVersion].StandAloneContracts[6].address,
+    ExternalTokenLockerMock: addresses.private.dao[arcVersion].StandAloneContracts[7].address,
   };
 }
 